@@ -5,6 +5,11 @@ const SUPABASE_URL = process.env.SUPABASE_URL || '';
 const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY || '';
 
 import variants from '../variants.json';
+import { analyzeExperiment, loadExperimentCalls } from '../src/core/experiment-stats';
+import { ExperimentRegistry } from '../src/core/experiment-registry';
+import { EmailExperimentService } from '../src/core/email-experiments';
+import { ObjectionAnalyzer, ObjectionDimension } from '../src/core/objection-analytics';
+import { CallScorecardService } from '../src/core/call-scorecard';
 
 function getVariantName(id: string): string {
   return variants.variants.find((v: any) => v.id === id)?.name || id || 'unknown';
@@ -17,10 +22,55 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const by = req.query.by as string | undefined;
 
   try {
+    // A/B experiment analysis: rates with Wilson/Bayesian intervals, pairwise tests, recommendation
+    if (by === 'experiment') {
+      // ?experiment=<key>: calls that ran that experiment's variant versions, since it started
+      const key = req.query.experiment as string | undefined;
+      if (key) {
+        const { experiment, variants: current, history } = await new ExperimentRegistry(supabase).get(key);
+        const since = new Date(experiment.started_at || experiment.created_at);
+        const until = experiment.stopped_at ? new Date(experiment.stopped_at) : undefined;
+        const calls = await loadExperimentCalls(supabase, since, until, history.map(v => v.id));
+        const names = Object.fromEntries(current.map(v => [v.variant_id, v.name]));
+        return res.json({ experiment, ...analyzeExperiment(calls, { since, names }) });
+      }
+
+      const days = Math.min(Math.max(parseInt((req.query.days as string) || '30', 10) || 30, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const calls = await loadExperimentCalls(supabase, since);
+      return res.json(analyzeExperiment(calls, { since }));
+    }
+
+    // Email subject/body A/B: open, reply and bounce rates per sequence step variant
+    if (by === 'email-experiment') {
+      const days = Math.min(Math.max(parseInt((req.query.days as string) || '30', 10) || 30, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      return res.json(await new EmailExperimentService(supabase).report(since));
+    }
+
+    // Objection frequency from call_objections: ?group=variant|industry|script
+    if (by === 'objections') {
+      const group = ((req.query.group as string) || 'variant') as ObjectionDimension;
+      if (!['variant', 'industry', 'script'].includes(group)) {
+        return res.status(400).json({ error: 'group must be variant, industry or script' });
+      }
+      const days = Math.min(Math.max(parseInt((req.query.days as string) || '30', 10) || 30, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      return res.json(await new ObjectionAnalyzer(supabase).report(group, since));
+    }
+
+    // Call QA scorecards per variant (call_logs.qa_scorecard)
+    if (by === 'qa') {
+      const days = Math.min(Math.max(parseInt((req.query.days as string) || '30', 10) || 30, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      return res.json(await new CallScorecardService(supabase).report(since));
+    }
+
     if (by === 'variant') {
       const { data, error } = await supabase
         .from('call_logs')
-        .select('agent_variant, outcome, duration_seconds');
+        .select('agent_variant, outcome, duration_seconds')
+        .neq('status', 'blocked');
 
       if (error) throw error;
 
@@ -60,7 +110,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Default: overall stats
     const { data, error } = await supabase
       .from('call_logs')
-      .select('outcome, duration_seconds, status');
+      .select('outcome, duration_seconds, status')
+      .neq('status', 'blocked');
 
     if (error) throw error;
 
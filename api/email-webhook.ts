@@ -19,17 +19,22 @@ CREATE INDEX IF NOT EXISTS idx_email_events_created_at ON email_events(created_a
 */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ProspectTransitionService } from '../src/core/prospect-transitions';
+import { SuppressionService } from '../src/core/suppression';
+import { EmailAttribution, EmailExperimentService } from '../src/core/email-experiments';
 
 const SUPABASE_URL = process.env.SUPABASE_URL || '';
 const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY || '';
 
 // Instantly webhook event types
 interface InstantlyWebhookPayload {
-  event_type: 'reply_received' | 'email_sent' | 'email_opened' | 'lead_unsubscribed' | string;
+  event_type: 'reply_received' | 'email_sent' | 'email_opened' | 'email_bounced' | 'lead_unsubscribed' | string;
   lead_email?: string;
   email?: string;
   campaign_id?: string;
   campaign_name?: string;
+  step?: number; // 1-based sequence step the event belongs to
   timestamp?: string;
   [key: string]: any;
 }
@@ -124,6 +129,9 @@ async function processWebhook(
   // Find prospect by email
   const prospectId = await findProspectByEmail(email, sbHeaders);
 
+  // Credit the event to the lead's email A/B variant for that step
+  const variant = await attributeVariant(payload, email, eventType);
+
   // Log the event to email_events table
   const emailEvent: EmailEvent = {
     event_type: eventType,
@@ -133,19 +141,32 @@ async function processWebhook(
     metadata: {
       campaign_name: payload.campaign_name,
       timestamp: payload.timestamp,
+      sequence_step: variant?.step,
+      email_variant: variant?.variantId,
       ...payload, // Include full payload for debugging
     },
   };
 
-  await logEmailEvent(emailEvent, sbHeaders);
+  const eventId = await logEmailEvent(emailEvent, sbHeaders);
+
+  // Unsubscribes go on the global suppression list, matched prospect or not
+  if (eventType === 'lead_unsubscribed') {
+    try {
+      await new SuppressionService(createClient(SUPABASE_URL, SUPABASE_KEY)).suppress(
+        { email },
+        { source: 'email_unsubscribe', reason: payload.campaign_name || undefined, prospectId }
+      );
+    } catch (err: any) {
+      console.error('[email-webhook] Failed to suppress email:', err.message);
+    }
+  }
 
   // Update prospect state if applicable
   const newEmailState = EMAIL_STATE_MAP[eventType];
   const newPipelineState = PIPELINE_STATE_MAP[eventType];
 
   if (newEmailState && prospectId) {
-    await updateProspectState(prospectId, newEmailState, newPipelineState, sbHeaders);
-    console.log(`[email-webhook] Updated prospect ${prospectId}: email_state=${newEmailState}${newPipelineState ? `, pipeline_state=${newPipelineState}` : ''}`);
+    await updateProspectState(prospectId, newEmailState, newPipelineState, eventType, eventId);
 
   // Notify Discord
   const prospectName2 = await getProspectName(prospectId);
@@ -179,7 +200,21 @@ async function findProspectByEmail(email: string, headers: Record<string, string
   }
 }
 
-async function logEmailEvent(event: EmailEvent, headers: Record<string, string>): Promise<void> {
+async function attributeVariant(
+  payload: InstantlyWebhookPayload,
+  email: string,
+  eventType: string
+): Promise<EmailAttribution | null> {
+  try {
+    const experiments = new EmailExperimentService(createClient(SUPABASE_URL, SUPABASE_KEY));
+    return await experiments.attribute(email, payload.campaign_id, eventType, Number(payload.step) || undefined);
+  } catch (err: any) {
+    console.error('[email-webhook] Failed to attribute email variant:', err.message);
+    return null;
+  }
+}
+
+async function logEmailEvent(event: EmailEvent, headers: Record<string, string>): Promise<string | null> {
   try {
     const response = await fetch(
       `${SUPABASE_URL}/rest/v1/email_events`,
@@ -193,43 +228,53 @@ async function logEmailEvent(event: EmailEvent, headers: Record<string, string>)
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`[email-webhook] Failed to log event: ${response.status} ${errorText}`);
-    } else {
-      console.log(`[email-webhook] Logged ${event.event_type} event for ${event.prospect_email}`);
+      return null;
     }
+
+    console.log(`[email-webhook] Logged ${event.event_type} event for ${event.prospect_email}`);
+    const rows = await response.json() as Array<{ id: string }>;
+    return rows?.[0]?.id || null;
   } catch (err: any) {
     console.error('[email-webhook] Error logging event:', err.message);
+    return null;
   }
 }
 
+// State moves go through the transition service: out-of-order email events are
+// rejected, pipeline moves the state machine does not expect are quarantined
 async function updateProspectState(
   prospectId: string, 
   emailState: string, 
   pipelineState: string | undefined,
-  headers: Record<string, string>
+  eventType: string,
+  eventId: string | null
 ): Promise<void> {
   try {
-    const updateData: Record<string, any> = {
-      email_state: emailState,
-      updated_at: new Date().toISOString(),
-    };
+    const transitions = new ProspectTransitionService(createClient(SUPABASE_URL, SUPABASE_KEY));
+    const email = await transitions.transition({
+      prospectId,
+      field: 'email',
+      to: emailState,
+      actor: 'email-webhook',
+      event: eventType,
+      eventId,
+    });
 
+    let pipelineStatus = '';
     if (pipelineState) {
-      updateData.pipeline_state = pipelineState;
+      const pipeline = await transitions.transition({
+        prospectId,
+        field: 'pipeline',
+        to: pipelineState,
+        actor: 'email-webhook',
+        event: eventType,
+        eventId,
+        onInvalid: 'quarantine',
+      });
+      pipelineStatus = `, pipeline_state=${pipelineState} (${pipeline.status})`;
     }
 
-    const response = await fetch(
-      `${SUPABASE_URL}/rest/v1/prospects?id=eq.${encodeURIComponent(prospectId)}`,
-      {
-        method: 'PATCH',
-        headers,
-        body: JSON.stringify(updateData),
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[email-webhook] Failed to update prospect: ${response.status} ${errorText}`);
-    }
+    console.log(`[email-webhook] Prospect ${prospectId}: email_state=${emailState} (${email.status})${pipelineStatus}`);
   } catch (err: any) {
     console.error('[email-webhook] Error updating prospect:', err.message);
   }
@@ -1,5 +1,8 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import { ProspectTransitionService } from '../src/core/prospect-transitions';
+import { SuppressionService } from '../src/core/suppression';
 
 /**
  * Incoming SMS webhook — Twilio sends here when a prospect texts back.
@@ -8,7 +11,7 @@ import crypto from 'crypto';
  * 1. Validate Twilio signature (optional but recommended)
  * 2. Look up prospect by phone number
  * 3. Log the inbound message to touchpoints
- * 4. Update prospect state (contacted → engaged)
+ * 4. Update prospect state (contacted → engaged); STOP adds the number to the suppression list
  * 5. If message contains booking intent, flag for follow-up
  * 6. Auto-reply if configured
  */
@@ -96,7 +99,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // 1. Look up prospect by phone
     const prospectRes = await fetch(
-      `${SUPABASE_URL}/rest/v1/prospects?phone=eq.${encodeURIComponent(normalizedPhone)}&select=id,first_name,last_name,company_name,email,state,campaign_id&limit=1`,
+      `${SUPABASE_URL}/rest/v1/prospects?phone=eq.${encodeURIComponent(normalizedPhone)}&select=id,first_name,last_name,company_name,email,pipeline_state,campaign_id&limit=1`,
       { headers: sbHeaders }
     );
     const prospects = await prospectRes.json() as any[];
@@ -106,7 +109,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       // Also try without +1 prefix
       const altPhone = fromPhone.replace(/\D/g, '');
       const altRes = await fetch(
-        `${SUPABASE_URL}/rest/v1/prospects?phone=like.*${altPhone.slice(-10)}&select=id,first_name,last_name,company_name,email,state,campaign_id&limit=1`,
+        `${SUPABASE_URL}/rest/v1/prospects?phone=like.*${altPhone.slice(-10)}&select=id,first_name,last_name,company_name,email,pipeline_state,campaign_id&limit=1`,
         { headers: sbHeaders }
       );
       const altProspects = await altRes.json() as any[];
@@ -146,7 +149,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
     console.log(`[incoming-sms] Touchpoint logged: ${tpRes.status}`);
 
-    // 3. Update prospect state if applicable
+    // 3. STOP suppresses the number everywhere, known prospect or not
+    if (intent === 'stop') {
+      try {
+        await new SuppressionService(createClient(SUPABASE_URL, SUPABASE_KEY)).suppress(
+          { phone: normalizedPhone },
+          { source: 'sms_stop', reason: body.substring(0, 200), prospectId }
+        );
+      } catch (err: any) {
+        console.error('[incoming-sms] Failed to suppress number:', err.message);
+      }
+    }
+
+    // 4. Update prospect state if applicable
     if (prospectId) {
       let newState: string | null = null;
       
@@ -172,17 +187,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         newState = 'engaged'; // Any reply = engagement
       }
 
-      if (newState) {
-        await fetch(`${SUPABASE_URL}/rest/v1/prospects?id=eq.${prospectId}`, {
-          method: 'PATCH',
-          headers: { ...sbHeaders, 'Prefer': 'return=minimal' },
-          body: JSON.stringify({ state: newState, sms_state: intent === 'stop' ? 'opted_out' : 'replied' }),
+      const transitions = new ProspectTransitionService(createClient(SUPABASE_URL, SUPABASE_KEY));
+      try {
+        await transitions.transition({
+          prospectId,
+          field: 'sms',
+          to: intent === 'stop' ? 'opted_out' : 'replied',
+          actor: 'incoming-sms',
+          event: `sms_${intent}`,
+          eventId: messageSid,
         });
-        console.log(`[incoming-sms] State updated: ${prospect.pipeline_state} → ${newState}`);
+
+        if (newState) {
+          const result = await transitions.transition({
+            prospectId,
+            field: 'pipeline',
+            to: newState,
+            actor: 'incoming-sms',
+            event: `sms_${intent}`,
+            eventId: messageSid,
+            onInvalid: 'quarantine',
+          });
+          console.log(`[incoming-sms] State ${result.status}: ${result.from ?? '(unset)'} → ${newState}`);
+        }
+      } catch (err: any) {
+        console.error('[incoming-sms] State update failed:', err.message);
       }
     }
 
-    // 4. Return TwiML response
+    // 5. Return TwiML response
     // For STOP: Twilio handles auto-opt-out, but we acknowledge
     // For interested: no auto-reply — Hunter will follow up
     // For questions: no auto-reply — flag for human/agent review
@@ -1,6 +1,12 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 // Inline variant lookup to avoid module issues in Vercel serverless context
 import variants from '../variants.json';
+// Dependency-free parsers, safe to bundle here
+import { extractCallback, parseCallbackTime } from '../src/core/callback-parser';
+import { BookingResolution, confirmSlotStillFree, extractOfferedSlots, flattenFreeSlots, holdForConfirmation, resolveBookingTime } from '../src/core/booking-resolver';
+import { scoreCall } from '../src/core/call-scorecard';
+import { resolveTimezone } from '../src/core/timezone-resolver';
+import { CallOutcome, TranscriptClassification, createTranscriptClassifier } from '../src/core/transcript-classifier';
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || '';
 const SUPABASE_URL = process.env.SUPABASE_URL || '';
@@ -10,8 +16,45 @@ const GHL_LOCATION_ID = process.env.GHL_LOCATION_ID || '';
 const GHL_CALENDAR_ID = process.env.GHL_CALENDAR_ID || '';
 const GHL_USER_ID = process.env.GHL_USER_ID || '';
 
-function getVariantByAgentId(agentId: string) {
-  return variants.variants.find((v: any) => v.agentId === agentId);
+// Variant for an agent: the running experiment's version that was live when the call started
+// (src/core/experiment-registry.ts), else the variants.json seed. Draft and stopped experiments reuse the
+// same agent ids, so only the running one counts.
+async function findVariant(agentId: string, at: string): Promise<{ id: string; versionId: string | null } | null> {
+  if (agentId && SUPABASE_URL) {
+    try {
+      const live = `created_at=lte.${encodeURIComponent(at)}&or=(retired_at.is.null,retired_at.gt.${encodeURIComponent(at)})`;
+      const res = await fetch(
+        `${SUPABASE_URL}/rest/v1/experiment_variants?agent_id=eq.${encodeURIComponent(agentId)}&${live}&experiments.status=eq.running&order=created_at.desc&limit=1&select=id,variant_id,experiments!inner(status)`,
+        { headers: { 'apikey': SUPABASE_KEY, 'Authorization': `Bearer ${SUPABASE_KEY}` } }
+      );
+      const rows = res.ok ? await res.json() as any[] : [];
+      if (rows.length) return { id: rows[0].variant_id, versionId: rows[0].id };
+    } catch (err: any) {
+      console.error('[post-call-webhook] Variant registry lookup failed:', err.message);
+    }
+  }
+  const seed = variants.variants.find((v: any) => v.agentId === agentId);
+  return seed ? { id: seed.id, versionId: null } : null;
+}
+
+// The prospect's stored location (timezone, state, city) by id, or by phone for calls not placed by the dialer
+async function findProspectLocation(
+  prospectId: string | null | undefined,
+  phone: string
+): Promise<{ timezone: string | null; state: string | null; location: string | null } | null> {
+  if (!SUPABASE_URL || (!prospectId && !phone)) return null;
+  const filter = prospectId ? `id=eq.${encodeURIComponent(prospectId)}` : `phone=eq.${encodeURIComponent(phone)}`;
+  try {
+    const res = await fetch(
+      `${SUPABASE_URL}/rest/v1/prospects?${filter}&limit=1&select=timezone,state,location`,
+      { headers: { 'apikey': SUPABASE_KEY, 'Authorization': `Bearer ${SUPABASE_KEY}` } }
+    );
+    const rows = res.ok ? await res.json() as Array<{ timezone: string | null; state: string | null; location: string | null }> : [];
+    return rows[0] || null;
+  } catch (err: any) {
+    console.error('[post-call-webhook] Prospect lookup failed:', err.message);
+    return null;
+  }
 }
 
 function ghlHeaders() {
@@ -26,243 +69,107 @@ function ghlHeaders() {
 
 interface BookingDetails {
   booked: boolean;
-  selectedTime: string | null;  // ISO string or natural language
   confirmedEmail: string | null;
   confirmedName: string | null;
-  outcome: 'booked' | 'interested' | 'callback' | 'not_interested' | 'voicemail' | 'no_answer' | 'unknown';
+  outcome: CallOutcome;
+  doNotContact: boolean; // prospect asked to be removed / not called again
+  classification: TranscriptClassification;
 }
 
-function analyzeTranscript(
+// LLM-backed when configured, regex rules otherwise (and whenever the LLM fails)
+const classifier = createTranscriptClassifier();
+
+async function analyzeTranscript(
   transcript: Array<{ role: string; message: string }>,
   dynamicVars: Record<string, string>,
   analysis: any
-): BookingDetails {
-  const result: BookingDetails = {
-    booked: false,
-    selectedTime: null,
-    confirmedEmail: dynamicVars.email || null,
+): Promise<BookingDetails> {
+  const classification = await classifier.classify({ transcript, analysis });
+  const booked = classification.outcome === 'booked';
+
+  return {
+    booked,
+    confirmedEmail: classification.email || dynamicVars.email || null,
     confirmedName: dynamicVars.first_name ? `${dynamicVars.first_name} ${dynamicVars.last_name || ''}`.trim() : null,
-    outcome: 'unknown',
+    outcome: classification.outcome,
+    doNotContact: classification.doNotContact,
+    classification,
   };
-
-  const fullText = transcript.map(t => `${t.role}: ${t.message}`).join('\n').toLowerCase();
-
-  // Check for voicemail
-  if (fullText.includes('leave a message') || fullText.includes('leave your message') || fullText.includes('after the beep') || fullText.includes('voicemail')) {
-    result.outcome = 'voicemail';
-    return result;
-  }
-
-  // Check for not interested
-  if (/\b(not interested|no thanks|no thank you|don't call|stop calling|remove me)\b/.test(fullText)) {
-    result.outcome = 'not_interested';
-    return result;
-  }
-
-  // Check for callback
-  if (/\b(call back|call me later|try again|busy right now|bad time)\b/.test(fullText)) {
-    result.outcome = 'callback';
-    return result;
-  }
-
-  // Check for booking — look for confirmation patterns
-  const bookingPatterns = [
-    /you'?re all set/i,
-    /i'?ll send you a calendar invite/i,
-    /calendar invite.*email/i,
-    /booked|appointment.*confirmed|scheduled/i,
-    /tuesday|wednesday|thursday|friday|monday|saturday|sunday.*(?:morning|afternoon|evening|at \d)/i,
-  ];
-
-  const agentMessages = transcript.filter(t => t.role === 'agent').map(t => t.message).join(' ');
-  const userMessages = transcript.filter(t => t.role === 'user').map(t => t.message).join(' ');
-
-  // Did the agent confirm a booking?
-  const agentConfirmedBooking = bookingPatterns.some(p => p.test(agentMessages));
-  // Did the user agree to a time?
-  const userAgreedToTime = /\b(works|sounds good|perfect|yes|yeah|that works|let'?s do it|tuesday|wednesday|thursday|friday|monday|morning|afternoon|evening)\b/i.test(userMessages);
-
-  if (agentConfirmedBooking && userAgreedToTime) {
-    result.booked = true;
-    result.outcome = 'booked';
-
-    // Extract the time they agreed to
-    result.selectedTime = extractBookedTime(transcript);
-
-    // Check if email was confirmed/corrected in the call
-    const emailMatch = fullText.match(/(?:email|e-mail).*?([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/i);
-    if (emailMatch) {
-      result.confirmedEmail = emailMatch[1];
-    }
-  } else if (/\b(interested|tell me more|sounds good|sounds great|send me info|learn more)\b/.test(userMessages)) {
-    result.outcome = 'interested';
-  }
-
-  // Use ElevenLabs analysis as fallback
-  if (result.outcome === 'unknown' && analysis?.call_successful === 'success') {
-    const summary = (analysis.transcript_summary || '').toLowerCase();
-    if (summary.includes('book') || summary.includes('schedul') || summary.includes('appointment')) {
-      result.booked = true;
-      result.outcome = 'booked';
-      result.selectedTime = extractBookedTime(transcript);
-    }
-  }
-
-  return result;
 }
 
-function extractBookedTime(transcript: Array<{ role: string; message: string }>): string | null {
-  // Look through the conversation for time references after the agent offered slots
-  const fullText = transcript.map(t => `[${t.role}]: ${t.message}`).join('\n');
-
-  // Common patterns: "Tuesday morning at 9", "Thursday at 5", "Friday afternoon"
-  const dayMap: Record<string, number> = {};
-  const now = new Date();
-  for (let i = 0; i <= 7; i++) {
-    const d = new Date(now);
-    d.setDate(d.getDate() + i);
-    const dayName = d.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    if (!dayMap[dayName]) dayMap[dayName] = i; // First occurrence wins (closest day)
-  }
+// Mirrors SuppressionService.suppress (src/core/suppression.ts) over REST: phones keyed by
+// their last 10 digits, emails lowercased; existing entries are kept
+async function suppressContact(phone: string, email: string | undefined, conversationId: string): Promise<void> {
+  const rows: Array<Record<string, string>> = [];
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length >= 7) rows.push({ type: 'phone', value: digits.slice(-10) });
+  const normalizedEmail = (email || '').trim().toLowerCase();
+  if (/^[^@\s]+@[^@\s]+$/.test(normalizedEmail)) rows.push({ type: 'email', value: normalizedEmail });
+  if (!rows.length) return;
 
-  // Convert word numbers to digits
-  const wordToNum: Record<string, string> = {
-    'one': '1', 'two': '2', 'three': '3', 'four': '4', 'five': '5',
-    'six': '6', 'seven': '7', 'eight': '8', 'nine': '9', 'ten': '10',
-    'eleven': '11', 'twelve': '12', 'thirteen': '13', 'fourteen': '14',
-    'fifteen': '15', 'sixteen': '16', 'seventeen': '17', 'eighteen': '18',
-    'nineteen': '19', 'twenty': '20', 'thirty': '30', 'forty': '40', 'fifty': '50',
-  };
-  let normalizedText = fullText;
-  
-  // Handle compound numbers like "nine thirty" → "9:30"
-  // IMPORTANT: Handle compound ordinals BEFORE single ordinals to avoid "twenty-fourth" → "20-4"
-  
-  // Build compound ordinals first (twenty-first, twenty-fourth, etc)
-  const ordinalMap: Record<string, string> = {};
-  const tensOnes: Record<string, string> = {
-    'twenty': '2', 'thirty': '3', 'forty': '4', 'fifty': '5'
-  };
-  const onesOnes: Record<string, string> = {
-    'first': '1', 'second': '2', 'third': '3', 'fourth': '4', 'fifth': '5',
-    'sixth': '6', 'seventh': '7', 'eighth': '8', 'ninth': '9'
-  };
-  
-  // Add compound ordinals: twenty-first, twenty-fourth, thirty-first
-  for (const [tens, tVal] of Object.entries(tensOnes)) {
-    for (const [ones, oVal] of Object.entries(onesOnes)) {
-      ordinalMap[`${tens}-${ones}`] = `${tVal}${oVal}`;
-      ordinalMap[`${tens} ${ones}`] = `${tVal}${oVal}`;
-    }
-  }
-  // Add single ordinals
-  for (const [ones, oVal] of Object.entries(onesOnes)) ordinalMap[ones] = oVal;
-  ordinalMap['tenth'] = '10';
-  ordinalMap['eleventh'] = '11';
-  ordinalMap['twelfth'] = '12';
-  ordinalMap['thirteenth'] = '13';
-  ordinalMap['fourteenth'] = '14';
-  ordinalMap['fifteenth'] = '15';
-  ordinalMap['sixteenth'] = '16';
-  ordinalMap['seventeenth'] = '17';
-  ordinalMap['eighteenth'] = '18';
-  ordinalMap['nineteenth'] = '19';
-  ordinalMap['twentieth'] = '20';
-  ordinalMap['thirtieth'] = '30';
-  
-  // Sort by length (longest first) so "twenty-fourth" replaces before "fourth"
-  const sortedOrdinals = Object.entries(ordinalMap).sort((a, b) => b[0].length - a[0].length);
-  for (const [word, digit] of sortedOrdinals) {
-    normalizedText = normalizedText.replace(new RegExp(word, 'gi'), digit);
-  }
-  
-  // Handle "nine thirty" → "9:30" (hour + minutes as words)
-  normalizedText = normalizedText.replace(/\b(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(thirty|fifteen|forty-five|forty five|twenty|ten|fifty)\b/gi, (_, h, m) => {
-    const hr = wordToNum[h.toLowerCase()] || h;
-    const min = wordToNum[m.toLowerCase().replace(/[-\s]/, '')] || m;
-    return `${hr}:${min}`;
-  });
-  
-  // Now convert remaining single word numbers
-  for (const [word, digit] of Object.entries(wordToNum)) {
-    normalizedText = normalizedText.replace(new RegExp(`\\b${word}\\b`, 'gi'), digit);
-  }
-  
-  // Handle month names for explicit date references: "February 24" 
-  const monthMap: Record<string, number> = {
-    'january': 0, 'february': 1, 'march': 2, 'april': 3, 'may': 4, 'june': 5,
-    'july': 6, 'august': 7, 'september': 8, 'october': 9, 'november': 10, 'december': 11,
-  };
-  const explicitDateMatch = normalizedText.match(/\b(january|february|march|april|may|june|july|august|september|october|november|december)\s+(\d{1,2})\b/i);
-  let explicitDate: Date | null = null;
-  if (explicitDateMatch) {
-    const month = monthMap[explicitDateMatch[1].toLowerCase()];
-    const day = parseInt(explicitDateMatch[2]);
-    explicitDate = new Date(now.getFullYear(), month, day);
-    // Only bump year if the date is more than 7 days in the past (not just slightly behind UTC)
-    const sevenDaysAgo = new Date(now);
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    if (explicitDate < sevenDaysAgo) explicitDate.setFullYear(now.getFullYear() + 1);
+  try {
+    const res = await fetch(`${SUPABASE_URL}/rest/v1/suppressions?on_conflict=type,value`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_KEY,
+        'Authorization': `Bearer ${SUPABASE_KEY}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'resolution=ignore-duplicates,return=minimal',
+      },
+      body: JSON.stringify(rows.map(r => ({ ...r, source: 'call_dnc', reason: `conversation ${conversationId}` }))),
+    });
+    console.log(`[post-call-webhook] ⛔ Do-not-contact: suppressed ${rows.map(r => r.type).join(' + ')} (${res.status})`);
+  } catch (err: any) {
+    console.error('[post-call-webhook] Failed to suppress contact:', err.message);
   }
+}
 
-  // Find the time the user agreed to
-  const timePatterns = [
-    // "Tuesday morning at 9" or "Tuesday at 9"
-    /\b(monday|tuesday|wednesday|thursday|friday|saturday|sunday)\s+(?:morning|afternoon|evening)?\s*(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/gi,
-    // "9 am on Tuesday"
-    /(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?\s*(?:on\s+)?(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/gi,
-  ];
-
-  for (const pattern of timePatterns) {
-    const matches = [...normalizedText.matchAll(pattern)];
-    if (matches.length > 0) {
-      // Take the last match (most likely the confirmed one)
-      const match = matches[matches.length - 1];
-      const matchText = match[0].toLowerCase();
-
-      // Find the day
-      let dayOffset = 0;
-      for (const [day, offset] of Object.entries(dayMap)) {
-        if (matchText.includes(day)) {
-          dayOffset = offset;
-          break;
-        }
-      }
-
-      // Find the hour
-      const hourMatch = matchText.match(/(\d{1,2})(?::(\d{2}))?/);
-      if (hourMatch && (dayOffset > 0 || explicitDate)) {
-        let hour = parseInt(hourMatch[1]);
-        const minutes = hourMatch[2] ? parseInt(hourMatch[2]) : 0;
-
-        // Determine AM/PM
-        if (matchText.includes('pm') || matchText.includes('p.m.') || matchText.includes('afternoon') || matchText.includes('evening')) {
-          if (hour < 12) hour += 12;
-        } else if (matchText.includes('morning') && hour < 6) {
-          hour += 12;
-        }
-        // If no AM/PM specified, assume: <=7 = PM, 8-11 = AM
-        if (!matchText.includes('am') && !matchText.includes('pm') && !matchText.includes('morning') && !matchText.includes('afternoon') && !matchText.includes('evening')) {
-          if (hour <= 7) hour += 12;
-        }
-
-        let bookDate: Date;
-        if (explicitDate) {
-          bookDate = new Date(explicitDate);
-        } else if (dayOffset > 0) {
-          bookDate = new Date(now);
-          bookDate.setDate(bookDate.getDate() + dayOffset);
-        } else {
-          continue; // No valid date found in this match
-        }
-        bookDate.setHours(hour, minutes, 0, 0);
-        console.log(`[extractBookedTime] Parsed: day=${dayOffset}, hour=${hour}, min=${minutes}, explicit=${!!explicitDate}, result=${bookDate.toISOString()}`);
-        return bookDate.toISOString();
-      }
-    }
+// Mirrors BookingQueue.record (src/core/booking-queue.ts) over REST. A lost decision only costs the
+// audit row, so failures are logged rather than thrown
+async function recordBookingDecision(decision: {
+  conversationId: string;
+  prospectName: string | null;
+  prospectPhone: string;
+  prospectEmail: string | null;
+  ghlContactId: string | null;
+  ghlAppointmentId: string | null;
+  timezone: string;
+  offeredSlots: string[] | null;
+  offeredSource: 'transcript' | 'calendar' | null;
+  resolution: BookingResolution;
+}): Promise<void> {
+  const { resolution } = decision;
+  try {
+    const res = await fetch(`${SUPABASE_URL}/rest/v1/booking_decisions`, {
+      method: 'POST',
+      headers: {
+        'apikey': SUPABASE_KEY,
+        'Authorization': `Bearer ${SUPABASE_KEY}`,
+        'Content-Type': 'application/json',
+        'Prefer': 'return=minimal',
+      },
+      body: JSON.stringify({
+        conversation_id: decision.conversationId,
+        prospect_name: decision.prospectName,
+        prospect_phone: decision.prospectPhone || null,
+        prospect_email: decision.prospectEmail,
+        ghl_contact_id: decision.ghlContactId,
+        ghl_appointment_id: decision.ghlAppointmentId,
+        status: resolution.status === 'matched' ? 'booked' : 'needs_confirmation',
+        reason: resolution.reason,
+        slot_time: resolution.slot,
+        spoken_time: resolution.spokenTime,
+        timezone: decision.timezone,
+        offered_slots: decision.offeredSlots,
+        offered_source: decision.offeredSource,
+        conflicts: resolution.conflicts,
+        excerpt: resolution.excerpt,
+      }),
+    });
+    if (!res.ok) console.error(`[post-call-webhook] Failed to record booking decision: ${res.status} ${(await res.text()).substring(0, 200)}`);
+  } catch (err: any) {
+    console.error('[post-call-webhook] Failed to record booking decision:', err.message);
   }
-
-  return null;
 }
 
 // ─── GHL Integration ───────────────────────────────────────────────
@@ -338,14 +245,28 @@ async function findOrCreateGHLContact(data: {
   return createData.contact?.id || null;
 }
 
-async function bookGHLAppointment(contactId: string, booking: BookingDetails, prospectData: Record<string, string>, variant: string): Promise<any> {
-  if (!booking.selectedTime) {
-    console.error('[post-call-webhook] No selected time for booking');
+// Free calendar slots from `from` over the next two weeks (the window get-available-slots offers from);
+// null when the calendar can't be read
+async function fetchFreeSlots(from: Date): Promise<string[] | null> {
+  try {
+    const res = await fetch(
+      `https://services.leadconnectorhq.com/calendars/${GHL_CALENDAR_ID}/free-slots?startDate=${from.getTime()}&endDate=${from.getTime() + 14 * 86400000}`,
+      { headers: ghlHeaders() }
+    );
+    if (!res.ok) {
+      console.error(`[post-call-webhook] Free-slots lookup failed: ${res.status}`);
+      return null;
+    }
+    return flattenFreeSlots(await res.json() as Record<string, any>);
+  } catch (err: any) {
+    console.error('[post-call-webhook] Free-slots lookup failed:', err.message);
     return null;
   }
+}
 
-  const startTime = new Date(booking.selectedTime).toISOString();
-  const endTime = new Date(new Date(booking.selectedTime).getTime() + 30 * 60000).toISOString();
+async function bookGHLAppointment(contactId: string, slot: string, booking: BookingDetails, prospectData: Record<string, string>, variant: string): Promise<any> {
+  const startTime = new Date(slot).toISOString();
+  const endTime = new Date(new Date(slot).getTime() + 30 * 60000).toISOString();
   const name = booking.confirmedName || `${prospectData.first_name || ''} ${prospectData.last_name || ''}`.trim();
   const company = prospectData.company_name || '';
 
@@ -427,7 +348,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }, null, 2));
 
     const usedAgentId = agent_id || conversationData.agent_id;
-    const variant = getVariantByAgentId(usedAgentId);
+    const startSecs = conversationData.metadata?.start_time_unix_secs;
+    const variant = await findVariant(usedAgentId, startSecs ? new Date(startSecs * 1000).toISOString() : new Date().toISOString());
     const variantId = variant?.id || 'unknown';
 
     // Extract transcript and analysis
@@ -440,8 +362,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const phoneNumber = conversationData.metadata?.phone_call?.external_number || '';
 
     // Analyze transcript for booking intent + details
-    const booking = analyzeTranscript(transcript, dynamicVars, analysis);
-    console.log(`[post-call-webhook] 📊 ANALYSIS RESULT: conversation=${conversation_id}, variant=${variantId}, outcome=${booking.outcome}, booked=${booking.booked}, selectedTime=${booking.selectedTime}, confirmedEmail=${booking.confirmedEmail}, confirmedName=${booking.confirmedName}`);
+    const booking = await analyzeTranscript(transcript, dynamicVars, analysis);
+    console.log(`[post-call-webhook] 📊 ANALYSIS RESULT: conversation=${conversation_id}, variant=${variantId}, outcome=${booking.outcome} (${booking.classification.classifier}, ${booking.classification.confidence}), booked=${booking.booked}, confirmedEmail=${booking.confirmedEmail}, confirmedName=${booking.confirmedName}`);
 
     // Log to Supabase via REST API
     const sbHeaders = {
@@ -469,9 +391,50 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       booking_made: booking.booked, // Set based on transcript analysis, not GHL success
       transcript: JSON.stringify(transcript),
       analysis: JSON.stringify(analysis),
+      classification: booking.classification,
+      summary: booking.classification.summary || null,
       completed_at: new Date().toISOString(),
     };
 
+    // Dialer-placed calls already reference the version they were allocated
+    if (variant?.versionId && !existingLog?.experiment_variant_id) {
+      updateData.experiment_variant_id = variant.versionId;
+    }
+
+    // Callback and meeting times are spoken in the prospect's timezone (the stored one first), relative to
+    // when the call happened
+    const prospect = await findProspectLocation(existingLog?.prospect_id, phoneNumber);
+    const timezone = resolveTimezone({
+      timezone: prospect?.timezone,
+      state: prospect?.state || dynamicVars.state,
+      location: prospect?.location || dynamicVars.city,
+      phone: phoneNumber,
+    });
+    const callStart = startSecs ? new Date(startSecs * 1000) : new Date();
+
+    // ─── Callback requests become a queued callback_at in the prospect's timezone ─────
+    if (booking.outcome === 'callback') {
+      const spoken = booking.classification.callbackTime;
+      const callback = extractCallback(transcript, { timezone, now: callStart })
+        ?? (spoken ? parseCallbackTime(spoken, { timezone, now: callStart }) : null);
+      // No time given: try again next morning
+      const callbackAt = callback?.at ?? parseCallbackTime('tomorrow morning', { timezone, now: callStart })!.at;
+      updateData.callback_requested = true;
+      updateData.callback_at = callbackAt.toISOString();
+      updateData.callback_status = 'pending';
+      updateData.callback_phrase = callback?.phrase ?? null;
+      console.log(`[post-call-webhook] 📅 Callback requested for ${updateData.callback_at} (${timezone}): "${updateData.callback_phrase || 'no time given'}"`);
+    }
+
+    // ─── QA scorecard (src/core/call-scorecard.ts); voicemail and no-answer calls get a null score ─────
+    const scorecard = scoreCall(transcript, { templateId: existingLog?.script_template, outcome: booking.outcome });
+    updateData.qa_score = scorecard?.score ?? null;
+    updateData.qa_scorecard = scorecard;
+    updateData.qa_scored_at = new Date().toISOString();
+    if (scorecard) {
+      console.log(`[post-call-webhook] 📋 QA score ${scorecard.score}: talk ${(scorecard.talkRatio * 100).toFixed(0)}%, stages ${scorecard.stagesFollowed}/5, meeting ask ${scorecard.askedForMeeting}`);
+    }
+
     if (existingLog) {
       const patchRes = await fetch(
         `${SUPABASE_URL}/rest/v1/call_logs?id=eq.${existingLog.id}`,
@@ -490,62 +453,86 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       }
     }
 
-    // ─── Auto-Book if prospect agreed ───────────────────────────
+    // ─── Do-not-contact requests go on the suppression list ─────
+    if (booking.doNotContact) {
+      await suppressContact(phoneNumber, dynamicVars.email, conversation_id);
+    }
+
+    // ─── Book the agreed time, but only if it's a slot the agent offered ─────
+    // Anything less certain waits in booking_decisions for a person (src/core/booking-queue.ts)
     let appointmentResult = null;
 
-    if (booking.booked && GHL_API_KEY) {
-      console.log(`[post-call-webhook] 🎯 BOOKING DETECTED — processing GHL booking...`);
-      console.log(`[post-call-webhook] Time: ${booking.selectedTime}, Email: ${booking.confirmedEmail}, Name: ${booking.confirmedName}`);
-      console.log(`[post-call-webhook] GHL config: key=${GHL_API_KEY.substring(0, 10)}..., loc=${GHL_LOCATION_ID}, cal=${GHL_CALENDAR_ID}, user=${GHL_USER_ID}`);
-
-      try {
-        const contactId = await findOrCreateGHLContact({
-          firstName: dynamicVars.first_name || booking.confirmedName?.split(' ')[0] || 'Unknown',
-          lastName: dynamicVars.last_name || booking.confirmedName?.split(' ').slice(1).join(' ') || '',
-          email: booking.confirmedEmail || dynamicVars.email || '',
-          phone: phoneNumber,
-          company: dynamicVars.company_name || '',
-          website: dynamicVars.website || '',
-          variant: variantId,
-        });
-
-        if (contactId && booking.selectedTime) {
-          appointmentResult = await bookGHLAppointment(contactId, booking, { ...dynamicVars, phone: phoneNumber }, variantId);
-          console.log(`[post-call-webhook] GHL appointment response: ${JSON.stringify(appointmentResult).substring(0, 300)}`);
-          console.log(`[post-call-webhook] ✅ Appointment booked: ${appointmentResult?.id}`);
-
-          // Update call log with booking info
-          await fetch(
-            `${SUPABASE_URL}/rest/v1/call_logs?conversation_id=eq.${encodeURIComponent(conversation_id)}`,
-            { method: 'PATCH', headers: sbHeaders, body: JSON.stringify({
-              booking_made: true,
-              ghl_contact_id: contactId,
-              ghl_appointment_id: appointmentResult?.id || null,
-              booked_time: booking.selectedTime,
-            })}
-          );
-      } else if (!contactId) {
-          console.log('[post-call-webhook] ❌ GHL contact creation FAILED - no contactId returned');
-      } else if (contactId && !booking.selectedTime) {
-          console.log('[post-call-webhook] ⚠️ Booking detected but no time extracted — contact created/updated, manual booking needed');
-          await fetch(
-            `${SUPABASE_URL}/rest/v1/call_logs?conversation_id=eq.${encodeURIComponent(conversation_id)}`,
-            { method: 'PATCH', headers: sbHeaders, body: JSON.stringify({
-              ghl_contact_id: contactId,
-              notes: 'Booking detected but time extraction failed — manual follow-up needed',
-            })}
-          );
+    if (booking.booked) {
+      const offeredSlots = extractOfferedSlots(transcript);
+      const freeSlots = GHL_API_KEY ? await fetchFreeSlots(callStart) : null;
+      // Only slots the agent offered on the call count; the calendar just re-checks the match is still free
+      let resolution = resolveBookingTime(transcript, offeredSlots, { timezone, now: callStart });
+      if (freeSlots) resolution = confirmSlotStillFree(resolution, freeSlots);
+      console.log(`[post-call-webhook] 🎯 BOOKING DETECTED — ${resolution.status}: ${resolution.reason}`);
+      console.log(`[post-call-webhook] Slot: ${resolution.slot}, Spoken: ${resolution.spokenTime} (${timezone}), Email: ${booking.confirmedEmail}, Name: ${booking.confirmedName}`);
+
+      let contactId: string | null = null;
+      if (GHL_API_KEY) {
+        console.log(`[post-call-webhook] GHL config: key=${GHL_API_KEY.substring(0, 10)}..., loc=${GHL_LOCATION_ID}, cal=${GHL_CALENDAR_ID}, user=${GHL_USER_ID}`);
+        try {
+          contactId = await findOrCreateGHLContact({
+            firstName: dynamicVars.first_name || booking.confirmedName?.split(' ')[0] || 'Unknown',
+            lastName: dynamicVars.last_name || booking.confirmedName?.split(' ').slice(1).join(' ') || '',
+            email: booking.confirmedEmail || dynamicVars.email || '',
+            phone: phoneNumber,
+            company: dynamicVars.company_name || '',
+            website: dynamicVars.website || '',
+            variant: variantId,
+          });
+
+          if (!contactId) {
+            console.log('[post-call-webhook] ❌ GHL contact creation FAILED - no contactId returned');
+            resolution = holdForConfirmation(resolution, 'GHL contact creation failed');
+          } else if (resolution.status === 'matched') {
+            appointmentResult = await bookGHLAppointment(contactId, resolution.slot!, booking, { ...dynamicVars, phone: phoneNumber }, variantId);
+            if (appointmentResult?.id) {
+              console.log(`[post-call-webhook] ✅ Appointment booked: ${appointmentResult.id}`);
+            } else {
+              resolution = holdForConfirmation(resolution, 'GHL rejected the appointment');
+            }
+          }
+        } catch (ghlError: any) {
+          console.error('[post-call-webhook] GHL booking error:', ghlError.message);
+          // Don't fail the webhook — queue the booking for a person instead
+          resolution = holdForConfirmation(resolution, `GHL booking failed: ${ghlError.message}`);
         }
-      } catch (ghlError: any) {
-        console.error('[post-call-webhook] GHL booking error:', ghlError.message);
-        // Don't fail the webhook — log the error and continue
-        await fetch(
-          `${SUPABASE_URL}/rest/v1/call_logs?conversation_id=eq.${encodeURIComponent(conversation_id)}`,
-          { method: 'PATCH', headers: sbHeaders, body: JSON.stringify({
-            notes: `GHL booking failed: ${ghlError.message}`,
-          })}
-        );
+      } else {
+        resolution = holdForConfirmation(resolution, 'GHL is not configured');
+      }
+
+      if (resolution.status === 'needs_confirmation') {
+        console.log(`[post-call-webhook] ⚠️ Booking needs human confirmation: ${resolution.reason}`);
       }
+      await recordBookingDecision({
+        conversationId: conversation_id,
+        prospectName: booking.confirmedName,
+        prospectPhone: phoneNumber,
+        prospectEmail: booking.confirmedEmail,
+        ghlContactId: contactId,
+        ghlAppointmentId: appointmentResult?.id || null,
+        timezone,
+        offeredSlots,
+        offeredSource: offeredSlots ? 'transcript' : null,
+        resolution,
+      });
+
+      const bookingUpdate: Record<string, any> = { ghl_contact_id: contactId };
+      if (resolution.status === 'matched') {
+        bookingUpdate.ghl_appointment_id = appointmentResult?.id || null;
+        bookingUpdate.booked_time = resolution.slot;
+      } else {
+        // Keep whatever the call log already says
+        bookingUpdate.notes = [existingLog?.notes, `Booking needs confirmation: ${resolution.reason}`].filter(Boolean).join('\n');
+      }
+      await fetch(
+        `${SUPABASE_URL}/rest/v1/call_logs?conversation_id=eq.${encodeURIComponent(conversation_id)}`,
+        { method: 'PATCH', headers: sbHeaders, body: JSON.stringify(bookingUpdate) }
+      );
     }
 
     res.json({
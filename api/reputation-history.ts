@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ReputationMonitor } from '../src/monitoring/reputation-monitor';
+
+/**
+ * Caller ID reputation history for the dashboard.
+ *
+ * GET /api/reputation-history?number=+17704077842&days=30
+ * Returns: { since, dialer_pause, numbers: [{ phone_number, latest, snapshots }] }
+ * Snapshots are oldest first; number is optional (all monitored numbers).
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL || '';
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY || '';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'GET only' });
+
+  const phoneNumber = (req.query.number as string) || undefined;
+  const days = Math.min(Math.max(parseInt((req.query.days as string) || '30', 10) || 30, 1), 365);
+
+  try {
+    const monitor = new ReputationMonitor(createClient(SUPABASE_URL, SUPABASE_KEY));
+    const [history, pause] = await Promise.all([
+      monitor.history({ phoneNumber, days }),
+      monitor.dialerPause(),
+    ]);
+
+    res.json({
+      since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+      dialer_pause: pause,
+      numbers: history.map(h => ({
+        phone_number: h.phoneNumber,
+        latest: h.latest,
+        snapshots: h.snapshots,
+      })),
+    });
+  } catch (error: any) {
+    console.error('[reputation-history] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -1,9 +1,14 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { SuppressionService } from '../src/core/suppression';
+import { CallerIdPool } from '../src/core/caller-id-pool';
 
 /**
  * Send SMS endpoint — Hunter calls this to text prospects.
  * 
  * Uses Twilio REST API directly (no SDK needed on Vercel).
+ * Refuses numbers on the suppression list (and sends nothing if the list can't be read).
+ * Sends from the caller ID pool's best local number, falling back to TWILIO_PHONE.
  * Logs outbound message to touchpoints.
  */
 
@@ -36,7 +41,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    console.log(`[send-sms] Sending to ${to}: "${body.substring(0, 80)}..."`);
+    const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+    const suppressions = new SuppressionService(supabase);
+    const suppression = await suppressions.isBlocked({ phone: to }, `send-sms ${to}`);
+    if (suppression.suppressed) {
+      return res.status(403).json({ success: false, suppressed: true, error: suppression.reason });
+    }
+
+    const callerIds = new CallerIdPool(supabase);
+    const caller = await callerIds.select({ phone: to }, 'sms');
+    const from = caller?.number.phone_number || TWILIO_PHONE;
+
+    console.log(`[send-sms] Sending to ${to} from ${from}: "${body.substring(0, 80)}..."`);
 
     // Send via Twilio REST API
     const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${TWILIO_ACCOUNT_SID}/Messages.json`;
@@ -44,7 +60,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const params = new URLSearchParams({
       To: to,
-      From: TWILIO_PHONE,
+      From: from,
       Body: body,
       StatusCallback: STATUS_CALLBACK_URL,
     });
@@ -70,6 +86,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     console.log(`[send-sms] ✓ Sent: SID=${twilioData.sid}, Status=${twilioData.status}`);
+    if (caller) await callerIds.recordUse(caller.number);
 
     // Log to touchpoints
     if (SUPABASE_URL && SUPABASE_KEY) {
@@ -82,7 +99,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         outcome: 'sent',
         metadata: {
           to,
-          from: TWILIO_PHONE,
+          from,
           body,
           message_sid: twilioData.sid,
           status: twilioData.status,
@@ -103,6 +120,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       success: true,
       message_sid: twilioData.sid,
       status: twilioData.status,
+      from,
     });
 
   } catch (error: any) {
@@ -0,0 +1,49 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ConversationSource, REVIEW_LABELS, ReviewLabel, TranscriptSearch } from '../../src/core/transcript-search';
+
+/**
+ * Conversation review: read a call transcript or email reply with its annotations, or annotate it.
+ *
+ * GET  /api/transcripts/review?source=call&id=<call_logs id>
+ *      Returns: { source, id, variant, outcome, reviewLabel, transcript, objections, annotations }
+ * POST /api/transcripts/review  { source: 'call' | 'email', id, reviewer, label?: 'good' | 'bad', tags?: string[], note? }
+ *      Returns the annotation. A call's label becomes its review_label in the A/B experiment stats.
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL || '';
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY || '';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') return res.status(405).json({ error: 'GET or POST only' });
+
+  const input = req.method === 'GET' ? req.query : (req.body || {});
+  const source = input.source as ConversationSource;
+  const id = input.id as string;
+  if ((source !== 'call' && source !== 'email') || !id) {
+    return res.status(400).json({ error: 'source (call or email) and id are required' });
+  }
+
+  try {
+    const search = new TranscriptSearch(createClient(SUPABASE_URL, SUPABASE_KEY));
+    if (req.method === 'GET') {
+      return res.json(await search.getConversation(source, id));
+    }
+
+    const { reviewer, label, tags, note } = input as { reviewer?: string; label?: ReviewLabel; tags?: string[] | string; note?: string };
+    if (!reviewer) return res.status(400).json({ error: 'reviewer is required' });
+    if (label && !REVIEW_LABELS.includes(label)) {
+      return res.status(400).json({ error: `label must be ${REVIEW_LABELS.join(' or ')}` });
+    }
+    const annotation = await search.annotate(source, id, {
+      reviewer,
+      label,
+      tags: typeof tags === 'string' ? tags.split(',') : tags,
+      note,
+    });
+    res.json(annotation);
+  } catch (error: any) {
+    console.error('[transcripts/review] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
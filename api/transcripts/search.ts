@@ -0,0 +1,63 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+import { ConversationSource, ReviewLabel, TranscriptSearch } from '../../src/core/transcript-search';
+
+/**
+ * Full-text search over call transcripts and email replies.
+ *
+ * GET /api/transcripts/search?q="too expensive" -website&source=call&variant=ava-direct&outcome=not_interested
+ *     &industry=plumbing&objection=too_expensive&label=bad&tag=pricing&since=2026-10-01&until=2026-10-15&limit=25
+ * Every parameter is optional; days=N works in place of since. Without q, matches come newest first.
+ * Returns: { count, results: [{ source, id, conversationId, prospectName, variant, outcome, reviewLabel, snippet, ... }] }
+ * Open one with /api/transcripts/review?source=call&id=<id>.
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL || '';
+const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY || '';
+
+function param(req: VercelRequest, name: string): string | undefined {
+  const value = req.query[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+}
+
+function parseDate(value: string | undefined, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid ${name} date: ${value}`);
+  return date;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') return res.status(405).json({ error: 'GET only' });
+
+  let since: Date | undefined;
+  let until: Date | undefined;
+  try {
+    const days = param(req, 'days');
+    since = days ? new Date(Date.now() - (parseInt(days, 10) || 30) * 24 * 60 * 60 * 1000) : parseDate(param(req, 'since'), 'since');
+    until = parseDate(param(req, 'until'), 'until');
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const search = new TranscriptSearch(createClient(SUPABASE_URL, SUPABASE_KEY));
+    const results = await search.search({
+      query: param(req, 'q'),
+      sources: param(req, 'source')?.split(',') as ConversationSource[] | undefined,
+      variant: param(req, 'variant'),
+      outcome: param(req, 'outcome'),
+      industry: param(req, 'industry'),
+      objection: param(req, 'objection'),
+      label: param(req, 'label') as ReviewLabel | undefined,
+      tag: param(req, 'tag'),
+      since,
+      until,
+      limit: parseInt(param(req, 'limit') || '25', 10) || 25,
+    });
+    res.json({ count: results.length, results });
+  } catch (error: any) {
+    console.error('[transcripts/search] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -14,7 +14,13 @@ CREATE TABLE IF NOT EXISTS prospects (
   website text,
   city text,
   state text,
+  timezone text, -- IANA zone inferred from state / area code / city
+  call_attempts int NOT NULL DEFAULT 0, -- dials so far (call retry ladder)
+  last_call_at timestamptz,
+  last_call_slot text,
   industry text,
+  title text,
+  company_size text, -- as imported, e.g. "11-50"; matched against campaign ICP criteria
   source text,
   status text DEFAULT 'new',
   created_at timestamptz DEFAULT now()
@@ -26,6 +32,7 @@ CREATE TABLE IF NOT EXISTS campaigns (
   name text NOT NULL,
   status text DEFAULT 'active',
   sequence_template jsonb,
+  call_cadence jsonb, -- retry ladder override, see src/core/call-cadence.ts
   created_at timestamptz DEFAULT now()
 );
 
@@ -34,7 +41,8 @@ CREATE TABLE IF NOT EXISTS sequences (
   id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
   campaign_id uuid REFERENCES campaigns(id),
   prospect_id uuid REFERENCES prospects(id),
-  current_step int DEFAULT 0,
+  current_step text DEFAULT '0',
+  previous_step text,
   status text DEFAULT 'active',
   started_at timestamptz DEFAULT now(),
   paused_at timestamptz,
@@ -66,10 +74,202 @@ CREATE TABLE IF NOT EXISTS rate_limits (
   date date DEFAULT current_date
 );
 
+-- Sliding-window rate limit events (consume_rate_limit() lives in
+-- supabase/migrations/20261003_rate_limit_events.sql)
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+  id bigserial PRIMARY KEY,
+  campaign_id text NOT NULL,
+  channel text NOT NULL,
+  sender text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Cron job leases/outcomes and per-prospect action claims (lease functions
+-- live in supabase/migrations/20261005_job_runs.sql)
+CREATE TABLE IF NOT EXISTS job_runs (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_name text NOT NULL,
+  holder text,
+  status text NOT NULL DEFAULT 'running',
+  lease_expires_at timestamptz,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  counts jsonb DEFAULT '{}',
+  error text
+);
+
+CREATE TABLE IF NOT EXISTS job_actions (
+  action_key text PRIMARY KEY,
+  prospect_id uuid,
+  status text NOT NULL DEFAULT 'claimed',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+-- Prospect state moves (applied, rejected, quarantined) written by ProspectTransitionService
+CREATE TABLE IF NOT EXISTS prospect_state_history (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  prospect_id uuid NOT NULL REFERENCES prospects(id) ON DELETE CASCADE,
+  field text NOT NULL,
+  from_state text,
+  to_state text NOT NULL,
+  event text,
+  event_id text,
+  actor text NOT NULL,
+  status text NOT NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by text
+);
+
+-- Score changes written by the recompute-scores job
+CREATE TABLE IF NOT EXISTS prospect_score_history (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  prospect_id uuid NOT NULL REFERENCES prospects(id) ON DELETE CASCADE,
+  old_score int,
+  new_score int NOT NULL,
+  breakdown jsonb DEFAULT '{}',
+  matched_rules text[] DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Global do-not-contact list checked by every sender (normalized email / phone / domain)
+CREATE TABLE IF NOT EXISTS suppressions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  type text NOT NULL,
+  value text NOT NULL,
+  source text NOT NULL,
+  reason text,
+  prospect_id uuid REFERENCES prospects(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (type, value)
+);
+
+-- Caller ID pool: owned numbers rotated by area code / state, see src/core/caller-id-pool.ts
+CREATE TABLE IF NOT EXISTS caller_numbers (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number text NOT NULL UNIQUE,
+  area_code text NOT NULL,
+  state text,
+  elevenlabs_phone_number_id text, -- required for voice
+  channels text[] NOT NULL DEFAULT '{voice,sms}',
+  status text NOT NULL DEFAULT 'active', -- active, retired
+  daily_limit int NOT NULL DEFAULT 50,
+  usage_date date,
+  usage_count int NOT NULL DEFAULT 0,
+  spam_score numeric,
+  rested_until timestamptz,
+  rest_reason text,
+  last_used_at timestamptz,
+  last_checked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Scheduled caller ID reputation snapshots, see src/monitoring/reputation-monitor.ts
+CREATE TABLE IF NOT EXISTS caller_reputation_snapshots (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number text NOT NULL,
+  window_hours int NOT NULL,
+  spam_score numeric,
+  flagged boolean NOT NULL DEFAULT false,
+  carrier_flags text[] NOT NULL DEFAULT '{}',
+  total_calls int NOT NULL DEFAULT 0,
+  answered int NOT NULL DEFAULT 0,
+  answer_rate numeric NOT NULL DEFAULT 0,
+  short_calls int NOT NULL DEFAULT 0,
+  short_call_ratio numeric NOT NULL DEFAULT 0,
+  avg_duration_seconds numeric NOT NULL DEFAULT 0,
+  answer_rate_delta numeric, -- vs baseline, percentage points
+  short_call_ratio_delta numeric,
+  breaches text[] NOT NULL DEFAULT '{}',
+  action text NOT NULL DEFAULT 'none', -- none, quarantined, dialer_paused
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Dialer stop switch (reputation monitor or manual), see src/core/dialer-pause.ts
+CREATE TABLE IF NOT EXISTS dialer_pauses (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  reason text NOT NULL,
+  source text NOT NULL,
+  paused_until timestamptz, -- null = until resumed
+  resumed_at timestamptz,
+  resumed_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Email subject/body A/B variant per lead and sequence step, see src/core/email-experiments.ts
+CREATE TABLE IF NOT EXISTS email_variant_assignments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  prospect_id uuid REFERENCES prospects(id) ON DELETE SET NULL,
+  prospect_email text NOT NULL,
+  campaign_id text,
+  sequence text NOT NULL,
+  step int NOT NULL, -- 1-based
+  variant_id text NOT NULL, -- 'control' = the step's own copy
+  assigned_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  opened_at timestamptz,
+  replied_at timestamptz,
+  bounced_at timestamptz,
+  UNIQUE (prospect_email, campaign_id, sequence, step)
+);
+
+-- Voice A/B experiments and versioned variant configs, see src/core/experiment-registry.ts
+CREATE TABLE IF NOT EXISTS experiments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  key text NOT NULL UNIQUE,
+  name text NOT NULL,
+  hypothesis text,
+  status text NOT NULL DEFAULT 'draft', -- draft, running, stopped
+  allocation jsonb, -- AllocationConfig overrides
+  started_at timestamptz,
+  stopped_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS experiment_variants (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  experiment_id uuid NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+  variant_id text NOT NULL, -- stable across versions
+  version int NOT NULL,
+  agent_id text NOT NULL,
+  name text NOT NULL,
+  weight numeric NOT NULL DEFAULT 1,
+  enabled boolean NOT NULL DEFAULT true,
+  config jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  retired_at timestamptz, -- replaced by a newer version
+  UNIQUE (experiment_id, variant_id, version)
+);
+
+-- Booking decisions from the post-call webhook and the needs-confirmation queue, see src/core/booking-queue.ts
+CREATE TABLE IF NOT EXISTS booking_decisions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id text,
+  prospect_name text,
+  prospect_phone text,
+  prospect_email text,
+  ghl_contact_id text,
+  status text NOT NULL, -- booked, needs_confirmation, confirmed, dismissed
+  reason text NOT NULL,
+  slot_time timestamptz,
+  spoken_time timestamptz,
+  timezone text NOT NULL,
+  offered_slots jsonb,
+  offered_source text, -- transcript, calendar
+  conflicts text[] NOT NULL DEFAULT '{}',
+  excerpt text NOT NULL DEFAULT '',
+  ghl_appointment_id text,
+  resolved_at timestamptz,
+  resolved_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
 -- Call logs table (post-call webhook data from ElevenLabs)
 CREATE TABLE IF NOT EXISTS call_logs (
   id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
-  conversation_id text UNIQUE NOT NULL,
+  conversation_id text UNIQUE, -- null for blocked attempts
   prospect_id uuid REFERENCES prospects(id),
   prospect_phone text,
   prospect_name text,
@@ -82,10 +282,73 @@ CREATE TABLE IF NOT EXISTS call_logs (
   booking_made boolean DEFAULT false,
   callback_requested boolean DEFAULT false,
   callback_time timestamptz,
+  callback_at timestamptz, -- resolved callback request, see src/core/callback-queue.ts
+  callback_status text, -- pending, completed, cancelled
+  callback_phrase text,
   elevenlabs_data jsonb,
+  caller_number text, -- caller ID pool number the call went out on
+  script_template text, -- dialer ScriptTemplate id (call-engine calls)
+  objections_analyzed_at timestamptz, -- scanned by src/core/objection-analytics.ts
+  review_label text, -- latest reviewer label (good, bad), see src/core/transcript-search.ts
+  qa_score smallint, -- 0-100 call QA score, null for voicemail / no answer
+  qa_scorecard jsonb, -- CallScorecard, see src/core/call-scorecard.ts
+  qa_scored_at timestamptz,
+  transcript_search tsvector GENERATED ALWAYS AS (to_tsvector('english', regexp_replace(coalesce(transcript #>> '{}', ''), '"[a-z_]+"\s*:', ' ', 'g'))) STORED,
+  classification jsonb, -- TranscriptClassification, see src/core/transcript-classifier.ts
+  experiment_variant_id uuid REFERENCES experiment_variants(id) ON DELETE SET NULL, -- variant version used
+  compliance jsonb, -- ComplianceGuard decision (status 'blocked' rows were never dialed)
   created_at timestamptz DEFAULT now()
 );
 
+-- Objections detected per prospect turn in stored transcripts, see src/core/objection-analytics.ts
+CREATE TABLE IF NOT EXISTS call_objections (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  call_log_id uuid NOT NULL REFERENCES call_logs(id) ON DELETE CASCADE,
+  turn_index int NOT NULL,
+  objection_type text NOT NULL,
+  confidence numeric NOT NULL,
+  matched_phrase text NOT NULL,
+  excerpt text NOT NULL,
+  turns_to_end int NOT NULL,
+  recovered boolean NOT NULL DEFAULT false,
+  outcome text,
+  agent_variant text,
+  industry text,
+  script_template text,
+  call_created_at timestamptz NOT NULL,
+  analyzed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (call_log_id, turn_index)
+);
+
+-- Reviewer tags and good/bad labels on calls and email replies, see src/core/transcript-search.ts
+CREATE TABLE IF NOT EXISTS conversation_annotations (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  call_log_id uuid REFERENCES call_logs(id) ON DELETE CASCADE,
+  email_event_id uuid, -- email_events (reply_received)
+  label text, -- good, bad
+  tags text[] NOT NULL DEFAULT '{}',
+  note text,
+  reviewer text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((call_log_id IS NULL) <> (email_event_id IS NULL))
+);
+
+-- Voice variant allocation decisions, see src/core/ab-router.ts
+CREATE TABLE IF NOT EXISTS variant_allocations (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  variant_id text NOT NULL,
+  mode text NOT NULL, -- round_robin, weighted, epsilon_greedy, thompson
+  explored boolean NOT NULL DEFAULT false,
+  reason text,
+  scores jsonb NOT NULL DEFAULT '{}',
+  stats jsonb NOT NULL DEFAULT '[]',
+  config jsonb,
+  experiment_id uuid REFERENCES experiments(id) ON DELETE SET NULL,
+  experiment_variant_id uuid REFERENCES experiment_variants(id) ON DELETE SET NULL,
+  prospect_id uuid REFERENCES prospects(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
 CREATE INDEX IF NOT EXISTS call_logs_prospect_id ON call_logs(prospect_id);
 CREATE INDEX IF NOT EXISTS call_logs_outcome ON call_logs(outcome);
 CREATE INDEX IF NOT EXISTS call_logs_created_at ON call_logs(created_at);
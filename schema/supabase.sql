@@ -30,6 +30,7 @@ CREATE TABLE prospects (
   industry TEXT,
   company_size TEXT,
   location TEXT,
+  timezone TEXT, -- IANA zone inferred from state / area code / city
   
   -- State machine
   state TEXT DEFAULT 'discovered', -- discovered, researched, contacted, engaged, qualified, booked, converted, not_interested, unresponsive
@@ -38,7 +39,8 @@ CREATE TABLE prospects (
   linkedin_state TEXT DEFAULT 'not_connected', -- not_connected, requested, connected, messaged, replied
   x_state TEXT DEFAULT 'not_following', -- not_following, following, engaged, dm_sent, dm_replied
   email_state TEXT DEFAULT 'not_sent', -- not_sent, sent, opened, replied, bounced
-  voice_state TEXT DEFAULT 'not_called', -- not_called, called, answered, voicemail, booked
+  voice_state TEXT DEFAULT 'not_called', -- not_called, called, answered, voicemail, callback, interested, not_interested, failed, booked
+  sms_state TEXT DEFAULT 'none', -- none, replied, opted_out
   
   -- Scoring and notes
   score INTEGER DEFAULT 0,
@@ -73,7 +75,8 @@ CREATE TABLE sequences (
   prospect_id UUID REFERENCES prospects(id) ON DELETE CASCADE,
   campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
   template_id TEXT NOT NULL,
-  current_step INTEGER DEFAULT 0,
+  current_step TEXT DEFAULT '0',
+  previous_step TEXT,
   next_step_at TIMESTAMPTZ,
   status TEXT DEFAULT 'active', -- active, paused, completed, cancelled
   started_at TIMESTAMPTZ DEFAULT NOW(),
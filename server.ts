@@ -32,7 +32,10 @@ import incomingSmsHandler from './api/incoming-sms';
 import pipelineAnalyticsHandler from './api/pipeline-analytics';
 import pollCompletedCallsHandler from './api/poll-completed-calls';
 import postCallWebhookHandler from './api/post-call-webhook';
+import reputationHistoryHandler from './api/reputation-history';
 import sendSmsHandler from './api/send-sms';
+import transcriptReviewHandler from './api/transcripts/review';
+import transcriptSearchHandler from './api/transcripts/search';
 // sms-status now combined into send-sms
 import verifyLeadsHandler from './api/verify-leads';
 // ── Routes ─────────────────────────────────────────────────────────────────────
@@ -45,8 +48,11 @@ app.all('/api/incoming-sms', incomingSmsHandler as any);
 app.all('/api/pipeline-analytics', pipelineAnalyticsHandler as any);
 app.all('/api/poll-completed-calls', pollCompletedCallsHandler as any);
 app.all('/api/post-call-webhook', postCallWebhookHandler as any);
+app.all('/api/reputation-history', reputationHistoryHandler as any);
 app.all('/api/send-sms', sendSmsHandler as any);
 app.all('/api/sms-status', (req, res) => { req.url = '/api/sms-status'; require('./api/send-sms').default(req, res); });
+app.all('/api/transcripts/review', transcriptReviewHandler as any);
+app.all('/api/transcripts/search', transcriptSearchHandler as any);
 app.all('/api/verify-leads', verifyLeadsHandler as any);
 // Root redirect to health
 app.get('/', (req, res) => res.redirect('/api/health'));
@@ -11,6 +11,13 @@
 import { BaseChannelAdapter } from './base-adapter';
 import { Prospect, TouchpointResult } from '../types';
 import * as instantly from './instantly-adapter';
+import { SuppressionService } from '../core/suppression';
+import {
+  EmailExperimentService,
+  assignEmailVariants,
+  buildCampaignSequence,
+  leadVariables,
+} from '../core/email-experiments';
 
 // Burner domains only — never send from renderwise.net
 const SENDER_DOMAINS = ['growthsiteai.org', 'siteflowagency.org', 'nextwavedesigns.org'];
@@ -20,41 +27,21 @@ export class EmailAdapter extends BaseChannelAdapter {
   name = 'email' as const;
   private todayCampaignId: string | null = null;
   private todayDate: string | null = null;
+  private suppressions: SuppressionService | null;
+  private experiments: EmailExperimentService | null;
+
+  constructor(suppressions?: SuppressionService, experiments?: EmailExperimentService) {
+    super();
+    this.suppressions = suppressions || null;
+    this.experiments = experiments || null;
+  }
 
   /**
-   * Base sequence used by today's campaign. Step 1 is agent-authored via lead custom variables.
+   * Base sequence used by today's campaign. Step 1 is agent-authored via lead custom variables;
+   * follow-ups come from templates/email-sequences.ts, with A/B tested steps filled per lead.
    */
   private getCampaignSequence(): instantly.Sequence[] {
-    return [
-      {
-        steps: [
-          {
-            type: 'email',
-            delay: 0,
-            variants: [{
-              subject: '{{custom_subject}}',
-              body: '{{custom_body}}',
-            }],
-          },
-          {
-            type: 'email',
-            delay: 3,
-            variants: [{
-              subject: 'Re: your site improvements',
-              body: `<p>Hi {{first_name}},</p><p>Wanted to follow up on my note about your website.</p><p>I ran a quick audit and found 3 specific issues that are likely hurting your conversion rate:</p><p>• Slow mobile loading (losing ~30% of visitors)<br>• Confusing navigation flow<br>• No clear call-to-action above the fold</p><p>Happy to share the full audit — no cost, just thought it might be useful.</p><p>Book 15 mins here if you're curious: <a href="https://renderwiseai.com/calendar">renderwiseai.com/calendar</a></p><p>Jake<br>RenderWiseAI</p>`,
-            }],
-          },
-          {
-            type: 'email',
-            delay: 3,
-            variants: [{
-              subject: 'Last note — your website',
-              body: `<p>Hi {{first_name}},</p><p>I'll keep this short since I know you're busy.</p><p>If you're happy with how your site is performing, no worries at all — just wanted to make sure this didn't get buried.</p><p>If you ever want that free audit I mentioned, just reply and I'll send it over.</p><p>Either way, best of luck!</p><p>Jake<br>RenderWiseAI</p><p>P.S. — Still have a few spots open this week: <a href="https://renderwiseai.com/calendar">renderwiseai.com/calendar</a></p>`,
-            }],
-          },
-        ],
-      },
-    ];
+    return buildCampaignSequence();
   }
 
   /**
@@ -133,12 +120,20 @@ export class EmailAdapter extends BaseChannelAdapter {
     }
 
     try {
+      // Global do-not-contact list; an unreadable list blocks the send
+      this.suppressions = this.suppressions || SuppressionService.fromEnv();
+      const suppression = await this.suppressions.isBlocked(prospect, `email ${prospect.email}`);
+      if (suppression.suppressed) {
+        return { success: false, outcome: 'suppressed', error: suppression.reason };
+      }
+
       const campaignId = await this.ensureCampaign();
       
       const nameParts = (prospect.name || '').split(' ');
       const firstName = nameParts[0] || '';
       const lastName = nameParts.slice(1).join(' ') || '';
       const customBody = body.includes('<') ? body : body.replace(/\n/g, '<br>');
+      const variants = assignEmailVariants(prospect.email);
 
       await instantly.addLead(campaignId, prospect.email, {
         firstName,
@@ -149,9 +144,18 @@ export class EmailAdapter extends BaseChannelAdapter {
         custom: {
           custom_subject: subject,
           custom_body: customBody,
+          ...leadVariables(variants, prospect),
         },
       });
 
+      // Assignments feed attribution and reporting only; failing to record them doesn't fail the send
+      try {
+        this.experiments = this.experiments || EmailExperimentService.fromEnv();
+        await this.experiments.recordAssignments(prospect, campaignId, variants);
+      } catch (err: any) {
+        console.error(`[Email] Failed to record variants for ${prospect.email}: ${err.message}`);
+      }
+
       console.log(`[Email] ✓ Queued ${prospect.email} in campaign ${campaignId}`);
       return {
         success: true,
@@ -162,6 +166,7 @@ export class EmailAdapter extends BaseChannelAdapter {
           email: prospect.email,
           campaignId,
           subject,
+          emailVariants: Object.fromEntries(variants.filter(v => v.tested).map(v => [`step${v.step}`, v.variantId])),
         },
       };
     } catch (err: any) {
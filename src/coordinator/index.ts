@@ -1,3 +1,3 @@
 // Coordinator module exports
-export { SurroundSoundCoordinator, CoordinatorConfig, DailySummary, ProspectiveAction, ExecutionResult } from './surround-sound';
+export { SurroundSoundCoordinator, emptyDailySummary, CoordinatorConfig, DailySummary, ProspectiveAction, ExecutionResult } from './surround-sound';
 export { ReplyDetector, ReplyDetectionResult, PauseAction } from './reply-detector';
@@ -3,6 +3,7 @@
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { Channel, Prospect, Touchpoint, ChannelEvent } from '../types';
+import { ProspectTransitionService } from '../core/prospect-transitions';
 
 // AgentMail API types
 interface AgentMailMessage {
@@ -36,6 +37,7 @@ export interface PauseAction {
 
 export class ReplyDetector {
   private supabase: SupabaseClient;
+  private transitions: ProspectTransitionService;
   private agentMailApiKey: string;
   private dryRun: boolean;
 
@@ -46,6 +48,7 @@ export class ReplyDetector {
     dryRun: boolean = true
   ) {
     this.supabase = createClient(supabaseUrl, supabaseKey);
+    this.transitions = new ProspectTransitionService(this.supabase);
     this.agentMailApiKey = agentMailApiKey || process.env.AGENTMAIL_API_KEY || '';
     this.dryRun = dryRun;
 
@@ -87,7 +90,7 @@ export class ReplyDetector {
     // Process all detections - pause sequences and create alerts
     for (const detection of detections) {
       // Log channel event
-      await this.logChannelEvent(detection);
+      const eventId = await this.logChannelEvent(detection);
 
       // If it's a reply, pause all sequences for this prospect
       if (detection.eventType === 'reply') {
@@ -99,7 +102,7 @@ export class ReplyDetector {
         pauses.push(...pauseActions);
 
         // Update prospect state to engaged
-        await this.updateProspectState(detection.prospectId, 'engaged');
+        await this.updateProspectState(detection, 'engaged', eventId);
 
         // Create alert
         const alert = this.createAlert(detection);
@@ -399,26 +402,28 @@ export class ReplyDetector {
   }
 
   // Log channel event to database
-  private async logChannelEvent(detection: ReplyDetectionResult): Promise<void> {
+  private async logChannelEvent(detection: ReplyDetectionResult): Promise<string | null> {
     console.log(`[ReplyDetector] Logging ${detection.eventType} event for ${detection.prospectId}`);
 
     if (this.dryRun) {
       console.log(`[ReplyDetector] DRY_RUN: Would log event to channel_events table`);
-      return;
+      return null;
     }
 
-    const { error } = await this.supabase.from('channel_events').insert({
+    const { data, error } = await this.supabase.from('channel_events').insert({
       prospect_id: detection.prospectId,
       campaign_id: detection.campaignId,
       channel: detection.channel,
       event_type: detection.eventType,
       detected_at: detection.detectedAt.toISOString(),
       metadata: detection.metadata || {},
-    });
+    }).select('id').single();
 
     if (error) {
       console.error('[ReplyDetector] Error logging channel event:', error.message);
+      return null;
     }
+    return data?.id ?? null;
   }
 
   // Pause all active sequences for a prospect
@@ -497,24 +502,30 @@ export class ReplyDetector {
   }
 
   // Update prospect state
-  private async updateProspectState(prospectId: string, newState: string): Promise<void> {
-    console.log(`[ReplyDetector] Updating prospect ${prospectId} state to ${newState}`);
+  private async updateProspectState(
+    detection: ReplyDetectionResult,
+    newState: string,
+    eventId: string | null
+  ): Promise<void> {
+    console.log(`[ReplyDetector] Updating prospect ${detection.prospectId} state to ${newState}`);
 
     if (this.dryRun) {
       console.log(`[ReplyDetector] DRY_RUN: Would update prospect state`);
       return;
     }
 
-    const { error } = await this.supabase
-      .from('prospects')
-      .update({
-        state: newState,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', prospectId);
-
-    if (error) {
-      console.error('[ReplyDetector] Error updating prospect state:', error.message);
+    try {
+      await this.transitions.transition({
+        prospectId: detection.prospectId,
+        field: 'pipeline',
+        to: newState,
+        actor: 'reply-detector',
+        event: `${detection.channel}_${detection.eventType}`,
+        eventId,
+        onInvalid: 'quarantine',
+      });
+    } catch (err: any) {
+      console.error('[ReplyDetector] Error updating prospect state:', err.message);
     }
   }
 
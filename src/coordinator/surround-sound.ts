@@ -9,11 +9,28 @@ import {
   Sequence,
   Touchpoint,
   SequenceStep,
+  SequenceTemplate,
   TouchpointResult,
+  TouchpointRow,
+  touchpointFromRow,
 } from '../types';
 import { ReplyDetector } from './reply-detector';
-import { RateLimiter, DEFAULT_LIMITS } from '../core/rate-limiter';
+import {
+  RateLimiter,
+  RateLimitDecision,
+  RateLimitScope,
+  DEFAULT_LIMITS,
+  EMAIL_SENDER_POOL,
+  getEmailPoolLimits,
+} from '../core/rate-limiter';
+import { ActionLedger, buildActionKey } from '../core/job-runner';
+import { SuppressionService } from '../core/suppression';
+import { EmailExperimentService } from '../core/email-experiments';
+import { SequenceEngine } from '../core/sequence-engine';
+import { getStartStepId } from '../core/sequence-graph';
+import { getNextSendWindow } from '../core/business-hours';
 import { EmailAdapter } from '../channels/email-adapter';
+import { getHealthySenders } from '../channels/instantly-adapter';
 import { LinkedInAdapter } from '../channels/linkedin-adapter';
 import { XAdapter } from '../channels/x-adapter';
 import { VoiceAdapter } from '../channels/voice-adapter';
@@ -42,6 +59,7 @@ interface ProspectiveAction {
   campaign: Campaign;
   sequence: Sequence;
   step: SequenceStep;
+  stepId?: string;
   channel: Channel;
   action: string;
   shouldExecute: boolean;
@@ -74,10 +92,31 @@ interface DailySummary {
   errors: string[];
 }
 
+// A summary with nothing counted yet: the start of a run, or the result of one that never ran
+export function emptyDailySummary(date: Date = new Date()): DailySummary {
+  return {
+    date: date.toISOString().split('T')[0],
+    totalProspects: 0,
+    actionsPlanned: 0,
+    actionsExecuted: 0,
+    actionsSkipped: 0,
+    byChannel: {
+      email: { planned: 0, executed: 0, failed: 0 },
+      linkedin: { planned: 0, executed: 0, failed: 0 },
+      x: { planned: 0, executed: 0, failed: 0 },
+      voice: { planned: 0, executed: 0, failed: 0 },
+    },
+    escalations: 0,
+    repliesDetected: 0,
+    errors: [],
+  };
+}
+
 export class SurroundSoundCoordinator {
   private supabase: SupabaseClient;
   private replyDetector: ReplyDetector;
   private rateLimiter: RateLimiter;
+  private ledger: ActionLedger;
   private config: CoordinatorConfig;
 
   // Channel adapters
@@ -102,10 +141,11 @@ export class SurroundSoundCoordinator {
       process.env.AGENTMAIL_API_KEY,
       this.config.dryRun
     );
-    this.rateLimiter = new RateLimiter(DEFAULT_LIMITS);
+    this.rateLimiter = new RateLimiter(DEFAULT_LIMITS, this.supabase);
+    this.ledger = new ActionLedger(this.supabase);
 
     // Initialize adapters
-    this.emailAdapter = new EmailAdapter();
+    this.emailAdapter = new EmailAdapter(new SuppressionService(this.supabase), new EmailExperimentService(this.supabase));
     this.linkedInAdapter = new LinkedInAdapter();
     this.xAdapter = new XAdapter();
     this.voiceAdapter = new VoiceAdapter();
@@ -120,22 +160,7 @@ export class SurroundSoundCoordinator {
   } = {}): Promise<DailySummary> {
     console.log('[SurroundSound] Starting surround sound run...');
 
-    const summary: DailySummary = {
-      date: new Date().toISOString().split('T')[0],
-      totalProspects: 0,
-      actionsPlanned: 0,
-      actionsExecuted: 0,
-      actionsSkipped: 0,
-      byChannel: {
-        email: { planned: 0, executed: 0, failed: 0 },
-        linkedin: { planned: 0, executed: 0, failed: 0 },
-        x: { planned: 0, executed: 0, failed: 0 },
-        voice: { planned: 0, executed: 0, failed: 0 },
-      },
-      escalations: 0,
-      repliesDetected: 0,
-      errors: [],
-    };
+    const summary = emptyDailySummary();
 
     try {
       // 1. Check for replies first - pause sequences if needed
@@ -243,7 +268,8 @@ export class SurroundSoundCoordinator {
       .from('prospects')
       .select('*')
       .eq('campaign_id', campaignId)
-      .not('state', 'in', '(engaged,booked,converted,not_interested)');
+      .not('state', 'in', '(engaged,booked,converted,not_interested)')
+      .order('score', { ascending: false, nullsFirst: false });
 
     if (limit) {
       query = query.limit(limit);
@@ -296,8 +322,8 @@ export class SurroundSoundCoordinator {
     }
 
     // 3. Get the template
-    const template = getTemplate(sequence.templateId) || campaign.sequenceTemplate;
-    if (!template || !template.steps || sequence.currentStep >= template.steps.length) {
+    const template = this.getSequenceTemplate(sequence, campaign);
+    if (!template || !template.steps) {
       return {
         prospect,
         campaign,
@@ -310,9 +336,11 @@ export class SurroundSoundCoordinator {
       };
     }
 
-    // 4. Get current step
-    const step = template.steps[sequence.currentStep];
-    if (!step) {
+    // 4. Get current step (outcome edges on the previous step may reroute)
+    const touchpoints = await this.loadTouchpoints(prospect.id);
+    const engine = new SequenceEngine(campaign, template);
+    const resolved = engine.resolveCurrentStep(sequence, touchpoints);
+    if (!resolved) {
       return {
         prospect,
         campaign,
@@ -321,12 +349,14 @@ export class SurroundSoundCoordinator {
         channel: 'email',
         action: 'skip',
         shouldExecute: false,
-        reason: 'No step found at current position',
+        reason: `No step found for id ${sequence.currentStep}`,
       };
     }
+    const step = resolved.step;
+    const stepId = resolved.id;
 
     // 5. Check if step is due (based on day delay)
-    const isDue = await this.isStepDue(sequence, step);
+    const isDue = await this.isStepDue(sequence, step, prospect, campaign);
     if (!isDue.due) {
       return {
         prospect,
@@ -344,7 +374,7 @@ export class SurroundSoundCoordinator {
     if (!this.hasRequiredData(prospect, step.channel)) {
       // Skip to next step
       console.log(`[SurroundSound] Skipping ${step.channel} step - no data for ${prospect.id}`);
-      await this.advanceSequence(sequence);
+      await this.advanceSequence(sequence, campaign, stepId);
       return {
         prospect,
         campaign,
@@ -357,8 +387,24 @@ export class SurroundSoundCoordinator {
       };
     }
 
+    // 6b. Check step conditions (e.g. LinkedIn message only once connected)
+    if (!engine.checkConditions(step, prospect, touchpoints)) {
+      console.log(`[SurroundSound] Skipping step ${stepId} - conditions not met for ${prospect.id}`);
+      await this.advanceSequence(sequence, campaign, stepId);
+      return {
+        prospect,
+        campaign,
+        sequence,
+        step,
+        channel: step.channel,
+        action: step.action,
+        shouldExecute: false,
+        reason: 'Step conditions not met',
+      };
+    }
+
     // 7. Check rate limits
-    const rateLimitCheck = await this.checkRateLimit(step.channel, campaign.id);
+    const rateLimitCheck = await this.rateLimiter.check({ campaignId: campaign.id, channel: step.channel });
     if (!rateLimitCheck.allowed) {
       return {
         prospect,
@@ -387,6 +433,7 @@ export class SurroundSoundCoordinator {
       campaign,
       sequence,
       step,
+      stepId,
       channel: step.channel,
       action: step.action,
       shouldExecute: true,
@@ -412,9 +459,36 @@ export class SurroundSoundCoordinator {
       };
     }
 
+    // Claim prospect + step for today; a replayed run sees the claim and skips
+    const actionKey = buildActionKey(prospect.id, action.stepId ?? `${channel}:${step.action}`);
+    if (!(await this.ledger.claim(actionKey, prospect.id))) {
+      return {
+        success: false,
+        prospectId: prospect.id,
+        channel,
+        action: step.action,
+        error: `Action ${actionKey} already claimed`,
+      };
+    }
+
     let result: TouchpointResult;
+    let quota: RateLimitDecision | undefined;
+    let sent = false;
 
     try {
+      // Take the rate-limit slot atomically right before sending
+      quota = await this.rateLimiter.consume(await this.getRateLimitScope(channel, action.campaign.id));
+      if (!quota.allowed) {
+        await this.ledger.release(actionKey);
+        return {
+          success: false,
+          prospectId: prospect.id,
+          channel,
+          action: step.action,
+          error: `Rate limit: ${quota.reason}`,
+        };
+      }
+
       switch (channel) {
         case 'email':
           result = await this.executeEmailAction(prospect, step);
@@ -432,15 +506,21 @@ export class SurroundSoundCoordinator {
           throw new Error(`Unknown channel: ${channel}`);
       }
 
-      // Log touchpoint
-      const touchpointId = await this.logTouchpoint(prospect, action.campaign.id, channel, step, result);
+      // Give the slot back if nothing was sent
+      sent = result.success;
+      if (sent) {
+        await this.ledger.complete(actionKey);
+      } else {
+        await this.rateLimiter.release(quota.reservation);
+        await this.ledger.release(actionKey);
+      }
 
-      // Update rate limits
-      await this.incrementRateLimit(channel, action.campaign.id);
+      // Log touchpoint
+      const touchpointId = await this.logTouchpoint(prospect, action.campaign.id, channel, step, result, action.stepId);
 
       // Advance sequence on success
       if (result.success) {
-        await this.advanceSequence(action.sequence);
+        await this.advanceSequence(action.sequence, action.campaign, action.stepId);
       }
 
       return {
@@ -455,6 +535,10 @@ export class SurroundSoundCoordinator {
       };
     } catch (err: any) {
       console.error(`[SurroundSound] Error executing ${channel} action:`, err.message);
+      if (!sent) {
+        await this.rateLimiter.release(quota?.reservation);
+        await this.ledger.release(actionKey);
+      }
       return {
         success: false,
         prospectId: prospect.id,
@@ -648,7 +732,9 @@ Best,
   // Check if step is due based on timing
   private async isStepDue(
     sequence: Sequence,
-    step: SequenceStep
+    step: SequenceStep,
+    prospect: Prospect,
+    campaign: Campaign
   ): Promise<{ due: boolean; reason?: string }> {
     const now = new Date();
 
@@ -657,16 +743,17 @@ Best,
       return { due: false, reason: `Next step scheduled for ${sequence.nextStepAt.toISOString()}` };
     }
 
-    // Check business hours if configured
+    // Check business hours in the prospect's timezone if configured
     if (this.config.respectBusinessHours) {
-      const hour = now.getHours();
-      if (hour < 9 || hour > 17) {
-        return { due: false, reason: 'Outside business hours' };
+      const window = getNextSendWindow(now, { businessHours: campaign.businessHours, prospect });
+      if (!window) {
+        return { due: false, reason: 'No business-hours window within 30 days; check the campaign hours and workdays' };
       }
-
-      const day = now.getDay();
-      if (day === 0 || day === 6) {
-        return { due: false, reason: 'Weekend' };
+      if (window.start > now) {
+        return {
+          due: false,
+          reason: `Outside business hours (${window.timezone}), next window ${window.start.toISOString()}`,
+        };
       }
     }
 
@@ -733,78 +820,19 @@ Best,
     });
   }
 
-  // Check rate limit for channel
-  private async checkRateLimit(
-    channel: Channel,
-    campaignId: string
-  ): Promise<{ allowed: boolean; reason?: string }> {
-    const today = new Date().toISOString().split('T')[0];
-
-    const { data: rateLimit, error } = await this.supabase
-      .from('rate_limits')
-      .select('*')
-      .eq('campaign_id', campaignId)
-      .eq('channel', channel)
-      .eq('date', today)
-      .single();
-
-    if (error && error.code !== 'PGRST116') {
-      // PGRST116 = no rows found
-      console.error('[SurroundSound] Error checking rate limit:', error.message);
-    }
-
-    const currentCount = rateLimit?.count || 0;
-    const maxLimit = rateLimit?.max_limit || DEFAULT_LIMITS[channel].daily;
-
-    if (currentCount >= maxLimit) {
-      return { allowed: false, reason: `Daily limit reached (${currentCount}/${maxLimit})` };
-    }
-
-    return { allowed: true };
-  }
-
-  // Increment rate limit counter
-  private async incrementRateLimit(channel: Channel, campaignId: string): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-
-    if (this.config.dryRun) {
-      console.log(`[SurroundSound] DRY_RUN: Would increment rate limit for ${channel}`);
-      return;
+  // Rate-limit scope for a send; email shares the Instantly sender pool with the sequence runner
+  private async getRateLimitScope(channel: Channel, campaignId: string): Promise<RateLimitScope> {
+    if (channel !== 'email') {
+      return { campaignId, channel };
     }
 
-    // Upsert rate limit
-    const { error } = await this.supabase.rpc('increment_rate_limit', {
-      p_campaign_id: campaignId,
-      p_channel: channel,
-      p_date: today,
-      p_max_limit: DEFAULT_LIMITS[channel].daily,
-    });
-
-    if (error) {
-      // Fallback to manual upsert if RPC doesn't exist
-      const { data: existing } = await this.supabase
-        .from('rate_limits')
-        .select('id, count')
-        .eq('campaign_id', campaignId)
-        .eq('channel', channel)
-        .eq('date', today)
-        .single();
-
-      if (existing) {
-        await this.supabase
-          .from('rate_limits')
-          .update({ count: existing.count + 1 })
-          .eq('id', existing.id);
-      } else {
-        await this.supabase.from('rate_limits').insert({
-          campaign_id: campaignId,
-          channel,
-          date: today,
-          count: 1,
-          max_limit: DEFAULT_LIMITS[channel].daily,
-        });
-      }
-    }
+    const senders = await getHealthySenders();
+    return {
+      campaignId,
+      channel,
+      sender: EMAIL_SENDER_POOL,
+      senderLimits: getEmailPoolLimits(senders.length),
+    };
   }
 
   // Check escalation status (email opened but no reply after 48h)
@@ -934,6 +962,7 @@ Best,
 
     // Create new sequence
     const templateId = getRecommendedTemplate(prospect);
+    const template = getTemplate(templateId) || campaign.sequenceTemplate;
 
     const { data: created, error: createError } = await this.supabase
       .from('sequences')
@@ -941,7 +970,7 @@ Best,
         prospect_id: prospect.id,
         campaign_id: campaign.id,
         template_id: templateId,
-        current_step: 0,
+        current_step: getStartStepId(template?.steps || []) ?? '0',
         status: 'active',
         started_at: new Date().toISOString(),
         coordination_mode: 'surround',
@@ -957,22 +986,52 @@ Best,
     return this.mapSequenceFromRow(created);
   }
 
-  // Advance sequence to next step
-  private async advanceSequence(sequence: Sequence): Promise<void> {
-    const nextStep = sequence.currentStep + 1;
+  // Resolve the template a sequence runs on
+  private getSequenceTemplate(sequence: Sequence, campaign: Campaign): SequenceTemplate | undefined {
+    return getTemplate(sequence.templateId) || campaign.sequenceTemplate;
+  }
+
+  // Load all touchpoints for a prospect (used to follow outcome edges)
+  private async loadTouchpoints(prospectId: string): Promise<Touchpoint[]> {
+    const { data, error } = await this.supabase
+      .from('touchpoints')
+      .select('*')
+      .eq('prospect_id', prospectId)
+      .order('sent_at', { ascending: true });
+
+    if (error) {
+      console.error('[SurroundSound] Error loading touchpoints:', error.message);
+      return [];
+    }
+
+    return (data || []).map(row => touchpointFromRow(row as TouchpointRow));
+  }
+
+  // Advance sequence past the step that was just executed
+  private async advanceSequence(sequence: Sequence, campaign: Campaign, stepId?: string): Promise<void> {
+    const template = this.getSequenceTemplate(sequence, campaign);
+    if (!template) return;
+
+    const advanced = new SequenceEngine(campaign, template).advanceSequence(sequence, stepId);
 
     const update: any = {
-      current_step: nextStep,
+      current_step: advanced.currentStep,
+      previous_step: advanced.previousStep,
       updated_at: new Date().toISOString(),
     };
 
-    // Calculate next step time (default: 2 days)
-    const nextStepAt = new Date();
-    nextStepAt.setDate(nextStepAt.getDate() + 2);
-    update.next_step_at = nextStepAt.toISOString();
+    if (advanced.status === 'completed') {
+      update.status = 'completed';
+      update.completed_at = advanced.completedAt?.toISOString();
+    } else {
+      // Calculate next step time (default: 2 days)
+      const nextStepAt = new Date();
+      nextStepAt.setDate(nextStepAt.getDate() + 2);
+      update.next_step_at = nextStepAt.toISOString();
+    }
 
     if (this.config.dryRun) {
-      console.log(`[SurroundSound] DRY_RUN: Would advance sequence ${sequence.id} to step ${nextStep}`);
+      console.log(`[SurroundSound] DRY_RUN: Would advance sequence ${sequence.id} to step ${advanced.currentStep}`);
       return;
     }
 
@@ -992,7 +1051,8 @@ Best,
     campaignId: string,
     channel: Channel,
     step: SequenceStep,
-    result: TouchpointResult
+    result: TouchpointResult,
+    stepId?: string
   ): Promise<string | undefined> {
     if (this.config.dryRun) {
       console.log(`[SurroundSound] DRY_RUN: Would log touchpoint`);
@@ -1010,6 +1070,7 @@ Best,
         outcome: result.outcome || (result.success ? 'sent' : 'failed'),
         metadata: {
           ...result.metadata,
+          step_id: stepId,
           step_template: step.template,
           step_day: step.day,
         },
@@ -1065,6 +1126,7 @@ Best,
       companySize: row.company_size,
       location: row.location,
       state: row.state,
+      timezone: row.timezone,
       pipeline_state: row.pipeline_state || "discovered",
       linkedinState: row.linkedin_state || 'not_connected',
       xState: row.x_state || 'not_following',
@@ -1085,7 +1147,8 @@ Best,
       prospectId: row.prospect_id,
       campaignId: row.campaign_id,
       templateId: row.template_id,
-      currentStep: row.current_step || 0,
+      currentStep: String(row.current_step ?? 0),
+      previousStep: row.previous_step ?? undefined,
       nextStepAt: row.next_step_at ? new Date(row.next_step_at) : undefined,
       status: row.status,
       startedAt: new Date(row.started_at),
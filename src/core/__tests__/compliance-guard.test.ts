@@ -0,0 +1,125 @@
+import { ComplianceGuard, StateCallingRules, evaluateCallCompliance } from '../compliance-guard';
+
+const NO_ATTEMPTS = { last24h: 0, last7d: 0 };
+
+// Fixed instants (UTC). October 2026 is daylight time: Eastern UTC-4, Central UTC-5, Pacific UTC-7.
+const TUESDAY = (utc: string) => new Date(`2026-10-20T${utc}:00Z`);
+const SUNDAY = (utc: string) => new Date(`2026-10-18T${utc}:00Z`);
+
+describe('evaluateCallCompliance', () => {
+  describe('state calling hours', () => {
+    const miami = { state: 'FL', phone: '+13055550100' };
+
+    it('allows a Florida call before 8pm local', () => {
+      const decision = evaluateCallCompliance(miami, NO_ATTEMPTS, TUESDAY('23:30')); // 19:30 EDT
+      expect(decision.allowed).toBe(true);
+      expect(decision.rule).toBe('FL:ok');
+      expect(decision.localTime).toBe('2026-10-20 19:30');
+    });
+
+    it('blocks a Florida call at 8pm local, where the federal window would still allow it', () => {
+      const decision = evaluateCallCompliance(miami, NO_ATTEMPTS, TUESDAY('00:00')); // 20:00 EDT Monday
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule).toBe('FL:hours');
+    });
+
+    it('applies the federal 8am-9pm window to states without overrides', () => {
+      const newYork = { state: 'NY', phone: '+12125550100' };
+      expect(evaluateCallCompliance(newYork, NO_ATTEMPTS, TUESDAY('00:30')).allowed).toBe(true); // 20:30 EDT
+      const late = evaluateCallCompliance(newYork, NO_ATTEMPTS, TUESDAY('01:00')); // 21:00 EDT
+      expect(late.allowed).toBe(false);
+      expect(late.rule).toBe('NY:hours');
+      const early = evaluateCallCompliance(newYork, NO_ATTEMPTS, TUESDAY('11:59')); // 07:59 EDT
+      expect(early.rule).toBe('NY:hours');
+    });
+  });
+
+  describe('Sunday and holiday bans', () => {
+    it('blocks Alabama on Sundays at any hour', () => {
+      const decision = evaluateCallCompliance({ state: 'AL', phone: '+12055550100' }, NO_ATTEMPTS, SUNDAY('17:00')); // noon CDT
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule).toBe('AL:sunday');
+    });
+
+    it('allows Texas on Sundays only from noon', () => {
+      const austin = { state: 'TX', phone: '+15125550100' };
+      expect(evaluateCallCompliance(austin, NO_ATTEMPTS, SUNDAY('16:00')).rule).toBe('TX:hours'); // 11:00 CDT
+      expect(evaluateCallCompliance(austin, NO_ATTEMPTS, SUNDAY('17:30')).allowed).toBe(true); // 12:30 CDT
+    });
+
+    it('blocks Utah on Thanksgiving but allows the day before', () => {
+      const saltLake = { state: 'UT', phone: '+18015550100' };
+      const thanksgiving = evaluateCallCompliance(saltLake, NO_ATTEMPTS, new Date('2026-11-26T19:00:00Z')); // noon MST
+      expect(thanksgiving.allowed).toBe(false);
+      expect(thanksgiving.rule).toBe('UT:holiday');
+      expect(evaluateCallCompliance(saltLake, NO_ATTEMPTS, new Date('2026-11-25T19:00:00Z')).allowed).toBe(true);
+    });
+
+    it('ignores holidays in states without a holiday ban', () => {
+      const decision = evaluateCallCompliance({ state: 'NY', phone: '+12125550100' }, NO_ATTEMPTS, new Date('2026-11-26T17:00:00Z'));
+      expect(decision.allowed).toBe(true);
+    });
+  });
+
+  describe('attempt caps', () => {
+    const miami = { state: 'FL', phone: '+13055550100' };
+    const noon = TUESDAY('16:00');
+
+    it('blocks the fourth Florida call in 24 hours', () => {
+      expect(evaluateCallCompliance(miami, { last24h: 2, last7d: 2 }, noon).allowed).toBe(true);
+      const decision = evaluateCallCompliance(miami, { last24h: 3, last7d: 3 }, noon);
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule).toBe('FL:attempts_24h');
+    });
+
+    it('applies a weekly cap from a custom rules table', () => {
+      const rules: Record<string, Partial<StateCallingRules>> = { NY: { maxAttemptsPer7d: 5, source: 'test' } };
+      const newYork = { state: 'NY', phone: '+12125550100' };
+      expect(evaluateCallCompliance(newYork, { last24h: 0, last7d: 4 }, noon, rules).allowed).toBe(true);
+      expect(evaluateCallCompliance(newYork, { last24h: 0, last7d: 5 }, noon, rules).rule).toBe('NY:attempts_7d');
+    });
+  });
+
+  describe('area-code state versus stored state', () => {
+    it('applies both states when the phone is from another state', () => {
+      // Stored New York, Miami mobile: 20:30 EDT passes New York but not Florida
+      const decision = evaluateCallCompliance({ state: 'NY', phone: '+13055550100' }, NO_ATTEMPTS, TUESDAY('00:30'));
+      expect(decision.states).toEqual(['NY', 'FL']);
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule).toBe('FL:hours');
+    });
+
+    it("judges the area-code state on the phone's own clock", () => {
+      // Stored California (18:30 PDT), New York mobile where it is already 21:30 EDT
+      const decision = evaluateCallCompliance({ state: 'CA', phone: '+12125550100' }, NO_ATTEMPTS, TUESDAY('01:30'));
+      expect(decision.timezone).toBe('America/Los_Angeles');
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule).toBe('NY:hours');
+    });
+
+    it('falls back to the area-code state when no state is stored', () => {
+      const decision = evaluateCallCompliance({ phone: '+12055550100' }, NO_ATTEMPTS, SUNDAY('17:00'));
+      expect(decision.states).toEqual(['AL']);
+      expect(decision.rule).toBe('AL:sunday');
+    });
+  });
+});
+
+describe('ComplianceGuard', () => {
+  it('evaluates at the injected clock and skips the denial write in dry runs', async () => {
+    const insert = jest.fn();
+    const rows = { data: [{ created_at: '2026-10-15T15:00:00Z' }], error: null };
+    const query: any = { select: () => query, eq: () => query, neq: () => query, gte: () => Promise.resolve(rows), insert };
+    const supabase: any = { from: () => query };
+
+    const guard = new ComplianceGuard(supabase, { clock: () => SUNDAY('17:00'), dryRun: true });
+    const prospect = { id: 'p1', state: 'AL', phone: '+12055550100' };
+    const decision = await guard.check(prospect);
+    expect(decision.evaluatedAt).toBe('2026-10-18T17:00:00.000Z');
+    expect(decision.attempts).toEqual({ last24h: 0, last7d: 1 });
+    expect(decision.rule).toBe('AL:sunday');
+
+    await guard.recordDenial(prospect, decision, 'test');
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,12 @@
-// A/B Router - Round-robin variant selector for voice agent testing
+// A/B Router - Voice agent variant allocation (round-robin, weighted, epsilon-greedy, Thompson sampling)
+// Variants come from the running experiment (core/experiment-registry, variants.json as fallback).
+// Performance per variant is read from call_logs, so allocation survives restarts; every decision is
+// logged to variant_allocations for auditing experiments.
 
+import { SupabaseClient } from '@supabase/supabase-js';
 import variants from '../../variants.json';
+import { ExperimentRegistry } from './experiment-registry';
+import { fetchAllPages } from './paging';
 
 export interface VariantConfig {
   id: string;
@@ -8,23 +14,61 @@ export interface VariantConfig {
   name: string;
   weight: number;
   enabled: boolean;
+  versionId?: string; // experiment_variants row (unset for variants.json)
+  version?: number;
+  experimentId?: string;
 }
 
-// Track call counts in memory (resets on restart, that's fine — DB tracks long-term)
-const callCounts: Record<string, number> = {};
+export type AllocationMode = 'round_robin' | 'weighted' | 'epsilon_greedy' | 'thompson';
 
-export function selectVariant(): VariantConfig {
-  const enabled = variants.variants.filter((v: any) => v.enabled);
-  if (enabled.length === 0) throw new Error('No enabled variants');
+export interface AllocationConfig {
+  mode: AllocationMode;
+  epsilon: number; // epsilon_greedy: share of calls spent exploring
+  explorationFloor: number; // every enabled variant gets at least this share of calls, in any mode
+  minCallsBeforeBandit: number; // bandit modes round-robin until every variant has this many calls
+  statsWindowDays: number; // how far back performance is read
+}
 
-  // Round-robin: pick variant with fewest calls
-  for (const v of enabled) {
-    if (!callCounts[v.id]) callCounts[v.id] = 0;
-  }
-  enabled.sort((a: any, b: any) => (callCounts[a.id] || 0) - (callCounts[b.id] || 0));
-  const selected = enabled[0];
-  callCounts[selected.id] = (callCounts[selected.id] || 0) + 1;
-  return selected;
+// Calls and outcomes per variant; positive = booked + interested
+export interface VariantStats {
+  variantId: string;
+  calls: number;
+  booked: number;
+  interested: number;
+}
+
+export interface AllocationDecision {
+  variant: VariantConfig;
+  mode: AllocationMode;
+  explored: boolean; // picked by the exploration floor or epsilon rather than the mode's choice
+  reason: string;
+  scores: Record<string, number>; // what the mode ranked on: calls, weights, rates or Thompson draws
+  stats: VariantStats[];
+}
+
+export interface AllocationContext {
+  prospectId?: string;
+  callLogId?: string;
+  dryRun?: boolean; // decide without logging
+}
+
+// Allocation settings at the top level of variants.json; all optional
+interface AllocationFile {
+  strategy?: string; // an AllocationMode, dashes allowed ('round-robin')
+  epsilon?: number;
+  explorationFloor?: number;
+  minCallsBeforeBandit?: number;
+  statsWindowDays?: number;
+}
+
+const ALLOCATION_MODES: AllocationMode[] = ['round_robin', 'weighted', 'epsilon_greedy', 'thompson'];
+
+// Outcomes a variant is rewarded for (same as the positive intent rate in docs/agent-config-plan.md)
+const POSITIVE_OUTCOMES = ['booked', 'interested'];
+
+// variants.json lookups (the seed config); the live config is ExperimentRegistry.current()
+export function getEnabledVariants(): VariantConfig[] {
+  return variants.variants.filter((v: any) => v.enabled);
 }
 
 export function getVariantById(id: string): VariantConfig | undefined {
@@ -34,3 +78,221 @@ export function getVariantById(id: string): VariantConfig | undefined {
 export function getVariantByAgentId(agentId: string): VariantConfig | undefined {
   return variants.variants.find((v: any) => v.agentId === agentId);
 }
+
+// Allocation settings from variants.json ("round-robin" is accepted for round_robin)
+export function getAllocationConfig(overrides: Partial<AllocationConfig> = {}): AllocationConfig {
+  const file: AllocationFile = variants;
+  const strategy = String(file.strategy || 'round_robin').replace(/-/g, '_') as AllocationMode;
+  return {
+    mode: ALLOCATION_MODES.includes(strategy) ? strategy : 'round_robin',
+    epsilon: file.epsilon ?? 0.2,
+    explorationFloor: file.explorationFloor ?? 0.05,
+    minCallsBeforeBandit: file.minCallsBeforeBandit ?? 50,
+    statsWindowDays: file.statsWindowDays ?? 30,
+    ...overrides,
+  };
+}
+
+function positiveRate(stats: VariantStats | undefined): number {
+  return stats && stats.calls > 0 ? (stats.booked + stats.interested) / stats.calls : 0;
+}
+
+function bookingRate(stats: VariantStats | undefined): number {
+  return stats && stats.calls > 0 ? stats.booked / stats.calls : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function pickUniform<T>(items: T[], random: () => number): T {
+  return items[Math.min(items.length - 1, Math.floor(random() * items.length))];
+}
+
+// Marsaglia-Tsang gamma sampler (shape >= 1, which Beta(1 + s, 1 + f) always gives)
+function sampleGamma(shape: number, random: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      // Box-Muller standard normal
+      x = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+/**
+ * Pick a variant for the next call. Pure given `random`, so allocation can be replayed offline.
+ * With probability explorationFloor * N a variant is drawn uniformly first, which guarantees each
+ * of the N variants at least explorationFloor of traffic whatever the mode prefers.
+ */
+export function allocateVariant(
+  candidates: VariantConfig[],
+  stats: VariantStats[],
+  config: AllocationConfig,
+  random: () => number = Math.random
+): AllocationDecision {
+  if (candidates.length === 0) throw new Error('No enabled variants');
+
+  const byId = new Map(stats.map(s => [s.variantId, s]));
+  const calls = (v: VariantConfig) => byId.get(v.id)?.calls || 0;
+  const decide = (variant: VariantConfig, explored: boolean, reason: string, scores: Record<string, number>): AllocationDecision =>
+    ({ variant, mode: config.mode, explored, reason, scores, stats });
+
+  if (candidates.length > 1 && random() < Math.min(1, config.explorationFloor * candidates.length)) {
+    return decide(pickUniform(candidates, random), true, `Exploration floor (${config.explorationFloor} per variant)`, {});
+  }
+
+  const fewestCalls = (reason: string) => {
+    const scores = Object.fromEntries(candidates.map(v => [v.id, calls(v)]));
+    const selected = [...candidates].sort((a, b) => calls(a) - calls(b))[0];
+    return decide(selected, false, reason, scores);
+  };
+
+  const bandit = config.mode === 'epsilon_greedy' || config.mode === 'thompson';
+  if (bandit && candidates.some(v => calls(v) < config.minCallsBeforeBandit)) {
+    return fewestCalls(`Warm-up: round-robin until every variant has ${config.minCallsBeforeBandit} calls`);
+  }
+
+  switch (config.mode) {
+    case 'round_robin':
+      return fewestCalls('Fewest calls');
+
+    case 'weighted': {
+      const total = candidates.reduce((sum, v) => sum + Math.max(0, v.weight || 0), 0);
+      const scores = Object.fromEntries(candidates.map(v => [v.id, v.weight || 0]));
+      if (total <= 0) return decide(pickUniform(candidates, random), false, 'No positive weights, uniform', scores);
+      let draw = random() * total;
+      for (const v of candidates) {
+        draw -= Math.max(0, v.weight || 0);
+        if (draw < 0) return decide(v, false, `Weight ${v.weight} of ${total}`, scores);
+      }
+      return decide(candidates[candidates.length - 1], false, `Weight of ${total}`, scores);
+    }
+
+    case 'epsilon_greedy': {
+      const scores = Object.fromEntries(candidates.map(v => [v.id, round(positiveRate(byId.get(v.id)))]));
+      if (random() < config.epsilon) {
+        return decide(pickUniform(candidates, random), true, `Epsilon exploration (${config.epsilon})`, scores);
+      }
+      const best = [...candidates].sort((a, b) =>
+        scores[b.id] - scores[a.id] || bookingRate(byId.get(b.id)) - bookingRate(byId.get(a.id))
+      )[0];
+      return decide(best, false, `Best positive rate ${(scores[best.id] * 100).toFixed(1)}%`, scores);
+    }
+
+    case 'thompson': {
+      // Beta(1 + positives, 1 + other calls) posterior per variant; highest draw wins
+      const scores: Record<string, number> = {};
+      for (const v of candidates) {
+        const s = byId.get(v.id);
+        const positives = s ? s.booked + s.interested : 0;
+        scores[v.id] = round(sampleBeta(1 + positives, 1 + Math.max(0, calls(v) - positives), random));
+      }
+      const best = [...candidates].sort((a, b) => scores[b.id] - scores[a.id])[0];
+      return decide(best, false, `Highest Thompson draw ${scores[best.id]}`, scores);
+    }
+  }
+}
+
+export class VariantAllocator {
+  private supabase: SupabaseClient;
+  private registry: ExperimentRegistry;
+  private overrides: Partial<AllocationConfig>;
+
+  constructor(supabase: SupabaseClient, overrides: Partial<AllocationConfig> = {}) {
+    this.supabase = supabase;
+    this.registry = new ExperimentRegistry(supabase);
+    this.overrides = overrides;
+  }
+
+  // Calls and positive outcomes per variant over the stats window, never reaching back before
+  // the experiment started (blocked and dry-run rows excluded)
+  async loadStats(config: AllocationConfig, startedAt?: string | null, now: Date = new Date()): Promise<VariantStats[]> {
+    const windowStart = new Date(now.getTime() - config.statsWindowDays * 24 * 60 * 60 * 1000).toISOString();
+    const since = startedAt && startedAt > windowStart ? startedAt : windowStart;
+    const { data, error } = await fetchAllPages<{ agent_variant: string; outcome: string | null }>((from, to) => this.supabase
+      .from('call_logs')
+      .select('agent_variant, outcome')
+      .not('agent_variant', 'is', null)
+      .not('status', 'in', '(blocked,dry_run)')
+      .gte('created_at', since)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    if (error) {
+      throw new Error(`Failed to load variant stats: ${error.message}`);
+    }
+
+    const stats = new Map<string, VariantStats>();
+    for (const row of data || []) {
+      const entry = stats.get(row.agent_variant) || { variantId: row.agent_variant, calls: 0, booked: 0, interested: 0 };
+      entry.calls++;
+      if (row.outcome === 'booked') entry.booked++;
+      else if (POSITIVE_OUTCOMES.includes(row.outcome || '')) entry.interested++;
+      stats.set(row.agent_variant, entry);
+    }
+    return [...stats.values()];
+  }
+
+  // Unreadable stats fall back to weighted allocation rather than stopping the dialer
+  async allocate(context: AllocationContext = {}, now: Date = new Date()): Promise<AllocationDecision> {
+    const { experiment, variants: registered } = await this.registry.current(now);
+    const candidates = registered.filter(v => v.enabled);
+    const config = getAllocationConfig({ ...experiment?.allocation, ...this.overrides });
+
+    let decision: AllocationDecision;
+    try {
+      decision = allocateVariant(candidates, await this.loadStats(config, experiment?.started_at, now), config);
+    } catch (err: any) {
+      if (!candidates.length) throw err;
+      console.error(`[ABRouter] ${err.message}, allocating by weight`);
+      decision = allocateVariant(candidates, [], { ...config, mode: 'weighted', explorationFloor: 0 });
+      decision.reason = `Stats unavailable; ${decision.reason}`;
+    }
+
+    const version = decision.variant.version ? ` v${decision.variant.version}` : '';
+    console.log(`[ABRouter] ${decision.mode}: ${decision.variant.id}${version}${decision.explored ? ' (explore)' : ''} — ${decision.reason}`);
+    if (!context.dryRun) await this.record(decision, config, context);
+    return decision;
+  }
+
+  // A specific variant of the running experiment (or variants.json), enabled or not
+  async resolve(variantId: string, now: Date = new Date()): Promise<VariantConfig | undefined> {
+    const { variants: registered } = await this.registry.current(now);
+    return registered.find(v => v.id === variantId);
+  }
+
+  private async record(decision: AllocationDecision, config: AllocationConfig, context: AllocationContext): Promise<void> {
+    const { error } = await this.supabase.from('variant_allocations').insert({
+      variant_id: decision.variant.id,
+      experiment_id: decision.variant.experimentId ?? null,
+      experiment_variant_id: decision.variant.versionId ?? null,
+      mode: decision.mode,
+      explored: decision.explored,
+      reason: decision.reason,
+      scores: decision.scores,
+      stats: decision.stats,
+      config,
+      prospect_id: context.prospectId ?? null,
+      call_log_id: context.callLogId ?? null,
+    });
+
+    if (error) {
+      console.error('[ABRouter] Failed to log allocation:', error.message);
+    }
+  }
+}
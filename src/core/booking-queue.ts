@@ -0,0 +1,186 @@
+// Booking Queue
+// Every meeting-booking decision from the post-call webhook (booking_decisions), with the transcript excerpt
+// behind it. Times that didn't resolve cleanly to an offered slot (core/booking-resolver) wait here as
+// 'needs_confirmation' until someone confirms or dismisses them.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BookingResolution } from './booking-resolver';
+import { parseCallbackTime } from './callback-parser';
+
+export type BookingDecisionStatus = 'booked' | 'needs_confirmation' | 'confirmed' | 'dismissed';
+
+export interface BookingDecision {
+  id: string;
+  conversationId: string | null;
+  prospectName: string | null;
+  prospectPhone: string | null;
+  prospectEmail: string | null;
+  ghlContactId: string | null;
+  status: BookingDecisionStatus;
+  reason: string;
+  slotTime: string | null;
+  spokenTime: string | null;
+  timezone: string;
+  offeredSlots: string[] | null;
+  offeredSource: 'transcript' | 'calendar' | null;
+  conflicts: string[];
+  excerpt: string;
+  ghlAppointmentId: string | null;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  createdAt: string;
+}
+
+export interface BookingDecisionInput {
+  conversationId: string;
+  prospectName?: string | null;
+  prospectPhone?: string | null;
+  prospectEmail?: string | null;
+  ghlContactId?: string | null;
+  ghlAppointmentId?: string | null;
+  timezone: string;
+  offeredSlots: string[] | null;
+  offeredSource: 'transcript' | 'calendar' | null;
+  resolution: BookingResolution;
+}
+
+export interface BookingListOptions {
+  status?: BookingDecisionStatus;
+  limit?: number;
+}
+
+function toDecision(row: any): BookingDecision {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id ?? null,
+    prospectName: row.prospect_name ?? null,
+    prospectPhone: row.prospect_phone ?? null,
+    prospectEmail: row.prospect_email ?? null,
+    ghlContactId: row.ghl_contact_id ?? null,
+    status: row.status,
+    reason: row.reason,
+    slotTime: row.slot_time ?? null,
+    spokenTime: row.spoken_time ?? null,
+    timezone: row.timezone,
+    offeredSlots: row.offered_slots ?? null,
+    offeredSource: row.offered_source ?? null,
+    conflicts: row.conflicts || [],
+    excerpt: row.excerpt || '',
+    ghlAppointmentId: row.ghl_appointment_id ?? null,
+    resolvedAt: row.resolved_at ?? null,
+    resolvedBy: row.resolved_by ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+// An ISO timestamp, or a phrase ("tuesday at 10") read in the prospect's timezone
+export function parseBookingTime(when: string, timezone: string, now: Date = new Date()): Date | null {
+  const at = /^\d{4}-\d{2}-\d{2}T/.test(when) ? new Date(when) : parseCallbackTime(when, { timezone, now })?.at || null;
+  return at && !isNaN(at.getTime()) ? at : null;
+}
+
+export class BookingQueue {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  async record(input: BookingDecisionInput): Promise<BookingDecision> {
+    const { resolution } = input;
+    const { data, error } = await this.supabase
+      .from('booking_decisions')
+      .insert({
+        conversation_id: input.conversationId,
+        prospect_name: input.prospectName ?? null,
+        prospect_phone: input.prospectPhone ?? null,
+        prospect_email: input.prospectEmail ?? null,
+        ghl_contact_id: input.ghlContactId ?? null,
+        ghl_appointment_id: input.ghlAppointmentId ?? null,
+        status: resolution.status === 'matched' ? 'booked' : 'needs_confirmation',
+        reason: resolution.reason,
+        slot_time: resolution.slot,
+        spoken_time: resolution.spokenTime,
+        timezone: input.timezone,
+        offered_slots: input.offeredSlots,
+        offered_source: input.offeredSource,
+        conflicts: resolution.conflicts,
+        excerpt: resolution.excerpt,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to record booking decision: ${error?.message || 'no row returned'}`);
+    }
+    return toDecision(data);
+  }
+
+  // Bookings waiting for a person unless a status is given, oldest first so nothing sits forever
+  async list(options: BookingListOptions = {}): Promise<BookingDecision[]> {
+    const { data, error } = await this.supabase
+      .from('booking_decisions')
+      .select('*')
+      .eq('status', options.status || 'needs_confirmation')
+      .order('created_at', { ascending: options.status ? false : true })
+      .limit(options.limit ?? 50);
+
+    if (error) {
+      throw new Error(`Failed to load booking decisions: ${error.message}`);
+    }
+    return (data || []).map(toDecision);
+  }
+
+  async get(id: string): Promise<BookingDecision> {
+    const { data, error } = await this.supabase.from('booking_decisions').select('*').eq('id', id).single();
+    if (error || !data) {
+      throw new Error(`Booking decision ${id} not found${error ? `: ${error.message}` : ''}`);
+    }
+    return toDecision(data);
+  }
+
+  // A person booked the meeting; the call log gets the booked time like an automatic booking would
+  async confirm(id: string, slotTime: Date, ghlAppointmentId: string | null, resolvedBy?: string): Promise<BookingDecision> {
+    const decision = await this.resolve(id, {
+      status: 'confirmed',
+      slot_time: slotTime.toISOString(),
+      ghl_appointment_id: ghlAppointmentId,
+      resolved_by: resolvedBy ?? null,
+    });
+
+    if (decision.conversationId) {
+      const { error } = await this.supabase
+        .from('call_logs')
+        .update({ booked_time: decision.slotTime, ghl_appointment_id: ghlAppointmentId })
+        .eq('conversation_id', decision.conversationId);
+      if (error) {
+        console.error(`[Bookings] Failed to update call log for ${decision.conversationId}:`, error.message);
+      }
+    }
+    return decision;
+  }
+
+  // No meeting after all (prospect didn't mean it, duplicate, booked by hand elsewhere)
+  async dismiss(id: string, note?: string, resolvedBy?: string): Promise<BookingDecision> {
+    const updates: Record<string, any> = { status: 'dismissed', resolved_by: resolvedBy ?? null };
+    if (note) updates.reason = `${(await this.get(id)).reason}; dismissed: ${note}`;
+    return this.resolve(id, updates);
+  }
+
+  private async resolve(id: string, updates: Record<string, any>): Promise<BookingDecision> {
+    const { data, error } = await this.supabase
+      .from('booking_decisions')
+      .update({ ...updates, resolved_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'needs_confirmation')
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to update booking decision ${id}: ${error.message}`);
+    }
+    if (!data?.length) {
+      throw new Error(`Booking decision ${id} is not awaiting confirmation`);
+    }
+    return toDecision(data[0]);
+  }
+}
@@ -0,0 +1,171 @@
+// Booking Resolver
+// Turns the meeting time agreed on a call into one of the calendar slots the agent actually offered
+// (get-available-slots), read in the prospect's timezone. Anything short of an exact, uncontested
+// match goes to the needs-confirmation queue (core/booking-queue) instead of being booked.
+// Only depends on callback-parser so the post-call webhook can import it directly.
+
+import { ParsedCallback, parseCallbackTime } from './callback-parser';
+
+export type BookingResolutionStatus = 'matched' | 'needs_confirmation';
+
+export interface BookingResolution {
+  status: BookingResolutionStatus;
+  slot: string | null; // offered slot to book (ISO), set when matched
+  spokenTime: string | null; // what the transcript resolved to (ISO), matched or not
+  reason: string;
+  conflicts: string[];
+  excerpt: string; // transcript lines the decision rests on
+}
+
+export interface BookingResolveOptions {
+  timezone: string; // prospect's timezone
+  now?: Date; // when the call happened; relative days ("tomorrow") count from here
+}
+
+interface TranscriptTurn {
+  role: string;
+  message: string;
+  tool_results?: Array<{ tool_name?: string; result_value?: string }>;
+}
+
+// Agent lines that lock a time in, as opposed to offering options
+const AGENT_CONFIRMATION_PATTERN = /\b(all set|you'?re booked|booked you|confirmed|scheduled|calendar invite|see you|talk to you) /i;
+const SLOT_TOLERANCE_MS = 60 * 1000;
+
+// Slot start times from a GHL free-slots response ({ "2026-10-20": { slots: [...] }, traceId })
+export function flattenFreeSlots(raw: Record<string, any> | null | undefined): string[] {
+  const slots: string[] = [];
+  for (const [date, info] of Object.entries(raw || {})) {
+    if (date === 'traceId') continue;
+    slots.push(...((info as any)?.slots || []));
+  }
+  return slots;
+}
+
+/**
+ * Slots the agent was given during the call, read from the get-available-slots tool results in the
+ * ElevenLabs transcript. Null when the tool was never called.
+ */
+export function extractOfferedSlots(transcript: TranscriptTurn[]): string[] | null {
+  let found: string[] | null = null;
+  for (const turn of transcript) {
+    for (const result of turn.tool_results || []) {
+      if (!/slot/i.test(result.tool_name || '') || !result.result_value) continue;
+      try {
+        const value = JSON.parse(result.result_value);
+        found = [...(found || []), ...flattenFreeSlots(value.raw_slots ?? value)];
+      } catch {
+        // Not JSON: the tool answered in prose; nothing to check against
+      }
+    }
+  }
+  return found;
+}
+
+function sameInstant(a: Date, b: Date): boolean {
+  return Math.abs(a.getTime() - b.getTime()) < SLOT_TOLERANCE_MS;
+}
+
+function formatInZone(date: Date, timezone: string): string {
+  return date.toLocaleString('en-US', { timeZone: timezone, weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Latest mention with a clock time from the given turns
+function latestTimed(turns: Array<{ index: number; turn: TranscriptTurn }>, options: BookingResolveOptions): { index: number; parsed: ParsedCallback } | null {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const parsed = parseCallbackTime(turns[i].turn.message, { timezone: options.timezone, now: options.now });
+    if (parsed && parsed.precision === 'time') return { index: turns[i].index, parsed };
+  }
+  return null;
+}
+
+/**
+ * The agent's last confirmation ("you're all set for Tuesday at 10") wins over the prospect's last
+ * stated time; when both name a time and they differ, that's a conflict. The time must be one of
+ * the offered slots. With no offered slots to check against, nothing is booked automatically.
+ */
+export function resolveBookingTime(
+  transcript: TranscriptTurn[],
+  offeredSlots: string[] | null,
+  options: BookingResolveOptions
+): BookingResolution {
+  const turns = transcript.map((turn, index) => ({ index, turn })).filter(t => t.turn.message);
+  const confirmation = latestTimed(turns.filter(t => t.turn.role === 'agent' && AGENT_CONFIRMATION_PATTERN.test(`${t.turn.message} `)), options);
+  const stated = latestTimed(turns.filter(t => t.turn.role === 'user'), options);
+  const agreed = confirmation || stated;
+
+  // The turns used, each with the line before it for context
+  const used = [...new Set([confirmation, stated].filter(Boolean).flatMap(m => [m!.index - 1, m!.index]))]
+    .filter(i => i >= 0)
+    .sort((a, b) => a - b);
+  const excerpt = used.map(i => `${transcript[i].role}: ${transcript[i].message}`).join('\n');
+
+  const needsConfirmation = (reason: string, conflicts: string[] = []): BookingResolution => ({
+    status: 'needs_confirmation',
+    slot: null,
+    spokenTime: agreed ? agreed.parsed.at.toISOString() : null,
+    reason,
+    conflicts,
+    excerpt,
+  });
+
+  if (!agreed) {
+    return needsConfirmation('No meeting time with a clock time found in the transcript');
+  }
+
+  const conflicts: string[] = [];
+  if (confirmation && stated && !sameInstant(confirmation.parsed.at, stated.parsed.at)) {
+    conflicts.push(
+      `Prospect said ${formatInZone(stated.parsed.at, options.timezone)}, agent confirmed ${formatInZone(confirmation.parsed.at, options.timezone)}`
+    );
+  }
+  if (options.now && agreed.parsed.at.getTime() <= options.now.getTime()) {
+    conflicts.push(`${formatInZone(agreed.parsed.at, options.timezone)} is not after the call`);
+  }
+
+  if (!offeredSlots || offeredSlots.length === 0) {
+    return needsConfirmation('No offered slots to check the time against', conflicts);
+  }
+
+  const slot = offeredSlots.find(s => sameInstant(new Date(s), agreed.parsed.at));
+  if (!slot) {
+    const nearest = [...offeredSlots].sort((a, b) =>
+      Math.abs(new Date(a).getTime() - agreed.parsed.at.getTime()) - Math.abs(new Date(b).getTime() - agreed.parsed.at.getTime())
+    )[0];
+    conflicts.push(
+      `${formatInZone(agreed.parsed.at, options.timezone)} was not an offered slot (nearest: ${formatInZone(new Date(nearest), options.timezone)})`
+    );
+  }
+
+  if (conflicts.length || !slot) {
+    return needsConfirmation(conflicts[0], conflicts);
+  }
+
+  return {
+    status: 'matched',
+    slot,
+    spokenTime: agreed.parsed.at.toISOString(),
+    reason: `Agreed ${formatInZone(agreed.parsed.at, options.timezone)} (${options.timezone}) matches an offered slot`,
+    conflicts: [],
+    excerpt,
+  };
+}
+
+// Hold a matched booking back for a person (slot since taken, calendar rejected it); `conflict` marks
+// the reason as a scheduling conflict rather than an operational failure
+export function holdForConfirmation(resolution: BookingResolution, reason: string, conflict = false): BookingResolution {
+  return {
+    ...resolution,
+    status: 'needs_confirmation',
+    slot: null,
+    reason,
+    conflicts: conflict ? [...resolution.conflicts, reason] : resolution.conflicts,
+  };
+}
+
+// Re-check a matched slot against the calendar right before booking (it may have been taken since)
+export function confirmSlotStillFree(resolution: BookingResolution, freeSlots: string[]): BookingResolution {
+  if (resolution.status !== 'matched' || !resolution.slot) return resolution;
+  if (freeSlots.some(s => sameInstant(new Date(s), new Date(resolution.slot!)))) return resolution;
+  return holdForConfirmation(resolution, 'Slot is no longer free on the calendar', true);
+}
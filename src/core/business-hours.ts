@@ -0,0 +1,152 @@
+// Business Hours
+// Timezone-aware send windows: campaign hours applied in the prospect's local time
+
+import { BusinessHours } from '../types';
+import { ProspectLocation, resolveTimezone } from './timezone-resolver';
+
+// Mon-Fri (Date#getDay numbering)
+export const DEFAULT_WORKDAYS = [1, 2, 3, 4, 5];
+
+export interface ScheduleOptions {
+  businessHours: BusinessHours;
+  prospect?: ProspectLocation;
+  holidays?: string[]; // YYYY-MM-DD in the prospect's local calendar; defaults to US federal holidays
+  workdays?: number[];
+}
+
+export interface SendWindow {
+  start: Date;
+  end: Date;
+  timezone: string;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hour12: false,
+  });
+
+  const parts = formatter.formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '0';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hour: parseInt(get('hour'), 10) % 24, // some runtimes render midnight as 24
+    minute: parseInt(get('minute'), 10),
+    weekday: weekdays.indexOf(get('weekday')),
+  };
+}
+
+// UTC instant for a wall-clock time in a timezone
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  let utc = wallClock;
+
+  // Two passes settle the offset across DST transitions
+  for (let i = 0; i < 2; i++) {
+    const p = getZonedParts(new Date(utc), timeZone);
+    const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - utc;
+    utc = wallClock - offset;
+  }
+
+  return new Date(utc);
+}
+
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const day = 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+  return formatDate(year, month, day);
+}
+
+function lastWeekday(year: number, month: number, weekday: number): string {
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const day = lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7);
+  return formatDate(year, month, day);
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// US federal holidays for a year
+export function getUsHolidays(year: number): string[] {
+  return [
+    formatDate(year, 1, 1),     // New Year's Day
+    nthWeekday(year, 1, 1, 3),  // Martin Luther King Jr. Day
+    nthWeekday(year, 2, 1, 3),  // Presidents' Day
+    lastWeekday(year, 5, 1),    // Memorial Day
+    formatDate(year, 6, 19),    // Juneteenth
+    formatDate(year, 7, 4),     // Independence Day
+    nthWeekday(year, 9, 1, 1),  // Labor Day
+    nthWeekday(year, 10, 1, 2), // Columbus Day
+    formatDate(year, 11, 11),   // Veterans Day
+    nthWeekday(year, 11, 4, 4), // Thanksgiving
+    formatDate(year, 12, 25),   // Christmas
+  ];
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function isOpenDay(parts: ZonedParts, options: ScheduleOptions): boolean {
+  const workdays = options.workdays || DEFAULT_WORKDAYS;
+  if (!workdays.includes(parts.weekday)) return false;
+
+  const holidays = options.holidays || getUsHolidays(parts.year);
+  return !holidays.includes(formatDate(parts.year, parts.month, parts.day));
+}
+
+// Next allowed send window at or after `from`, in the prospect's own timezone; null when none opens
+// within 30 days (no workdays, or hours that never open)
+export function getNextSendWindow(from: Date, options: ScheduleOptions): SendWindow | null {
+  const timezone = resolveTimezone(options.prospect, options.businessHours.timezone);
+  const startMinutes = parseClock(options.businessHours.start);
+  const endMinutes = parseClock(options.businessHours.end);
+
+  const local = getZonedParts(from, timezone);
+  // Walk local calendar days; 30 days covers any realistic holiday run
+  for (let offset = 0; offset < 30; offset++) {
+    const dayUtc = new Date(Date.UTC(local.year, local.month - 1, local.day + offset, 12));
+    const parts = getZonedParts(dayUtc, 'UTC');
+    if (!isOpenDay(parts, options)) continue;
+
+    const windowStart = zonedTimeToUtc(
+      parts.year, parts.month, parts.day, Math.floor(startMinutes / 60), startMinutes % 60, timezone
+    );
+    const windowEnd = zonedTimeToUtc(
+      parts.year, parts.month, parts.day, Math.floor(endMinutes / 60), endMinutes % 60, timezone
+    );
+
+    if (from >= windowEnd) continue;
+    return { start: from > windowStart ? from : windowStart, end: windowEnd, timezone };
+  }
+
+  return null;
+}
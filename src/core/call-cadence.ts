@@ -0,0 +1,221 @@
+// Call Cadence
+// Per-campaign retry ladder for unanswered calls: when the next attempt is due, at which time of day,
+// and when to give up and mark the prospect unresponsive
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CallCadence, CallCadenceStep, CallSlot } from '../types';
+import { getZonedParts } from './business-hours';
+import { ProspectTransitionService } from './prospect-transitions';
+
+// Attempt 2 the next day at another time of day, attempt 3 three days later
+export const DEFAULT_CALL_CADENCE: CallCadence = {
+  maxAttempts: 3,
+  steps: [
+    { afterDays: 1, changeSlot: true },
+    { afterDays: 3, changeSlot: true },
+  ],
+};
+
+// Local hour each slot starts at; a slot runs until the next one starts
+const SLOT_STARTS: Array<[CallSlot, number]> = [
+  ['morning', 0],
+  ['midday', 12],
+  ['afternoon', 15],
+];
+
+// Last-call outcomes that leave the prospect on the ladder. Anything else (interested, callback,
+// not_interested, booked, ...) means someone picked up and the ladder no longer applies.
+export const RETRYABLE_CALL_OUTCOMES = ['voicemail', 'no_answer', 'busy', 'failed', 'unknown'];
+
+// Voice states a prospect on the ladder can be in ('called' until the outcome is known)
+export const RETRYABLE_VOICE_STATES = ['called', 'voicemail', 'failed'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CallAttemptState {
+  attempts: number;
+  lastCallAt: string | null;
+  lastSlot: CallSlot | null;
+  lastOutcome: string | null; // outcome of the most recent call log; null if not yet known
+}
+
+export type CadenceStatus = 'due' | 'waiting' | 'exhausted' | 'closed';
+
+export interface CadenceDecision {
+  status: CadenceStatus;
+  reason: string;
+  attempt: number; // the attempt this decision is about (1-based)
+  dueAt?: Date;
+  slot: CallSlot; // time-of-day slot at evaluation time
+}
+
+export interface CadenceProspect {
+  id: string;
+  campaignId: string | null;
+  timezone: string;
+  callAttempts: number;
+  lastCallAt: string | null;
+  lastCallSlot: CallSlot | null;
+}
+
+export function getCallSlot(date: Date, timezone: string): CallSlot {
+  const { hour } = getZonedParts(date, timezone);
+  let slot: CallSlot = SLOT_STARTS[0][0];
+  for (const [name, start] of SLOT_STARTS) {
+    if (hour >= start) slot = name;
+  }
+  return slot;
+}
+
+// Campaign overrides on top of the default ladder; an empty steps list keeps the default steps
+export function resolveCallCadence(config?: Partial<CallCadence> | null): CallCadence {
+  const steps = config?.steps?.length ? config.steps : DEFAULT_CALL_CADENCE.steps;
+  const maxAttempts = config?.maxAttempts && config.maxAttempts > 0 ? config.maxAttempts : DEFAULT_CALL_CADENCE.maxAttempts;
+  return { maxAttempts, steps };
+}
+
+// Step that schedules the attempt after `attempts` calls (the last step repeats)
+function getStep(cadence: CallCadence, attempts: number): CallCadenceStep {
+  return cadence.steps[Math.min(attempts - 1, cadence.steps.length - 1)];
+}
+
+export function evaluateCadence(
+  state: CallAttemptState,
+  cadence: CallCadence,
+  now: Date,
+  timezone: string
+): CadenceDecision {
+  const slot = getCallSlot(now, timezone);
+  const attempt = state.attempts + 1;
+
+  if (state.attempts === 0 || !state.lastCallAt) {
+    return { status: 'due', reason: 'First attempt', attempt, slot };
+  }
+
+  if (state.lastOutcome && !RETRYABLE_CALL_OUTCOMES.includes(state.lastOutcome)) {
+    return { status: 'closed', reason: `Last call connected (${state.lastOutcome})`, attempt, slot };
+  }
+
+  const step = getStep(cadence, state.attempts);
+  const dueAt = new Date(new Date(state.lastCallAt).getTime() + step.afterDays * DAY_MS);
+
+  // The ladder runs out once the next attempt would have been due with none left
+  if (state.attempts >= cadence.maxAttempts) {
+    return now >= dueAt
+      ? { status: 'exhausted', reason: `No answer after ${state.attempts} attempts`, attempt, dueAt, slot }
+      : { status: 'waiting', reason: `Last attempt still settling until ${dueAt.toISOString()}`, attempt, dueAt, slot };
+  }
+
+  if (now < dueAt) {
+    return { status: 'waiting', reason: `Attempt ${attempt} due ${dueAt.toISOString()}`, attempt, dueAt, slot };
+  }
+  if (step.slot && step.slot !== slot) {
+    return { status: 'waiting', reason: `Attempt ${attempt} is pinned to the ${step.slot}`, attempt, dueAt, slot };
+  }
+  if (!step.slot && step.changeSlot !== false && state.lastSlot === slot) {
+    return { status: 'waiting', reason: `Attempt ${state.attempts} was also in the ${slot}`, attempt, dueAt, slot };
+  }
+
+  return { status: 'due', reason: `Attempt ${attempt} of ${cadence.maxAttempts}`, attempt, dueAt, slot };
+}
+
+export class CallCadenceService {
+  private supabase: SupabaseClient;
+  private transitions: ProspectTransitionService;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+    this.transitions = new ProspectTransitionService(supabase);
+  }
+
+  async loadCadences(campaignIds: string[]): Promise<Map<string, CallCadence>> {
+    const cadences = new Map<string, CallCadence>();
+    if (!campaignIds.length) return cadences;
+
+    const { data, error } = await this.supabase
+      .from('campaigns')
+      .select('id, call_cadence')
+      .in('id', campaignIds);
+
+    if (error) {
+      throw new Error(`Failed to load call cadences: ${error.message}`);
+    }
+    for (const row of data || []) {
+      cadences.set(row.id, resolveCallCadence(row.call_cadence));
+    }
+    return cadences;
+  }
+
+  // Outcome of each prospect's most recent call (blocked attempts and dry runs excluded)
+  async loadLastOutcomes(prospectIds: string[]): Promise<Map<string, string | null>> {
+    const outcomes = new Map<string, string | null>();
+    if (!prospectIds.length) return outcomes;
+
+    // One row per prospect (last_call_outcomes), so no history is long enough to hit the row cap
+    const { data, error } = await this.supabase.rpc('last_call_outcomes', { p_prospect_ids: prospectIds });
+
+    if (error) {
+      throw new Error(`Failed to load last call outcomes: ${error.message}`);
+    }
+    for (const row of (data || []) as Array<{ prospect_id: string; outcome: string | null }>) {
+      outcomes.set(row.prospect_id, row.outcome ?? null);
+    }
+    return outcomes;
+  }
+
+  // Decide each prospect's place on its campaign's ladder
+  async evaluate(prospects: CadenceProspect[], now: Date = new Date()): Promise<Map<string, CadenceDecision>> {
+    const [cadences, outcomes] = await Promise.all([
+      this.loadCadences([...new Set(prospects.map(p => p.campaignId).filter((id): id is string => !!id))]),
+      this.loadLastOutcomes(prospects.filter(p => p.callAttempts > 0).map(p => p.id)),
+    ]);
+
+    const decisions = new Map<string, CadenceDecision>();
+    for (const prospect of prospects) {
+      const cadence = (prospect.campaignId && cadences.get(prospect.campaignId)) || DEFAULT_CALL_CADENCE;
+      decisions.set(prospect.id, evaluateCadence({
+        attempts: prospect.callAttempts,
+        lastCallAt: prospect.lastCallAt,
+        lastSlot: prospect.lastCallSlot,
+        lastOutcome: outcomes.get(prospect.id) ?? null,
+      }, cadence, now, prospect.timezone));
+    }
+    return decisions;
+  }
+
+  // Count a dial and remember when (and at what time of day) it happened
+  async recordAttempt(prospectId: string, timezone: string, at: Date = new Date()): Promise<number> {
+    // Incremented in SQL (record_call_attempt) so concurrent dialers don't overwrite each other's counts
+    const { data, error } = await this.supabase.rpc('record_call_attempt', {
+      p_prospect_id: prospectId,
+      p_at: at.toISOString(),
+      p_slot: getCallSlot(at, timezone),
+    });
+
+    if (error) {
+      throw new Error(`Failed to record call attempt for ${prospectId}: ${error.message}`);
+    }
+    return Number(data);
+  }
+
+  // Ladder exhausted: prospects never marked contacted get there first so the move is valid
+  async markUnresponsive(prospectId: string, reason: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('prospects')
+      .select('pipeline_state')
+      .eq('id', prospectId)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to read pipeline state for ${prospectId}: ${error.message}`);
+    }
+
+    const request = { prospectId, field: 'pipeline' as const, actor: 'call-cadence', event: 'call_ladder_exhausted' };
+    if (data?.pipeline_state === 'discovered' || data?.pipeline_state === 'researched') {
+      await this.transitions.transition({ ...request, to: 'contacted' });
+    }
+
+    const result = await this.transitions.transition({ ...request, to: 'unresponsive' });
+    console.log(`[Cadence] ${prospectId} unresponsive (${result.status}): ${reason}`);
+  }
+}
@@ -0,0 +1,456 @@
+// Call Scorecard
+// Automated QA for each voice conversation: talk/listen ratio and interruptions from the ElevenLabs turn
+// timings (word-count estimates when a transcript has none), which dialer ScriptTemplate stages the agent
+// covered and in what order, whether it answered objections the way dialer/objection-handler would, and
+// whether it asked for the meeting. Stored on call_logs (qa_score, qa_scorecard) by the post-call webhook
+// or a backfill, and rolled up per agent_variant in the dialer report.
+// Only depends on the dialer's script and objection modules so the post-call webhook can import it directly.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ScriptTemplate, getScriptTemplate } from '../dialer/call-script';
+import { ObjectionType, detectObjection, getObjectionResponse } from '../dialer/objection-handler';
+import { fetchAllPages } from './paging';
+
+export type ScriptStage = 'intro' | 'hook' | 'qualify' | 'pitch' | 'book';
+export type TimingSource = 'timestamps' | 'estimated';
+
+export const SCRIPT_STAGES: ScriptStage[] = ['intro', 'hook', 'qualify', 'pitch', 'book'];
+
+// An ElevenLabs transcript turn; timings and the interrupted flag are missing on older or imported calls
+export interface ScoredTurn {
+  role: string;
+  message: string;
+  time_in_call_secs?: number;
+  interrupted?: boolean;
+}
+
+export interface StageCheck {
+  stage: ScriptStage;
+  followed: boolean;
+  turnIndex: number | null; // first agent turn that covered it
+}
+
+export interface ObjectionCheck {
+  turnIndex: number;
+  type: ObjectionType;
+  handled: boolean | null; // null: the call ended before the agent could answer
+  reply: string | null;
+}
+
+export interface CallScorecard {
+  score: number; // 0-100, weighted over the components that apply
+  template: string;
+  timing: TimingSource;
+  agentTalkSecs: number;
+  prospectTalkSecs: number;
+  talkRatio: number; // agent share of talk time
+  agentInterruptions: number | null; // agent talked over the prospect; null without timings
+  prospectInterruptions: number | null; // prospect cut the agent off; null without timings or flags
+  stages: StageCheck[];
+  stagesFollowed: number;
+  stagesInOrder: boolean;
+  objections: ObjectionCheck[];
+  askedForMeeting: boolean;
+  components: Record<ScorecardComponent, number | null>; // 0-1 each, null when not applicable
+}
+
+export type ScorecardComponent = 'talkRatio' | 'interruptions' | 'script' | 'objections' | 'meetingAsk';
+
+export interface ScorecardOptions {
+  templateId?: string | null; // call_logs.script_template; the general template otherwise
+  outcome?: string | null; // classified outcome; voicemail and no-answer calls aren't conversations
+}
+
+export interface ScoringOptions {
+  since?: Date;
+  limit?: number; // calls to score this run
+  rescore?: boolean; // rescore calls already scored (after scoring changes)
+}
+
+export interface ScoringResult {
+  scanned: number;
+  scored: number; // the rest weren't conversations (voicemail, no answer)
+}
+
+export interface VariantScorecard {
+  variant: string;
+  calls: number;
+  avgScore: number;
+  talkRatio: number; // mean agent share
+  timedCalls: number;
+  agentInterruptions: number | null; // per timed call
+  prospectInterruptions: number | null; // per call with timings or flags
+  stageRates: Record<ScriptStage, number>;
+  inOrderRate: number;
+  objections: number; // objections the agent got to answer
+  objectionsHandled: number;
+  askedForMeetingRate: number;
+}
+
+export interface ScorecardReport {
+  since: string;
+  overall: VariantScorecard;
+  variants: VariantScorecard[]; // best average score first
+}
+
+const SCORE_WEIGHTS: Record<ScorecardComponent, number> = {
+  talkRatio: 15,
+  interruptions: 10,
+  script: 30,
+  objections: 25,
+  meetingAsk: 20,
+};
+
+// Agent share of talk time that scores full marks; it tapers to zero at either extreme
+const TALK_RATIO_BAND: [number, number] = [0.35, 0.6];
+// Speaking pace used to estimate turn length (and to tell a reply from talking over someone)
+const WORDS_PER_SEC = 2.5;
+const FAST_WORDS_PER_SEC = 4;
+// Share of a stage's template keywords an agent line needs when no cue phrase matches
+const STAGE_OVERLAP = 0.3;
+const RESPONSE_OVERLAP = 0.2;
+const PAGE_SIZE = 200;
+const UNSCORED_OUTCOMES = ['voicemail', 'no_answer'];
+
+// An agent line asking for the meeting
+const MEETING_ASK = /\b(set up a (quick |short )?(call|meeting|time|demo)|(15|fifteen)[- ]minute|(quick|short|brief) (call|chat|demo|meeting)|what (day|time)s? (works|would work|is best)|does \w+( \w+)? work (for you|better)|are you (free|available)|book (a|you|that|it)|schedule (a|you|that|it)|(open|available) (to|for) a|get (something|you|a time) on the calendar|your schedule)\b/i;
+
+// Phrasings of each stage that don't depend on the template's wording
+const STAGE_CUES: Record<ScriptStage, RegExp> = {
+  intro: /\b(this is \w+|my name is|calling (from|with|on behalf of)|it'?s \w+ (from|with))\b/i,
+  hook: /\b(noticed|came across|took a look|(was|been) (looking|checking) (at|out)|researching|caught my (attention|eye))\b/i,
+  qualify: /\b(are you currently|do you (currently|have|get|use)|how do you (currently )?(handle|get|deal)|what'?s your biggest|who handles|have you (thought|considered))\b/i,
+  pitch: /\b(we help|we build|we('ve| have) helped|we specialize|our clients|we work with)\b/i,
+  book: MEETING_ASK,
+};
+
+const PUSH_PATTERN = new RegExp(`${STAGE_CUES.pitch.source}|${MEETING_ASK.source}`, 'i');
+
+// What the agent asks for when an objection response is meant to capture something
+const CAPTURE_CUES: Record<string, RegExp> = {
+  email: /\be-?mail\b/i,
+  callback_time: /\b(when|what time|better time|call (you )?back|try you|later today|tomorrow|(mon|tues|wednes|thurs|fri)day)\b/i,
+  decision_maker: /\b(who|best person|decision|owner|manager|transfer)\b/i,
+};
+
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'been', 'best', 'could', 'does', 'from', 'have', 'just', 'like', 'look', 'looks',
+  'more', 'most', 'much', 'right', 'some', 'that', 'their', 'them', 'then', 'there', 'they', 'this', 'what',
+  'when', 'which', 'will', 'with', 'would', 'your', 'yours', "you're", "that's", "i'd", "i'll", "we've",
+]);
+
+function keywords(text: string): Set<string> {
+  const words = text
+    .replace(/\{\{[^}]*\}\}/g, ' ')
+    .toLowerCase()
+    .match(/[a-z][a-z']{3,}/g) || [];
+  return new Set(words.filter(w => !STOPWORDS.has(w)));
+}
+
+// Share of `target` keywords that appear in `text`
+function overlap(text: string, target: Set<string>): number {
+  if (!target.size) return 0;
+  const found = keywords(text);
+  let hits = 0;
+  for (const word of target) if (found.has(word)) hits++;
+  return hits / target.size;
+}
+
+function wordCount(text: string): number {
+  return (text.match(/\S+/g) || []).length;
+}
+
+function hasTimings(transcript: ScoredTurn[]): boolean {
+  return transcript.length > 1 && transcript.every(t => typeof t.time_in_call_secs === 'number');
+}
+
+/**
+ * Seconds each turn was spoken. With timings, the gap to the next turn, capped at a slow speaking pace so
+ * pauses and response latency don't count as talk; otherwise (and for the last turn) the word-count estimate.
+ */
+function turnDurations(transcript: ScoredTurn[], timed: boolean): number[] {
+  return transcript.map((turn, i) => {
+    const estimate = wordCount(turn.message) / WORDS_PER_SEC;
+    const next = transcript[i + 1];
+    if (!timed || !next) return estimate;
+    const gap = Math.max(0, next.time_in_call_secs! - turn.time_in_call_secs!);
+    return Math.min(gap, estimate * 2);
+  });
+}
+
+/**
+ * Interruptions by who did the interrupting. A flagged agent turn was cut off by the prospect; with
+ * timings, a turn that starts before the previous speaker could have finished (even at a fast pace)
+ * talked over them. Without timings only the flags count, so the agent's side is unknown (null).
+ */
+function countInterruptions(transcript: ScoredTurn[], timed: boolean): { agent: number | null; prospect: number } | null {
+  const flagged = transcript.some(t => typeof t.interrupted === 'boolean');
+  if (!timed && !flagged) return null;
+
+  const counts = { agent: 0, prospect: 0 };
+  transcript.forEach((turn, i) => {
+    const next = transcript[i + 1];
+    if (turn.role === 'agent' && turn.interrupted) {
+      counts.prospect++;
+      return;
+    }
+    if (!timed || !next || next.role === turn.role || !turn.message) return;
+    const gap = next.time_in_call_secs! - turn.time_in_call_secs!;
+    if (gap < wordCount(turn.message) / FAST_WORDS_PER_SEC) {
+      if (next.role === 'agent') counts.agent++;
+      else counts.prospect++;
+    }
+  });
+  return timed ? counts : { agent: null, prospect: counts.prospect };
+}
+
+function checkStages(transcript: ScoredTurn[], template: ScriptTemplate): StageCheck[] {
+  return SCRIPT_STAGES.map(stage => {
+    const target = keywords(template[stage]);
+    const index = transcript.findIndex(t =>
+      t.role === 'agent' && !!t.message && (STAGE_CUES[stage].test(t.message) || overlap(t.message, target) >= STAGE_OVERLAP)
+    );
+    return { stage, followed: index >= 0, turnIndex: index >= 0 ? index : null };
+  });
+}
+
+/**
+ * Each objecting prospect turn against the agent's next line. Handled when the reply reads like the
+ * objection-handler response (shared keywords, or asking for what the response captures); for objections
+ * the handler wouldn't push past (not interested, do not call), when the agent didn't pitch or ask again.
+ */
+function checkObjections(transcript: ScoredTurn[]): ObjectionCheck[] {
+  const checks: ObjectionCheck[] = [];
+  transcript.forEach((turn, index) => {
+    if (turn.role !== 'user' || !turn.message) return;
+    const detected = detectObjection(turn.message, { quiet: true });
+    if (detected.type === 'unknown') return;
+
+    const rest = transcript.slice(index + 1);
+    const replyAt = rest.findIndex(t => t.message);
+    const reply = replyAt >= 0 && rest[replyAt].role === 'agent' ? rest[replyAt].message : null;
+    if (!reply) {
+      checks.push({ turnIndex: index, type: detected.type, handled: null, reply: null });
+      return;
+    }
+
+    const expected = getObjectionResponse(detected, { quiet: true });
+    const handled = expected.shouldContinue
+      ? overlap(reply, keywords(`${expected.response} ${expected.followUp || ''}`)) >= RESPONSE_OVERLAP
+        || (!!expected.captureInfo && !!CAPTURE_CUES[expected.captureInfo]?.test(reply))
+      : !PUSH_PATTERN.test(reply);
+    checks.push({ turnIndex: index, type: detected.type, handled, reply: reply.slice(0, 300) });
+  });
+  return checks;
+}
+
+function talkRatioScore(ratio: number): number {
+  const [low, high] = TALK_RATIO_BAND;
+  if (ratio < low) return ratio / low;
+  if (ratio > high) return (1 - ratio) / (1 - high);
+  return 1;
+}
+
+/**
+ * Score one conversation. Null when the prospect never spoke or the call reached voicemail: there's no
+ * conversation to judge the agent on.
+ */
+export function scoreCall(transcript: ScoredTurn[], options: ScorecardOptions = {}): CallScorecard | null {
+  const turns = transcript
+    .filter(t => t && (t.role === 'agent' || t.role === 'user'))
+    .map(t => ({ ...t, message: t.message || '' }));
+  if (!turns.some(t => t.role === 'user' && t.message.trim())) return null;
+  if (options.outcome && UNSCORED_OUTCOMES.includes(options.outcome)) return null;
+
+  const template = getScriptTemplate(options.templateId || 'general');
+  const timed = hasTimings(turns);
+  const durations = turnDurations(turns, timed);
+  const talk = (role: string) => turns.reduce((sum, t, i) => sum + (t.role === role ? durations[i] : 0), 0);
+  const agentTalkSecs = talk('agent');
+  const prospectTalkSecs = talk('user');
+  const talkRatio = agentTalkSecs + prospectTalkSecs > 0 ? agentTalkSecs / (agentTalkSecs + prospectTalkSecs) : 0;
+
+  const interruptions = countInterruptions(turns, timed);
+  const stages = checkStages(turns, template);
+  const followed = stages.filter(s => s.followed);
+  const stagesInOrder = followed.every((s, i) => i === 0 || s.turnIndex! >= followed[i - 1].turnIndex!);
+  const objections = checkObjections(turns);
+  const answered = objections.filter(o => o.handled !== null);
+  const askedForMeeting = turns.some(t => t.role === 'agent' && MEETING_ASK.test(t.message));
+
+  const components: Record<ScorecardComponent, number | null> = {
+    talkRatio: talkRatioScore(talkRatio),
+    interruptions: interruptions?.agent != null ? Math.max(0, 1 - interruptions.agent * 0.5) : null,
+    script: (followed.length / SCRIPT_STAGES.length) * (stagesInOrder ? 1 : 0.8),
+    objections: answered.length ? answered.filter(o => o.handled).length / answered.length : null,
+    meetingAsk: askedForMeeting ? 1 : 0,
+  };
+  let weighted = 0;
+  let total = 0;
+  for (const [component, value] of Object.entries(components) as Array<[ScorecardComponent, number | null]>) {
+    if (value === null) continue;
+    weighted += value * SCORE_WEIGHTS[component];
+    total += SCORE_WEIGHTS[component];
+  }
+
+  return {
+    score: Math.round((weighted / total) * 100),
+    template: template.id,
+    timing: timed ? 'timestamps' : 'estimated',
+    agentTalkSecs: Math.round(agentTalkSecs),
+    prospectTalkSecs: Math.round(prospectTalkSecs),
+    talkRatio: Math.round(talkRatio * 1000) / 1000,
+    agentInterruptions: interruptions?.agent ?? null,
+    prospectInterruptions: interruptions?.prospect ?? null,
+    stages,
+    stagesFollowed: followed.length,
+    stagesInOrder,
+    objections,
+    askedForMeeting,
+    components,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function summarizeVariant(variant: string, cards: CallScorecard[]): VariantScorecard {
+  const timed = cards.filter(c => c.agentInterruptions !== null);
+  const flagged = cards.filter(c => c.prospectInterruptions !== null);
+  const answered = cards.flatMap(c => c.objections.filter(o => o.handled !== null));
+  const stageRates = Object.fromEntries(SCRIPT_STAGES.map(stage => [
+    stage,
+    cards.length ? cards.filter(c => c.stages.some(s => s.stage === stage && s.followed)).length / cards.length : 0,
+  ])) as Record<ScriptStage, number>;
+
+  return {
+    variant,
+    calls: cards.length,
+    avgScore: Math.round(mean(cards.map(c => c.score)) * 10) / 10,
+    talkRatio: mean(cards.map(c => c.talkRatio)),
+    timedCalls: timed.length,
+    agentInterruptions: timed.length ? mean(timed.map(c => c.agentInterruptions!)) : null,
+    prospectInterruptions: flagged.length ? mean(flagged.map(c => c.prospectInterruptions!)) : null,
+    stageRates,
+    inOrderRate: cards.length ? cards.filter(c => c.stagesInOrder).length / cards.length : 0,
+    objections: answered.length,
+    objectionsHandled: answered.filter(o => o.handled).length,
+    askedForMeetingRate: cards.length ? cards.filter(c => c.askedForMeeting).length / cards.length : 0,
+  };
+}
+
+export function summarizeScorecards(calls: Array<{ agent_variant: string | null; scorecard: CallScorecard }>, since: Date): ScorecardReport {
+  const byVariant = new Map<string, CallScorecard[]>();
+  for (const call of calls) {
+    const key = call.agent_variant || 'unknown';
+    if (!byVariant.has(key)) byVariant.set(key, []);
+    byVariant.get(key)!.push(call.scorecard);
+  }
+
+  return {
+    since: since.toISOString(),
+    overall: summarizeVariant('all', calls.map(c => c.scorecard)),
+    variants: [...byVariant.entries()]
+      .map(([variant, cards]) => summarizeVariant(variant, cards))
+      .sort((a, b) => b.avgScore - a.avgScore || b.calls - a.calls),
+  };
+}
+
+// call_logs columns scoreCalls reads
+interface UnscoredCallRow {
+  id: string;
+  transcript: unknown; // JSON string or array, see parseTranscript
+  outcome: string | null;
+  script_template: string | null;
+}
+
+interface ScoredCallRow {
+  agent_variant: string | null;
+  qa_scorecard: CallScorecard;
+}
+
+function parseTranscript(raw: unknown): ScoredTurn[] {
+  // The post-call webhook stores the transcript as a JSON string inside the jsonb column
+  const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  return Array.isArray(value) ? value : [];
+}
+
+export class CallScorecardService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Score stored transcripts the webhook didn't (older calls), or all of them with rescore, oldest
+   * first. Calls with nothing to score are marked scored with a null score so the next run skips them.
+   */
+  async scoreCalls(options: ScoringOptions = {}): Promise<ScoringResult> {
+    const result: ScoringResult = { scanned: 0, scored: 0 };
+    const limit = options.limit ?? Infinity;
+
+    while (result.scanned < limit) {
+      // Scored calls drop out of the unscored filter; a rescore has to page instead
+      const from = options.rescore ? result.scanned : 0;
+      let query = this.supabase
+        .from('call_logs')
+        .select('id, transcript, outcome, script_template')
+        .not('transcript', 'is', null)
+        .not('status', 'in', '(blocked,dry_run)')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + Math.min(PAGE_SIZE, limit - result.scanned) - 1);
+      if (!options.rescore) query = query.is('qa_scored_at', null);
+      if (options.since) query = query.gte('created_at', options.since.toISOString());
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load transcripts: ${error.message}`);
+      }
+      if (!data?.length) break;
+
+      for (const call of data as UnscoredCallRow[]) {
+        let scorecard: CallScorecard | null = null;
+        try {
+          scorecard = scoreCall(parseTranscript(call.transcript), { templateId: call.script_template, outcome: call.outcome });
+        } catch (err: any) {
+          console.error(`[Scorecard] Unreadable transcript on call ${call.id}: ${err.message}`);
+        }
+        if (scorecard) result.scored++;
+
+        const { error: saveError } = await this.supabase
+          .from('call_logs')
+          .update({ qa_score: scorecard?.score ?? null, qa_scorecard: scorecard, qa_scored_at: new Date().toISOString() })
+          .eq('id', call.id);
+        if (saveError) {
+          throw new Error(`Failed to store scorecard for call ${call.id}: ${saveError.message}`);
+        }
+      }
+
+      result.scanned += data.length;
+      console.log(`[Scorecard] ${result.scanned} calls scanned, ${result.scored} scored`);
+    }
+
+    return result;
+  }
+
+  async report(since: Date, until?: Date): Promise<ScorecardReport> {
+    const { data, error } = await fetchAllPages<ScoredCallRow>((from, to) => {
+      let query = this.supabase
+        .from('call_logs')
+        .select('agent_variant, qa_scorecard')
+        .not('qa_score', 'is', null)
+        .not('status', 'in', '(blocked,dry_run)')
+        .gte('created_at', since.toISOString());
+      if (until) query = query.lte('created_at', until.toISOString());
+      return query.order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+    });
+    if (error) {
+      throw new Error(`Failed to load scorecards: ${error.message}`);
+    }
+
+    return summarizeScorecards(data.map(c => ({ agent_variant: c.agent_variant ?? null, scorecard: c.qa_scorecard })), since);
+  }
+}
@@ -0,0 +1,191 @@
+// Callback Parser
+// Resolves what a prospect said ("call me Thursday after 2", "try next week") to an instant in their timezone.
+// Only depends on business-hours so the post-call webhook can import it directly.
+
+import { getZonedParts, zonedTimeToUtc } from './business-hours';
+
+// 'time': a clock time was given; 'day': only a day (or part of one); 'relative': "in 2 hours"
+export type CallbackPrecision = 'time' | 'day' | 'relative';
+
+export interface ParsedCallback {
+  at: Date;
+  precision: CallbackPrecision;
+  phrase: string; // the message the time came from
+}
+
+export interface CallbackParseOptions {
+  timezone: string;
+  now?: Date;
+}
+
+// Local hour used when only a day (or part of day) was given
+const DEFAULT_CALLBACK_HOUR = 10;
+const DAY_PART_HOURS: Record<string, number> = {
+  morning: 10,
+  noon: 12,
+  lunch: 12,
+  afternoon: 14,
+  evening: 17,
+  tonight: 17,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  fifteen: 15, twenty: 20, thirty: 30, 'forty-five': 45,
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const ORDINAL_WORDS = [
+  'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth',
+  'eleventh', 'twelfth', 'thirteenth', 'fourteenth', 'fifteenth', 'sixteenth', 'seventeenth', 'eighteenth', 'nineteenth', 'twentieth',
+];
+
+const UNIT_MINUTES: Record<string, number> = { minute: 1, min: 1, hour: 60, hr: 60 };
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7 };
+
+// "twenty-second" -> 22
+function ordinalValue(word: string): number | null {
+  if (word === 'thirtieth') return 30;
+  const compound = word.match(/^(twenty|thirty)[- ](\w+)$/);
+  const ones = ORDINAL_WORDS.indexOf(compound ? compound[2] : word);
+  if (ones < 0 || (compound && ones > 8)) return null;
+  return (compound ? (compound[1] === 'twenty' ? 20 : 30) : 0) + ones + 1;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\bgood (?:morning|afternoon|evening)\b/g, '')
+    // Spoken dates and times, before number words become digits: "october twenty-second", "nine thirty"
+    .replace(new RegExp(`\\b${MONTH_PATTERN}\\s+(?:the\\s+)?((?:twenty|thirty)[- ]\\w+|[a-z]+(?:st|nd|rd|th))\\b`, 'g'), (match, month: string, day: string) => {
+      const value = ordinalValue(day);
+      return value ? `${month} ${value}` : match;
+    })
+    .replace(/\b(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)[ -](fifteen|thirty|forty[ -]five)\b/g,
+      (_, hour: string, minute: string) => `${NUMBER_WORDS[hour]}:${NUMBER_WORDS[minute.replace(' ', '-')]}`)
+    .replace(/\bhalf an hour\b/g, '30 minutes')
+    .replace(/\b(?:a couple(?: of)?)\s+(?=\w)/g, '2 ')
+    .replace(/\ba few\s+(?=\w)/g, '3 ')
+    .replace(/\ban? (?=(?:minute|min|hour|hr|day|week)\b)/g, '1 ')
+    .replace(/\b(forty-five|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty|thirty)\b/g, w => String(NUMBER_WORDS[w]));
+}
+
+// Days from the local today to the named day, or null when no day is mentioned
+function parseDayOffset(text: string, weekday: number): number | null {
+  if (/\bday after tomorrow\b/.test(text)) return 2;
+  if (/\btomorrow\b/.test(text)) return 1;
+  if (/\bnext week\b/.test(text)) return ((1 - weekday + 7) % 7) || 7; // the coming Monday
+  if (/\b(end of (?:the )?week|later this week)\b/.test(text)) return Math.max(0, 5 - weekday);
+  if (/\b(today|tonight|later|this (?:morning|afternoon|evening))\b/.test(text)) return 0;
+
+  const named = text.match(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/);
+  if (named) {
+    // "Thursday" said on a Thursday means next week
+    return ((WEEKDAYS.indexOf(named[1]) - weekday + 7) % 7) || 7;
+  }
+  return null;
+}
+
+// "october 22", "oct 22nd": days from the local today (dates already past roll to next year), plus the
+// text without the date so its day isn't read as a clock time
+function parseExplicitDate(text: string, local: { year: number; month: number; day: number }): { offset: number; rest: string } | null {
+  const match = text.match(new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`));
+  if (!match) return null;
+  const month = MONTHS.findIndex(m => m.startsWith(match[1].slice(0, 3))) + 1;
+  const day = parseInt(match[2], 10);
+  if (day < 1 || day > 31) return null;
+
+  const today = Date.UTC(local.year, local.month - 1, local.day);
+  let target = Date.UTC(local.year, month - 1, day);
+  if (target < today) target = Date.UTC(local.year + 1, month - 1, day);
+  return { offset: Math.round((target - today) / (24 * 60 * 60 * 1000)), rest: text.replace(match[0], ' ') };
+}
+
+// Local hour/minute from "at 3", "after 2", "around 10:30", "3pm", "before 5"
+function parseClockTime(text: string): { hour: number; minute: number } | null {
+  const match =
+    text.match(/\b(at|after|around|about|by|before|say)\s+(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?|o'?clock)?/) ||
+    text.match(/\b()(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?|o'?clock)/) ||
+    text.match(/\b()(\d{1,2}):(\d{2})()/);
+  if (!match) return null;
+
+  let hour = parseInt(match[2], 10);
+  let minute = match[3] ? parseInt(match[3], 10) : 0;
+  const meridiem = (match[4] || '').replace(/\./g, '');
+  if (hour > 23 || minute > 59) return null;
+
+  if (meridiem.startsWith('p') && hour < 12) hour += 12;
+  else if (meridiem.startsWith('a') && hour === 12) hour = 0;
+  else if (!meridiem.startsWith('a') && !meridiem.startsWith('p') && hour >= 1 && hour <= 7) {
+    // Nobody asks for a 3am callback
+    hour += /\bmorning\b/.test(text) ? 0 : 12;
+  }
+
+  // "before 5" -> an hour earlier
+  if (match[1] === 'before') {
+    hour = Math.max(0, hour - 1);
+    minute = 0;
+  }
+  return { hour, minute };
+}
+
+function parseDayPart(text: string): number | null {
+  const part = text.match(/\b(morning|noon|lunch|afternoon|evening|tonight)\b/);
+  return part ? DAY_PART_HOURS[part[1]] : null;
+}
+
+// Parse one utterance. Null when it names no day, time or delay.
+export function parseCallbackTime(message: string, options: CallbackParseOptions): ParsedCallback | null {
+  const now = options.now || new Date();
+  const text = normalizeText(message.toLowerCase());
+  const local = getZonedParts(now, options.timezone);
+  const phrase = message.trim().slice(0, 200);
+
+  // "in 20 minutes", "in a couple of hours"
+  const delay = text.match(/\bin (\d+) (minute|min|hour|hr|day|week)s?\b/);
+  if (delay && UNIT_MINUTES[delay[2]]) {
+    const at = new Date(now.getTime() + parseInt(delay[1], 10) * UNIT_MINUTES[delay[2]] * 60 * 1000);
+    return { at, precision: 'relative', phrase };
+  }
+
+  const explicit = parseExplicitDate(text, local);
+  let dayOffset = delay ? parseInt(delay[1], 10) * UNIT_DAYS[delay[2]] : explicit ? explicit.offset : parseDayOffset(text, local.weekday);
+  const clock = parseClockTime(explicit ? explicit.rest : text);
+  const dayPart = parseDayPart(text);
+  if (dayOffset === null && !clock && dayPart === null) return null;
+
+  const hour = clock ? clock.hour : dayPart ?? DEFAULT_CALLBACK_HOUR;
+  const minute = clock ? clock.minute : 0;
+
+  // A bare time ("at 3") means today, or tomorrow once it has passed
+  if (dayOffset === null) {
+    dayOffset = hour * 60 + minute > local.hour * 60 + local.minute ? 0 : 1;
+  }
+
+  let at = zonedTimeToUtc(local.year, local.month, local.day + dayOffset, hour, minute, options.timezone);
+  // "later today" / "this morning" said after that hour: soon, not in the past
+  if (at <= now) {
+    at = new Date(now.getTime() + 60 * 60 * 1000);
+  }
+
+  return { at, precision: clock ? 'time' : 'day', phrase };
+}
+
+// The callback time a call settled on: the prospect's latest mention wins, then the agent's
+// confirmation ("I'll give you a call Thursday at 2")
+export function extractCallback(
+  transcript: Array<{ role: string; message: string }>,
+  options: CallbackParseOptions
+): ParsedCallback | null {
+  for (const role of ['user', 'agent']) {
+    const messages = transcript.filter(t => t.role === role && t.message);
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const parsed = parseCallbackTime(messages[i].message, options);
+      if (parsed) return parsed;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,152 @@
+// Callback Queue
+// Callbacks prospects asked for (call_logs.callback_at, status 'pending') that the dialer drains ahead of new leads
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { parseCallbackTime } from './callback-parser';
+import { resolveTimezone } from './timezone-resolver';
+
+export type CallbackStatus = 'pending' | 'completed' | 'cancelled';
+
+// Added to a due callback's lead score when ranking the dial queue (scores run 0-100)
+export const CALLBACK_PRIORITY_BOOST = 100;
+
+export interface CallbackEntry {
+  callLogId: string;
+  prospectId: string;
+  campaignId: string | null;
+  callbackAt: string;
+  status: CallbackStatus;
+  phrase: string | null;
+  prospectName?: string | null;
+  company?: string | null;
+  phone?: string | null;
+}
+
+export interface CallbackListOptions {
+  dueOnly?: boolean;
+  status?: CallbackStatus;
+  limit?: number;
+}
+
+// call_logs columns a callback is read from, with the prospect embedded when listing
+interface CallbackRow {
+  id: string;
+  prospect_id: string;
+  campaign_id: string | null;
+  callback_at: string;
+  callback_status: CallbackStatus;
+  callback_phrase: string | null;
+  prospects?: CallbackProspect | CallbackProspect[] | null;
+}
+
+interface CallbackProspect {
+  name: string | null;
+  company: string | null;
+  phone: string | null;
+}
+
+function toEntry(row: CallbackRow): CallbackEntry {
+  const prospect = Array.isArray(row.prospects) ? row.prospects[0] : row.prospects;
+  return {
+    callLogId: row.id,
+    prospectId: row.prospect_id,
+    campaignId: row.campaign_id ?? null,
+    callbackAt: row.callback_at,
+    status: row.callback_status,
+    phrase: row.callback_phrase ?? null,
+    prospectName: prospect?.name ?? null,
+    company: prospect?.company ?? null,
+    phone: prospect?.phone ?? null,
+  };
+}
+
+export class CallbackQueue {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  // Pending callbacks, soonest first; dueOnly limits to those whose time has come
+  async list(options: CallbackListOptions = {}, now: Date = new Date()): Promise<CallbackEntry[]> {
+    let query = this.supabase
+      .from('call_logs')
+      .select('id, prospect_id, campaign_id, callback_at, callback_status, callback_phrase, prospects:prospect_id (name, company, phone)')
+      .eq('callback_status', options.status || 'pending')
+      .not('callback_at', 'is', null)
+      .order('callback_at', { ascending: true })
+      .limit(options.limit ?? 50);
+    if (options.dueOnly) query = query.lte('callback_at', now.toISOString()).not('prospect_id', 'is', null);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load callbacks: ${error.message}`);
+    }
+    return ((data || []) as CallbackRow[]).map(toEntry);
+  }
+
+  async due(limit: number, now: Date = new Date()): Promise<CallbackEntry[]> {
+    return this.list({ dueOnly: true, limit }, now);
+  }
+
+  // Move a pending callback. `when` is an ISO timestamp or a phrase ("tomorrow at 2") read in
+  // the prospect's timezone.
+  async reschedule(callLogId: string, when: string, now: Date = new Date()): Promise<CallbackEntry> {
+    const { data: row, error } = await this.supabase
+      .from('call_logs')
+      .select('id, callback_status, prospects:prospect_id (state, timezone, location, phone)')
+      .eq('id', callLogId)
+      .single();
+
+    if (error || !row) {
+      throw new Error(`Callback ${callLogId} not found${error ? `: ${error.message}` : ''}`);
+    }
+    if (row.callback_status === 'completed') {
+      throw new Error(`Callback ${callLogId} was already made`);
+    }
+
+    let at = /^\d{4}-\d{2}-\d{2}T/.test(when) ? new Date(when) : null;
+    if (!at) {
+      const prospect = (Array.isArray(row.prospects) ? row.prospects[0] : row.prospects) || undefined;
+      at = parseCallbackTime(when, { timezone: resolveTimezone(prospect), now })?.at || null;
+    }
+    if (!at || isNaN(at.getTime())) {
+      throw new Error(`Could not read a callback time from "${when}"`);
+    }
+
+    return this.update(callLogId, { callback_at: at.toISOString(), callback_status: 'pending', callback_phrase: when });
+  }
+
+  async cancel(callLogId: string): Promise<CallbackEntry> {
+    return this.update(callLogId, { callback_status: 'cancelled' });
+  }
+
+  // The dialer made the callback
+  async complete(callLogId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('call_logs')
+      .update({ callback_status: 'completed' })
+      .eq('id', callLogId)
+      .eq('callback_status', 'pending');
+
+    if (error) {
+      console.error(`[Callbacks] Failed to complete callback ${callLogId}:`, error.message);
+    }
+  }
+
+  private async update(callLogId: string, updates: Record<string, any>): Promise<CallbackEntry> {
+    const { data, error } = await this.supabase
+      .from('call_logs')
+      .update(updates)
+      .eq('id', callLogId)
+      .not('callback_at', 'is', null)
+      .select('id, prospect_id, campaign_id, callback_at, callback_status, callback_phrase')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to update callback ${callLogId}: ${error?.message || 'no callback on this call'}`);
+    }
+    console.log(`[Callbacks] ${callLogId}: ${data.callback_status} ${data.callback_at}`);
+    return toEntry(data as CallbackRow);
+  }
+}
@@ -0,0 +1,239 @@
+// Caller ID Pool
+// Owned numbers the dialer and SMS sender rotate through: local presence by area code / state,
+// volume spread by daily usage, and numbers with spam flags or poor answer metrics rested.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { analyzeCallMetrics, checkSpamStatus, getCallMetrics } from '../monitoring/spam-monitor';
+import { ProspectLocation, getAreaCode, getStateForAreaCode, normalizeState, parseCityState } from './timezone-resolver';
+
+export type CallerNumberStatus = 'active' | 'retired';
+export type CallerChannel = 'voice' | 'sms';
+
+// How the chosen number relates to the prospect
+export type CallerMatch = 'area_code' | 'state' | 'any';
+
+export interface CallerNumberRow {
+  id: string;
+  phone_number: string; // E.164
+  area_code: string;
+  state: string | null;
+  elevenlabs_phone_number_id: string | null; // needed for voice; ElevenLabs dials through its own number ids
+  channels: CallerChannel[];
+  status: CallerNumberStatus;
+  daily_limit: number;
+  usage_date: string | null; // YYYY-MM-DD (UTC) usage_count belongs to
+  usage_count: number;
+  spam_score: number | null;
+  rested_until: string | null;
+  rest_reason: string | null;
+  last_used_at: string | null;
+  last_checked_at: string | null;
+  created_at: string;
+}
+
+export interface CallerSelection {
+  number: CallerNumberRow;
+  match: CallerMatch;
+}
+
+export interface HealthCheckOptions {
+  restHours?: number;
+  metricsHours?: number;
+  dryRun?: boolean;
+}
+
+export interface HealthCheckResult {
+  phoneNumber: string;
+  spamScore: number | null;
+  flagged: boolean;
+  warnings: string[];
+  rested: boolean;
+  error?: string;
+}
+
+// How long a flagged number sits out
+export const DEFAULT_REST_HOURS = 72;
+
+// Answer-rate warnings need enough calls to mean anything
+const MIN_CALLS_FOR_METRICS = 20;
+
+function today(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export function getUsageToday(number: CallerNumberRow, now: Date = new Date()): number {
+  return number.usage_date === today(now) ? number.usage_count : 0;
+}
+
+export function isAvailable(number: CallerNumberRow, channel: CallerChannel, now: Date = new Date()): boolean {
+  if (number.status !== 'active' || !number.channels?.includes(channel)) return false;
+  if (channel === 'voice' && !number.elevenlabs_phone_number_id) return false;
+  if (number.rested_until && new Date(number.rested_until) > now) return false;
+  return getUsageToday(number, now) < number.daily_limit;
+}
+
+// Local numbers first (same area code, then same state); within a tier the least used share of
+// its daily limit, then the longest idle
+export function selectCallerNumber(
+  numbers: CallerNumberRow[],
+  prospect: ProspectLocation,
+  channel: CallerChannel,
+  now: Date = new Date()
+): CallerSelection | null {
+  const areaCode = getAreaCode(prospect.phone);
+  const state = normalizeState(prospect.state) || parseCityState(prospect.location).state || getStateForAreaCode(areaCode);
+
+  const matchOf = (n: CallerNumberRow): CallerMatch => {
+    if (areaCode !== null && n.area_code === String(areaCode)) return 'area_code';
+    if (state && n.state === state) return 'state';
+    return 'any';
+  };
+  const tier: Record<CallerMatch, number> = { area_code: 0, state: 1, any: 2 };
+  const load = (n: CallerNumberRow) => getUsageToday(n, now) / Math.max(1, n.daily_limit);
+
+  const ranked = numbers
+    .filter(n => isAvailable(n, channel, now))
+    .sort((a, b) =>
+      tier[matchOf(a)] - tier[matchOf(b)] ||
+      load(a) - load(b) ||
+      (a.last_used_at || '').localeCompare(b.last_used_at || '')
+    );
+
+  return ranked.length ? { number: ranked[0], match: matchOf(ranked[0]) } : null;
+}
+
+export class CallerIdPool {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  async list(includeRetired: boolean = false): Promise<CallerNumberRow[]> {
+    let query = this.supabase.from('caller_numbers').select('*').order('phone_number', { ascending: true });
+    if (!includeRetired) query = query.eq('status', 'active');
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load caller numbers: ${error.message}`);
+    }
+    return (data || []) as CallerNumberRow[];
+  }
+
+  // Best number for the prospect, or null when the pool has none available (callers fall back
+  // to their configured default number)
+  async select(prospect: ProspectLocation, channel: CallerChannel, now: Date = new Date()): Promise<CallerSelection | null> {
+    try {
+      const selection = selectCallerNumber(await this.list(), prospect, channel, now);
+      if (selection) {
+        console.log(`[CallerId] ${channel} via ${selection.number.phone_number} (${selection.match} match)`);
+      }
+      return selection;
+    } catch (err: any) {
+      console.error(`[CallerId] ${err.message}, using default number`);
+      return null;
+    }
+  }
+
+  // Count a call or text against the number's daily usage (incremented in SQL, see record_caller_number_use)
+  async recordUse(number: CallerNumberRow, now: Date = new Date()): Promise<void> {
+    const { error } = await this.supabase.rpc('record_caller_number_use', {
+      p_number_id: number.id,
+      p_at: now.toISOString(),
+    });
+
+    if (error) {
+      console.error(`[CallerId] Failed to record use of ${number.phone_number}:`, error.message);
+    }
+  }
+
+  async add(phoneNumber: string, options: { elevenlabsPhoneNumberId?: string; dailyLimit?: number; channels?: CallerChannel[] } = {}): Promise<CallerNumberRow> {
+    const areaCode = getAreaCode(phoneNumber);
+    if (areaCode === null) {
+      throw new Error(`Not a US phone number: ${phoneNumber}`);
+    }
+    const digits = phoneNumber.replace(/\D/g, '').slice(-10);
+
+    const { data, error } = await this.supabase
+      .from('caller_numbers')
+      .upsert({
+        phone_number: `+1${digits}`,
+        area_code: String(areaCode),
+        state: getStateForAreaCode(areaCode),
+        elevenlabs_phone_number_id: options.elevenlabsPhoneNumberId ?? null,
+        channels: options.channels || ['voice', 'sms'],
+        daily_limit: options.dailyLimit ?? 50,
+        status: 'active',
+      }, { onConflict: 'phone_number' })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add caller number: ${error.message}`);
+    }
+    return data as CallerNumberRow;
+  }
+
+  async rest(number: CallerNumberRow, hours: number, reason: string, now: Date = new Date()): Promise<void> {
+    const until = new Date(now.getTime() + hours * 60 * 60 * 1000);
+    const { error } = await this.supabase
+      .from('caller_numbers')
+      .update({ rested_until: until.toISOString(), rest_reason: reason })
+      .eq('id', number.id);
+
+    if (error) {
+      throw new Error(`Failed to rest ${number.phone_number}: ${error.message}`);
+    }
+    console.log(`[CallerId] Resting ${number.phone_number} until ${until.toISOString()}: ${reason}`);
+  }
+
+  // Spam lookup plus recent answer metrics for every active number; unhealthy ones are rested
+  async checkHealth(options: HealthCheckOptions = {}): Promise<HealthCheckResult[]> {
+    const restHours = options.restHours ?? DEFAULT_REST_HOURS;
+    const results: HealthCheckResult[] = [];
+
+    for (const number of await this.list()) {
+      const result: HealthCheckResult = {
+        phoneNumber: number.phone_number,
+        spamScore: number.spam_score,
+        flagged: false,
+        warnings: [],
+        rested: false,
+      };
+
+      try {
+        const spam = await checkSpamStatus(number.phone_number);
+        result.spamScore = spam.score;
+        result.flagged = spam.flagged;
+
+        const metrics = await getCallMetrics(options.metricsHours ?? 24, number.phone_number);
+        if (metrics.total_calls >= MIN_CALLS_FOR_METRICS) {
+          result.warnings = analyzeCallMetrics(metrics).warnings;
+        }
+
+        if (!options.dryRun) {
+          const { error } = await this.supabase
+            .from('caller_numbers')
+            .update({ spam_score: spam.score, last_checked_at: spam.checked_at })
+            .eq('id', number.id);
+          if (error) {
+            console.error(`[CallerId] Failed to save health of ${number.phone_number}:`, error.message);
+          }
+        }
+
+        if (result.flagged || result.warnings.length) {
+          const reason = result.flagged ? `spam score ${spam.score}` : result.warnings.join('; ');
+          if (!options.dryRun) await this.rest(number, restHours, reason);
+          result.rested = true;
+        }
+      } catch (err: any) {
+        result.error = err.message;
+        console.error(`[CallerId] Health check failed for ${number.phone_number}:`, err.message);
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+}
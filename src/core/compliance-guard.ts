@@ -0,0 +1,260 @@
+// Compliance Guard
+// Per-state telemarketing rules (calling hours, weekend/holiday bans, attempt caps) checked before every dial
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getUsHolidays, getZonedParts } from './business-hours';
+import {
+  ProspectLocation,
+  getAreaCode,
+  getStateForAreaCode,
+  getTimezoneForAreaCode,
+  normalizeState,
+  parseCityState,
+  resolveTimezone,
+} from './timezone-resolver';
+
+// Local wall-clock window, 'HH:MM' 24h, end exclusive
+export interface CallingWindow {
+  start: string;
+  end: string;
+}
+
+export interface StateCallingRules {
+  weekdays: CallingWindow;
+  saturday: CallingWindow | null; // null = no calls
+  sunday: CallingWindow | null;
+  noHolidays: boolean;
+  maxAttemptsPer24h?: number; // per prospect
+  maxAttemptsPer7d?: number;
+  source: string;
+}
+
+// TCPA baseline: 8am-9pm called party's local time, every day (47 CFR 64.1200(c)(1))
+export const FEDERAL_CALLING_RULES: StateCallingRules = {
+  weekdays: { start: '08:00', end: '21:00' },
+  saturday: { start: '08:00', end: '21:00' },
+  sunday: { start: '08:00', end: '21:00' },
+  noHolidays: false,
+  source: 'TCPA',
+};
+
+// State overrides on top of the federal baseline. A summary of state telemarketing
+// statutes, not legal advice — review changes with counsel before relying on them.
+export const STATE_CALLING_RULES: Record<string, Partial<StateCallingRules>> = {
+  AL: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: null, noHolidays: true, source: 'Alabama Telemarketing Act' },
+  CT: { weekdays: { start: '09:00', end: '20:00' }, saturday: { start: '09:00', end: '20:00' }, sunday: { start: '09:00', end: '20:00' }, source: 'Connecticut telemarketing law' },
+  FL: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: { start: '08:00', end: '20:00' }, maxAttemptsPer24h: 3, source: 'Florida Telephone Solicitation Act' },
+  LA: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: null, noHolidays: true, source: 'Louisiana Telephone Solicitation Relief Act' },
+  MA: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: { start: '08:00', end: '20:00' }, source: 'Massachusetts telemarketing law' },
+  MD: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: { start: '08:00', end: '20:00' }, maxAttemptsPer24h: 3, source: 'Maryland Stop the Spam Calls Act' },
+  MS: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: null, source: 'Mississippi telephone solicitation law' },
+  OK: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: { start: '08:00', end: '20:00' }, maxAttemptsPer24h: 3, source: 'Oklahoma Telephone Solicitation Act' },
+  RI: { weekdays: { start: '09:00', end: '18:00' }, saturday: { start: '10:00', end: '17:00' }, sunday: null, noHolidays: true, source: 'Rhode Island telephone sales solicitation law' },
+  TX: { weekdays: { start: '09:00', end: '21:00' }, saturday: { start: '09:00', end: '21:00' }, sunday: { start: '12:00', end: '21:00' }, source: 'Texas Bus. & Com. Code ch. 301' },
+  UT: { weekdays: { start: '08:00', end: '21:00' }, saturday: { start: '08:00', end: '21:00' }, sunday: null, noHolidays: true, source: 'Utah Telephone and Facsimile Solicitation Act' },
+  WA: { weekdays: { start: '08:00', end: '20:00' }, saturday: { start: '08:00', end: '20:00' }, sunday: { start: '08:00', end: '20:00' }, source: 'Washington telephone solicitation law' },
+};
+
+export interface CallAttemptCounts {
+  last24h: number;
+  last7d: number;
+}
+
+export interface ComplianceProspect extends ProspectLocation {
+  id: string;
+  campaignId?: string | null;
+}
+
+export interface ComplianceDecision {
+  allowed: boolean;
+  reason: string;
+  rule: string; // e.g. 'FL:hours', 'TX:sunday', 'federal:ok'
+  states: string[]; // states whose rules were applied
+  timezone: string;
+  localTime: string; // YYYY-MM-DD HH:MM in the prospect's timezone
+  attempts: CallAttemptCounts;
+  evaluatedAt: string;
+}
+
+export interface ComplianceGuardOptions {
+  clock?: () => Date; // fixed clocks make the rules testable offline
+  rules?: Record<string, Partial<StateCallingRules>>;
+  dryRun?: boolean; // evaluate only: denials are logged to the console, not call_logs
+}
+
+export function getCallingRules(
+  state: string | null,
+  rules: Record<string, Partial<StateCallingRules>> = STATE_CALLING_RULES
+): StateCallingRules {
+  return { ...FEDERAL_CALLING_RULES, ...(state ? rules[state] : undefined) };
+}
+
+// States whose rules govern a call: the prospect's recorded state and the state of the
+// phone's area code. Mobile numbers travel, so when they differ both must allow the call.
+export function getGoverningStates(prospect: ProspectLocation): string[] {
+  const states = new Set<string>();
+  const recorded = normalizeState(prospect.state) || parseCityState(prospect.location).state;
+  if (recorded) states.add(recorded);
+  const byAreaCode = getStateForAreaCode(getAreaCode(prospect.phone));
+  if (byAreaCode) states.add(byAreaCode);
+  return [...states];
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// Check one state's rules at a local time; returns the failing rule or null
+function checkState(
+  state: string | null,
+  rules: StateCallingRules,
+  parts: ReturnType<typeof getZonedParts>,
+  attempts: CallAttemptCounts
+): { rule: string; reason: string } | null {
+  const label = state || 'federal';
+  const date = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+
+  if (rules.noHolidays && getUsHolidays(parts.year).includes(date)) {
+    return { rule: `${label}:holiday`, reason: `${rules.source}: no calls on holidays (${date})` };
+  }
+
+  const window = parts.weekday === 0 ? rules.sunday : parts.weekday === 6 ? rules.saturday : rules.weekdays;
+  const dayName = parts.weekday === 0 ? 'Sunday' : parts.weekday === 6 ? 'Saturday' : 'weekdays';
+  if (!window) {
+    return { rule: `${label}:${dayName.toLowerCase()}`, reason: `${rules.source}: no calls on ${dayName}` };
+  }
+
+  const minutes = parts.hour * 60 + parts.minute;
+  if (minutes < parseClock(window.start) || minutes >= parseClock(window.end)) {
+    return {
+      rule: `${label}:hours`,
+      reason: `${rules.source}: calls allowed ${window.start}-${window.end} local on ${dayName}, it is ${pad(parts.hour)}:${pad(parts.minute)}`,
+    };
+  }
+
+  if (rules.maxAttemptsPer24h !== undefined && attempts.last24h >= rules.maxAttemptsPer24h) {
+    return { rule: `${label}:attempts_24h`, reason: `${rules.source}: max ${rules.maxAttemptsPer24h} calls per 24h reached` };
+  }
+  if (rules.maxAttemptsPer7d !== undefined && attempts.last7d >= rules.maxAttemptsPer7d) {
+    return { rule: `${label}:attempts_7d`, reason: `${rules.source}: max ${rules.maxAttemptsPer7d} calls per 7 days reached` };
+  }
+
+  return null;
+}
+
+// Pure decision for a prospect at an instant, given their recent attempt counts
+export function evaluateCallCompliance(
+  prospect: ProspectLocation,
+  attempts: CallAttemptCounts,
+  at: Date,
+  rulesTable: Record<string, Partial<StateCallingRules>> = STATE_CALLING_RULES
+): ComplianceDecision {
+  const timezone = resolveTimezone(prospect);
+  const parts = getZonedParts(at, timezone);
+  const states = getGoverningStates(prospect);
+  const decision: ComplianceDecision = {
+    allowed: true,
+    reason: 'Within calling rules',
+    rule: states.length ? `${states.join('+')}:ok` : 'federal:ok',
+    states,
+    timezone,
+    localTime: `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`,
+    attempts,
+    evaluatedAt: at.toISOString(),
+  };
+
+  // The area-code state is judged on the phone's local clock, which can differ from the recorded one
+  const areaCode = getAreaCode(prospect.phone);
+  const areaCodeState = getStateForAreaCode(areaCode);
+  const areaCodeTimezone = getTimezoneForAreaCode(areaCode);
+
+  for (const state of states.length ? states : [null]) {
+    const local = state === areaCodeState && state !== states[0] && areaCodeTimezone
+      ? getZonedParts(at, areaCodeTimezone)
+      : parts;
+    const failure = checkState(state, getCallingRules(state, rulesTable), local, attempts);
+    if (failure) {
+      decision.allowed = false;
+      decision.rule = failure.rule;
+      decision.reason = failure.reason;
+      break;
+    }
+  }
+
+  return decision;
+}
+
+export class ComplianceGuard {
+  private supabase: SupabaseClient;
+  private clock: () => Date;
+  private rules: Record<string, Partial<StateCallingRules>>;
+  private dryRun: boolean;
+
+  constructor(supabase: SupabaseClient, options: ComplianceGuardOptions = {}) {
+    this.supabase = supabase;
+    this.clock = options.clock || (() => new Date());
+    this.rules = options.rules || STATE_CALLING_RULES;
+    this.dryRun = options.dryRun ?? false;
+  }
+
+  // Calls placed to the prospect in the last 24h / 7 days (blocked attempts don't count)
+  async countAttempts(prospectId: string): Promise<CallAttemptCounts> {
+    const now = this.clock().getTime();
+    const since7d = new Date(now - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const since24h = new Date(now - 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await this.supabase
+      .from('call_logs')
+      .select('created_at')
+      .eq('prospect_id', prospectId)
+      .neq('status', 'blocked')
+      .gte('created_at', since7d);
+
+    if (error) {
+      throw new Error(`Failed to count call attempts for ${prospectId}: ${error.message}`);
+    }
+
+    const rows = data || [];
+    return { last24h: rows.filter(r => r.created_at >= since24h).length, last7d: rows.length };
+  }
+
+  // Decide whether the prospect may be called now. An unreadable call history denies the call.
+  async check(prospect: ComplianceProspect): Promise<ComplianceDecision> {
+    const at = this.clock();
+    try {
+      const attempts = await this.countAttempts(prospect.id);
+      return evaluateCallCompliance(prospect, attempts, at, this.rules);
+    } catch (err: any) {
+      const decision = evaluateCallCompliance(prospect, { last24h: 0, last7d: 0 }, at, this.rules);
+      return { ...decision, allowed: false, rule: 'guard:error', reason: err.message };
+    }
+  }
+
+  // Denied dials are logged as call_logs rows with status 'blocked'; allowed decisions
+  // ride along on the call's own log row (see CallEngine.createCallLog)
+  async recordDenial(prospect: ComplianceProspect, decision: ComplianceDecision, actor: string): Promise<void> {
+    if (this.dryRun) {
+      console.log(`[Compliance] [DRY RUN] Would log blocked call for ${prospect.id}: ${decision.reason}`);
+      return;
+    }
+
+    const { error } = await this.supabase.from('call_logs').insert({
+      prospect_id: prospect.id,
+      campaign_id: prospect.campaignId ?? null,
+      status: 'blocked',
+      outcome: 'blocked',
+      direction: 'outbound',
+      notes: `[${actor}] ${decision.reason}`,
+      compliance: decision,
+    });
+
+    if (error) {
+      console.error(`[Compliance] Failed to log blocked call for ${prospect.id}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,153 @@
+// Condition Evaluator
+// Evaluates sequence step conditions against prospect fields and touchpoint history
+
+import {
+  ConditionGroup,
+  Prospect,
+  StepCondition,
+  StepConditionNode,
+  Touchpoint,
+} from '../types';
+
+// Values a condition field can resolve against.
+// `touchpoints` holds aggregates: touchpoints.count, touchpoints.email.count,
+// touchpoints.email.opened.count, touchpoints.email.opened.last, ...
+export type ConditionContext = Record<string, any>;
+
+interface TouchpointAggregate {
+  count: number;
+  last?: Date;
+}
+
+// Every outcome a touchpoint counts towards (timestamps imply an outcome too)
+function getTouchpointOutcomes(touchpoint: Touchpoint): Set<string> {
+  const outcomes = new Set<string>();
+  if (touchpoint.outcome) outcomes.add(touchpoint.outcome);
+  if (touchpoint.openedAt) outcomes.add('opened');
+  if (touchpoint.repliedAt) {
+    outcomes.add('opened');
+    outcomes.add('replied');
+  }
+  return outcomes;
+}
+
+function addToAggregate(target: Record<string, any>, key: string, at: Date): void {
+  const aggregate: TouchpointAggregate = target[key] || (target[key] = { count: 0 });
+  aggregate.count++;
+  if (!aggregate.last || at > aggregate.last) {
+    aggregate.last = at;
+  }
+}
+
+// Aggregate touchpoints into { count, last, <channel>: { count, last, <outcome>: { count, last } } }
+export function aggregateTouchpoints(touchpoints: Touchpoint[]): Record<string, any> {
+  const root: Record<string, any> = { count: 0 };
+
+  for (const touchpoint of touchpoints) {
+    const at = touchpoint.sentAt;
+    root.count++;
+    if (!root.last || at > root.last) root.last = at;
+
+    addToAggregate(root, touchpoint.channel, at);
+    const channel = root[touchpoint.channel];
+    for (const outcome of getTouchpointOutcomes(touchpoint)) {
+      addToAggregate(channel, outcome, at);
+    }
+  }
+
+  return root;
+}
+
+export function buildConditionContext(
+  prospect: Prospect | undefined,
+  touchpoints: Touchpoint[]
+): ConditionContext {
+  return {
+    ...(prospect || {}),
+    touchpoints: aggregateTouchpoints(touchpoints),
+  };
+}
+
+function toCamelCase(key: string): string {
+  return key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+// Resolve a dotted path. Segments may be snake_case (linkedin_state) or camelCase.
+// Touchpoint counts default to 0 so `touchpoints.email.replied.count` works before any reply.
+export function resolveField(context: ConditionContext, path: string): any {
+  const segments = path.split('.');
+  let current: any = context;
+
+  for (const segment of segments) {
+    // A path through a missing value or a scalar ("status.length") resolves to nothing
+    if (current === null || typeof current !== 'object') {
+      current = undefined;
+      break;
+    }
+    current = segment in current ? current[segment] : current[toCamelCase(segment)];
+  }
+
+  if (current === undefined && segments[0] === 'touchpoints' && segments[segments.length - 1] === 'count') {
+    return 0;
+  }
+
+  return current;
+}
+
+function toComparable(value: any): any {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+function isGroup(node: StepConditionNode): node is ConditionGroup {
+  return 'all' in node || 'any' in node;
+}
+
+export function evaluateCondition(condition: StepCondition, context: ConditionContext): boolean {
+  const actual = resolveField(context, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'eq':
+      return toComparable(actual) === toComparable(expected);
+    case 'neq':
+      return toComparable(actual) !== toComparable(expected);
+    case 'gt':
+      return actual !== null && actual !== undefined && toComparable(actual) > toComparable(expected);
+    case 'lt':
+      return actual !== null && actual !== undefined && toComparable(actual) < toComparable(expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected);
+      if (typeof actual === 'string') return actual.toLowerCase().includes(String(expected).toLowerCase());
+      return false;
+    case 'in':
+      return Array.isArray(expected) && expected.some(v => toComparable(v) === toComparable(actual));
+    case 'exists': {
+      const present = actual !== null && actual !== undefined && actual !== '';
+      return expected === false ? !present : present;
+    }
+    default:
+      console.warn(`[ConditionEvaluator] Unknown operator: ${(condition as StepCondition).operator}`);
+      return false;
+  }
+}
+
+// A list of nodes is an implicit AND group
+export function evaluateConditions(
+  conditions: StepConditionNode | StepConditionNode[] | undefined,
+  context: ConditionContext
+): boolean {
+  if (!conditions) return true;
+  if (Array.isArray(conditions)) {
+    return conditions.every(node => evaluateConditions(node, context));
+  }
+
+  if (isGroup(conditions)) {
+    const allMet = (conditions.all || []).every(node => evaluateConditions(node, context));
+    const anyMet = !conditions.any || conditions.any.some(node => evaluateConditions(node, context));
+    return allMet && anyMet;
+  }
+
+  return evaluateCondition(conditions, context);
+}
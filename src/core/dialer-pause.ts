@@ -0,0 +1,76 @@
+// Dialer Pause
+// Stop switch for outbound calling: the reputation monitor (or a person) pauses the dialer and every
+// batch checks it before dialing. A pause lasts until its paused_until passes or someone resumes it.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface DialerPauseRow {
+  id: string;
+  reason: string;
+  source: string; // 'reputation-monitor', 'manual', ...
+  paused_until: string | null; // null = until resumed
+  resumed_at: string | null;
+  resumed_by: string | null;
+  created_at: string;
+}
+
+export class DialerPauseService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  // The pause in force, if any. An unreadable table doesn't stop the dialer; the error is logged.
+  async active(now: Date = new Date()): Promise<DialerPauseRow | null> {
+    const { data, error } = await this.supabase
+      .from('dialer_pauses')
+      .select('*')
+      .is('resumed_at', null)
+      .or(`paused_until.is.null,paused_until.gt.${now.toISOString()}`)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('[DialerPause] Failed to read dialer pauses:', error.message);
+      return null;
+    }
+    return (data?.[0] as DialerPauseRow) || null;
+  }
+
+  async pause(reason: string, source: string, hours?: number, now: Date = new Date()): Promise<DialerPauseRow> {
+    const existing = await this.active(now);
+    if (existing) return existing;
+
+    const { data, error } = await this.supabase
+      .from('dialer_pauses')
+      .insert({
+        reason,
+        source,
+        paused_until: hours ? new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString() : null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to pause dialer: ${error.message}`);
+    }
+    console.log(`[DialerPause] Dialer paused by ${source}: ${reason}`);
+    return data as DialerPauseRow;
+  }
+
+  // Lift every open pause; returns how many were lifted
+  async resume(actor: string, now: Date = new Date()): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('dialer_pauses')
+      .update({ resumed_at: now.toISOString(), resumed_by: actor })
+      .is('resumed_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to resume dialer: ${error.message}`);
+    }
+    console.log(`[DialerPause] Dialer resumed by ${actor}`);
+    return data?.length || 0;
+  }
+}
@@ -0,0 +1,300 @@
+// Email Experiments
+// Subject/body A/B tests per step of the daily Instantly campaign (templates/email-sequences.ts).
+// Each lead's variant per step comes from a hash of their email, so re-queuing a lead gives the same copy.
+// Assignments live in email_variant_assignments; api/email-webhook.ts stamps sends, opens, replies and
+// bounces onto them.
+
+import { SupabaseClient, createClient } from '@supabase/supabase-js';
+import { Prospect } from '../types';
+import * as instantly from '../channels/instantly-adapter';
+import { SequenceName, SequenceStep, getSequence } from '../templates/email-sequences';
+import { RateEstimate, estimateRate, twoProportionTest } from './experiment-stats';
+import { fetchAllPages } from './paging';
+
+export const CONTROL_VARIANT = 'control';
+export const CAMPAIGN_SEQUENCE: SequenceName = 'outbound';
+
+export interface EmailVariantAssignment {
+  sequence: string;
+  step: number; // 1-based, as Instantly numbers steps
+  variantId: string;
+  subject: string;
+  body: string;
+  tested: boolean; // the step has variants, so the copy travels in lead custom variables
+}
+
+export interface EmailVariantRow {
+  id: string;
+  prospect_id: string | null;
+  prospect_email: string;
+  campaign_id: string | null;
+  sequence: string;
+  step: number;
+  variant_id: string;
+  assigned_at: string;
+  sent_at: string | null;
+  opened_at: string | null;
+  replied_at: string | null;
+  bounced_at: string | null;
+}
+
+export interface EmailVariantResult {
+  sequence: string;
+  step: number;
+  variantId: string;
+  assigned: number;
+  sent: number;
+  opened: number;
+  replied: number;
+  bounced: number;
+  rates: { open: RateEstimate; reply: RateEstimate; bounce: RateEstimate }; // per email sent
+  replyVsControl: { difference: number; pValue: number } | null; // two-proportion z-test
+}
+
+export interface EmailExperimentReport {
+  since: string;
+  variants: EmailVariantResult[]; // steps with more than one variant, by sequence, step, then variant
+}
+
+export interface EmailAttribution {
+  step: number;
+  variantId: string;
+}
+
+// Instantly webhook event types that mark an assignment
+const EVENT_COLUMNS: Record<string, 'sent_at' | 'opened_at' | 'replied_at' | 'bounced_at'> = {
+  email_sent: 'sent_at',
+  email_opened: 'opened_at',
+  reply_received: 'replied_at',
+  email_bounced: 'bounced_at',
+};
+
+// FNV-1a, scaled to [0, 1)
+function hashUnit(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+export function getStepVariants(step: SequenceStep): Array<{ id: string; subject: string; body: string; weight: number }> {
+  return [
+    { id: CONTROL_VARIANT, subject: step.subject, body: step.body, weight: 1 },
+    ...(step.variants || []).map(v => ({ id: v.id, subject: v.subject, body: v.body, weight: v.weight ?? 1 })),
+  ];
+}
+
+// Same email, sequence and step always give the same variant
+export function assignEmailVariants(email: string, sequence: SequenceName = CAMPAIGN_SEQUENCE): EmailVariantAssignment[] {
+  return getSequence(sequence).map((step, index) => {
+    const options = getStepVariants(step);
+    const total = options.reduce((sum, v) => sum + Math.max(0, v.weight), 0);
+    let draw = hashUnit(`${sequence}:${index + 1}:${email.trim().toLowerCase()}`) * total;
+    const picked = options.find(v => (draw -= Math.max(0, v.weight)) < 0) || options[0];
+    return {
+      sequence,
+      step: index + 1,
+      variantId: picked.id,
+      subject: picked.subject,
+      body: picked.body,
+      tested: options.length > 1,
+    };
+  });
+}
+
+// Fills prospect placeholders; anything else (e.g. {{custom_subject}}) is left for Instantly
+export function renderEmailTemplate(text: string, prospect: Prospect): string {
+  const values: Record<string, string | undefined> = {
+    first_name: (prospect.name || '').split(' ')[0] || 'there',
+    company: prospect.company,
+    website: prospect.website,
+    industry: prospect.industry,
+  };
+  return text.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Instantly sequence for a template sequence. Steps under test read their copy from per-lead
+ * custom variables ({{stepN_subject}} / {{stepN_body}}), which leadVariables fills in.
+ */
+export function buildCampaignSequence(sequence: SequenceName = CAMPAIGN_SEQUENCE): instantly.Sequence[] {
+  const steps = getSequence(sequence);
+  return [
+    {
+      steps: steps.map((step, index) => ({
+        type: 'email' as const,
+        delay: index === 0 ? 0 : step.day - steps[index - 1].day,
+        variants: [
+          step.variants?.length
+            ? { subject: `{{step${index + 1}_subject}}`, body: `{{step${index + 1}_body}}` }
+            : { subject: step.subject, body: step.body },
+        ],
+      })),
+    },
+  ];
+}
+
+export function leadVariables(assignments: EmailVariantAssignment[], prospect: Prospect): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const a of assignments.filter(a => a.tested)) {
+    variables[`step${a.step}_subject`] = renderEmailTemplate(a.subject, prospect);
+    variables[`step${a.step}_body`] = renderEmailTemplate(a.body, prospect);
+  }
+  return variables;
+}
+
+export class EmailExperimentService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  static fromEnv(): EmailExperimentService {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) {
+      throw new Error('SUPABASE_URL and a service key are required for email experiments');
+    }
+    return new EmailExperimentService(createClient(url, key));
+  }
+
+  // Every step is recorded, tested or not, so webhook events can be placed on a step
+  async recordAssignments(prospect: Prospect, campaignId: string, assignments: EmailVariantAssignment[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_variant_assignments')
+      .upsert(
+        assignments.map(a => ({
+          prospect_id: prospect.id || null,
+          prospect_email: (prospect.email || '').toLowerCase(),
+          campaign_id: campaignId,
+          sequence: a.sequence,
+          step: a.step,
+          variant_id: a.variantId,
+        })),
+        { onConflict: 'prospect_email,campaign_id,sequence,step', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(`Failed to record email variants: ${error.message}`);
+    }
+  }
+
+  /**
+   * Stamp a webhook event on the lead's assignment and return its variant. Without a step in the
+   * payload, a send goes to the first unsent step and anything else to the last step sent.
+   */
+  async attribute(
+    email: string,
+    campaignId: string | undefined,
+    eventType: string,
+    step?: number,
+    at: Date = new Date()
+  ): Promise<EmailAttribution | null> {
+    const column = EVENT_COLUMNS[eventType];
+    if (!column) return null;
+
+    let query = this.supabase
+      .from('email_variant_assignments')
+      .select('*')
+      .eq('prospect_email', email.toLowerCase())
+      .order('assigned_at', { ascending: false });
+    if (campaignId) query = query.eq('campaign_id', campaignId);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load email variants: ${error.message}`);
+    }
+
+    // Latest campaign the lead was queued in
+    const rows = ((data || []) as EmailVariantRow[])
+      .filter((r, _, all) => r.campaign_id === all[0].campaign_id)
+      .sort((a, b) => a.step - b.step);
+    if (!rows.length) return null;
+
+    const sent = rows.filter(r => r.sent_at);
+    const target = step
+      ? rows.find(r => r.step === step)
+      : column === 'sent_at'
+        ? rows.find(r => !r.sent_at)
+        : sent[sent.length - 1] || rows[0];
+    if (!target) return null;
+
+    if (!target[column]) {
+      const { error: updateError } = await this.supabase
+        .from('email_variant_assignments')
+        .update({ [column]: at.toISOString() })
+        .eq('id', target.id);
+      if (updateError) {
+        throw new Error(`Failed to attribute ${eventType}: ${updateError.message}`);
+      }
+    }
+    return { step: target.step, variantId: target.variant_id };
+  }
+
+  async report(since: Date, until?: Date): Promise<EmailExperimentReport> {
+    // Paged: PostgREST stops at 1000 rows and the rates would quietly cover a sample
+    const { data, error } = await fetchAllPages<EmailVariantOutcomeRow>((from, to) => {
+      let query = this.supabase
+        .from('email_variant_assignments')
+        .select('sequence, step, variant_id, sent_at, opened_at, replied_at, bounced_at')
+        .gte('assigned_at', since.toISOString());
+      if (until) query = query.lte('assigned_at', until.toISOString());
+      return query.order('assigned_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+    });
+    if (error) {
+      throw new Error(`Failed to load email variants: ${error.message}`);
+    }
+    return { since: since.toISOString(), variants: summarizeEmailVariants(data) };
+  }
+}
+
+// The columns the report reads
+type EmailVariantOutcomeRow = Omit<EmailVariantRow, 'id' | 'prospect_id' | 'prospect_email' | 'campaign_id' | 'assigned_at'>;
+
+export function summarizeEmailVariants(rows: EmailVariantOutcomeRow[]): EmailVariantResult[] {
+  const groups = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const key = `${row.sequence}\u0000${row.step}\u0000${row.variant_id}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  }
+
+  const results: EmailVariantResult[] = [...groups.values()].map(group => {
+    const { sequence, step, variant_id } = group[0];
+    const sent = group.filter(r => r.sent_at).length;
+    const opened = group.filter(r => r.opened_at).length;
+    const replied = group.filter(r => r.replied_at).length;
+    const bounced = group.filter(r => r.bounced_at).length;
+    return {
+      sequence,
+      step,
+      variantId: variant_id,
+      assigned: group.length,
+      sent,
+      opened,
+      replied,
+      bounced,
+      rates: { open: estimateRate(opened, sent), reply: estimateRate(replied, sent), bounce: estimateRate(bounced, sent) },
+      replyVsControl: null,
+    };
+  });
+
+  const sameStep = (a: EmailVariantResult, b: EmailVariantResult) => a.sequence === b.sequence && a.step === b.step;
+  for (const result of results) {
+    const control = results.find(r => sameStep(r, result) && r.variantId === CONTROL_VARIANT);
+    if (control && control !== result && control.sent > 0 && result.sent > 0) {
+      const { pValue } = twoProportionTest(result.rates.reply, control.rates.reply);
+      result.replyVsControl = { difference: result.rates.reply.rate - control.rates.reply.rate, pValue };
+    }
+  }
+
+  return results
+    .filter(r => results.some(o => sameStep(o, r) && o.variantId !== r.variantId))
+    .sort((a, b) =>
+      a.sequence.localeCompare(b.sequence) || a.step - b.step ||
+      Number(b.variantId === CONTROL_VARIANT) - Number(a.variantId === CONTROL_VARIANT) || a.variantId.localeCompare(b.variantId)
+    );
+}
@@ -0,0 +1,323 @@
+// Experiment Registry
+// Voice A/B experiments and their variant configs in the database (experiments / experiment_variants).
+// Every config change is a new variant version, and calls reference the version they used
+// (call_logs.experiment_variant_id). variants.json is the seed, and the fallback when nothing is running.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import seed from '../../variants.json';
+import type { AllocationConfig, VariantConfig } from './ab-router';
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export interface ExperimentRow {
+  id: string;
+  key: string;
+  name: string;
+  hypothesis: string | null;
+  status: ExperimentStatus;
+  allocation: Partial<AllocationConfig> | null; // overrides on top of variants.json settings
+  started_at: string | null;
+  stopped_at: string | null;
+  created_at: string;
+}
+
+export interface ExperimentVariantRow {
+  id: string; // the version; call_logs.experiment_variant_id points here
+  experiment_id: string;
+  variant_id: string; // stable id across versions, what call_logs.agent_variant holds
+  version: number;
+  agent_id: string;
+  name: string;
+  weight: number;
+  enabled: boolean;
+  config: Record<string, unknown>; // voice, personality, llm, style, ...
+  created_at: string;
+  retired_at: string | null; // set when a newer version replaces this one
+}
+
+export interface ExperimentDetail {
+  experiment: ExperimentRow;
+  variants: ExperimentVariantRow[]; // current versions
+  history: ExperimentVariantRow[]; // every version, oldest first
+}
+
+// The config the dialer should run now
+export interface ActiveExperiment {
+  experiment: ExperimentRow | null; // null = variants.json
+  variants: VariantConfig[];
+}
+
+export interface CreateExperimentInput {
+  key: string;
+  name: string;
+  hypothesis?: string;
+  allocation?: Partial<AllocationConfig>;
+  seed?: boolean; // copy variants.json in as version 1
+}
+
+export interface VariantChanges {
+  agentId?: string;
+  name?: string;
+  weight?: number;
+  enabled?: boolean;
+  config?: Record<string, unknown>;
+}
+
+const SEED_FIELDS = ['id', 'agentId', 'name', 'weight', 'enabled'];
+
+export function getSeedVariants(): VariantConfig[] {
+  return seed.variants.map((v: any) => ({ id: v.id, agentId: v.agentId, name: v.name, weight: v.weight, enabled: v.enabled }));
+}
+
+export function toVariantConfig(row: ExperimentVariantRow): VariantConfig {
+  return {
+    id: row.variant_id,
+    agentId: row.agent_id,
+    name: row.name,
+    weight: Number(row.weight),
+    enabled: row.enabled,
+    versionId: row.id,
+    version: row.version,
+    experimentId: row.experiment_id,
+  };
+}
+
+export class ExperimentRegistry {
+  private supabase: SupabaseClient;
+  private cacheMs: number;
+  private cached: { at: number; value: ActiveExperiment } | null = null;
+
+  constructor(supabase: SupabaseClient, options: { cacheMs?: number } = {}) {
+    this.supabase = supabase;
+    this.cacheMs = options.cacheMs ?? 60 * 1000;
+  }
+
+  /**
+   * Variants of the running experiment (current versions, enabled or not). Falls back to
+   * variants.json when no experiment is running or the registry can't be read.
+   */
+  async current(now: Date = new Date()): Promise<ActiveExperiment> {
+    if (this.cached && now.getTime() - this.cached.at < this.cacheMs) return this.cached.value;
+
+    let value: ActiveExperiment;
+    try {
+      const { data, error } = await this.supabase
+        .from('experiments')
+        .select('*')
+        .eq('status', 'running')
+        .order('started_at', { ascending: false })
+        .limit(1);
+      if (error) throw new Error(`Failed to load running experiment: ${error.message}`);
+
+      const experiment = (data?.[0] as ExperimentRow) || null;
+      value = experiment
+        ? { experiment, variants: (await this.loadVariants(experiment.id, false)).map(toVariantConfig) }
+        : { experiment: null, variants: getSeedVariants() };
+    } catch (err: any) {
+      console.error(`[Experiments] ${err.message}, using variants.json`);
+      value = { experiment: null, variants: getSeedVariants() };
+    }
+
+    this.cached = { at: now.getTime(), value };
+    return value;
+  }
+
+  async list(): Promise<ExperimentRow[]> {
+    const { data, error } = await this.supabase
+      .from('experiments')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list experiments: ${error.message}`);
+    }
+    return (data || []) as ExperimentRow[];
+  }
+
+  async get(key: string): Promise<ExperimentDetail> {
+    const experiment = await this.getExperiment(key);
+    const history = await this.loadVariants(experiment.id, true);
+    return { experiment, variants: history.filter(v => !v.retired_at), history };
+  }
+
+  async create(input: CreateExperimentInput): Promise<ExperimentDetail> {
+    const { data, error } = await this.supabase
+      .from('experiments')
+      .insert({
+        key: input.key,
+        name: input.name,
+        hypothesis: input.hypothesis ?? null,
+        allocation: input.allocation ?? null,
+        status: 'draft',
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create experiment ${input.key}: ${error.message}`);
+    }
+
+    if (input.seed) {
+      for (const variant of seed.variants as any[]) {
+        const config = Object.fromEntries(Object.entries(variant).filter(([k]) => !SEED_FIELDS.includes(k)));
+        await this.insertVersion((data as ExperimentRow).id, variant.id, 1, {
+          agentId: variant.agentId,
+          name: variant.name,
+          weight: variant.weight,
+          enabled: variant.enabled,
+          config,
+        });
+      }
+    }
+
+    console.log(`[Experiments] Created ${input.key}${input.seed ? ' from variants.json' : ''}`);
+    return this.get(input.key);
+  }
+
+  // One experiment runs at a time; the dialer allocates across its enabled variants
+  async start(key: string, now: Date = new Date()): Promise<ExperimentRow> {
+    const experiment = await this.getExperiment(key);
+    const running = (await this.list()).find(e => e.status === 'running' && e.id !== experiment.id);
+    if (running) {
+      throw new Error(`Experiment ${running.key} is already running; stop it first`);
+    }
+    if (!(await this.loadVariants(experiment.id, false)).some(v => v.enabled)) {
+      throw new Error(`Experiment ${key} has no enabled variants`);
+    }
+    return this.update(experiment.id, { status: 'running', started_at: experiment.started_at || now.toISOString(), stopped_at: null });
+  }
+
+  async stop(key: string, now: Date = new Date()): Promise<ExperimentRow> {
+    const experiment = await this.getExperiment(key);
+    return this.update(experiment.id, { status: 'stopped', stopped_at: now.toISOString() });
+  }
+
+  /**
+   * Add a variant or change one. Any change writes a new version and retires the previous one,
+   * so calls keep pointing at the config they actually ran with. No change, no new version.
+   */
+  async setVariant(key: string, variantId: string, changes: VariantChanges, now: Date = new Date()): Promise<ExperimentVariantRow> {
+    const experiment = await this.getExperiment(key);
+    const currentVersion = (await this.loadVariants(experiment.id, false)).find(v => v.variant_id === variantId);
+
+    if (!currentVersion && !changes.agentId) {
+      throw new Error(`New variant ${variantId} needs an agent id`);
+    }
+
+    const next = {
+      agentId: changes.agentId ?? currentVersion!.agent_id,
+      name: changes.name ?? currentVersion?.name ?? variantId,
+      weight: changes.weight ?? (currentVersion ? Number(currentVersion.weight) : 1),
+      enabled: changes.enabled ?? currentVersion?.enabled ?? true,
+      config: { ...currentVersion?.config, ...changes.config },
+    };
+
+    if (
+      currentVersion &&
+      next.agentId === currentVersion.agent_id &&
+      next.name === currentVersion.name &&
+      next.weight === Number(currentVersion.weight) &&
+      next.enabled === currentVersion.enabled &&
+      JSON.stringify(next.config) === JSON.stringify(currentVersion.config)
+    ) {
+      return currentVersion;
+    }
+
+    // Retire and replace in one transaction (set_experiment_variant) so the variant never loses its active version
+    const version = (currentVersion?.version || 0) + 1;
+    const { data, error } = await this.supabase.rpc('set_experiment_variant', {
+      p_experiment_id: experiment.id,
+      p_variant_id: variantId,
+      p_current_id: currentVersion?.id ?? null,
+      p_version: version,
+      p_agent_id: next.agentId,
+      p_name: next.name,
+      p_weight: next.weight,
+      p_enabled: next.enabled,
+      p_config: next.config,
+      p_now: now.toISOString(),
+    });
+    if (error || !data) {
+      throw new Error(`Failed to save ${variantId} v${version}: ${error?.message || 'no row returned'}`);
+    }
+    const row = data as ExperimentVariantRow;
+    this.cached = null;
+    console.log(`[Experiments] ${key}/${variantId} v${row.version}${next.enabled ? '' : ' (disabled)'}`);
+    return row;
+  }
+
+  private async getExperiment(key: string): Promise<ExperimentRow> {
+    const { data, error } = await this.supabase
+      .from('experiments')
+      .select('*')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load experiment ${key}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`Experiment ${key} not found`);
+    }
+    return data as ExperimentRow;
+  }
+
+  private async loadVariants(experimentId: string, includeRetired: boolean): Promise<ExperimentVariantRow[]> {
+    let query = this.supabase
+      .from('experiment_variants')
+      .select('*')
+      .eq('experiment_id', experimentId)
+      .order('created_at', { ascending: true });
+    if (!includeRetired) query = query.is('retired_at', null);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load experiment variants: ${error.message}`);
+    }
+    return (data || []) as ExperimentVariantRow[];
+  }
+
+  private async insertVersion(
+    experimentId: string,
+    variantId: string,
+    version: number,
+    fields: Required<VariantChanges>
+  ): Promise<ExperimentVariantRow> {
+    const { data, error } = await this.supabase
+      .from('experiment_variants')
+      .insert({
+        experiment_id: experimentId,
+        variant_id: variantId,
+        version,
+        agent_id: fields.agentId,
+        name: fields.name,
+        weight: fields.weight,
+        enabled: fields.enabled,
+        config: fields.config,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save ${variantId} v${version}: ${error.message}`);
+    }
+    return data as ExperimentVariantRow;
+  }
+
+  private async update(experimentId: string, updates: Partial<ExperimentRow>): Promise<ExperimentRow> {
+    const { data, error } = await this.supabase
+      .from('experiments')
+      .update(updates)
+      .eq('id', experimentId)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update experiment: ${error.message}`);
+    }
+    this.cached = null;
+    const row = data as ExperimentRow;
+    console.log(`[Experiments] ${row.key}: ${row.status}`);
+    return row;
+  }
+}
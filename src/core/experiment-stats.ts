@@ -0,0 +1,381 @@
+// Experiment Stats
+// Per-variant connect, booking and interest rates for voice A/B tests with Wilson and Bayesian
+// intervals, pairwise significance tests and a declare-winner / keep-testing recommendation
+// (docs/voice-ab-testing-spec.md §3). Reviewer good/bad labels (core/transcript-search) are reported
+// alongside but never decide the winner.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getVariantById, sampleBeta } from './ab-router';
+import { RETRYABLE_CALL_OUTCOMES } from './call-cadence';
+import { fetchAllPages } from './paging';
+
+export type ExperimentMetric = 'connect' | 'booking' | 'interest' | 'review';
+
+export interface ExperimentCall {
+  agent_variant: string | null;
+  outcome: string | null;
+  review_label?: string | null; // good, bad
+}
+
+export interface RateEstimate {
+  successes: number;
+  trials: number;
+  rate: number;
+  wilson: [number, number]; // 95% Wilson score interval
+  bayesian: { mean: number; lower: number; upper: number }; // Beta(1 + s, 1 + f) posterior, 95% credible interval
+}
+
+export interface VariantAnalysis {
+  variantId: string;
+  name: string;
+  calls: number; // settled calls (outcome reported)
+  connected: number; // a person picked up (anything but voicemail / no answer / busy / failed / unknown)
+  booked: number;
+  interested: number;
+  reviewed: number; // calls a reviewer labeled good or bad
+  goodReviews: number;
+  rates: Record<ExperimentMetric, RateEstimate>; // review: good share of reviewed calls
+  probabilityBest: number; // posterior probability of the highest booking rate
+}
+
+export interface PairwiseComparison {
+  a: string;
+  b: string;
+  metric: ExperimentMetric;
+  difference: number; // rate(a) - rate(b)
+  z: number;
+  pValue: number; // two-proportion z-test (same as a 2x2 chi-squared without continuity correction)
+  pAdjusted: number; // Holm-Bonferroni across all pairs
+  significant: boolean;
+}
+
+export interface ExperimentRecommendation {
+  action: 'declare_winner' | 'keep_testing';
+  winner?: string;
+  reason: string;
+  requiredSamplePerVariant: number | null; // connected calls per variant to separate the top two
+  remainingConnected: Record<string, number>; // per variant, toward the larger of that and the minimum
+}
+
+export interface ExperimentReport {
+  metric: ExperimentMetric; // primary metric the recommendation is made on
+  since: string;
+  minSample: number;
+  variants: VariantAnalysis[];
+  comparisons: PairwiseComparison[];
+  recommendation: ExperimentRecommendation;
+}
+
+export interface ExperimentOptions {
+  since?: Date;
+  minSample?: number;
+  alpha?: number;
+  names?: Record<string, string>; // variant display names (default: variants.json)
+}
+
+// Spec: 50 answered calls per variant before comparing
+export const MIN_SAMPLE_PER_VARIANT = 50;
+
+const Z_95 = 1.959964;
+const Z_POWER_80 = 0.841621;
+const PROBABILITY_BEST_DRAWS = 10000;
+
+function round(value: number, places: number = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// Abramowitz & Stegun 7.1.26
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+}
+
+function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+// Lanczos approximation
+function logGamma(x: number): number {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const coef of c) ser += coef / ++y;
+  return -tmp + Math.log((2.5066282746310005 * ser) / x);
+}
+
+// Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+  return h;
+}
+
+// Regularized incomplete beta I_x(a, b), i.e. the Beta(a, b) CDF
+function betaCdf(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaQuantile(p: number, a: number, b: number): number {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (betaCdf(mid, a, b) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// Seeded so repeated reports agree on P(best)
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): [number, number] {
+  if (trials === 0) return [0, 1];
+  const p = successes / trials;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / (1 + z2 / trials);
+  return [round(Math.max(0, center - margin)), round(Math.min(1, center + margin))];
+}
+
+export function estimateRate(successes: number, trials: number): RateEstimate {
+  const alpha = 1 + successes;
+  const beta = 1 + trials - successes;
+  return {
+    successes,
+    trials,
+    rate: trials > 0 ? round(successes / trials) : 0,
+    wilson: wilsonInterval(successes, trials),
+    bayesian: {
+      mean: round(alpha / (alpha + beta)),
+      lower: round(betaQuantile(0.025, alpha, beta)),
+      upper: round(betaQuantile(0.975, alpha, beta)),
+    },
+  };
+}
+
+// Two-sided two-proportion z-test with pooled variance
+export function twoProportionTest(a: RateEstimate, b: RateEstimate): { z: number; pValue: number } {
+  if (a.trials === 0 || b.trials === 0) return { z: 0, pValue: 1 };
+  const pooled = (a.successes + b.successes) / (a.trials + b.trials);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.trials + 1 / b.trials));
+  if (se === 0) return { z: 0, pValue: 1 };
+  const z = (a.successes / a.trials - b.successes / b.trials) / se;
+  return { z: round(z, 3), pValue: round(2 * (1 - normalCdf(Math.abs(z)))) };
+}
+
+// Per-group sample size to detect p1 vs p2 at 95% confidence and 80% power; null when they're equal
+export function requiredSampleSize(p1: number, p2: number): number | null {
+  if (p1 === p2) return null;
+  const mean = (p1 + p2) / 2;
+  const numerator = Z_95 * Math.sqrt(2 * mean * (1 - mean)) + Z_POWER_80 * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+  return Math.ceil((numerator * numerator) / ((p1 - p2) * (p1 - p2)));
+}
+
+// Monte Carlo over the Beta posteriors
+function probabilityBest(estimates: RateEstimate[]): number[] {
+  const random = seededRandom(estimates.reduce((seed, e) => (seed * 31 + e.successes * 7 + e.trials) >>> 0, 17));
+  const wins = estimates.map(() => 0);
+  for (let i = 0; i < PROBABILITY_BEST_DRAWS; i++) {
+    let best = 0;
+    let bestDraw = -1;
+    estimates.forEach((e, idx) => {
+      const draw = sampleBeta(1 + e.successes, 1 + e.trials - e.successes, random);
+      if (draw > bestDraw) {
+        bestDraw = draw;
+        best = idx;
+      }
+    });
+    wins[best]++;
+  }
+  return wins.map(w => round(w / PROBABILITY_BEST_DRAWS, 3));
+}
+
+function holmAdjust(pValues: number[]): number[] {
+  const order = pValues.map((p, i) => ({ p, i })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, p * (pValues.length - rank)));
+    adjusted[i] = round(running);
+  });
+  return adjusted;
+}
+
+function isConnected(outcome: string): boolean {
+  return !RETRYABLE_CALL_OUTCOMES.includes(outcome);
+}
+
+/**
+ * Analyze settled calls (known outcome, variant set). Booking rate on connected calls is the
+ * primary metric: a winner is declared when the leader has the minimum sample and beats every
+ * other variant with Holm-adjusted significance.
+ */
+export function analyzeExperiment(calls: ExperimentCall[], options: ExperimentOptions = {}): ExperimentReport {
+  const minSample = options.minSample ?? MIN_SAMPLE_PER_VARIANT;
+  const alpha = options.alpha ?? 0.05;
+
+  const grouped = new Map<string, ExperimentCall[]>();
+  for (const call of calls) {
+    // 'unknown' is the dialer's placeholder until the post-call webhook reports the outcome
+    if (!call.agent_variant || !call.outcome || call.outcome === 'unknown') continue;
+    if (!grouped.has(call.agent_variant)) grouped.set(call.agent_variant, []);
+    grouped.get(call.agent_variant)!.push(call);
+  }
+
+  const variants: VariantAnalysis[] = [...grouped.entries()].map(([variantId, settled]) => {
+    const outcomes = settled.map(c => c.outcome!);
+    const connected = outcomes.filter(isConnected).length;
+    const booked = outcomes.filter(o => o === 'booked').length;
+    const interested = outcomes.filter(o => o === 'interested').length;
+    const reviewed = settled.filter(c => c.review_label === 'good' || c.review_label === 'bad').length;
+    const goodReviews = settled.filter(c => c.review_label === 'good').length;
+    return {
+      variantId,
+      name: options.names?.[variantId] || getVariantById(variantId)?.name || variantId,
+      calls: outcomes.length,
+      connected,
+      booked,
+      interested,
+      reviewed,
+      goodReviews,
+      rates: {
+        connect: estimateRate(connected, outcomes.length),
+        booking: estimateRate(booked, connected),
+        interest: estimateRate(interested, connected),
+        review: estimateRate(goodReviews, reviewed),
+      },
+      probabilityBest: 0,
+    };
+  });
+
+  const best = probabilityBest(variants.map(v => v.rates.booking));
+  variants.forEach((v, i) => (v.probabilityBest = best[i]));
+  variants.sort((a, b) => b.rates.booking.rate - a.rates.booking.rate || b.probabilityBest - a.probabilityBest);
+
+  const comparisons: PairwiseComparison[] = [];
+  for (const metric of ['booking', 'interest', 'connect', 'review'] as ExperimentMetric[]) {
+    const pairs: Omit<PairwiseComparison, 'pAdjusted' | 'significant'>[] = [];
+    for (let i = 0; i < variants.length; i++) {
+      for (let j = i + 1; j < variants.length; j++) {
+        const a = variants[i].rates[metric];
+        const b = variants[j].rates[metric];
+        pairs.push({ a: variants[i].variantId, b: variants[j].variantId, metric, difference: round(a.rate - b.rate), ...twoProportionTest(a, b) });
+      }
+    }
+    const adjusted = holmAdjust(pairs.map(p => p.pValue));
+    pairs.forEach((p, i) => comparisons.push({ ...p, pAdjusted: adjusted[i], significant: adjusted[i] < alpha }));
+  }
+
+  return {
+    metric: 'booking',
+    since: (options.since || new Date(0)).toISOString(),
+    minSample,
+    variants,
+    comparisons,
+    recommendation: recommend(variants, comparisons, minSample),
+  };
+}
+
+function recommend(variants: VariantAnalysis[], comparisons: PairwiseComparison[], minSample: number): ExperimentRecommendation {
+  const [leader, runnerUp] = variants;
+  const required = leader && runnerUp ? requiredSampleSize(leader.rates.booking.rate, runnerUp.rates.booking.rate) : null;
+  const target = Math.max(minSample, required ?? minSample);
+  const remainingConnected = Object.fromEntries(variants.map(v => [v.variantId, Math.max(0, target - v.connected)]));
+  const keepTesting = (reason: string): ExperimentRecommendation =>
+    ({ action: 'keep_testing', reason, requiredSamplePerVariant: required, remainingConnected });
+
+  if (variants.length < 2) {
+    return keepTesting('Need at least two variants with settled calls');
+  }
+
+  const short = variants.filter(v => v.connected < minSample);
+  if (short.length) {
+    return keepTesting(`${short.length} variant(s) below ${minSample} connected calls`);
+  }
+
+  const leaderPairs = comparisons.filter(c => c.metric === 'booking' && (c.a === leader.variantId || c.b === leader.variantId));
+  const beaten = leaderPairs.filter(c => c.significant && (c.a === leader.variantId ? c.difference > 0 : c.difference < 0));
+  if (beaten.length === leaderPairs.length) {
+    return {
+      action: 'declare_winner',
+      winner: leader.variantId,
+      reason: `${leader.name} books ${(leader.rates.booking.rate * 100).toFixed(1)}% of connected calls, significantly ahead of every other variant (P(best) ${leader.probabilityBest})`,
+      requiredSamplePerVariant: required,
+      remainingConnected: Object.fromEntries(variants.map(v => [v.variantId, 0])),
+    };
+  }
+
+  return keepTesting(
+    `${leader.name} leads (P(best) ${leader.probabilityBest}) but is not significantly ahead of ${leaderPairs.length - beaten.length} variant(s)` +
+    (required ? `; ~${required} connected calls per variant separate it from ${runnerUp.name}` : '')
+  );
+}
+
+// Settled calls with a variant since the given time (blocked and dry-run rows excluded), optionally
+// only those that ran one of the given experiment_variants versions
+export async function loadExperimentCalls(
+  supabase: SupabaseClient,
+  since: Date,
+  until?: Date,
+  versionIds?: string[]
+): Promise<ExperimentCall[]> {
+  // Paged: PostgREST would otherwise stop at 1000 calls and the intervals would quietly cover a sample
+  const { data, error } = await fetchAllPages<ExperimentCall>((from, to) => {
+    let query = supabase
+      .from('call_logs')
+      .select('agent_variant, outcome, review_label')
+      .not('agent_variant', 'is', null)
+      .not('outcome', 'is', null)
+      .not('status', 'in', '(blocked,dry_run)')
+      .gte('created_at', since.toISOString());
+    if (until) query = query.lte('created_at', until.toISOString());
+    if (versionIds) query = query.in('experiment_variant_id', versionIds);
+    return query.order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+  });
+  if (error) {
+    throw new Error(`Failed to load experiment calls: ${error.message}`);
+  }
+  return data;
+}
@@ -0,0 +1,267 @@
+// ICP Matcher
+// Checks leads against campaign ICP criteria and exclusion lists, and picks the best-fitting campaign
+
+import { CampaignRow, CompanySizeBand, IcpCriteria } from '../types';
+import { normalizeState, parseCityState } from './timezone-resolver';
+
+// The lead fields the matcher reads (a ProspectRow or a mapped CSV row)
+export interface IcpLead {
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  industry?: string | null;
+  state?: string | null;
+  location?: string | null;
+  title?: string | null;
+  company_size?: string | null;
+}
+
+export type IcpCampaign = Pick<CampaignRow, 'id' | 'name' | 'icp_criteria' | 'exclusion_list'>;
+
+export type IcpRejectionCode =
+  | 'excluded_email'
+  | 'excluded_domain'
+  | 'excluded_phone'
+  | 'excluded_industry'
+  | 'excluded_state'
+  | 'excluded_title'
+  | 'industry'
+  | 'state'
+  | 'company_size'
+  | 'no_website'
+  | 'title';
+
+export interface IcpRejection {
+  code: IcpRejectionCode;
+  message: string;
+}
+
+export interface IcpMatch {
+  campaignId: string;
+  campaignName: string;
+  matched: boolean;
+  fit: number; // weight of the criteria the lead satisfied; more specific campaigns score higher
+  matchedCriteria: string[];
+  rejections: IcpRejection[];
+}
+
+export interface CampaignSelection {
+  best: IcpMatch | null;
+  evaluated: IcpMatch[];
+}
+
+// How much each satisfied criterion counts towards fit
+const CRITERION_WEIGHTS = {
+  industries: 3,
+  titleKeywords: 2,
+  companySizes: 2,
+  states: 2,
+  hasWebsite: 1,
+} as const;
+
+const SIZE_BANDS: Record<CompanySizeBand, [number, number]> = {
+  '1-10': [1, 10],
+  '11-50': [11, 50],
+  '51-200': [51, 200],
+  '201-500': [201, 500],
+  '501-1000': [501, 1000],
+  '1000+': [1001, Infinity],
+};
+
+// Legacy icp_criteria.companySize labels
+const SIZE_ALIASES: Record<string, [number, number]> = {
+  small: [1, 50],
+  medium: [51, 500],
+  large: [501, Infinity],
+};
+
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+// First keyword found (case-insensitive substring) in value
+export function containsAny(value: string | null | undefined, keywords: string[] | undefined): string | null {
+  if (!value || !keywords?.length) return null;
+  const lower = normalizeText(value);
+  return keywords.find(k => k.trim() !== '' && lower.includes(normalizeText(k))) || null;
+}
+
+export function normalizeDomain(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0]
+    .replace(/^@/, '');
+  return host.includes('.') ? host : null;
+}
+
+// Last 10 digits so "+1 (615) 555-0100" and "6155550100" compare equal
+export function normalizePhone(value: string | null | undefined): string | null {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+function emailDomain(email: string | null | undefined): string | null {
+  const at = (email || '').lastIndexOf('@');
+  return at >= 0 ? normalizeDomain(email!.slice(at + 1)) : null;
+}
+
+export function getLeadState(lead: IcpLead): string | null {
+  return normalizeState(lead.state) || parseCityState(lead.location).state || null;
+}
+
+export function isStateMatch(lead: IcpLead, states: string[] | undefined): boolean {
+  const state = getLeadState(lead);
+  return !!state && !!states?.some(s => normalizeState(s) === state);
+}
+
+// "11-50", "25", "500+", "small" -> [min, max]
+export function parseCompanySize(value: string | null | undefined): [number, number] | null {
+  if (!value) return null;
+  const text = normalizeText(value).replace(/,/g, '');
+  if (SIZE_ALIASES[text]) return SIZE_ALIASES[text];
+  if (text in SIZE_BANDS) return SIZE_BANDS[text as CompanySizeBand];
+
+  const range = text.match(/(\d+)\s*(?:-|to)\s*(\d+)/);
+  if (range) return [parseInt(range[1], 10), parseInt(range[2], 10)];
+  const open = text.match(/(\d+)\s*\+/);
+  if (open) return [parseInt(open[1], 10), Infinity];
+  const single = text.match(/\d+/);
+  if (single) {
+    const n = parseInt(single[0], 10);
+    return [n, n];
+  }
+  return null;
+}
+
+function getSizeRanges(icp: IcpCriteria): Array<[number, number]> {
+  const ranges: Array<[number, number]> = (icp.companySizes || []).map(band => SIZE_BANDS[band]).filter(Boolean);
+  if (icp.companySize) {
+    const legacy = parseCompanySize(icp.companySize);
+    if (legacy) ranges.push(legacy);
+  }
+  return ranges;
+}
+
+// Which exclusion_list entry (email, domain or phone) blocks this lead, if any
+export function findExclusion(lead: IcpLead, exclusionList: string[] | null | undefined): IcpRejection | null {
+  if (!exclusionList?.length) return null;
+
+  const email = lead.email ? normalizeText(lead.email) : null;
+  const domains = new Set([emailDomain(lead.email), normalizeDomain(lead.website)].filter(Boolean));
+  const phone = normalizePhone(lead.phone);
+
+  for (const raw of exclusionList) {
+    const entry = normalizeText(raw || '');
+    if (!entry) continue;
+
+    if (/^[^@\s]+@[^@\s]+$/.test(entry)) {
+      if (email === entry) return { code: 'excluded_email', message: `Email ${lead.email} is on the exclusion list` };
+      continue;
+    }
+
+    const entryPhone = /^[\d\s()+.-]+$/.test(entry) ? normalizePhone(entry) : null;
+    if (entryPhone) {
+      if (phone === entryPhone) return { code: 'excluded_phone', message: `Phone ${lead.phone} is on the exclusion list` };
+      continue;
+    }
+
+    const entryDomain = normalizeDomain(entry);
+    if (!entryDomain) continue;
+    for (const domain of domains) {
+      if (domain === entryDomain || domain!.endsWith(`.${entryDomain}`)) {
+        return { code: 'excluded_domain', message: `Domain ${domain} is on the exclusion list` };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Check one lead against one campaign; every failed criterion is reported, not just the first
+export function matchIcp(lead: IcpLead, campaign: IcpCampaign): IcpMatch {
+  const icp: IcpCriteria = campaign.icp_criteria || {};
+  const result: IcpMatch = {
+    campaignId: campaign.id,
+    campaignName: campaign.name,
+    matched: false,
+    fit: 0,
+    matchedCriteria: [],
+    rejections: [],
+  };
+  const reject = (code: IcpRejectionCode, message: string) => result.rejections.push({ code, message });
+  const accept = (criterion: keyof typeof CRITERION_WEIGHTS, detail: string) => {
+    result.fit += CRITERION_WEIGHTS[criterion];
+    result.matchedCriteria.push(detail);
+  };
+
+  const exclusion = findExclusion(lead, campaign.exclusion_list);
+  if (exclusion) result.rejections.push(exclusion);
+
+  const leadState = getLeadState(lead);
+
+  // Explicit exclusions
+  const excludedIndustry = containsAny(lead.industry, icp.exclude?.industries);
+  if (excludedIndustry) reject('excluded_industry', `Industry "${lead.industry}" is excluded (${excludedIndustry})`);
+  const excludedStates = (icp.exclude?.states || []).map(s => normalizeState(s)).filter(Boolean);
+  if (leadState && excludedStates.includes(leadState)) reject('excluded_state', `State ${leadState} is excluded`);
+  const excludedTitle = containsAny(lead.title, icp.exclude?.titleKeywords);
+  if (excludedTitle) reject('excluded_title', `Title "${lead.title}" is excluded (${excludedTitle})`);
+
+  // Positive criteria: an unknown value fails a criterion the campaign requires
+  if (icp.industries?.length) {
+    const hit = containsAny(lead.industry, icp.industries);
+    if (hit) accept('industries', `industry:${hit}`);
+    else reject('industry', lead.industry ? `Industry "${lead.industry}" not in ${icp.industries.join(', ')}` : 'Industry unknown');
+  }
+
+  if (icp.states?.length) {
+    if (isStateMatch(lead, icp.states)) accept('states', `state:${leadState}`);
+    else reject('state', leadState ? `State ${leadState} not in ${icp.states.join(', ')}` : 'State unknown');
+  }
+
+  const sizeRanges = getSizeRanges(icp);
+  if (sizeRanges.length) {
+    const size = parseCompanySize(lead.company_size);
+    if (size && sizeRanges.some(([min, max]) => size[0] <= max && size[1] >= min)) {
+      accept('companySizes', `company_size:${lead.company_size}`);
+    } else {
+      reject('company_size', size ? `Company size "${lead.company_size}" outside target bands` : 'Company size unknown');
+    }
+  }
+
+  if (icp.hasWebsite !== undefined) {
+    const hasWebsite = !!lead.website?.trim();
+    if (hasWebsite === icp.hasWebsite) accept('hasWebsite', `has_website:${hasWebsite}`);
+    else reject('no_website', icp.hasWebsite ? 'No website' : 'Has a website');
+  }
+
+  if (icp.titleKeywords?.length) {
+    const hit = containsAny(lead.title, icp.titleKeywords);
+    if (hit) accept('titleKeywords', `title:${hit}`);
+    else reject('title', lead.title ? `Title "${lead.title}" matches none of ${icp.titleKeywords.join(', ')}` : 'Title unknown');
+  }
+
+  result.matched = result.rejections.length === 0;
+  return result;
+}
+
+// Best-fitting campaign among those the lead matches. Ties go to the earlier campaign in the list.
+export function selectCampaign(lead: IcpLead, campaigns: IcpCampaign[]): CampaignSelection {
+  const evaluated = campaigns.map(campaign => matchIcp(lead, campaign));
+  let best: IcpMatch | null = null;
+  for (const match of evaluated) {
+    if (match.matched && (!best || match.fit > best.fit)) best = match;
+  }
+  return { best, evaluated };
+}
+
+// One line per campaign explaining why the lead did not fit
+export function describeRejections(selection: CampaignSelection): string {
+  return selection.evaluated
+    .map(m => `${m.campaignName}: ${m.rejections.map(r => r.message).join('; ')}`)
+    .join(' | ');
+}
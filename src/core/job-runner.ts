@@ -0,0 +1,185 @@
+// Job Runner
+// Single-flight cron jobs: each run takes a lease on a job_runs row, records its
+// outcome and counts, and per-prospect actions are claimed once per day in job_actions.
+
+import * as os from 'os';
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'skipped' | 'expired';
+
+export type JobCounts = Record<string, number>;
+
+export interface JobRunnerOptions {
+  leaseSeconds?: number; // lease length; renewed every third of it while the job runs
+  holder?: string;
+}
+
+export interface JobRunResult<T> {
+  status: JobStatus;
+  runId: string | null;
+  result?: T;
+  counts?: JobCounts;
+  error?: string;
+}
+
+const DEFAULT_LEASE_SECONDS = 15 * 60;
+
+// Idempotency key for one action on one prospect: prospect + step + UTC date
+export function buildActionKey(prospectId: string, stepId: string, date: Date = new Date()): string {
+  return `${prospectId}:${stepId}:${date.toISOString().slice(0, 10)}`;
+}
+
+export class ActionLedger {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  // Claim an action before performing it. False when it was already claimed
+  // (a replay) or the ledger is unreachable — callers skip in both cases.
+  async claim(actionKey: string, prospectId?: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('job_actions')
+      .insert({ action_key: actionKey, prospect_id: prospectId ?? null });
+
+    if (!error) return true;
+    if (error.code === '23505') {
+      console.log(`[Jobs] Action ${actionKey} already claimed, skipping`);
+    } else {
+      console.error(`[Jobs] Failed to claim action ${actionKey}:`, error.message);
+    }
+    return false;
+  }
+
+  async complete(actionKey: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_actions')
+      .update({ status: 'done', completed_at: new Date().toISOString() })
+      .eq('action_key', actionKey);
+
+    if (error) {
+      console.error(`[Jobs] Failed to complete action ${actionKey}:`, error.message);
+    }
+  }
+
+  // Give a claim back when the action did not happen, so a later run can retry it
+  async release(actionKey: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('job_actions')
+      .delete()
+      .eq('action_key', actionKey)
+      .eq('status', 'claimed');
+
+    if (error) {
+      console.error(`[Jobs] Failed to release action ${actionKey}:`, error.message);
+    }
+  }
+}
+
+export class JobRunner {
+  private supabase: SupabaseClient;
+  private leaseSeconds: number;
+  private holder: string;
+
+  constructor(supabase: SupabaseClient, options: JobRunnerOptions = {}) {
+    this.supabase = supabase;
+    this.leaseSeconds = options.leaseSeconds ?? DEFAULT_LEASE_SECONDS;
+    this.holder = options.holder ?? `${os.hostname()}:${process.pid}`;
+  }
+
+  // Run `fn` under the job's lease. Overlapping runs are recorded as skipped
+  // and return without calling `fn`; errors are recorded and rethrown.
+  async run<T>(
+    jobName: string,
+    fn: () => Promise<T>,
+    getCounts?: (result: T) => JobCounts
+  ): Promise<JobRunResult<T>> {
+    const runId = await this.acquire(jobName);
+    if (!runId) {
+      console.log(`[Jobs] ${jobName} is already running elsewhere, skipping`);
+      await this.recordSkipped(jobName);
+      return { status: 'skipped', runId: null };
+    }
+
+    console.log(`[Jobs] ${jobName} started (run ${runId})`);
+    const heartbeat = setInterval(() => {
+      this.renew(runId).catch(err => console.error('[Jobs] Lease renewal failed:', err.message));
+    }, (this.leaseSeconds * 1000) / 3);
+    heartbeat.unref();
+
+    try {
+      const result = await fn();
+      const counts = getCounts ? getCounts(result) : {};
+      await this.finish(runId, 'succeeded', counts);
+      console.log(`[Jobs] ${jobName} succeeded`, counts);
+      return { status: 'succeeded', runId, result, counts };
+    } catch (err: any) {
+      await this.finish(runId, 'failed', {}, err?.message || String(err));
+      console.error(`[Jobs] ${jobName} failed:`, err?.message || err);
+      throw err;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async acquire(jobName: string): Promise<string | null> {
+    const { data, error } = await this.supabase.rpc('acquire_job_lease', {
+      p_job_name: jobName,
+      p_holder: this.holder,
+      p_lease_seconds: this.leaseSeconds,
+    });
+
+    if (error) {
+      throw new Error(`Failed to acquire lease for ${jobName}: ${error.message}`);
+    }
+    return (data as string | null) || null;
+  }
+
+  private async renew(runId: string): Promise<void> {
+    const { data, error } = await this.supabase.rpc('renew_job_lease', {
+      p_run_id: runId,
+      p_lease_seconds: this.leaseSeconds,
+    });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (data === false) {
+      console.warn(`[Jobs] Lease for run ${runId} was lost; another worker may start`);
+    }
+  }
+
+  private async finish(runId: string, status: JobStatus, counts: JobCounts, error?: string): Promise<void> {
+    const { error: updateErr } = await this.supabase
+      .from('job_runs')
+      .update({
+        status,
+        counts,
+        error: error ?? null,
+        finished_at: new Date().toISOString(),
+        lease_expires_at: null,
+      })
+      .eq('id', runId);
+
+    if (updateErr) {
+      console.error(`[Jobs] Failed to record outcome for run ${runId}:`, updateErr.message);
+    }
+  }
+
+  private async recordSkipped(jobName: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.supabase.from('job_runs').insert({
+      job_name: jobName,
+      holder: this.holder,
+      status: 'skipped',
+      started_at: now,
+      finished_at: now,
+      error: 'Lease held by another run',
+    });
+
+    if (error) {
+      console.error(`[Jobs] Failed to record skipped run of ${jobName}:`, error.message);
+    }
+  }
+}
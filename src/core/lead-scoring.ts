@@ -0,0 +1,406 @@
+// Lead Scoring
+// Scores prospects 0-100 from firmographics, email verification, engagement and call sentiment
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { aggregateTouchpoints, ConditionContext, evaluateConditions } from './condition-evaluator';
+import { containsAny, isStateMatch } from './icp-matcher';
+import { fetchAllPages } from './paging';
+import {
+  CampaignRow,
+  IcpCriteria,
+  ProspectRow,
+  ScoreCategory,
+  ScoringConfig,
+  ScoringRule,
+  Touchpoint,
+  TouchpointRow,
+  touchpointFromRow,
+} from '../types';
+
+export const SCORE_CATEGORIES: ScoreCategory[] = ['firmographic', 'verification', 'engagement', 'sentiment'];
+
+// Rule fields resolve against the prospect row plus:
+//   icp.industry_match / icp.state_match       (campaign icp_criteria.industries / states)
+//   touchpoints.<channel>.<outcome>.count       (see condition-evaluator)
+//   email_events.<event_type>.count             (email_opened, reply_received, lead_unsubscribed, ...)
+//   calls.count, calls.<outcome>.count          (call_logs outcomes)
+//   sentiment.score (-1..1), sentiment.label    (positive, neutral, negative, unknown)
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  // Firmographic
+  { id: 'has_website', category: 'firmographic', when: { field: 'website', operator: 'exists' }, points: 10 },
+  { id: 'has_phone', category: 'firmographic', when: { field: 'phone', operator: 'exists' }, points: 5 },
+  { id: 'has_company_size', category: 'firmographic', when: { field: 'company_size', operator: 'exists' }, points: 5 },
+  {
+    id: 'has_location',
+    category: 'firmographic',
+    when: { any: [{ field: 'state', operator: 'exists' }, { field: 'location', operator: 'exists' }] },
+    points: 5,
+  },
+  { id: 'icp_industry', category: 'firmographic', when: { field: 'icp.industry_match', operator: 'eq', value: true }, points: 15 },
+  { id: 'icp_state', category: 'firmographic', when: { field: 'icp.state_match', operator: 'eq', value: true }, points: 5 },
+
+  // Verification
+  { id: 'email_valid', category: 'verification', when: { field: 'email_verification_status', operator: 'eq', value: 'valid' }, points: 15 },
+  { id: 'email_catch_all', category: 'verification', when: { field: 'email_verification_status', operator: 'eq', value: 'catch-all' }, points: 3 },
+  { id: 'email_invalid', category: 'verification', when: { field: 'email_verification_status', operator: 'eq', value: 'invalid' }, points: -25 },
+  { id: 'email_disposable', category: 'verification', when: { field: 'email_is_disposable', operator: 'eq', value: true }, points: -15 },
+
+  // Engagement
+  {
+    id: 'email_opened',
+    category: 'engagement',
+    when: { any: [
+      { field: 'email_events.email_opened.count', operator: 'gt', value: 0 },
+      { field: 'touchpoints.email.opened.count', operator: 'gt', value: 0 },
+    ] },
+    points: 5,
+  },
+  {
+    id: 'email_replied',
+    category: 'engagement',
+    when: { any: [
+      { field: 'email_events.reply_received.count', operator: 'gt', value: 0 },
+      { field: 'touchpoints.email.replied.count', operator: 'gt', value: 0 },
+    ] },
+    points: 20,
+  },
+  { id: 'email_unsubscribed', category: 'engagement', when: { field: 'email_events.lead_unsubscribed.count', operator: 'gt', value: 0 }, points: -40 },
+  {
+    id: 'call_interested',
+    category: 'engagement',
+    when: { any: [
+      { field: 'calls.interested.count', operator: 'gt', value: 0 },
+      { field: 'calls.callback.count', operator: 'gt', value: 0 },
+    ] },
+    points: 15,
+  },
+  { id: 'call_booked', category: 'engagement', when: { field: 'calls.booked.count', operator: 'gt', value: 0 }, points: 25 },
+  { id: 'call_not_interested', category: 'engagement', when: { field: 'calls.not_interested.count', operator: 'gt', value: 0 }, points: -20 },
+  { id: 'call_no_answer_streak', category: 'engagement', when: { field: 'calls.no_answer.count', operator: 'gt', value: 2 }, points: -5 },
+
+  // Sentiment
+  { id: 'sentiment_positive', category: 'sentiment', when: { field: 'sentiment.label', operator: 'eq', value: 'positive' }, points: 10 },
+  { id: 'sentiment_negative', category: 'sentiment', when: { field: 'sentiment.label', operator: 'eq', value: 'negative' }, points: -10 },
+];
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative' | 'unknown';
+
+export interface CallSentiment {
+  score: number; // -1..1
+  label: SentimentLabel;
+}
+
+export interface EmailEventSignal {
+  event_type: string;
+  created_at?: string;
+}
+
+export interface CallSignal {
+  outcome?: string | null;
+  analysis?: string | Record<string, any> | null;
+  created_at?: string;
+}
+
+export interface ProspectSignals {
+  touchpoints: Touchpoint[];
+  emailEvents: EmailEventSignal[];
+  calls: CallSignal[];
+}
+
+export interface ScoreResult {
+  score: number;
+  breakdown: Record<ScoreCategory, number>;
+  matchedRules: string[];
+}
+
+export interface ScoreChange {
+  prospectId: string;
+  oldScore: number | null;
+  newScore: number;
+  result: ScoreResult;
+}
+
+export interface RecomputeOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+}
+
+export interface RecomputeCounts {
+  scored: number;
+  changed: number;
+  unchanged: number;
+  errors: number;
+}
+
+const POSITIVE_SUMMARY = /\b(interested|book(ed)?|schedul|appointment|call ?back|send (me )?(more )?info|sounds good)/i;
+const NEGATIVE_SUMMARY = /\b(not interested|hung up|do not call|don't call|remove|rude|angry|annoyed|wrong number)/i;
+
+const OUTCOME_SENTIMENT: Record<string, number> = {
+  booked: 1,
+  interested: 0.6,
+  callback: 0.3,
+  not_interested: -0.6,
+  do_not_call: -1,
+};
+
+// Sentiment for one call from the ElevenLabs analysis (call_successful,
+// transcript_summary, evaluation_criteria_results) and the recorded outcome
+export function extractCallSentiment(
+  analysis: string | Record<string, any> | null | undefined,
+  outcome?: string | null
+): CallSentiment {
+  let parsed: Record<string, any> = {};
+  if (typeof analysis === 'string') {
+    try {
+      parsed = JSON.parse(analysis) || {};
+    } catch {
+      parsed = {};
+    }
+  } else if (analysis) {
+    parsed = analysis;
+  }
+
+  const signals: number[] = [];
+
+  if (parsed.call_successful === 'success') signals.push(0.5);
+  else if (parsed.call_successful === 'failure') signals.push(-0.5);
+
+  const criteria = Object.values(parsed.evaluation_criteria_results || {}) as Array<{ result?: string }>;
+  const judged = criteria.filter(c => c?.result === 'success' || c?.result === 'failure');
+  if (judged.length) {
+    const passed = judged.filter(c => c.result === 'success').length;
+    signals.push((passed / judged.length) * 2 - 1);
+  }
+
+  const summary = typeof parsed.transcript_summary === 'string' ? parsed.transcript_summary : '';
+  if (NEGATIVE_SUMMARY.test(summary)) signals.push(-0.7);
+  else if (POSITIVE_SUMMARY.test(summary)) signals.push(0.5);
+
+  if (outcome && outcome in OUTCOME_SENTIMENT) signals.push(OUTCOME_SENTIMENT[outcome]);
+
+  if (!signals.length) return { score: 0, label: 'unknown' };
+
+  const score = Math.max(-1, Math.min(1, signals.reduce((sum, s) => sum + s, 0) / signals.length));
+  return { score, label: score >= 0.25 ? 'positive' : score <= -0.25 ? 'negative' : 'neutral' };
+}
+
+// Average sentiment across calls, most recent call weighted double
+function aggregateSentiment(calls: CallSignal[]): CallSentiment {
+  const ordered = [...calls].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  let total = 0;
+  let weight = 0;
+
+  ordered.forEach((call, i) => {
+    const sentiment = extractCallSentiment(call.analysis, call.outcome);
+    if (sentiment.label === 'unknown') return;
+    const w = i === ordered.length - 1 ? 2 : 1;
+    total += sentiment.score * w;
+    weight += w;
+  });
+
+  if (!weight) return { score: 0, label: 'unknown' };
+  const score = total / weight;
+  return { score, label: score >= 0.25 ? 'positive' : score <= -0.25 ? 'negative' : 'neutral' };
+}
+
+function countBy(values: Array<string | null | undefined>): Record<string, any> {
+  const root: Record<string, any> = { count: 0 };
+  for (const value of values) {
+    root.count++;
+    if (!value) continue;
+    root[value] = root[value] || { count: 0 };
+    root[value].count++;
+  }
+  return root;
+}
+
+export function buildScoringContext(
+  prospect: ProspectRow,
+  signals: ProspectSignals,
+  icpCriteria: IcpCriteria = {}
+): ConditionContext {
+  const emailEvents = countBy(signals.emailEvents.map(e => e.event_type));
+  const calls = countBy(signals.calls.map(c => c.outcome));
+
+  return {
+    ...prospect,
+    icp: {
+      industry_match: !!containsAny(prospect.industry, icpCriteria.industries),
+      state_match: isStateMatch(prospect, icpCriteria.states),
+    },
+    touchpoints: aggregateTouchpoints(signals.touchpoints),
+    email_events: emailEvents,
+    calls,
+    sentiment: aggregateSentiment(signals.calls),
+  };
+}
+
+// Defaults merged with the campaign's rules; a campaign rule replaces the default with the same id
+export function resolveScoringRules(config?: ScoringConfig): ScoringRule[] {
+  if (!config?.rules?.length) return config?.replaceDefaults ? [] : DEFAULT_SCORING_RULES;
+  if (config.replaceDefaults) return config.rules;
+
+  const overrides = new Map(config.rules.map(rule => [rule.id, rule]));
+  const merged = DEFAULT_SCORING_RULES.map(rule => overrides.get(rule.id) || rule);
+  const defaultIds = new Set(DEFAULT_SCORING_RULES.map(rule => rule.id));
+  return [...merged, ...config.rules.filter(rule => !defaultIds.has(rule.id))];
+}
+
+export function scoreProspect(context: ConditionContext, config?: ScoringConfig): ScoreResult {
+  const breakdown = { firmographic: 0, verification: 0, engagement: 0, sentiment: 0 } as Record<ScoreCategory, number>;
+  const matchedRules: string[] = [];
+
+  for (const rule of resolveScoringRules(config)) {
+    if (!evaluateConditions(rule.when, context)) continue;
+    const weight = config?.weights?.[rule.category] ?? 1;
+    breakdown[rule.category] += rule.points * weight;
+    matchedRules.push(rule.id);
+  }
+
+  const total = SCORE_CATEGORIES.reduce((sum, category) => sum + breakdown[category], 0);
+  return { score: Math.round(Math.max(0, Math.min(100, total))), breakdown, matchedRules };
+}
+
+export class LeadScoringService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  // Touchpoints, email events and call logs for a page of prospects
+  async loadSignals(prospectIds: string[]): Promise<Map<string, ProspectSignals>> {
+    const signals = new Map<string, ProspectSignals>(
+      prospectIds.map(id => [id, { touchpoints: [], emailEvents: [], calls: [] }])
+    );
+    if (!prospectIds.length) return signals;
+
+    // Paged: a few rows per prospect across a batch passes PostgREST's 1000-row cap, which would
+    // silently drop engagement and skew scores
+    const [touchpoints, emailEvents, calls] = await Promise.all([
+      fetchAllPages<TouchpointRow>((from, to) =>
+        this.supabase.from('touchpoints').select('*').in('prospect_id', prospectIds)
+          .order('id', { ascending: true }).range(from, to)
+      ),
+      fetchAllPages<EmailEventSignal & { prospect_id: string }>((from, to) =>
+        this.supabase.from('email_events').select('prospect_id, event_type, created_at').in('prospect_id', prospectIds)
+          .order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to)
+      ),
+      fetchAllPages<CallSignal & { prospect_id: string }>((from, to) =>
+        this.supabase.from('call_logs').select('prospect_id, outcome, analysis, created_at').in('prospect_id', prospectIds)
+          .not('status', 'in', '(blocked,dry_run)')
+          .order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to)
+      ),
+    ]);
+
+    if (touchpoints.error) throw new Error(`Failed to load touchpoints: ${touchpoints.error.message}`);
+    if (emailEvents.error) throw new Error(`Failed to load email events: ${emailEvents.error.message}`);
+    if (calls.error) throw new Error(`Failed to load call logs: ${calls.error.message}`);
+
+    for (const row of touchpoints.data) {
+      signals.get(row.prospect_id)?.touchpoints.push(touchpointFromRow(row));
+    }
+    for (const row of emailEvents.data) {
+      signals.get(row.prospect_id)?.emailEvents.push(row);
+    }
+    for (const row of calls.data) {
+      signals.get(row.prospect_id)?.calls.push(row);
+    }
+
+    return signals;
+  }
+
+  // Rescore every prospect in a campaign; only changed scores are written, each with a history row
+  async recomputeCampaign(campaign: CampaignRow, options: RecomputeOptions = {}): Promise<RecomputeCounts> {
+    const batchSize = options.batchSize ?? 500;
+    const icp = campaign.icp_criteria || {};
+    const config = icp.scoring;
+    const counts: RecomputeCounts = { scored: 0, changed: 0, unchanged: 0, errors: 0 };
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = this.supabase
+        .from('prospects')
+        .select('*')
+        .eq('campaign_id', campaign.id)
+        .order('id', { ascending: true })
+        .limit(batchSize);
+      if (lastId) query = query.gt('id', lastId);
+
+      const { data: rows, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load prospects for campaign ${campaign.id}: ${error.message}`);
+      }
+      if (!rows?.length) break;
+      lastId = rows[rows.length - 1].id;
+
+      const signals = await this.loadSignals(rows.map(r => r.id));
+
+      for (const row of rows as ProspectRow[]) {
+        counts.scored++;
+        const context = buildScoringContext(row, signals.get(row.id)!, icp);
+        const result = scoreProspect(context, config);
+        const oldScore = row.score ?? null;
+
+        if (oldScore === result.score) {
+          counts.unchanged++;
+          continue;
+        }
+
+        counts.changed++;
+        if (options.dryRun) {
+          console.log(`[Scoring] ${row.id}: ${oldScore ?? '-'} -> ${result.score} (${result.matchedRules.join(', ')})`);
+          continue;
+        }
+
+        try {
+          await this.applyScore({ prospectId: row.id, oldScore, newScore: result.score, result });
+        } catch (err: any) {
+          counts.errors++;
+          console.error(`[Scoring] ${err.message}`);
+        }
+      }
+
+      if (rows.length < batchSize) break;
+    }
+
+    return counts;
+  }
+
+  async applyScore(change: ScoreChange): Promise<void> {
+    const { error } = await this.supabase
+      .from('prospects')
+      .update({ score: change.newScore, updated_at: new Date().toISOString() })
+      .eq('id', change.prospectId);
+
+    if (error) {
+      throw new Error(`Failed to update score for ${change.prospectId}: ${error.message}`);
+    }
+
+    const { error: historyErr } = await this.supabase.from('prospect_score_history').insert({
+      prospect_id: change.prospectId,
+      old_score: change.oldScore,
+      new_score: change.newScore,
+      breakdown: change.result.breakdown,
+      matched_rules: change.result.matchedRules,
+    });
+
+    if (historyErr) {
+      console.error(`[Scoring] Failed to record score history for ${change.prospectId}:`, historyErr.message);
+    }
+  }
+
+  async getHistory(prospectId: string, limit: number = 50): Promise<Record<string, any>[]> {
+    const { data, error } = await this.supabase
+      .from('prospect_score_history')
+      .select('*')
+      .eq('prospect_id', prospectId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load score history for ${prospectId}: ${error.message}`);
+    }
+    return data || [];
+  }
+}
@@ -0,0 +1,355 @@
+// Objection Analytics
+// Runs the dialer's objection detection (dialer/objection-handler) over stored call transcripts, one row per
+// objecting prospect turn in call_objections, and reports how often each objection comes up by variant,
+// industry or script template, and which ones most often come before a booking or a hang-up.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ObjectionType, detectInterest, detectObjection } from '../dialer/objection-handler';
+import { fetchAllPages } from './paging';
+import { CallOutcome, TranscriptTurn } from './transcript-classifier';
+
+export type ObjectionDimension = 'variant' | 'industry' | 'script';
+
+export interface TaggedObjection {
+  turnIndex: number;
+  type: ObjectionType;
+  confidence: number;
+  matchedPhrase: string;
+  excerpt: string;
+  turnsToEnd: number; // transcript turns after this one
+  recovered: boolean; // a later prospect turn reads as interested
+}
+
+export interface CallObjectionRow {
+  call_log_id: string;
+  turn_index: number;
+  objection_type: ObjectionType;
+  confidence: number;
+  matched_phrase: string;
+  excerpt: string;
+  turns_to_end: number;
+  recovered: boolean;
+  outcome: string | null;
+  agent_variant: string | null;
+  industry: string | null;
+  script_template: string | null;
+  call_created_at: string;
+}
+
+// An analyzed call, for group totals (calls without objections count too)
+export interface AnalyzedCall {
+  id: string;
+  outcome: string | null;
+  agent_variant: string | null;
+  industry: string | null;
+  script_template: string | null;
+}
+
+export interface ObjectionStats {
+  objection: ObjectionType;
+  mentions: number;
+  calls: number; // calls where it came up
+  frequency: number; // share of the group's analyzed calls
+  booked: number; // of those calls, how many still ended booked
+  hungUp: number; // calls it ended: see endedCall
+  recovered: number; // calls where the prospect warmed up again afterwards
+}
+
+export interface ObjectionGroup {
+  key: string;
+  calls: number;
+  callsWithObjections: number;
+  objections: ObjectionStats[]; // most frequent first
+}
+
+export interface ObjectionReport {
+  since: string;
+  by: ObjectionDimension;
+  overall: ObjectionGroup;
+  groups: ObjectionGroup[];
+  beforeBooking: Array<{ objection: ObjectionType; booked: number; rate: number }>;
+  beforeHangUp: Array<{ objection: ObjectionType; hungUp: number; rate: number }>;
+}
+
+export interface ObjectionAnalysisOptions {
+  since?: Date;
+  limit?: number; // calls to scan this run
+  reanalyze?: boolean; // rescan calls already analyzed (after pattern changes)
+}
+
+export interface ObjectionAnalysisResult {
+  scanned: number;
+  withObjections: number;
+  objections: number;
+}
+
+// call_logs rows as selected here, with the prospect's industry embedded
+interface CallLogRow {
+  id: string;
+  transcript?: unknown;
+  outcome: string | null;
+  agent_variant: string | null;
+  script_template: string | null;
+  created_at?: string;
+  prospects: { industry: string | null } | Array<{ industry: string | null }> | null;
+}
+
+// Outcomes that mean the conversation carried on past the objection
+const CONTINUED_OUTCOMES: Array<CallOutcome | string> = ['booked', 'callback', 'interested', 'voicemail'];
+// An objection this close to the end of the transcript, with nothing after it, ended the call
+const HANG_UP_TURNS = 2;
+const PAGE_SIZE = 200;
+
+function parseTranscript(raw: unknown): TranscriptTurn[] {
+  // The post-call webhook stores the transcript as a JSON string inside the jsonb column
+  const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  return Array.isArray(value) ? value : [];
+}
+
+// Objections in the prospect's turns, at most one per turn (the first pattern that matches)
+export function tagObjections(transcript: TranscriptTurn[]): TaggedObjection[] {
+  const tags: TaggedObjection[] = [];
+  transcript.forEach((turn, index) => {
+    if (turn.role !== 'user' || !turn.message) return;
+    const detected = detectObjection(turn.message, { quiet: true });
+    if (detected.type === 'unknown') return;
+
+    const later = transcript.slice(index + 1).filter(t => t.role === 'user' && t.message);
+    tags.push({
+      turnIndex: index,
+      type: detected.type,
+      confidence: detected.confidence,
+      matchedPhrase: detected.matchedPhrase,
+      excerpt: turn.message.slice(0, 500),
+      turnsToEnd: transcript.length - 1 - index,
+      recovered: later.some(t => detectInterest(t.message, { quiet: true }).interested),
+    });
+  });
+  return tags;
+}
+
+/**
+ * The call's last objection ended it: it came within HANG_UP_TURNS of the end, the prospect never
+ * warmed up again, and the call didn't end booked, with a callback, interested or on voicemail.
+ */
+export function endedCall(row: CallObjectionRow, lastTurnIndex: number): boolean {
+  return row.turn_index === lastTurnIndex
+    && row.turns_to_end <= HANG_UP_TURNS
+    && !row.recovered
+    && !CONTINUED_OUTCOMES.includes(row.outcome || '');
+}
+
+function industryOf(call: CallLogRow): string | null {
+  const prospect = Array.isArray(call.prospects) ? call.prospects[0] : call.prospects;
+  return prospect?.industry ?? null;
+}
+
+function groupKey(call: { agent_variant: string | null; industry: string | null; script_template: string | null }, by: ObjectionDimension): string {
+  const value = by === 'variant' ? call.agent_variant : by === 'industry' ? call.industry : call.script_template;
+  return value || 'unknown';
+}
+
+function summarizeGroup(key: string, calls: AnalyzedCall[], rows: CallObjectionRow[]): ObjectionGroup {
+  const lastTurn = new Map<string, number>();
+  for (const row of rows) lastTurn.set(row.call_log_id, Math.max(lastTurn.get(row.call_log_id) ?? -1, row.turn_index));
+
+  // Objection type -> call -> that call's rows of the type
+  const byType = new Map<ObjectionType, Map<string, CallObjectionRow[]>>();
+  for (const row of rows) {
+    if (!byType.has(row.objection_type)) byType.set(row.objection_type, new Map());
+    const byCall = byType.get(row.objection_type)!;
+    if (!byCall.has(row.call_log_id)) byCall.set(row.call_log_id, []);
+    byCall.get(row.call_log_id)!.push(row);
+  }
+
+  const objections: ObjectionStats[] = [...byType.entries()].map(([objection, byCall]) => {
+    const perCall = [...byCall.values()];
+    return {
+      objection,
+      mentions: perCall.reduce((sum, c) => sum + c.length, 0),
+      calls: perCall.length,
+      frequency: calls.length ? perCall.length / calls.length : 0,
+      booked: perCall.filter(c => c[0].outcome === 'booked').length,
+      hungUp: perCall.filter(c => c.some(r => endedCall(r, lastTurn.get(r.call_log_id)!))).length,
+      recovered: perCall.filter(c => c.some(r => r.recovered)).length,
+    };
+  });
+
+  return {
+    key,
+    calls: calls.length,
+    callsWithObjections: lastTurn.size,
+    objections: objections.sort((a, b) => b.calls - a.calls || a.objection.localeCompare(b.objection)),
+  };
+}
+
+export function summarizeObjections(
+  calls: AnalyzedCall[],
+  rows: CallObjectionRow[],
+  by: ObjectionDimension,
+  since: Date
+): ObjectionReport {
+  const callsByKey = new Map<string, AnalyzedCall[]>();
+  for (const call of calls) {
+    const key = groupKey(call, by);
+    if (!callsByKey.has(key)) callsByKey.set(key, []);
+    callsByKey.get(key)!.push(call);
+  }
+  const rowsByKey = new Map<string, CallObjectionRow[]>();
+  for (const row of rows) {
+    const key = groupKey(row, by);
+    if (!rowsByKey.has(key)) rowsByKey.set(key, []);
+    rowsByKey.get(key)!.push(row);
+  }
+  const groups = [...callsByKey.keys()].sort().map(key => summarizeGroup(key, callsByKey.get(key)!, rowsByKey.get(key) || []));
+  const overall = summarizeGroup('all', calls, rows);
+
+  return {
+    since: since.toISOString(),
+    by,
+    overall,
+    groups: groups.sort((a, b) => b.calls - a.calls),
+    beforeBooking: overall.objections
+      .filter(o => o.booked > 0)
+      .map(o => ({ objection: o.objection, booked: o.booked, rate: o.booked / o.calls }))
+      .sort((a, b) => b.booked - a.booked || b.rate - a.rate),
+    beforeHangUp: overall.objections
+      .filter(o => o.hungUp > 0)
+      .map(o => ({ objection: o.objection, hungUp: o.hungUp, rate: o.hungUp / o.calls }))
+      .sort((a, b) => b.hungUp - a.hungUp || b.rate - a.rate),
+  };
+}
+
+export class ObjectionAnalyzer {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  /**
+   * Tag stored transcripts not yet analyzed (or all of them with reanalyze), oldest first. Each call is
+   * marked analyzed even without objections so the next run skips it.
+   */
+  async analyze(options: ObjectionAnalysisOptions = {}): Promise<ObjectionAnalysisResult> {
+    const result: ObjectionAnalysisResult = { scanned: 0, withObjections: 0, objections: 0 };
+    const limit = options.limit ?? Infinity;
+
+    while (result.scanned < limit) {
+      // Analyzed calls drop out of the unanalyzed filter; a rescan has to page instead
+      const from = options.reanalyze ? result.scanned : 0;
+      let query = this.supabase
+        .from('call_logs')
+        .select('id, transcript, outcome, agent_variant, script_template, created_at, prospects:prospect_id (industry)')
+        .not('transcript', 'is', null)
+        .not('status', 'in', '(blocked,dry_run)')
+        .order('created_at', { ascending: true })
+        .range(from, from + Math.min(PAGE_SIZE, limit - result.scanned) - 1);
+      if (!options.reanalyze) query = query.is('objections_analyzed_at', null);
+      if (options.since) query = query.gte('created_at', options.since.toISOString());
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load transcripts: ${error.message}`);
+      }
+      if (!data?.length) break;
+
+      const rows: CallObjectionRow[] = [];
+      for (const call of data as CallLogRow[]) {
+        let tags: TaggedObjection[] = [];
+        try {
+          tags = tagObjections(parseTranscript(call.transcript));
+        } catch (err: any) {
+          console.error(`[Objections] Unreadable transcript on call ${call.id}: ${err.message}`);
+        }
+        if (tags.length) result.withObjections++;
+        rows.push(...tags.map(tag => ({
+          call_log_id: call.id,
+          turn_index: tag.turnIndex,
+          objection_type: tag.type,
+          confidence: tag.confidence,
+          matched_phrase: tag.matchedPhrase,
+          excerpt: tag.excerpt,
+          turns_to_end: tag.turnsToEnd,
+          recovered: tag.recovered,
+          outcome: call.outcome ?? null,
+          agent_variant: call.agent_variant ?? null,
+          industry: industryOf(call),
+          script_template: call.script_template ?? null,
+          call_created_at: call.created_at!,
+        })));
+      }
+
+      await this.save(data.map(c => c.id), rows);
+      result.scanned += data.length;
+      result.objections += rows.length;
+      console.log(`[Objections] ${result.scanned} calls scanned, ${result.objections} objections`);
+    }
+
+    return result;
+  }
+
+  async report(by: ObjectionDimension, since: Date, until?: Date): Promise<ObjectionReport> {
+    // Both paged: PostgREST stops at 1000 rows and the frequencies would quietly cover a sample
+    const [calls, rows] = await Promise.all([
+      fetchAllPages<CallLogRow>((from, to) => {
+        let query = this.supabase
+          .from('call_logs')
+          .select('id, outcome, agent_variant, script_template, prospects:prospect_id (industry)')
+          .not('objections_analyzed_at', 'is', null)
+          .not('status', 'in', '(blocked,dry_run)')
+          .gte('created_at', since.toISOString());
+        if (until) query = query.lte('created_at', until.toISOString());
+        return query.order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+      }),
+      fetchAllPages<CallObjectionRow>((from, to) => {
+        let query = this.supabase
+          .from('call_objections')
+          .select('call_log_id, turn_index, objection_type, confidence, matched_phrase, excerpt, turns_to_end, recovered, outcome, agent_variant, industry, script_template, call_created_at')
+          .gte('call_created_at', since.toISOString());
+        if (until) query = query.lte('call_created_at', until.toISOString());
+        return query.order('call_created_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+      }),
+    ]);
+    if (calls.error) {
+      throw new Error(`Failed to load analyzed calls: ${calls.error.message}`);
+    }
+    if (rows.error) {
+      throw new Error(`Failed to load call objections: ${rows.error.message}`);
+    }
+
+    const analyzed: AnalyzedCall[] = calls.data.map(c => ({
+      id: c.id,
+      outcome: c.outcome,
+      agent_variant: c.agent_variant,
+      industry: industryOf(c),
+      script_template: c.script_template,
+    }));
+    // Objections tagged on calls since relabelled (dry runs, blocked) stay in call_objections; count only the calls above
+    const callIds = new Set(analyzed.map(c => c.id));
+    return summarizeObjections(analyzed, rows.data.filter(r => callIds.has(r.call_log_id)), by, since);
+  }
+
+  // Replace the objections of a page of calls and mark them analyzed
+  private async save(callIds: string[], rows: CallObjectionRow[]): Promise<void> {
+    const { error: deleteError } = await this.supabase.from('call_objections').delete().in('call_log_id', callIds);
+    if (deleteError) {
+      throw new Error(`Failed to clear call objections: ${deleteError.message}`);
+    }
+
+    if (rows.length) {
+      const { error } = await this.supabase.from('call_objections').insert(rows);
+      if (error) {
+        throw new Error(`Failed to store call objections: ${error.message}`);
+      }
+    }
+
+    const { error: markError } = await this.supabase
+      .from('call_logs')
+      .update({ objections_analyzed_at: new Date().toISOString() })
+      .in('id', callIds);
+    if (markError) {
+      throw new Error(`Failed to mark calls analyzed: ${markError.message}`);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+// Paging
+// PostgREST caps every select at its max-rows setting (1000 on Supabase) and truncates silently. Reports and
+// stats that need every matching row read them in pages with .range() instead.
+
+export const QUERY_PAGE_SIZE = 1000;
+
+export interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+/**
+ * Run `page(from, to)` until a short page comes back and return all the rows, or the first error. The
+ * query needs a total order (e.g. created_at then id) so rows don't shift between pages.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  pageSize: number = QUERY_PAGE_SIZE
+): Promise<{ data: T[]; error: { message: string } | null }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await page(from, from + pageSize - 1);
+    if (error) return { data: rows, error };
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) return { data: rows, error: null };
+  }
+}
@@ -0,0 +1,227 @@
+// Prospect Transitions
+// The single writer for prospect state columns: validates every move against the
+// state machine and records it in prospect_state_history, applied or not.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ProspectStateMachine, StateField, STATE_COLUMNS } from './state-machine';
+
+// What happens to a move the state machine does not allow:
+// 'reject' drops it (stale or out-of-order events), 'quarantine' holds it for review,
+// 'skip' drops it without a history row (routine sends to a prospect already at or past the target)
+export type InvalidTransitionPolicy = 'reject' | 'quarantine' | 'skip';
+
+export type TransitionStatus = 'applied' | 'noop' | 'skipped' | 'rejected' | 'quarantined';
+
+export interface TransitionRequest {
+  prospectId: string;
+  field: StateField;
+  to: string;
+  actor: string; // writer making the move: 'email-webhook', 'call-engine', ...
+  event?: string; // triggering event type, e.g. 'reply_received'
+  eventId?: string | null; // id of the triggering row or provider event
+  onInvalid?: InvalidTransitionPolicy;
+}
+
+export interface TransitionResult {
+  status: TransitionStatus;
+  field: StateField;
+  from: string | null;
+  to: string;
+  historyId?: string;
+  reason?: string;
+}
+
+export interface StateHistoryRow {
+  id: string;
+  prospect_id: string;
+  field: StateField;
+  from_state: string | null;
+  to_state: string;
+  event: string | null;
+  event_id: string | null;
+  actor: string;
+  status: 'applied' | 'rejected' | 'quarantined' | 'approved' | 'dismissed';
+  reason: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+}
+
+// Compare-and-set retries when another writer moves the same column concurrently
+const MAX_ATTEMPTS = 3;
+
+export class ProspectTransitionService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  async transition(request: TransitionRequest): Promise<TransitionResult> {
+    const column = STATE_COLUMNS[request.field];
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const from = await this.readState(request.prospectId, column);
+      const result: TransitionResult = { status: 'noop', field: request.field, from, to: request.to };
+
+      if (from === request.to) {
+        return result;
+      }
+
+      if (!ProspectStateMachine.canTransitionField(request.field, from, request.to)) {
+        if (request.onInvalid === 'skip') {
+          result.status = 'skipped';
+          return result;
+        }
+        result.status = request.onInvalid === 'quarantine' ? 'quarantined' : 'rejected';
+        result.reason = `Invalid ${request.field} transition ${from ?? '(unset)'} -> ${request.to}`;
+        console.log(`[Transitions] ${result.status}: ${result.reason} for ${request.prospectId} (${request.actor})`);
+        result.historyId = await this.recordHistory(request, from, result.status, result.reason);
+        return result;
+      }
+
+      // Only move the column if nobody changed it since we read it
+      let update = this.supabase
+        .from('prospects')
+        .update({ [column]: request.to, updated_at: new Date().toISOString() })
+        .eq('id', request.prospectId);
+      update = from === null ? update.is(column, null) : update.eq(column, from);
+
+      const { data, error } = await update.select('id');
+      if (error) {
+        throw new Error(`Failed to update ${column} for ${request.prospectId}: ${error.message}`);
+      }
+      if (!data?.length) {
+        console.log(`[Transitions] ${column} changed concurrently for ${request.prospectId}, retrying`);
+        continue;
+      }
+
+      result.status = 'applied';
+      result.historyId = await this.recordHistory(request, from, 'applied');
+      console.log(`[Transitions] ${request.prospectId} ${column}: ${from ?? '(unset)'} -> ${request.to} (${request.actor})`);
+      return result;
+    }
+
+    throw new Error(`Gave up moving ${column} for ${request.prospectId} after ${MAX_ATTEMPTS} concurrent updates`);
+  }
+
+  // Full timeline for a prospect, oldest first
+  async getHistory(prospectId: string): Promise<StateHistoryRow[]> {
+    const { data, error } = await this.supabase
+      .from('prospect_state_history')
+      .select('*')
+      .eq('prospect_id', prospectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load state history for ${prospectId}: ${error.message}`);
+    }
+    return (data || []) as StateHistoryRow[];
+  }
+
+  async listQuarantined(limit: number = 50): Promise<StateHistoryRow[]> {
+    const { data, error } = await this.supabase
+      .from('prospect_state_history')
+      .select('*')
+      .eq('status', 'quarantined')
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load quarantined transitions: ${error.message}`);
+    }
+    return (data || []) as StateHistoryRow[];
+  }
+
+  // Approve (apply despite the state machine) or dismiss a quarantined move.
+  // Approval only applies if the column still holds the state the move came from.
+  async resolveQuarantined(historyId: string, approve: boolean, actor: string): Promise<StateHistoryRow> {
+    const { data: row, error } = await this.supabase
+      .from('prospect_state_history')
+      .select('*')
+      .eq('id', historyId)
+      .single<StateHistoryRow>();
+
+    if (error || !row) {
+      throw new Error(`Quarantined transition ${historyId} not found: ${error?.message || 'not found'}`);
+    }
+    if (row.status !== 'quarantined') {
+      throw new Error(`Transition ${historyId} is ${row.status}, not quarantined`);
+    }
+
+    if (approve) {
+      const column = STATE_COLUMNS[row.field];
+      let update = this.supabase
+        .from('prospects')
+        .update({ [column]: row.to_state, updated_at: new Date().toISOString() })
+        .eq('id', row.prospect_id);
+      update = row.from_state === null ? update.is(column, null) : update.eq(column, row.from_state);
+
+      const { data, error: updateErr } = await update.select('id');
+      if (updateErr) {
+        throw new Error(`Failed to apply transition ${historyId}: ${updateErr.message}`);
+      }
+      if (!data?.length) {
+        throw new Error(`Prospect ${row.prospect_id} ${column} is no longer ${row.from_state ?? '(unset)'}; dismiss instead`);
+      }
+    }
+
+    const resolved = {
+      status: approve ? 'approved' : 'dismissed',
+      resolved_at: new Date().toISOString(),
+      resolved_by: actor,
+    } as const;
+    const { error: resolveErr } = await this.supabase
+      .from('prospect_state_history')
+      .update(resolved)
+      .eq('id', historyId);
+
+    if (resolveErr) {
+      throw new Error(`Failed to resolve transition ${historyId}: ${resolveErr.message}`);
+    }
+    return { ...row, ...resolved };
+  }
+
+  private async readState(prospectId: string, column: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('prospects')
+      .select(column)
+      .eq('id', prospectId)
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to load prospect ${prospectId}: ${error?.message || 'not found'}`);
+    }
+    return ((data as unknown as Record<string, string | null>)[column]) ?? null;
+  }
+
+  private async recordHistory(
+    request: TransitionRequest,
+    from: string | null,
+    status: 'applied' | 'rejected' | 'quarantined',
+    reason?: string
+  ): Promise<string | undefined> {
+    const { data, error } = await this.supabase
+      .from('prospect_state_history')
+      .insert({
+        prospect_id: request.prospectId,
+        field: request.field,
+        from_state: from,
+        to_state: request.to,
+        event: request.event ?? null,
+        event_id: request.eventId ?? null,
+        actor: request.actor,
+        status,
+        reason: reason ?? null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      // The move itself already happened (or was refused); a missing audit row must not undo it
+      console.error(`[Transitions] Failed to record history for ${request.prospectId}:`, error.message);
+      return undefined;
+    }
+    return data?.id;
+  }
+}
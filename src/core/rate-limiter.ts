@@ -1,6 +1,9 @@
 // Rate Limiter
-// Prevents hitting channel limits and manages daily quotas
+// Prevents hitting channel limits and manages daily quotas.
+// Usage is tracked as sliding 1h / 24h windows over rate_limit_events, per
+// campaign + channel and per sending identity (Instantly sender pool, caller ID).
 
+import { SupabaseClient } from '@supabase/supabase-js';
 import { Channel, Campaign, RateLimit } from '../types';
 
 export interface RateLimitConfig {
@@ -17,33 +20,250 @@ export const DEFAULT_LIMITS: RateLimitConfig = {
   voice: { daily: 50, hourly: 10 },
 };
 
+export interface WindowLimits {
+  daily: number;
+  hourly: number;
+}
+
+export interface RateLimitScope {
+  campaignId: string;
+  channel: Channel;
+  sender?: string; // sending identity, limited across all campaigns
+  senderLimits?: WindowLimits;
+}
+
+export interface RateLimitUsage {
+  hourly: number;
+  daily: number;
+  senderHourly: number;
+  senderDaily: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  reason?: string;
+  usage: RateLimitUsage;
+  reservation?: RateLimitReservation;
+}
+
+export interface ReserveOptions {
+  sender?: string;
+  senderLimits?: WindowLimits;
+  allowPartial?: boolean; // grant whatever fits instead of all-or-nothing
+}
+
+// Slots claimed by reserve(); give back whatever goes unused with release()
+export interface RateLimitReservation {
+  id: string | null;
+  channel: Channel;
+  campaignId: string;
+  requested: number;
+  granted: number;
+  reason?: string;
+  usage: RateLimitUsage;
+}
+
+// Instantly rotates inboxes itself, so email is limited per sender pool:
+// every healthy inbox adds its warmup allowance to the pool.
+export const EMAIL_SENDER_POOL = 'instantly';
+export const WARMUP_DAILY_LIMIT_PER_INBOX = 30;
+
+export function getEmailPoolLimits(inboxCount: number): WindowLimits {
+  const daily = inboxCount * WARMUP_DAILY_LIMIT_PER_INBOX;
+  // Spread the pool's daily allowance over an 8-hour sending day
+  return { daily, hourly: Math.ceil(daily / 8) };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
 export class RateLimiter {
   private config: RateLimitConfig;
+  private supabase?: SupabaseClient;
 
-  constructor(config: Partial<RateLimitConfig> = {}) {
+  constructor(config: Partial<RateLimitConfig> = {}, supabase?: SupabaseClient) {
     this.config = { ...DEFAULT_LIMITS, ...config };
+    this.supabase = supabase;
   }
 
-  // Check if action is allowed for a channel
-  canExecute(channel: Channel, currentCount: number): { allowed: boolean; reason?: string } {
+  // Check if action is allowed given sliding-window counts for a channel
+  canExecute(channel: Channel, dailyCount: number, hourlyCount: number): { allowed: boolean; reason?: string } {
     const limits = this.config[channel];
 
-    if (currentCount >= limits.daily) {
-      return { allowed: false, reason: `Daily limit reached for ${channel}` };
+    if (dailyCount >= limits.daily) {
+      return { allowed: false, reason: `Daily limit reached for ${channel} (${dailyCount}/${limits.daily})` };
     }
 
-    // Check hourly limit (simplified - assumes count is for current hour)
-    if (currentCount >= limits.hourly) {
-      return { allowed: false, reason: `Hourly limit reached for ${channel}` };
+    if (hourlyCount >= limits.hourly) {
+      return { allowed: false, reason: `Hourly limit reached for ${channel} (${hourlyCount}/${limits.hourly})` };
     }
 
     return { allowed: true };
   }
 
+  private requireClient(): SupabaseClient {
+    if (!this.supabase) {
+      throw new Error('RateLimiter needs a Supabase client for persisted limits');
+    }
+    return this.supabase;
+  }
+
+  private async countEvents(
+    filters: Record<string, string>,
+    since: Date
+  ): Promise<number> {
+    let query = this.requireClient()
+      .from('rate_limit_events')
+      .select('id', { count: 'exact', head: true })
+      .gt('created_at', since.toISOString());
+    for (const [column, value] of Object.entries(filters)) {
+      query = query.eq(column, value);
+    }
+
+    const { count, error } = await query;
+    if (error) {
+      throw new Error(`Failed to count rate limit events: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  // Current sliding-window usage for a scope (read-only)
+  async getUsage(scope: RateLimitScope): Promise<RateLimitUsage> {
+    const now = Date.now();
+    const hourAgo = new Date(now - HOUR_MS);
+    const dayAgo = new Date(now - DAY_MS);
+    const campaignFilter = { campaign_id: scope.campaignId, channel: scope.channel };
+    const senderFilter = scope.sender ? { channel: scope.channel, sender: scope.sender } : null;
+
+    const [hourly, daily, senderHourly, senderDaily] = await Promise.all([
+      this.countEvents(campaignFilter, hourAgo),
+      this.countEvents(campaignFilter, dayAgo),
+      senderFilter ? this.countEvents(senderFilter, hourAgo) : Promise.resolve(0),
+      senderFilter ? this.countEvents(senderFilter, dayAgo) : Promise.resolve(0),
+    ]);
+
+    return { hourly, daily, senderHourly, senderDaily };
+  }
+
+  // Check a scope without consuming quota
+  async check(scope: RateLimitScope): Promise<RateLimitDecision> {
+    let usage: RateLimitUsage;
+    try {
+      usage = await this.getUsage(scope);
+    } catch (err: any) {
+      console.error('[RateLimiter] Usage lookup failed:', err.message);
+      return {
+        allowed: false,
+        reason: `Rate limit check failed: ${err.message}`,
+        usage: { hourly: 0, daily: 0, senderHourly: 0, senderDaily: 0 },
+      };
+    }
+    const campaignCheck = this.canExecute(scope.channel, usage.daily, usage.hourly);
+    if (!campaignCheck.allowed) {
+      return { allowed: false, reason: campaignCheck.reason, usage };
+    }
+
+    if (scope.sender && scope.senderLimits) {
+      if (usage.senderDaily >= scope.senderLimits.daily) {
+        return { allowed: false, reason: `Daily limit reached for sender ${scope.sender}`, usage };
+      }
+      if (usage.senderHourly >= scope.senderLimits.hourly) {
+        return { allowed: false, reason: `Hourly limit reached for sender ${scope.sender}`, usage };
+      }
+    }
+
+    return { allowed: true, usage };
+  }
+
+  // Atomically claim `n` slots under every window (campaign + sender)
+  async reserve(
+    channel: Channel,
+    campaignId: string,
+    n: number = 1,
+    options: ReserveOptions = {}
+  ): Promise<RateLimitReservation> {
+    const limits = this.config[channel];
+    const { data, error } = await this.requireClient().rpc('reserve_rate_limit', {
+      p_campaign_id: campaignId,
+      p_channel: channel,
+      p_sender: options.sender ?? null,
+      p_count: n,
+      p_hourly_limit: limits.hourly,
+      p_daily_limit: limits.daily,
+      p_sender_hourly_limit: options.senderLimits?.hourly ?? null,
+      p_sender_daily_limit: options.senderLimits?.daily ?? null,
+      p_allow_partial: options.allowPartial ?? false,
+    });
+
+    if (error) {
+      // Fail closed: without the atomic check we cannot guarantee the limits
+      console.error('[RateLimiter] reserve_rate_limit failed:', error.message);
+      return {
+        id: null,
+        channel,
+        campaignId,
+        requested: n,
+        granted: 0,
+        reason: `Rate limit check failed: ${error.message}`,
+        usage: { hourly: 0, daily: 0, senderHourly: 0, senderDaily: 0 },
+      };
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      id: row?.reservation_id ?? null,
+      channel,
+      campaignId,
+      requested: n,
+      granted: row?.granted ?? 0,
+      reason: row?.reason || undefined,
+      usage: {
+        hourly: row?.hourly_count ?? 0,
+        daily: row?.daily_count ?? 0,
+        senderHourly: row?.sender_hourly_count ?? 0,
+        senderDaily: row?.sender_daily_count ?? 0,
+      },
+    };
+  }
+
+  // Release unused slots of a reservation (all of them by default)
+  async release(reservation: RateLimitReservation | undefined, count?: number): Promise<number> {
+    if (!reservation?.id || reservation.granted === 0 || count === 0) return 0;
+
+    const { data, error } = await this.requireClient().rpc('release_rate_limit', {
+      p_reservation_id: reservation.id,
+      p_count: count ?? null,
+    });
+
+    if (error) {
+      console.error('[RateLimiter] release_rate_limit failed:', error.message);
+      return 0;
+    }
+
+    const released = typeof data === 'number' ? data : 0;
+    reservation.granted -= released;
+    return released;
+  }
+
+  // Claim a single slot for one send
+  async consume(scope: RateLimitScope): Promise<RateLimitDecision> {
+    const reservation = await this.reserve(scope.channel, scope.campaignId, 1, {
+      sender: scope.sender,
+      senderLimits: scope.senderLimits,
+    });
+
+    return {
+      allowed: reservation.granted === 1,
+      reason: reservation.reason,
+      usage: reservation.usage,
+      reservation,
+    };
+  }
+
   // Get remaining quota for a channel
-  getRemaining(channel: Channel, currentCount: number): number {
+  getRemaining(channel: Channel, dailyCount: number, hourlyCount: number = 0): number {
     const limits = this.config[channel];
-    return Math.max(0, limits.daily - currentCount);
+    return Math.max(0, Math.min(limits.daily - dailyCount, limits.hourly - hourlyCount));
   }
 
   // Get next reset time (start of next day)
@@ -1,115 +1,120 @@
 // Sequence Engine
 // Executes multi-touch sequences with configurable delays
 
-import { Sequence, SequenceStep, Prospect, Campaign, Touchpoint } from '../types';
+import { Sequence, SequenceStep, SequenceTemplate, Prospect, Campaign, Touchpoint } from '../types';
 import { ProspectStateMachine } from './state-machine';
+import { buildConditionContext, evaluateConditions } from './condition-evaluator';
+import { getNextSendWindow } from './business-hours';
+import {
+  ResolvedStep,
+  findStep,
+  getDefaultNextId,
+  getStepId,
+  getTransitionDelay,
+  resolveCurrentStep,
+  validateSequenceGraph,
+} from './sequence-graph';
 
 export interface SequenceExecution {
   sequenceId: string;
   prospectId: string;
   step: SequenceStep;
-  stepNumber: number;
+  stepId: string;
   executeAt: Date;
 }
 
 export class SequenceEngine {
   private campaign: Campaign;
+  private template: SequenceTemplate;
 
-  constructor(campaign: Campaign) {
+  constructor(campaign: Campaign, template: SequenceTemplate = campaign.sequenceTemplate) {
     this.campaign = campaign;
-  }
+    this.template = template;
 
-  // Get the next step to execute for a sequence
-  getNextStep(sequence: Sequence, touchpoints: Touchpoint[]): { step: SequenceStep; delayDays: number } | null {
-    const template = this.campaign.sequenceTemplate;
-    if (!template || sequence.currentStep >= template.steps.length) {
-      return null;
+    for (const error of validateSequenceGraph(template?.steps || [])) {
+      console.warn(`[SequenceEngine] Template ${template.id}: ${error}`);
     }
+  }
+
+  // Resolve the step a sequence should run now, following outcome edges
+  resolveCurrentStep(sequence: Sequence, touchpoints: Touchpoint[]): ResolvedStep<SequenceStep> | null {
+    if (!this.template?.steps) return null;
+    return resolveCurrentStep(this.template.steps, sequence.currentStep, sequence.previousStep, touchpoints);
+  }
 
-    const nextStep = template.steps[sequence.currentStep];
-    if (!nextStep) return null;
+  // Check if a step's conditions hold for the prospect
+  checkConditions(step: SequenceStep, prospect: Prospect | undefined, touchpoints: Touchpoint[]): boolean {
+    if (!step.conditions?.length) return true;
+    return evaluateConditions(step.conditions, buildConditionContext(prospect, touchpoints));
+  }
 
-    // Check if step conditions are met
-    if (nextStep.conditions && !this.checkConditions(nextStep.conditions, touchpoints)) {
-      return null;
+  // Get the next step to execute for a sequence.
+  // Steps whose conditions fail are skipped along their default edge.
+  getNextStep(
+    sequence: Sequence,
+    touchpoints: Touchpoint[],
+    prospect?: Prospect
+  ): { step: SequenceStep; stepId: string; delayDays: number } | null {
+    const steps = this.template?.steps || [];
+    let resolved = this.resolveCurrentStep(sequence, touchpoints);
+    const visited = new Set<string>();
+
+    while (resolved && !this.checkConditions(resolved.step, prospect, touchpoints)) {
+      visited.add(resolved.id);
+      const nextId = getDefaultNextId(steps, resolved.id);
+      resolved = nextId !== null && !visited.has(nextId) ? findStep(steps, nextId) : null;
     }
+    if (!resolved) return null;
 
-    // Calculate delay from previous step
-    const delayDays = nextStep.day - (sequence.currentStep > 0 ? template.steps[sequence.currentStep - 1].day : 0);
+    const nextStep = resolved.step;
 
-    return { step: nextStep, delayDays };
-  }
+    // Calculate delay from previous step (legacy rows only know the array order)
+    const fromId = sequence.previousStep
+      ?? (resolved.index > 0 ? getStepId(steps[resolved.index - 1], resolved.index - 1) : undefined);
+    const delayDays = getTransitionDelay(steps, fromId, resolved.id);
 
-  // Check if step conditions are met
-  private checkConditions(conditions: any[], touchpoints: Touchpoint[]): boolean {
-    return conditions.every(condition => {
-      const relevantTouches = touchpoints.filter(t => 
-        t.channel === condition.channel && t.outcome === condition.outcome
-      );
-
-      switch (condition.operator) {
-        case 'eq':
-          return relevantTouches.length === condition.value;
-        case 'gt':
-          return relevantTouches.length > condition.value;
-        case 'lt':
-          return relevantTouches.length < condition.value;
-        case 'exists':
-          return condition.value ? relevantTouches.length > 0 : relevantTouches.length === 0;
-        default:
-          return true;
-      }
-    });
+    return { step: nextStep, stepId: resolved.id, delayDays };
   }
 
-  // Calculate when the next step should execute
-  calculateNextExecution(sequence: Sequence, stepDelayDays: number): Date {
-    const now = new Date();
-    const nextExecution = new Date(now);
-    nextExecution.setDate(nextExecution.getDate() + stepDelayDays);
-
-    // Respect business hours
-    const { start, end, timezone } = this.campaign.businessHours;
-    const [startHour] = start.split(':').map(Number);
-    const [endHour] = end.split(':').map(Number);
-
-    // If calculated time is outside business hours, move to next business day start
-    const currentHour = nextExecution.getHours();
-    if (currentHour < startHour) {
-      nextExecution.setHours(startHour, 0, 0, 0);
-    } else if (currentHour >= endHour) {
-      nextExecution.setDate(nextExecution.getDate() + 1);
-      nextExecution.setHours(startHour, 0, 0, 0);
-    }
+  // Calculate when the next step should execute, in the prospect's local business hours.
+  // Without any window ahead it stays at the earliest time; the send-time hours check holds it there.
+  calculateNextExecution(sequence: Sequence, stepDelayDays: number, prospect?: Prospect): Date {
+    const earliest = new Date();
+    earliest.setDate(earliest.getDate() + stepDelayDays);
 
-    // Skip weekends
-    const dayOfWeek = nextExecution.getDay();
-    if (dayOfWeek === 0) { // Sunday
-      nextExecution.setDate(nextExecution.getDate() + 1);
-    } else if (dayOfWeek === 6) { // Saturday
-      nextExecution.setDate(nextExecution.getDate() + 2);
+    const window = getNextSendWindow(earliest, {
+      businessHours: this.campaign.businessHours,
+      prospect,
+    });
+    if (!window) {
+      console.warn(`[SequenceEngine] Campaign ${this.campaign.id}: no business-hours window within 30 days for sequence ${sequence.id}`);
+      return earliest;
     }
-
-    return nextExecution;
+    return window.start;
   }
 
   // Generate all pending executions for a list of sequences
-  generatePendingExecutions(sequences: Sequence[], touchpointsMap: Map<string, Touchpoint[]>): SequenceExecution[] {
+  generatePendingExecutions(
+    sequences: Sequence[],
+    touchpointsMap: Map<string, Touchpoint[]>,
+    prospectsMap: Map<string, Prospect> = new Map()
+  ): SequenceExecution[] {
     const executions: SequenceExecution[] = [];
 
     for (const sequence of sequences) {
       if (sequence.status !== 'active') continue;
 
       const touchpoints = touchpointsMap.get(sequence.prospectId) || [];
-      const next = this.getNextStep(sequence, touchpoints);
+      const prospect = prospectsMap.get(sequence.prospectId);
+      const next = this.getNextStep(sequence, touchpoints, prospect);
 
       if (next) {
         executions.push({
           sequenceId: sequence.id,
           prospectId: sequence.prospectId,
           step: next.step,
-          stepNumber: sequence.currentStep,
-          executeAt: this.calculateNextExecution(sequence, next.delayDays),
+          stepId: next.stepId,
+          executeAt: this.calculateNextExecution(sequence, next.delayDays, prospect),
         });
       }
     }
@@ -117,14 +122,17 @@ export class SequenceEngine {
     return executions.sort((a, b) => a.executeAt.getTime() - b.executeAt.getTime());
   }
 
-  // Advance sequence to next step
-  advanceSequence(sequence: Sequence): Partial<Sequence> {
-    const template = this.campaign.sequenceTemplate;
-    const nextStep = sequence.currentStep + 1;
+  // Advance sequence past the step that was just executed
+  advanceSequence(sequence: Sequence, executedStepId: string = sequence.currentStep): Partial<Sequence> {
+    const steps = this.template?.steps || [];
+    const executed = findStep(steps, executedStepId);
+    const previousStep = executed?.id ?? executedStepId;
+    const nextStep = executed ? getDefaultNextId(steps, executed.id) : null;
 
-    if (nextStep >= template.steps.length) {
+    if (!nextStep || !findStep(steps, nextStep)) {
       return {
-        currentStep: nextStep,
+        currentStep: previousStep,
+        previousStep,
         status: 'completed',
         completedAt: new Date(),
       };
@@ -132,6 +140,7 @@ export class SequenceEngine {
 
     return {
       currentStep: nextStep,
+      previousStep,
     };
   }
 
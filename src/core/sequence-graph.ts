@@ -0,0 +1,148 @@
+// Sequence Graph
+// Resolves step ids and outcome edges for branching sequence templates
+
+import { SequenceNode, Touchpoint } from '../types';
+
+export interface ResolvedStep<T extends SequenceNode> {
+  step: T;
+  id: string;
+  index: number;
+}
+
+// Outcome precedence when a step produced several touchpoints
+const OUTCOME_RANK: Record<string, number> = {
+  replied: 4,
+  bounced: 3,
+  opened: 2,
+};
+
+// Steps without an explicit id are addressed by their array index
+export function getStepId(step: SequenceNode, index: number): string {
+  return step.id ?? String(index);
+}
+
+export function getStartStepId(steps: SequenceNode[]): string | null {
+  return steps.length > 0 ? getStepId(steps[0], 0) : null;
+}
+
+// Find a step by id, falling back to a numeric index for legacy rows
+export function findStep<T extends SequenceNode>(
+  steps: T[],
+  stepId: string | number | null | undefined
+): ResolvedStep<T> | null {
+  if (stepId === null || stepId === undefined) return null;
+
+  const key = String(stepId);
+  const index = steps.findIndex((step, i) => getStepId(step, i) === key);
+  if (index >= 0) {
+    return { step: steps[index], id: key, index };
+  }
+
+  if (/^\d+$/.test(key)) {
+    const legacyIndex = Number(key);
+    if (legacyIndex < steps.length) {
+      return { step: steps[legacyIndex], id: getStepId(steps[legacyIndex], legacyIndex), index: legacyIndex };
+    }
+  }
+
+  return null;
+}
+
+// Default edge: explicit `next`, otherwise the following step in the array
+export function getDefaultNextId(steps: SequenceNode[], stepId: string): string | null {
+  const current = findStep(steps, stepId);
+  if (!current) return null;
+
+  if (current.step.next !== undefined) {
+    return current.step.next;
+  }
+
+  const following = steps[current.index + 1];
+  return following ? getStepId(following, current.index + 1) : null;
+}
+
+// Most significant outcome recorded for an executed step
+export function getObservedOutcome(
+  step: SequenceNode,
+  stepId: string,
+  touchpoints: Touchpoint[]
+): string | undefined {
+  const tagged = touchpoints.filter(t => t.metadata?.step_id === stepId);
+  // Touchpoints written before step ids were recorded are matched on channel + action
+  const relevant = tagged.length > 0
+    ? tagged
+    : touchpoints.filter(t => !t.metadata?.step_id && t.channel === step.channel && t.action === step.action);
+
+  let best: string | undefined;
+  for (const touchpoint of relevant) {
+    const outcome = touchpoint.repliedAt
+      ? 'replied'
+      : touchpoint.outcome === 'bounced'
+        ? 'bounced'
+        : touchpoint.openedAt
+          ? 'opened'
+          : touchpoint.outcome;
+    if (!outcome) continue;
+
+    if (!best || (OUTCOME_RANK[outcome] || 0) > (OUTCOME_RANK[best] || 0)) {
+      best = outcome;
+    }
+  }
+
+  return best;
+}
+
+// Resolve the step to run now. Outcome edges on the previous step take priority
+// over the default edge that was stored when that step was executed.
+export function resolveCurrentStep<T extends SequenceNode>(
+  steps: T[],
+  currentStep: string | null | undefined,
+  previousStep: string | null | undefined,
+  touchpoints: Touchpoint[]
+): ResolvedStep<T> | null {
+  const previous = findStep(steps, previousStep);
+  if (previous?.step.onOutcome) {
+    const outcome = getObservedOutcome(previous.step, previous.id, touchpoints);
+    const target = outcome ? previous.step.onOutcome[outcome] : undefined;
+    if (target) {
+      return findStep(steps, target);
+    }
+  }
+
+  return findStep(steps, currentStep);
+}
+
+// Days to wait when moving between two steps
+export function getTransitionDelay(steps: SequenceNode[], fromId: string | undefined, toId: string): number {
+  const to = findStep(steps, toId);
+  if (!to) return 0;
+
+  const from = findStep(steps, fromId);
+  return Math.max(0, to.step.day - (from ? from.step.day : 0));
+}
+
+// Report duplicate ids and edges pointing at unknown steps
+export function validateSequenceGraph(steps: SequenceNode[]): string[] {
+  const errors: string[] = [];
+  const ids = steps.map((step, i) => getStepId(step, i));
+
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (seen.has(id)) errors.push(`Duplicate step id "${id}"`);
+    seen.add(id);
+  }
+
+  steps.forEach((step, i) => {
+    const targets = [
+      ...(step.next ? [step.next] : []),
+      ...Object.values(step.onOutcome || {}),
+    ];
+    for (const target of targets) {
+      if (!seen.has(target)) {
+        errors.push(`Step "${ids[i]}" points at unknown step "${target}"`);
+      }
+    }
+  });
+
+  return errors;
+}
@@ -3,11 +3,38 @@
 
 import { Prospect, ProspectState, Touchpoint, LinkedInState, XState, EmailState, VoiceState } from '../types';
 
+// Prospect columns that hold a state; 'pipeline' is pipeline_state
+export type StateField = 'pipeline' | 'email' | 'voice' | 'linkedin' | 'x' | 'sms';
+
+export const STATE_COLUMNS: Record<StateField, string> = {
+  pipeline: 'pipeline_state',
+  email: 'email_state',
+  voice: 'voice_state',
+  linkedin: 'linkedin_state',
+  x: 'x_state',
+  sms: 'sms_state',
+};
+
+// Column defaults, used when a row has no value yet
+export const INITIAL_STATES: Record<StateField, string> = {
+  pipeline: 'discovered',
+  email: 'not_sent',
+  voice: 'not_called',
+  linkedin: 'not_connected',
+  x: 'not_following',
+  sms: 'none',
+};
+
+// Every state a call can leave the prospect in; calls can be retried from any of them
+const CALL_RESULT_STATES: VoiceState[] = [
+  'called', 'answered', 'voicemail', 'callback', 'interested', 'not_interested', 'failed', 'booked',
+];
+
 export class ProspectStateMachine {
   // Main state transitions
   private static readonly TRANSITIONS: Map<ProspectState, ProspectState[]> = new Map([
-    ['discovered', ['researched']],
-    ['researched', ['contacted']],
+    ['discovered', ['researched', 'contacted', 'not_interested']], // Imports skip research; opt-outs can precede contact
+    ['researched', ['contacted', 'not_interested']],
     ['contacted', ['engaged', 'not_interested', 'unresponsive']],
     ['engaged', ['qualified', 'not_interested', 'unresponsive']],
     ['qualified', ['booked', 'not_interested']],
@@ -16,6 +43,47 @@ export class ProspectStateMachine {
     ['not_interested', ['discovered']], // Terminal state, can only re-enter if prospect re-engages
   ]);
 
+  // Allowed state-to-state moves per channel column
+  private static readonly CHANNEL_TRANSITIONS: Record<Exclude<StateField, 'pipeline'>, Record<string, string[]>> = {
+    email: {
+      'not_sent': ['sent', 'opened', 'replied', 'bounced'], // Instantly events can arrive before our own send is logged
+      'sent': ['opened', 'replied', 'bounced'],
+      'opened': ['replied', 'bounced'],
+      'replied': ['bounced'], // Unsubscribe after replying
+      'bounced': [],
+    },
+    voice: {
+      'not_called': CALL_RESULT_STATES,
+      'called': CALL_RESULT_STATES,
+      'answered': CALL_RESULT_STATES,
+      'voicemail': CALL_RESULT_STATES,
+      'callback': CALL_RESULT_STATES,
+      'failed': CALL_RESULT_STATES,
+      'interested': ['booked', 'callback', 'not_interested', 'called', 'voicemail', 'failed'],
+      'not_interested': [],
+      'booked': [],
+    },
+    linkedin: {
+      'not_connected': ['requested', 'connected'],
+      'requested': ['connected', 'not_connected'],
+      'connected': ['messaged'],
+      'messaged': ['replied'],
+      'replied': ['messaged'],
+    },
+    x: {
+      'not_following': ['following'],
+      'following': ['engaged', 'dm_sent'],
+      'engaged': ['dm_sent', 'dm_replied'],
+      'dm_sent': ['dm_replied'],
+      'dm_replied': ['dm_sent'],
+    },
+    sms: {
+      'none': ['replied', 'opted_out'],
+      'replied': ['opted_out'],
+      'opted_out': [],
+    },
+  };
+
   // Channel state transitions
   static updateLinkedInState(current: LinkedInState, action: string, outcome: string): LinkedInState {
     const transitions: Record<string, Record<string, LinkedInState>> = {
@@ -140,4 +208,13 @@ export class ProspectStateMachine {
     const available = ProspectStateMachine.getAvailableTransitions(from);
     return available.includes(to);
   }
+
+  // Validate a move on any state column; a null `from` is the column default
+  static canTransitionField(field: StateField, from: string | null, to: string): boolean {
+    const current = from || INITIAL_STATES[field];
+    if (field === 'pipeline') {
+      return ProspectStateMachine.canTransition(current as ProspectState, to as ProspectState);
+    }
+    return ProspectStateMachine.CHANNEL_TRANSITIONS[field][current]?.includes(to) ?? false;
+  }
 }
@@ -0,0 +1,194 @@
+// Suppression List
+// Global do-not-contact list keyed by normalized email, phone and domain. Any match blocks every channel.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { normalizeDomain, normalizePhone } from './icp-matcher';
+
+export type SuppressionType = 'email' | 'phone' | 'domain';
+
+// Where an entry came from: STOP texts, "remove me" on a call, email unsubscribes, people, imports
+export type SuppressionSource = 'sms_stop' | 'call_dnc' | 'email_unsubscribe' | 'manual' | 'import';
+
+export interface SuppressionRow {
+  id: string;
+  type: SuppressionType;
+  value: string;
+  source: SuppressionSource;
+  reason: string | null;
+  prospect_id: string | null;
+  created_at: string;
+}
+
+// Contact details to check or suppress; website only contributes its domain to checks
+export interface SuppressionTarget {
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  domain?: string | null;
+}
+
+export interface SuppressionRequest {
+  source: SuppressionSource;
+  reason?: string;
+  prospectId?: string | null;
+}
+
+export interface SuppressionCheck {
+  suppressed: boolean;
+  matches: SuppressionRow[];
+  reason?: string;
+}
+
+export function normalizeEmail(value: string | null | undefined): string | null {
+  const email = (value || '').trim().toLowerCase();
+  return /^[^@\s]+@[^@\s]+$/.test(email) ? email : null;
+}
+
+export function normalizeSuppressionValue(type: SuppressionType, value: string | null | undefined): string | null {
+  switch (type) {
+    case 'email':
+      return normalizeEmail(value);
+    case 'phone':
+      return normalizePhone(value);
+    case 'domain':
+      return normalizeDomain(value);
+  }
+}
+
+// The (type, value) keys a contact is looked up by
+function lookupKeys(target: SuppressionTarget): Array<{ type: SuppressionType; value: string }> {
+  const keys: Array<{ type: SuppressionType; value: string }> = [];
+  const email = normalizeEmail(target.email);
+  const phone = normalizePhone(target.phone);
+  if (email) keys.push({ type: 'email', value: email });
+  if (phone) keys.push({ type: 'phone', value: phone });
+
+  const domains = new Set(
+    [email ? normalizeDomain(email.split('@')[1]) : null, normalizeDomain(target.website), normalizeDomain(target.domain)]
+      .filter((d): d is string => !!d)
+  );
+  for (const domain of domains) keys.push({ type: 'domain', value: domain });
+  return keys;
+}
+
+function describeMatch(match: SuppressionRow): string {
+  return `${match.type} ${match.value} suppressed (${match.source}${match.reason ? `: ${match.reason}` : ''})`;
+}
+
+export class SuppressionService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  // Service-role client from the environment, for senders constructed without one
+  static fromEnv(): SuppressionService {
+    const url = process.env.SUPABASE_URL;
+    const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY;
+    if (!url || !key) {
+      throw new Error('SUPABASE_URL and a service key are required for the suppression list');
+    }
+    return new SuppressionService(createClient(url, key));
+  }
+
+  // Look a contact up. Throws when the list cannot be read: senders must treat that as suppressed.
+  async check(target: SuppressionTarget): Promise<SuppressionCheck> {
+    const keys = lookupKeys(target);
+    if (!keys.length) return { suppressed: false, matches: [] };
+
+    const filter = keys.map(k => `and(type.eq.${k.type},value.eq."${k.value}")`).join(',');
+    const { data, error } = await this.supabase
+      .from('suppressions')
+      .select('*')
+      .or(filter);
+
+    if (error) {
+      throw new Error(`Failed to check suppression list: ${error.message}`);
+    }
+
+    const matches = (data || []) as SuppressionRow[];
+    return matches.length
+      ? { suppressed: true, matches, reason: matches.map(describeMatch).join('; ') }
+      : { suppressed: false, matches };
+  }
+
+  // Sender guard: true when the contact must not be contacted, including when the check itself failed
+  async isBlocked(target: SuppressionTarget, context: string): Promise<SuppressionCheck> {
+    try {
+      const result = await this.check(target);
+      if (result.suppressed) {
+        console.log(`[Suppression] ${context}: blocked — ${result.reason}`);
+      }
+      return result;
+    } catch (err: any) {
+      console.error(`[Suppression] ${context}: ${err.message} — blocking send`);
+      return { suppressed: true, matches: [], reason: `Suppression list unavailable: ${err.message}` };
+    }
+  }
+
+  // Add every key present on the target. Re-suppressing an existing key keeps the original entry.
+  async suppress(target: SuppressionTarget, request: SuppressionRequest): Promise<number> {
+    const rows: Array<Record<string, any>> = [];
+    for (const type of ['email', 'phone', 'domain'] as const) {
+      const value = normalizeSuppressionValue(type, target[type]);
+      if (!value) continue;
+      rows.push({
+        type,
+        value,
+        source: request.source,
+        reason: request.reason ?? null,
+        prospect_id: request.prospectId ?? null,
+      });
+    }
+    if (!rows.length) return 0;
+
+    const { data, error } = await this.supabase
+      .from('suppressions')
+      .upsert(rows, { onConflict: 'type,value', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to add suppression: ${error.message}`);
+    }
+
+    const added = data?.length || 0;
+    console.log(`[Suppression] ${request.source}: ${rows.map(r => `${r.type} ${r.value}`).join(', ')} (${added} new)`);
+    return added;
+  }
+
+  async list(options: { type?: SuppressionType; source?: SuppressionSource; limit?: number } = {}): Promise<SuppressionRow[]> {
+    let query = this.supabase
+      .from('suppressions')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 100);
+    if (options.type) query = query.eq('type', options.type);
+    if (options.source) query = query.eq('source', options.source);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list suppressions: ${error.message}`);
+    }
+    return (data || []) as SuppressionRow[];
+  }
+
+  async remove(type: SuppressionType, value: string): Promise<boolean> {
+    const normalized = normalizeSuppressionValue(type, value);
+    if (!normalized) {
+      throw new Error(`Invalid ${type}: ${value}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('suppressions')
+      .delete()
+      .eq('type', type)
+      .eq('value', normalized)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to remove suppression: ${error.message}`);
+    }
+    return !!data?.length;
+  }
+}
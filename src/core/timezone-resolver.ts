@@ -0,0 +1,228 @@
+// Timezone Resolver
+// Offline mapping of US states, NANP area codes and "City, ST" strings to IANA zones
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+// Primary IANA zone per state. States split across zones use the zone
+// covering most of their population; area codes and cities refine it below.
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DE: 'America/New_York',
+  DC: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis', IA: 'America/Chicago',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', ME: 'America/New_York',
+  MD: 'America/New_York', MA: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MS: 'America/Chicago', MO: 'America/Chicago', MT: 'America/Denver', NE: 'America/Chicago',
+  NV: 'America/Los_Angeles', NH: 'America/New_York', NJ: 'America/New_York', NM: 'America/Denver',
+  NY: 'America/New_York', NC: 'America/New_York', ND: 'America/Chicago', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VT: 'America/New_York', VA: 'America/New_York', WA: 'America/Los_Angeles',
+  WV: 'America/New_York', WI: 'America/Chicago', WY: 'America/Denver', PR: 'America/Puerto_Rico',
+};
+
+const STATE_NAMES: Record<string, string> = {
+  ALABAMA: 'AL', ALASKA: 'AK', ARIZONA: 'AZ', ARKANSAS: 'AR', CALIFORNIA: 'CA', COLORADO: 'CO',
+  CONNECTICUT: 'CT', DELAWARE: 'DE', 'DISTRICT OF COLUMBIA': 'DC', FLORIDA: 'FL', GEORGIA: 'GA',
+  HAWAII: 'HI', IDAHO: 'ID', ILLINOIS: 'IL', INDIANA: 'IN', IOWA: 'IA', KANSAS: 'KS', KENTUCKY: 'KY',
+  LOUISIANA: 'LA', MAINE: 'ME', MARYLAND: 'MD', MASSACHUSETTS: 'MA', MICHIGAN: 'MI', MINNESOTA: 'MN',
+  MISSISSIPPI: 'MS', MISSOURI: 'MO', MONTANA: 'MT', NEBRASKA: 'NE', NEVADA: 'NV', 'NEW HAMPSHIRE': 'NH',
+  'NEW JERSEY': 'NJ', 'NEW MEXICO': 'NM', 'NEW YORK': 'NY', 'NORTH CAROLINA': 'NC', 'NORTH DAKOTA': 'ND',
+  OHIO: 'OH', OKLAHOMA: 'OK', OREGON: 'OR', PENNSYLVANIA: 'PA', 'RHODE ISLAND': 'RI',
+  'SOUTH CAROLINA': 'SC', 'SOUTH DAKOTA': 'SD', TENNESSEE: 'TN', TEXAS: 'TX', UTAH: 'UT', VERMONT: 'VT',
+  VIRGINIA: 'VA', WASHINGTON: 'WA', 'WEST VIRGINIA': 'WV', WISCONSIN: 'WI', WYOMING: 'WY',
+  'PUERTO RICO': 'PR',
+};
+
+// NANP geographic area codes by state
+const STATE_AREA_CODES: Record<string, number[]> = {
+  AL: [205, 251, 256, 334, 659, 938],
+  AK: [907],
+  AZ: [480, 520, 602, 623, 928],
+  AR: [327, 479, 501, 870],
+  CA: [209, 213, 279, 310, 323, 341, 350, 369, 408, 415, 424, 442, 510, 530, 559, 562, 619, 626, 628,
+    650, 657, 661, 669, 707, 714, 747, 760, 805, 818, 820, 831, 840, 858, 909, 916, 925, 949, 951],
+  CO: [303, 719, 720, 970, 983],
+  CT: [203, 475, 860, 959],
+  DE: [302],
+  DC: [202, 771],
+  FL: [239, 305, 321, 324, 352, 386, 407, 448, 561, 645, 656, 689, 727, 728, 754, 772, 786, 813, 850,
+    863, 904, 941, 954],
+  GA: [229, 404, 470, 478, 678, 706, 762, 770, 912, 943],
+  HI: [808],
+  ID: [208, 986],
+  IL: [217, 224, 309, 312, 331, 447, 464, 618, 630, 708, 730, 773, 779, 815, 847, 861, 872],
+  IN: [219, 260, 317, 463, 574, 765, 812, 930],
+  IA: [319, 515, 563, 641, 712],
+  KS: [316, 620, 785, 913],
+  KY: [270, 364, 502, 606, 859],
+  LA: [225, 318, 337, 504, 985],
+  ME: [207],
+  MD: [227, 240, 301, 410, 443, 667],
+  MA: [339, 351, 413, 508, 617, 774, 781, 857, 978],
+  MI: [231, 248, 269, 313, 517, 586, 616, 679, 734, 810, 906, 947, 989],
+  MN: [218, 320, 507, 612, 651, 763, 924, 952],
+  MS: [228, 601, 662, 769],
+  MO: [235, 314, 417, 557, 573, 636, 660, 816, 975],
+  MT: [406],
+  NE: [308, 402, 531],
+  NV: [702, 725, 775],
+  NH: [603],
+  NJ: [201, 551, 609, 640, 732, 848, 856, 862, 908, 973],
+  NM: [505, 575],
+  NY: [212, 315, 329, 332, 347, 363, 516, 518, 585, 607, 624, 631, 646, 680, 716, 718, 838, 845, 914,
+    917, 929, 934],
+  NC: [252, 336, 472, 704, 743, 828, 910, 919, 980, 984],
+  ND: [701],
+  OH: [216, 220, 234, 283, 326, 330, 380, 419, 436, 440, 513, 567, 614, 740, 937],
+  OK: [405, 539, 572, 580, 918],
+  OR: [458, 503, 541, 971],
+  PA: [215, 223, 267, 272, 412, 445, 484, 570, 582, 610, 717, 724, 814, 835, 878],
+  RI: [401],
+  SC: [803, 821, 839, 843, 854, 864],
+  SD: [605],
+  TN: [423, 615, 629, 731, 865, 901, 931],
+  TX: [210, 214, 254, 281, 325, 346, 361, 409, 430, 432, 469, 512, 682, 713, 726, 737, 806, 817, 830,
+    832, 903, 915, 936, 940, 945, 956, 972, 979],
+  UT: [385, 435, 801],
+  VT: [802],
+  VA: [276, 434, 540, 571, 686, 703, 757, 804, 826, 948],
+  WA: [206, 253, 360, 425, 509, 564],
+  WV: [304, 681],
+  WI: [262, 274, 353, 414, 534, 608, 715, 920],
+  WY: [307],
+  PR: [787, 939],
+};
+
+// Area codes whose zone differs from their state's primary zone
+const AREA_CODE_OVERRIDES: Record<number, string> = {
+  219: 'America/Chicago',  // Northwest Indiana
+  270: 'America/Chicago',  // Western Kentucky
+  364: 'America/Chicago',  // Western Kentucky
+  423: 'America/New_York', // East Tennessee
+  865: 'America/New_York', // Knoxville
+  850: 'America/Chicago',  // Florida panhandle
+  915: 'America/Denver',   // El Paso
+};
+
+// Cities in split states whose zone differs from the state's primary zone
+const CITY_OVERRIDES: Record<string, string> = {
+  'KNOXVILLE, TN': 'America/New_York',
+  'CHATTANOOGA, TN': 'America/New_York',
+  'JOHNSON CITY, TN': 'America/New_York',
+  'KINGSPORT, TN': 'America/New_York',
+  'BOWLING GREEN, KY': 'America/Chicago',
+  'OWENSBORO, KY': 'America/Chicago',
+  'PADUCAH, KY': 'America/Chicago',
+  'PENSACOLA, FL': 'America/Chicago',
+  'PANAMA CITY, FL': 'America/Chicago',
+  'FORT WALTON BEACH, FL': 'America/Chicago',
+  'GARY, IN': 'America/Chicago',
+  'HAMMOND, IN': 'America/Chicago',
+  'EVANSVILLE, IN': 'America/Chicago',
+  'EL PASO, TX': 'America/Denver',
+  'RAPID CITY, SD': 'America/Denver',
+  'COEUR D\'ALENE, ID': 'America/Los_Angeles',
+  'LEWISTON, ID': 'America/Los_Angeles',
+  'ONTARIO, OR': 'America/Boise',
+};
+
+const AREA_CODE_STATES: Record<number, string> = {};
+for (const [state, codes] of Object.entries(STATE_AREA_CODES)) {
+  for (const code of codes) AREA_CODE_STATES[code] = state;
+}
+
+// Location fields a prospect can be placed with
+export interface ProspectLocation {
+  timezone?: string | null;
+  state?: string | null;
+  city?: string | null;
+  location?: string | null;
+  phone?: string | null;
+}
+
+// Normalize "Tennessee", "tn" or "TN" to a two-letter code
+export function normalizeState(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const key = value.trim().toUpperCase().replace(/\./g, '').replace(/\s+/g, ' ');
+  if (STATE_TIMEZONES[key]) return key;
+  return STATE_NAMES[key] || null;
+}
+
+export function getTimezoneForState(state: string | null | undefined): string | null {
+  const code = normalizeState(state);
+  return code ? STATE_TIMEZONES[code] : null;
+}
+
+// Area code of a US number: "+1 (615) 555-0100", "6155550100", ...
+export function getAreaCode(phone: string | null | undefined): number | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+  return national.length === 10 ? parseInt(national.slice(0, 3), 10) : null;
+}
+
+export function getStateForAreaCode(areaCode: number | null): string | null {
+  return areaCode !== null ? AREA_CODE_STATES[areaCode] || null : null;
+}
+
+export function getTimezoneForAreaCode(areaCode: number | null): string | null {
+  if (areaCode === null) return null;
+  if (AREA_CODE_OVERRIDES[areaCode]) return AREA_CODE_OVERRIDES[areaCode];
+  const state = AREA_CODE_STATES[areaCode];
+  return state ? STATE_TIMEZONES[state] : null;
+}
+
+// Split "Nashville, TN 37201" into city + state code
+export function parseCityState(value: string | null | undefined): { city?: string; state?: string } {
+  const parts = (value || '').split(',').map(p => p.trim()).filter(Boolean);
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const state = normalizeState(parts[i].replace(/\s*\d{5}(-\d{4})?$/, ''));
+    if (state) {
+      return { city: i > 0 ? parts[i - 1] : undefined, state };
+    }
+  }
+  return {};
+}
+
+// True for an IANA zone Intl can format in; stored or imported zones can be anything
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Best-effort timezone for a prospect, or null when nothing places them.
+// Precedence: explicit zone (when valid), split-state city, state (refined by a
+// same-state area code), location string, then the phone's area code alone.
+export function inferTimezone(prospect: ProspectLocation | undefined): string | null {
+  if (!prospect) return null;
+  if (isValidTimezone(prospect.timezone)) return prospect.timezone;
+
+  const parsed = parseCityState(prospect.location);
+  const state = normalizeState(prospect.state) || parsed.state || null;
+  const city = prospect.city || parsed.city;
+
+  if (city && state) {
+    const cityZone = CITY_OVERRIDES[`${city.trim().toUpperCase()}, ${state}`];
+    if (cityZone) return cityZone;
+  }
+
+  const areaCode = getAreaCode(prospect.phone);
+  if (state) {
+    // Mobile numbers travel; only trust the area code when it agrees with the state
+    if (getStateForAreaCode(areaCode) === state) {
+      return getTimezoneForAreaCode(areaCode);
+    }
+    return STATE_TIMEZONES[state];
+  }
+
+  return getTimezoneForAreaCode(areaCode);
+}
+
+export function resolveTimezone(prospect: ProspectLocation | undefined, fallback: string = DEFAULT_TIMEZONE): string {
+  return inferTimezone(prospect) || fallback;
+}
@@ -0,0 +1,319 @@
+// Transcript Classifier
+// Decides a call's outcome from its transcript. The regex rules the post-call webhook always used are the
+// fallback; an LLM classifier (MiniMax or any OpenAI-compatible endpoint) handles what keywords get wrong,
+// e.g. "no thanks, but send me info". Regression fixtures: fixtures/transcripts, npm run test:classifier.
+
+import { ObjectionType, getExamplePhrases, listObjectionTypes } from '../dialer/objection-handler';
+import { extractCallback } from './callback-parser';
+
+export type CallOutcome = 'booked' | 'interested' | 'callback' | 'not_interested' | 'voicemail' | 'no_answer' | 'unknown';
+
+export interface TranscriptTurn {
+  role: string; // 'agent' | 'user'
+  message: string;
+}
+
+export interface ClassifierInput {
+  transcript: TranscriptTurn[];
+  analysis?: any; // ElevenLabs post-call analysis
+}
+
+export interface TranscriptClassification {
+  outcome: CallOutcome;
+  confidence: number; // 0-1
+  objections: ObjectionType[];
+  email: string | null; // given or corrected on the call
+  phone: string | null;
+  callbackTime: string | null; // as the prospect said it; resolve with core/callback-parser
+  doNotContact: boolean; // prospect asked to be removed / not called again
+  summary: string;
+  classifier: string; // which implementation produced this
+}
+
+export interface TranscriptClassifier {
+  name: string;
+  classify(input: ClassifierInput): Promise<TranscriptClassification>;
+}
+
+// MiniMaxClient.chat satisfies this, as does OpenAICompatibleChatClient
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatClient {
+  chat(messages: ChatMessage[]): Promise<{ choices: Array<{ message: { content: string } }> }>;
+}
+
+export const CALL_OUTCOMES: CallOutcome[] = ['booked', 'interested', 'callback', 'not_interested', 'voicemail', 'no_answer', 'unknown'];
+
+const DO_NOT_CONTACT_PATTERN = /\b(don'?t call|do not call|stop calling|remove me|take me off|lose my number)\b/i;
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/;
+// Prospect asked for information: interested even after turning down the meeting ("no thanks, but send me info")
+const SEND_INFO_PATTERN = /\b(send (me|us|over) (some |more )?(info|information|details|an email|examples)|(?<!don'?t )email me)\b/i;
+// Prospect declined without the usual words: wrong number, or already has someone
+const DECLINE_PATTERN = /\b(wrong (number|person)|you have the wrong|already (have|use|work with|working with)|we'?re (all set|covered))\b/i;
+// Gatekeeper: the person they asked for is out, try again later
+const GATEKEEPER_CALLBACK_PATTERN = /\b(try (her|him|them|back) (then|later|again|tomorrow)|try (her|him|them) on|(she|he)'?s (out|not in|not here|away|with a customer|on a job)|out of the office)\b/i;
+
+function userText(transcript: TranscriptTurn[]): string[] {
+  return transcript.filter(t => t.role === 'user' && t.message).map(t => t.message);
+}
+
+// Objections the prospect raised, matched on the dialer's objection phrases
+function findObjections(transcript: TranscriptTurn[]): ObjectionType[] {
+  const text = userText(transcript).join(' ').toLowerCase();
+  return listObjectionTypes().filter(type =>
+    type !== 'unknown' && getExamplePhrases(type).some(phrase => text.includes(phrase.toLowerCase()))
+  );
+}
+
+function findPhone(transcript: TranscriptTurn[]): string | null {
+  for (const message of userText(transcript).reverse()) {
+    const match = message.match(PHONE_PATTERN);
+    if (match) return match[0];
+  }
+  return null;
+}
+
+/**
+ * Keyword rules, checked in order: voicemail, nobody spoke, do-not-contact, asked for information, not
+ * interested, callback (including a gatekeeper's "try her Monday"), booking confirmed by the agent and
+ * agreed by the prospect, interest. ElevenLabs' own analysis is the last resort. Confidence is fixed
+ * per rule.
+ */
+export class RegexTranscriptClassifier implements TranscriptClassifier {
+  name = 'regex';
+
+  async classify(input: ClassifierInput): Promise<TranscriptClassification> {
+    const { transcript, analysis } = input;
+    const result: TranscriptClassification = {
+      outcome: 'unknown',
+      confidence: 0.2,
+      objections: findObjections(transcript),
+      email: userText(transcript).join(' ').match(EMAIL_PATTERN)?.[0] ?? null,
+      phone: findPhone(transcript),
+      callbackTime: null,
+      doNotContact: false,
+      summary: analysis?.transcript_summary || '',
+      classifier: this.name,
+    };
+    const decide = (outcome: CallOutcome, confidence: number) => {
+      result.outcome = outcome;
+      result.confidence = confidence;
+      return result;
+    };
+
+    const fullText = transcript.map(t => `${t.role}: ${t.message}`).join('\n').toLowerCase();
+
+    if (fullText.includes('leave a message') || fullText.includes('leave your message') || fullText.includes('after the beep') || fullText.includes('voicemail')) {
+      return decide('voicemail', 0.9);
+    }
+
+    const userMessages = userText(transcript).join(' ');
+    if (!userMessages.trim()) {
+      return decide('no_answer', 0.8);
+    }
+
+    // A removal request comes from the prospect, never the agent's script
+    if (DO_NOT_CONTACT_PATTERN.test(userMessages)) {
+      result.doNotContact = true;
+      return decide('not_interested', 0.9);
+    }
+
+    if (SEND_INFO_PATTERN.test(userMessages)) {
+      return decide('interested', 0.6);
+    }
+
+    if (/\b(not interested|no thanks|no thank you|don't call|stop calling|remove me)\b/.test(fullText) || DECLINE_PATTERN.test(userMessages)) {
+      return decide('not_interested', 0.7);
+    }
+
+    if (/\b(call back|call me later|try again|busy right now|bad time)\b/.test(fullText) || GATEKEEPER_CALLBACK_PATTERN.test(userMessages)) {
+      result.callbackTime = extractCallback(transcript, { timezone: 'UTC' })?.phrase ?? null;
+      return decide('callback', 0.7);
+    }
+
+    const bookingPatterns = [
+      /you'?re all set/i,
+      /i'?ll send you a calendar invite/i,
+      /calendar invite.*email/i,
+      /booked|appointment.*confirmed|scheduled/i,
+      /\b(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b.*(?:morning|afternoon|evening|at \d)/i,
+    ];
+    const agentMessages = transcript.filter(t => t.role === 'agent').map(t => t.message).join(' ');
+    const agentConfirmedBooking = bookingPatterns.some(p => p.test(agentMessages));
+    const userAgreedToTime = /\b(works|sounds good|perfect|yes|yeah|that works|let'?s do it|tuesday|wednesday|thursday|friday|monday|morning|afternoon|evening)\b/i.test(userMessages);
+
+    if (agentConfirmedBooking && userAgreedToTime) {
+      // Email confirmed or corrected during the booking
+      const emailMatch = fullText.match(new RegExp(`(?:email|e-mail).*?(${EMAIL_PATTERN.source})`, 'i'));
+      if (emailMatch) result.email = emailMatch[1];
+      return decide('booked', 0.8);
+    }
+
+    if (/\b(interested|tell me more|sounds good|sounds great|send me info|learn more)\b/.test(userMessages)) {
+      return decide('interested', 0.6);
+    }
+
+    if (analysis?.call_successful === 'success') {
+      const summary = (analysis.transcript_summary || '').toLowerCase();
+      if (summary.includes('book') || summary.includes('schedul') || summary.includes('appointment')) {
+        return decide('booked', 0.5);
+      }
+    }
+
+    return result;
+  }
+}
+
+const LLM_SYSTEM_PROMPT = `You classify transcripts of cold sales calls made by an AI agent ("agent") to a business owner ("user").
+Reply with one JSON object and nothing else:
+{
+  "outcome": one of ${CALL_OUTCOMES.map(o => `"${o}"`).join(', ')},
+  "confidence": number from 0 to 1,
+  "objections": array of zero or more of ${listObjectionTypes().filter(t => t !== 'unknown').map(t => `"${t}"`).join(', ')},
+  "email": email address the user gave or confirmed, or null,
+  "phone": phone number the user gave, or null,
+  "callbackTime": the user's words for when to call back (e.g. "Thursday after 2"), or null,
+  "doNotContact": true only if the user asked not to be called or contacted again,
+  "summary": one or two sentences
+}
+Outcomes: "booked" = a meeting time was agreed; "interested" = the user wants information, a follow-up or an email even if they declined a meeting ("no thanks, but send me info" is interested); "callback" = the user asked to be called at another time; "not_interested" = the user declined with no follow-up; "voicemail" = an answering machine or voicemail greeting; "no_answer" = nobody spoke; "unknown" = none of these can be told.`;
+
+/**
+ * LLM-backed classifier. Throws when the model fails or its reply can't be parsed; wrap it in
+ * FallbackTranscriptClassifier to fall back to the regex rules.
+ */
+export class LlmTranscriptClassifier implements TranscriptClassifier {
+  name: string;
+  private client: ChatClient;
+
+  constructor(client: ChatClient, name: string = 'llm') {
+    this.client = client;
+    this.name = name;
+  }
+
+  async classify(input: ClassifierInput): Promise<TranscriptClassification> {
+    const transcriptText = input.transcript.map(t => `${t.role}: ${t.message}`).join('\n');
+    const response = await this.client.chat([
+      { role: 'system', content: LLM_SYSTEM_PROMPT },
+      { role: 'user', content: transcriptText || '(empty transcript)' },
+    ]);
+    return parseClassification(response.choices[0]?.message?.content || '', this.name);
+  }
+}
+
+// Validates a model reply; unknown objection types and malformed fields are dropped
+export function parseClassification(content: string, classifier: string): TranscriptClassification {
+  const text = content.replace(/<think>[\s\S]*?<\/think>/g, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    throw new Error(`Classifier reply has no JSON object: ${text.slice(0, 200)}`);
+  }
+
+  const raw = JSON.parse(text.slice(start, end + 1));
+  if (!CALL_OUTCOMES.includes(raw.outcome)) {
+    throw new Error(`Classifier returned unknown outcome: ${raw.outcome}`);
+  }
+
+  const objectionTypes = listObjectionTypes();
+  const stringOrNull = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+  return {
+    outcome: raw.outcome,
+    confidence: Math.min(1, Math.max(0, Number(raw.confidence) || 0)),
+    objections: Array.isArray(raw.objections)
+      ? [...new Set<ObjectionType>(raw.objections.filter((o: any) => o !== 'unknown' && objectionTypes.includes(o)))]
+      : [],
+    email: stringOrNull(raw.email),
+    phone: stringOrNull(raw.phone),
+    callbackTime: stringOrNull(raw.callbackTime),
+    doNotContact: raw.doNotContact === true,
+    summary: stringOrNull(raw.summary) || '',
+    classifier,
+  };
+}
+
+// Uses the primary classifier, and the fallback whenever the primary throws
+export class FallbackTranscriptClassifier implements TranscriptClassifier {
+  name: string;
+  private primary: TranscriptClassifier;
+  private fallback: TranscriptClassifier;
+
+  constructor(primary: TranscriptClassifier, fallback: TranscriptClassifier = new RegexTranscriptClassifier()) {
+    this.primary = primary;
+    this.fallback = fallback;
+    this.name = `${primary.name}+${fallback.name}`;
+  }
+
+  async classify(input: ClassifierInput): Promise<TranscriptClassification> {
+    try {
+      return await this.primary.classify(input);
+    } catch (err: any) {
+      console.error(`[Classifier] ${this.primary.name} failed, using ${this.fallback.name}: ${err.message}`);
+      return this.fallback.classify(input);
+    }
+  }
+}
+
+export class OpenAICompatibleChatClient implements ChatClient {
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(options: { baseUrl: string; apiKey: string; model: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+  }
+
+  async chat(messages: ChatMessage[]): Promise<{ choices: Array<{ message: { content: string } }> }> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.model, messages, temperature: 0, max_tokens: 500 }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Chat completion error: ${response.status} - ${(await response.text()).slice(0, 300)}`);
+    }
+    return response.json() as Promise<{ choices: Array<{ message: { content: string } }> }>;
+  }
+}
+
+// minimax-client constructs a client when loaded, which throws without MINIMAX_API_KEY; load it on first use
+class LazyMiniMaxChatClient implements ChatClient {
+  async chat(messages: ChatMessage[]) {
+    const { MiniMaxClient } = await import('../dialer/minimax-client');
+    return new MiniMaxClient().chat(messages);
+  }
+}
+
+/**
+ * Classifier from the environment. TRANSCRIPT_CLASSIFIER picks 'regex', 'openai' or 'minimax';
+ * unset, an OpenAI-compatible endpoint (CLASSIFIER_LLM_BASE_URL / CLASSIFIER_LLM_API_KEY /
+ * CLASSIFIER_LLM_MODEL) wins over MiniMax (MINIMAX_API_KEY), and with neither it's regex only.
+ * LLM classifiers always fall back to the regex rules.
+ */
+export function createTranscriptClassifier(env: NodeJS.ProcessEnv = process.env): TranscriptClassifier {
+  const apiKey = env.CLASSIFIER_LLM_API_KEY || env.OPENAI_API_KEY;
+  const choice = env.TRANSCRIPT_CLASSIFIER || (env.CLASSIFIER_LLM_BASE_URL && apiKey ? 'openai' : env.MINIMAX_API_KEY ? 'minimax' : 'regex');
+
+  if (choice === 'openai' && apiKey) {
+    const client = new OpenAICompatibleChatClient({
+      baseUrl: env.CLASSIFIER_LLM_BASE_URL || 'https://api.openai.com/v1',
+      apiKey,
+      model: env.CLASSIFIER_LLM_MODEL || 'gpt-4o-mini',
+    });
+    return new FallbackTranscriptClassifier(new LlmTranscriptClassifier(client, 'openai'));
+  }
+  if (choice === 'minimax' && env.MINIMAX_API_KEY) {
+    return new FallbackTranscriptClassifier(new LlmTranscriptClassifier(new LazyMiniMaxChatClient(), 'minimax'));
+  }
+  return new RegexTranscriptClassifier();
+}
@@ -0,0 +1,293 @@
+// Transcript Search
+// Full-text search over call transcripts (call_logs) and email replies (email_events), filtered by variant,
+// outcome, industry, objection (call_objections), review label, tag and date, via search_conversations().
+// Reviewers annotate conversations with tags and good/bad labels; a call's latest label is copied to
+// call_logs.review_label, which experiment stats report per variant.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { TranscriptTurn } from './transcript-classifier';
+
+export type ConversationSource = 'call' | 'email';
+export type ReviewLabel = 'good' | 'bad';
+
+export const REVIEW_LABELS: ReviewLabel[] = ['good', 'bad'];
+const SOURCES: ConversationSource[] = ['call', 'email'];
+const MAX_RESULTS = 200;
+
+export interface TranscriptSearchFilters {
+  query?: string; // web-style: words, "quoted phrases", -excluded, or
+  sources?: ConversationSource[];
+  variant?: string; // voice agent variant, or email variant for replies
+  outcome?: string; // calls only
+  industry?: string; // case-insensitive exact match
+  objection?: string; // calls only: an ObjectionType tagged in call_objections
+  label?: ReviewLabel;
+  tag?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface TranscriptSearchResult {
+  source: ConversationSource;
+  id: string; // call_logs or email_events id
+  conversationId: string | null;
+  prospectId: string | null;
+  prospectName: string | null;
+  company: string | null;
+  industry: string | null;
+  variant: string | null;
+  outcome: string | null;
+  reviewLabel: ReviewLabel | null;
+  createdAt: string;
+  rank: number;
+  snippet: string | null; // matches wrapped in <b></b>; null without a query
+}
+
+export interface ConversationAnnotation {
+  id: string;
+  source: ConversationSource;
+  conversationRef: string; // call_logs or email_events id
+  label: ReviewLabel | null;
+  tags: string[];
+  note: string | null;
+  reviewer: string;
+  createdAt: string;
+}
+
+export interface AnnotationInput {
+  label?: ReviewLabel;
+  tags?: string[];
+  note?: string;
+  reviewer: string;
+}
+
+export interface Conversation {
+  source: ConversationSource;
+  id: string;
+  prospectId: string | null;
+  createdAt: string;
+  variant: string | null;
+  outcome: string | null;
+  reviewLabel: ReviewLabel | null;
+  transcript: TranscriptTurn[]; // email replies: one 'user' turn
+  objections: Array<{ turnIndex: number; type: string; excerpt: string }>;
+  annotations: ConversationAnnotation[];
+}
+
+// search_conversations() result row
+interface SearchConversationRow {
+  source: ConversationSource;
+  id: string;
+  conversation_id: string | null;
+  prospect_id: string | null;
+  prospect_name: string | null;
+  company: string | null;
+  industry: string | null;
+  variant: string | null;
+  outcome: string | null;
+  review_label: ReviewLabel | null;
+  created_at: string;
+  rank: number | null;
+  snippet: string | null;
+}
+
+interface AnnotationRow {
+  id: string;
+  call_log_id: string | null;
+  email_event_id: string | null;
+  label: ReviewLabel | null;
+  tags: string[] | null;
+  note: string | null;
+  reviewer: string;
+  created_at: string;
+}
+
+function toResult(row: SearchConversationRow): TranscriptSearchResult {
+  return {
+    source: row.source,
+    id: row.id,
+    conversationId: row.conversation_id ?? null,
+    prospectId: row.prospect_id ?? null,
+    prospectName: row.prospect_name ?? null,
+    company: row.company ?? null,
+    industry: row.industry ?? null,
+    variant: row.variant ?? null,
+    outcome: row.outcome ?? null,
+    reviewLabel: row.review_label ?? null,
+    createdAt: row.created_at,
+    rank: Number(row.rank) || 0,
+    snippet: row.snippet ?? null,
+  };
+}
+
+function toAnnotation(row: AnnotationRow): ConversationAnnotation {
+  return {
+    id: row.id,
+    source: row.call_log_id ? 'call' : 'email',
+    conversationRef: (row.call_log_id ?? row.email_event_id) as string, // exactly one is set
+    label: row.label ?? null,
+    tags: row.tags || [],
+    note: row.note ?? null,
+    reviewer: row.reviewer,
+    createdAt: row.created_at,
+  };
+}
+
+function parseTranscript(raw: unknown): TranscriptTurn[] {
+  const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  return Array.isArray(value) ? value.map((t: TranscriptTurn) => ({ role: t.role, message: t.message || '' })) : [];
+}
+
+function refColumn(source: ConversationSource): 'call_log_id' | 'email_event_id' {
+  return source === 'call' ? 'call_log_id' : 'email_event_id';
+}
+
+export class TranscriptSearch {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  async search(filters: TranscriptSearchFilters = {}): Promise<TranscriptSearchResult[]> {
+    const sources = filters.sources?.length ? filters.sources : SOURCES;
+    const unknown = sources.filter(s => !SOURCES.includes(s));
+    if (unknown.length) {
+      throw new Error(`Unknown source ${unknown.join(', ')} (call, email)`);
+    }
+    if (filters.label && !REVIEW_LABELS.includes(filters.label)) {
+      throw new Error(`Unknown label "${filters.label}" (${REVIEW_LABELS.join(', ')})`);
+    }
+
+    const { data, error } = await this.supabase.rpc('search_conversations', {
+      p_query: filters.query?.trim() || null,
+      p_sources: sources,
+      p_variant: filters.variant || null,
+      p_outcome: filters.outcome || null,
+      p_industry: filters.industry || null,
+      p_objection: filters.objection || null,
+      p_label: filters.label || null,
+      p_tag: filters.tag?.trim().toLowerCase() || null, // annotate() stores tags lowercased
+      p_since: filters.since?.toISOString() ?? null,
+      p_until: filters.until?.toISOString() ?? null,
+      p_limit: Math.min(Math.max(filters.limit ?? 25, 1), MAX_RESULTS),
+    });
+
+    if (error) {
+      throw new Error(`Transcript search failed: ${error.message}`);
+    }
+    return ((data || []) as SearchConversationRow[]).map(toResult);
+  }
+
+  // One conversation for review: the full transcript (or reply), tagged objections and annotations
+  async getConversation(source: ConversationSource, id: string): Promise<Conversation> {
+    const annotations = await this.listAnnotations(source, id);
+
+    if (source === 'call') {
+      const { data, error } = await this.supabase
+        .from('call_logs')
+        .select('id, prospect_id, created_at, agent_variant, outcome, review_label, transcript')
+        .eq('id', id)
+        .single();
+      if (error || !data) {
+        throw new Error(`Call ${id} not found${error ? `: ${error.message}` : ''}`);
+      }
+
+      const { data: objections, error: objectionError } = await this.supabase
+        .from('call_objections')
+        .select('turn_index, objection_type, excerpt')
+        .eq('call_log_id', id)
+        .order('turn_index', { ascending: true });
+      if (objectionError) {
+        console.error(`[TranscriptSearch] Failed to load objections for call ${id}:`, objectionError.message);
+      }
+
+      return {
+        source,
+        id: data.id,
+        prospectId: data.prospect_id ?? null,
+        createdAt: data.created_at,
+        variant: data.agent_variant ?? null,
+        outcome: data.outcome ?? null,
+        reviewLabel: data.review_label ?? null,
+        transcript: parseTranscript(data.transcript),
+        objections: (objections || []).map(o => ({ turnIndex: o.turn_index, type: o.objection_type, excerpt: o.excerpt })),
+        annotations,
+      };
+    }
+
+    const { data, error } = await this.supabase
+      .from('email_events')
+      .select('id, prospect_id, created_at, event_type, metadata')
+      .eq('id', id)
+      .single();
+    if (error || !data) {
+      throw new Error(`Email event ${id} not found${error ? `: ${error.message}` : ''}`);
+    }
+
+    return {
+      source,
+      id: data.id,
+      prospectId: data.prospect_id ?? null,
+      createdAt: data.created_at,
+      variant: data.metadata?.email_variant ?? null,
+      outcome: null,
+      reviewLabel: annotations.find(a => a.label)?.label ?? null,
+      transcript: [{ role: 'user', message: data.metadata?.reply_text || '' }],
+      objections: [],
+      annotations,
+    };
+  }
+
+  // Newest first
+  async listAnnotations(source: ConversationSource, id: string): Promise<ConversationAnnotation[]> {
+    const { data, error } = await this.supabase
+      .from('conversation_annotations')
+      .select('*')
+      .eq(refColumn(source), id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load annotations: ${error.message}`);
+    }
+    return ((data || []) as AnnotationRow[]).map(toAnnotation);
+  }
+
+  async annotate(source: ConversationSource, id: string, input: AnnotationInput): Promise<ConversationAnnotation> {
+    if (input.label && !REVIEW_LABELS.includes(input.label)) {
+      throw new Error(`Unknown label "${input.label}" (${REVIEW_LABELS.join(', ')})`);
+    }
+    const tags = [...new Set((input.tags || []).map(t => t.trim().toLowerCase()).filter(Boolean))];
+    if (!input.label && !tags.length && !input.note) {
+      throw new Error('An annotation needs a label, tags or a note');
+    }
+    if (!input.reviewer) {
+      throw new Error('An annotation needs a reviewer');
+    }
+
+    const { data, error } = await this.supabase
+      .from('conversation_annotations')
+      .insert({
+        [refColumn(source)]: id,
+        label: input.label ?? null,
+        tags,
+        note: input.note ?? null,
+        reviewer: input.reviewer,
+      })
+      .select('*')
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to annotate ${source} ${id}: ${error?.message || 'no row returned'}`);
+    }
+
+    if (source === 'call' && input.label) {
+      const { error: labelError } = await this.supabase.from('call_logs').update({ review_label: input.label }).eq('id', id);
+      if (labelError) {
+        throw new Error(`Annotated, but failed to set the call's review label: ${labelError.message}`);
+      }
+    }
+    return toAnnotation(data as AnnotationRow);
+  }
+}
@@ -5,7 +5,19 @@ import { voiceAgent, ConversationResult } from './voice-agent';
 import { voicemailHandler, AMDResult, VoicemailDeliveryResult } from './voicemail-handler';
 import { personalizeScript, ProspectData, generateObservation, VARIANT_AGENT_NAMES, DEFAULT_AGENT_CONFIG } from './call-script';
 import { handleObjection, detectInterest } from './objection-handler';
-import { selectVariant, VariantConfig } from '../core/ab-router';
+import { VariantAllocator, VariantConfig } from '../core/ab-router';
+import { getNextSendWindow } from '../core/business-hours';
+import { ProspectLocation, DEFAULT_TIMEZONE, resolveTimezone } from '../core/timezone-resolver';
+import { RateLimiter, RateLimitReservation } from '../core/rate-limiter';
+import { ActionLedger, buildActionKey } from '../core/job-runner';
+import { ProspectTransitionService } from '../core/prospect-transitions';
+import { SuppressionService } from '../core/suppression';
+import { ComplianceGuard, ComplianceDecision } from '../core/compliance-guard';
+import { CallCadenceService, RETRYABLE_VOICE_STATES } from '../core/call-cadence';
+import { CallbackQueue, CALLBACK_PRIORITY_BOOST } from '../core/callback-queue';
+import { CallerIdPool } from '../core/caller-id-pool';
+import { DialerPauseService } from '../core/dialer-pause';
+import { ProspectRow } from '../types';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -14,6 +26,8 @@ const SUPABASE_URL = process.env.SUPABASE_URL || '';
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 const DRY_RUN = process.env.DRY_RUN === 'true';
 const CALL_COOLDOWN_DAYS = parseInt(process.env.CALL_COOLDOWN_DAYS || '3', 10);
+// Caller ID the ElevenLabs agent dials from when the caller ID pool has no number available
+const DEFAULT_CALLER_ID = process.env.TWILIO_PHONE_NUMBER || '+17704077842';
 
 // Rate limits
 const MAX_CALLS_PER_DAY = 75;
@@ -46,6 +60,7 @@ export interface ProspectForCall {
   location?: string;
   timezone?: string;
   observation?: string;
+  callbackLogId?: string; // call_logs row whose requested callback this call makes
   // Dynamic variable fields for voice agent personalization
   email?: string;
   city?: string;
@@ -88,8 +103,49 @@ export interface BatchResult {
   };
 }
 
+// prospects columns the dial queue selects (getProspectsForCalling)
+type DialQueueProspect = Pick<
+  ProspectRow,
+  'id' | 'campaign_id' | 'name' | 'company' | 'phone' | 'website' | 'industry' | 'location' | 'email' | 'state' | 'timezone'
+  | 'score' | 'call_attempts' | 'last_call_at' | 'last_call_slot'
+> & {
+  company_name?: string | null;
+  product_service?: string | null;
+  specific_detail?: string | null;
+  desired_benefit?: string | null;
+};
+
+function emptyBatchResult(): BatchResult {
+  return {
+    total: 0,
+    successful: 0,
+    failed: 0,
+    results: [],
+    summary: {
+      interested: 0,
+      notInterested: 0,
+      callback: 0,
+      emailRequested: 0,
+      booked: 0,
+      voicemail: 0,
+      noAnswer: 0,
+      failed: 0,
+    },
+  };
+}
+
 export class CallEngine {
   private supabase: SupabaseClient;
+  private rateLimiter: RateLimiter;
+  private ledger: ActionLedger;
+  private transitions: ProspectTransitionService;
+  private suppressions: SuppressionService;
+  private compliance: ComplianceGuard;
+  private cadence: CallCadenceService;
+  private callbacks: CallbackQueue;
+  private callerIds: CallerIdPool;
+  private pauses: DialerPauseService;
+  private variants: VariantAllocator;
   private config: Required<CallEngineConfig>;
   private lastCallTime: Date | null = null;
   private consecutiveNotInterested = 0;
@@ -110,6 +166,18 @@ export class CallEngine {
     }
 
     this.supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    this.rateLimiter = new RateLimiter({
+      voice: { daily: this.config.maxCallsPerDay, hourly: this.config.maxCallsPerHour },
+    }, this.supabase);
+    this.ledger = new ActionLedger(this.supabase);
+    this.transitions = new ProspectTransitionService(this.supabase);
+    this.suppressions = new SuppressionService(this.supabase);
+    this.compliance = new ComplianceGuard(this.supabase, { dryRun: this.config.dryRun });
+    this.cadence = new CallCadenceService(this.supabase);
+    this.callbacks = new CallbackQueue(this.supabase);
+    this.callerIds = new CallerIdPool(this.supabase);
+    this.pauses = new DialerPauseService(this.supabase);
+    this.variants = new VariantAllocator(this.supabase);
     console.log('[CallEngine] Initialized');
     console.log('[CallEngine] Config:', {
       maxCallsPerDay: this.config.maxCallsPerDay,
@@ -120,27 +188,40 @@ export class CallEngine {
   }
 
   /**
-   * Check if we're within business hours for a prospect's timezone
+   * Check if we're within business hours in the prospect's own timezone
    */
-  isBusinessHours(timezone: string = 'America/New_York'): boolean {
+  isBusinessHours(prospect: ProspectLocation = {}): boolean {
     if (!this.config.respectBusinessHours) return true;
 
     const now = new Date();
-    const prospectTime = new Date(now.toLocaleString('en-US', { timeZone: timezone }));
-    const hour = prospectTime.getHours();
+    const window = getNextSendWindow(now, {
+      businessHours: {
+        start: `${this.config.businessHoursStart}:00`,
+        end: `${this.config.businessHoursEnd}:00`,
+        timezone: DEFAULT_TIMEZONE,
+      },
+      prospect,
+    });
+    if (!window) {
+      console.log('[CallEngine.isBusinessHours] No business-hours window within 30 days');
+      return false;
+    }
+    const inBusinessHours = window.start <= now;
 
-    const inBusinessHours = hour >= this.config.businessHoursStart && hour < this.config.businessHoursEnd;
-    
-    console.log('[CallEngine.isBusinessHours] Prospect time:', prospectTime.toLocaleString(), 'hour:', hour);
+    console.log('[CallEngine.isBusinessHours] Prospect timezone:', window.timezone, 'next window:', window.start.toISOString());
     console.log('[CallEngine.isBusinessHours] In business hours:', inBusinessHours);
-    
+
     return inBusinessHours;
   }
 
   /**
-   * Check rate limits before making a call
+   * Check rate limits before making a call and take a slot if allowed.
+   * Daily/hourly caps are sliding windows per campaign and per caller ID.
    */
-  async checkRateLimits(): Promise<{ allowed: boolean; reason?: string }> {
+  async checkRateLimits(
+    prospect: ProspectForCall,
+    callerId: string = DEFAULT_CALLER_ID
+  ): Promise<{ allowed: boolean; reason?: string; reservation?: RateLimitReservation }> {
     console.log('[CallEngine.checkRateLimits] Checking rate limits...');
 
     // Check gap between calls
@@ -153,43 +234,31 @@ export class CallEngine {
       }
     }
 
-    // Check daily limit
-    const today = new Date().toISOString().split('T')[0];
-    const { data: dailyCount, error: dailyError } = await this.supabase
-      .from('call_logs')
-      .select('id', { count: 'exact' })
-      .gte('created_at', `${today}T00:00:00Z`)
-      .lte('created_at', `${today}T23:59:59Z`);
-
-    if (dailyError) {
-      console.error('[CallEngine.checkRateLimits] Error checking daily count:', dailyError);
-    } else if ((dailyCount?.length || 0) >= this.config.maxCallsPerDay) {
-      console.log('[CallEngine.checkRateLimits] Daily limit reached:', dailyCount?.length);
-      return { allowed: false, reason: `Daily limit of ${this.config.maxCallsPerDay} calls reached` };
-    }
-
-    // Check hourly limit
-    const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-    const { data: hourlyCount, error: hourlyError } = await this.supabase
-      .from('call_logs')
-      .select('id', { count: 'exact' })
-      .gte('created_at', hourAgo);
-
-    if (hourlyError) {
-      console.error('[CallEngine.checkRateLimits] Error checking hourly count:', hourlyError);
-    } else if ((hourlyCount?.length || 0) >= this.config.maxCallsPerHour) {
-      console.log('[CallEngine.checkRateLimits] Hourly limit reached:', hourlyCount?.length);
-      return { allowed: false, reason: `Hourly limit of ${this.config.maxCallsPerHour} calls reached` };
-    }
-
     // Check for pattern break (3+ not interested in a row)
     if (this.consecutiveNotInterested >= 3) {
       console.log('[CallEngine.checkRateLimits] Pattern break needed - 3+ not interested in a row');
       return { allowed: false, reason: 'Pattern break - 3 consecutive not interested. Pause 15 min.' };
     }
 
-    console.log('[CallEngine.checkRateLimits] Rate limits passed');
-    return { allowed: true };
+    if (this.config.dryRun) {
+      console.log('[CallEngine.checkRateLimits] DRY RUN - not consuming rate limit');
+      return { allowed: true };
+    }
+
+    // Atomic check-and-increment of the hourly and daily windows
+    const quota = await this.rateLimiter.consume({
+      campaignId: prospect.campaignId,
+      channel: 'voice',
+      sender: callerId,
+      senderLimits: { daily: this.config.maxCallsPerDay, hourly: this.config.maxCallsPerHour },
+    });
+    if (!quota.allowed) {
+      console.log('[CallEngine.checkRateLimits] Limit reached:', quota.reason);
+      return { allowed: false, reason: quota.reason };
+    }
+
+    console.log('[CallEngine.checkRateLimits] Rate limits passed', quota.usage);
+    return { allowed: true, reservation: quota.reservation };
   }
 
   /**
@@ -202,11 +271,10 @@ export class CallEngine {
     // 1. Have a phone number
     // 2. Haven't been called today
     // 3. Are in active campaigns
+    // 4. Were never called, or are due their next attempt on the campaign's retry ladder
+    // Highest lead score first (see core/lead-scoring)
     const today = new Date().toISOString().split('T')[0];
-    
-    const { data: prospects, error } = await this.supabase
-      .from('prospects')
-      .select(`
+    const columns = `
         id,
         campaign_id,
         name,
@@ -218,23 +286,99 @@ export class CallEngine {
         location,
         email,
         state,
-        state,
+        timezone,
+        score,
+        call_attempts,
+        last_call_at,
+        last_call_slot,
         product_service,
         specific_detail,
         desired_benefit
-      `)
-      .not('phone', 'is', null)
-      .eq('voice_state', 'not_called')
-      .in('pipeline_state', ['discovered', 'contacted', 'researched'])
-      .limit(limit);
+      `;
 
+    const [fresh, retries] = await Promise.all([
+      this.supabase
+        .from('prospects')
+        .select(columns)
+        .not('phone', 'is', null)
+        .eq('voice_state', 'not_called')
+        .in('pipeline_state', ['discovered', 'contacted', 'researched'])
+        .order('score', { ascending: false, nullsFirst: false })
+        .limit(limit),
+      // Most retry candidates are still waiting on their ladder, so look further ahead
+      this.supabase
+        .from('prospects')
+        .select(columns)
+        .not('phone', 'is', null)
+        .in('voice_state', RETRYABLE_VOICE_STATES)
+        .gt('call_attempts', 0)
+        .in('pipeline_state', ['discovered', 'contacted', 'researched'])
+        .order('score', { ascending: false, nullsFirst: false })
+        .limit(limit * 5),
+    ]);
+
+    const error = fresh.error || retries.error;
     if (error) {
       console.error('[CallEngine.getProspectsForCalling] Error:', error);
       return [];
     }
 
+    // Place each retry candidate on its ladder; exhausted ladders end in 'unresponsive'
+    const retryDue = new Set<string>();
+    if (retries.data?.length) {
+      const decisions = await this.cadence.evaluate(retries.data.map(p => ({
+        id: p.id,
+        campaignId: p.campaign_id,
+        timezone: resolveTimezone(p),
+        callAttempts: p.call_attempts || 0,
+        lastCallAt: p.last_call_at,
+        lastCallSlot: p.last_call_slot,
+      })));
+
+      for (const [prospectId, decision] of decisions) {
+        if (decision.status === 'due') {
+          retryDue.add(prospectId);
+        } else if (decision.status === 'exhausted' && !this.config.dryRun) {
+          await this.cadence.markUnresponsive(prospectId, decision.reason);
+        } else {
+          console.log(`[CallEngine.getProspectsForCalling] Prospect ${prospectId} not due (${decision.status}): ${decision.reason}`);
+        }
+      }
+    }
+
+    // Due callbacks go first: they skip the once-a-day and cooldown filters and rank with a boost
+    const callbackFor = new Map<string, string>(); // prospect_id -> call_logs.id that asked for it
+    const dueCallbacks = await this.callbacks.due(limit).catch(err => {
+      console.error('[CallEngine.getProspectsForCalling] Failed to load callbacks:', err.message);
+      return [];
+    });
+    let callbackProspects: DialQueueProspect[] = [];
+    if (dueCallbacks.length) {
+      for (const callback of dueCallbacks) {
+        if (!callbackFor.has(callback.prospectId)) callbackFor.set(callback.prospectId, callback.callLogId);
+      }
+      const { data, error: callbackError } = await this.supabase
+        .from('prospects')
+        .select(columns)
+        .in('id', [...callbackFor.keys()])
+        .not('phone', 'is', null)
+        .not('pipeline_state', 'in', '(not_interested,booked,converted)')
+        .not('voice_state', 'in', '(not_interested,booked)');
+      if (callbackError) {
+        console.error('[CallEngine.getProspectsForCalling] Error loading callback prospects:', callbackError);
+      }
+      callbackProspects = (data || []) as DialQueueProspect[];
+    }
+
+    const priority = (p: DialQueueProspect) => (p.score ?? 0) + (callbackFor.has(p.id) ? CALLBACK_PRIORITY_BOOST : 0);
+    const prospects = [
+      ...callbackProspects,
+      ...[...(fresh.data || []), ...(retries.data || []).filter(p => retryDue.has(p.id))]
+        .filter(p => !callbackFor.has(p.id)),
+    ].sort((a, b) => priority(b) - priority(a));
+
     // Filter out prospects already called today
-    const prospectIds = prospects?.map(p => p.id) || [];
+    const prospectIds = prospects.map(p => p.id);
     
     if (prospectIds.length === 0) {
       console.log('[CallEngine.getProspectsForCalling] No prospects found');
@@ -245,6 +389,7 @@ export class CallEngine {
       .from('call_logs')
       .select('prospect_id')
       .in('prospect_id', prospectIds)
+      .neq('status', 'blocked')
       .gte('created_at', `${today}T00:00:00Z`);
 
     const calledToday = new Set(todaysCalls?.map(c => c.prospect_id) || []);
@@ -260,6 +405,7 @@ export class CallEngine {
       .from('call_logs')
       .select('prospect_id, outcome, callback_at')
       .in('prospect_id', prospectIds)
+      .neq('status', 'blocked')
       .gte('created_at', cooldownDateStr)
     
     // Build a map of prospect_id -> most recent call info
@@ -275,12 +421,22 @@ export class CallEngine {
     const now = new Date().toISOString();
     
     const availableProspects = prospects
-      ?.filter(p => {
+      .filter(p => {
+        // A callback the prospect asked for can be the same day
+        if (callbackFor.has(p.id)) {
+          return true;
+        }
+
         // Filter out if called today
         if (calledToday.has(p.id)) {
           return false;
         }
         
+        // Retries are spaced by the cadence ladder instead of the cooldown
+        if (retryDue.has(p.id)) {
+          return true;
+        }
+
         // Check if in cooldown period
         const recentCall = recentCallsMap.get(p.id);
         if (recentCall) {
@@ -311,11 +467,14 @@ export class CallEngine {
           email: p.email,
           city: p.location?.split(',')[0]?.trim(),
           state: p.state,
+          timezone: p.timezone || undefined,
           productService: p.product_service,
           specificDetail: p.specific_detail,
           desiredBenefit: p.desired_benefit,
+          callbackLogId: callbackFor.get(p.id),
         };
-      }) || [];
+      })
+      .slice(0, limit);
 
     console.log('[CallEngine.getProspectsForCalling] Found', availableProspects.length, 'prospects ready for calling');
     
@@ -331,22 +490,76 @@ export class CallEngine {
     console.log('[CallEngine.callProspect] Phone:', prospect.phone);
 
     const startTime = Date.now();
+
+    // Paused by the reputation monitor or by hand (core/dialer-pause). Checked here so every dial path
+    // (runBatch, DialerAdapter.send) stops, not just batches
+    const pause = await this.pauses.active();
+    if (pause) {
+      console.log(`[CallEngine.callProspect] Dialer paused by ${pause.source} since ${pause.created_at}: ${pause.reason}`);
+      return {
+        success: false,
+        prospectId: prospect.id,
+        status: 'failed',
+        error: `Dialer paused by ${pause.source}: ${pause.reason}`,
+      };
+    }
     
     // Check business hours
-    if (!this.isBusinessHours()) {
+    if (!this.isBusinessHours(prospect)) {
       console.log('[CallEngine.callProspect] Outside business hours, skipping');
       return {
         success: false,
         prospectId: prospect.id,
         status: 'failed',
-        error: 'Outside business hours (9am-5pm)',
+        error: `Outside business hours (${this.config.businessHoursStart}:00-${this.config.businessHoursEnd}:00 prospect local time)`,
+      };
+    }
+
+    // Global do-not-contact list (STOP texts, "remove me" calls, unsubscribes)
+    const suppression = await this.suppressions.isBlocked(prospect, `call ${prospect.id}`);
+    if (suppression.suppressed) {
+      return {
+        success: false,
+        prospectId: prospect.id,
+        status: 'failed',
+        error: suppression.reason,
+      };
+    }
+
+    // Per-state telemarketing rules: calling hours, weekend/holiday bans, attempt caps.
+    // Applies even when respectBusinessHours is off.
+    const compliance = await this.compliance.check(prospect);
+    if (!compliance.allowed) {
+      console.log(`[CallEngine.callProspect] Compliance blocked (${compliance.rule}):`, compliance.reason);
+      await this.compliance.recordDenial(prospect, compliance, 'call-engine');
+      return {
+        success: false,
+        prospectId: prospect.id,
+        status: 'failed',
+        error: `Compliance: ${compliance.reason}`,
+      };
+    }
+
+    // One call per prospect per day, even when a batch is replayed; a callback is its own action
+    const actionKey = buildActionKey(prospect.id, prospect.callbackLogId ? `callback:${prospect.callbackLogId}` : 'call');
+    if (!this.config.dryRun && !(await this.ledger.claim(actionKey, prospect.id))) {
+      return {
+        success: false,
+        prospectId: prospect.id,
+        status: 'failed',
+        error: 'Already called today',
       };
     }
 
+    // Local-presence caller ID; its own daily cap applies on top of the campaign's
+    const caller = await this.callerIds.select(prospect, 'voice');
+    const callerNumber = caller?.number.phone_number || DEFAULT_CALLER_ID;
+
     // Check rate limits
-    const rateLimitCheck = await this.checkRateLimits();
+    const rateLimitCheck = await this.checkRateLimits(prospect, callerNumber);
     if (!rateLimitCheck.allowed) {
       console.log('[CallEngine.callProspect] Rate limit check failed:', rateLimitCheck.reason);
+      if (!this.config.dryRun) await this.ledger.release(actionKey);
       return {
         success: false,
         prospectId: prospect.id,
@@ -377,7 +590,14 @@ export class CallEngine {
     console.log('[CallEngine.callProspect] Script intro:', script.intro);
 
     // Create call log entry
-    const callLogId = await this.createCallLog(prospect);
+    let callLogId: string;
+    try {
+      callLogId = await this.createCallLog(prospect, compliance, caller?.number.phone_number ?? null, templateId);
+    } catch (error) {
+      await this.rateLimiter.release(rateLimitCheck.reservation);
+      if (!this.config.dryRun) await this.ledger.release(actionKey);
+      throw error;
+    }
     console.log('[CallEngine.callProspect] Created call log:', callLogId);
 
     let callResult: CallResult = {
@@ -385,6 +605,7 @@ export class CallEngine {
       prospectId: prospect.id,
       status: 'initiated',
     };
+    let dialed = false;
 
     try {
       // Step 1: Make the call with AMD
@@ -393,8 +614,9 @@ export class CallEngine {
       // Use ElevenLabs native Twilio integration for outbound calls
       // ElevenLabs handles: Twilio media bridge, STT, LLM (Gemini Flash), TTS, AMD
       
-      // Select A/B variant for this call
-      const variant: VariantConfig = selectVariant();
+      // Select A/B variant for this call (mode and exploration floor come from variants.json)
+      const allocation = await this.variants.allocate({ prospectId: prospect.id, callLogId, dryRun: this.config.dryRun });
+      const variant: VariantConfig = allocation.variant;
       console.log(`[CallEngine.callProspect] A/B variant selected: ${variant.id} (${variant.name}, agent: ${variant.agentId})`);
 
       // Build dynamic variables for personalization
@@ -443,6 +665,7 @@ export class CallEngine {
         // Make the call via ElevenLabs outbound API with A/B variant + dynamic variables
         const outboundResult = await voiceAgent.makeOutboundCall(prospect.phone, {
           agentIdOverride: variant.agentId,
+          phoneNumberIdOverride: caller?.number.elevenlabs_phone_number_id || undefined,
           prospectData: dynamicVariables,
         });
 
@@ -450,6 +673,9 @@ export class CallEngine {
           throw new Error('Failed to initiate call: ' + outboundResult.error);
         }
 
+        dialed = true;
+        await this.ledger.complete(actionKey);
+        if (caller) await this.callerIds.recordUse(caller.number);
         conversationId = outboundResult.conversationId;
         callResult.callSid = outboundResult.callSid;
         callResult.status = 'answered';
@@ -470,6 +696,7 @@ export class CallEngine {
         conversation_id: conversationId,
         agent_variant: variant.id,
         agent_id_used: variant.agentId,
+        experiment_variant_id: variant.versionId ?? null,
         status: callResult.status,
       });
 
@@ -511,6 +738,12 @@ export class CallEngine {
       callResult.success = false;
       callResult.status = 'failed';
       callResult.error = error instanceof Error ? error.message : 'Unknown error';
+
+      // The call never went out: give the reserved slot back
+      if (!dialed) {
+        await this.rateLimiter.release(rateLimitCheck.reservation);
+        if (!this.config.dryRun) await this.ledger.release(actionKey);
+      }
       
       await this.updateCallLog(callLogId, {
         status: 'failed',
@@ -523,7 +756,21 @@ export class CallEngine {
     this.lastCallTime = new Date();
 
     // Update prospect's voice_state based on call outcome
-    await this.updateProspectVoiceState(prospect.id, callResult.outcome, callResult.status);
+    await this.updateProspectVoiceState(prospect.id, callLogId, callResult.outcome, callResult.status);
+
+    if (dialed && prospect.callbackLogId) {
+      await this.callbacks.complete(prospect.callbackLogId);
+    }
+
+    // Move the prospect along its retry ladder (dry runs never dial, so they don't count)
+    if (dialed) {
+      try {
+        const attempts = await this.cadence.recordAttempt(prospect.id, resolveTimezone(prospect));
+        console.log('[CallEngine.callProspect] Call attempt', attempts, 'recorded');
+      } catch (err) {
+        console.error('[CallEngine.callProspect] Failed to record call attempt:', err);
+      }
+    }
 
     console.log('[CallEngine.callProspect] Call completed:', {
       success: callResult.success,
@@ -541,6 +788,7 @@ export class CallEngine {
    */
   private async updateProspectVoiceState(
     prospectId: string, 
+    callLogId: string,
     outcome?: string, 
     status?: string
   ): Promise<void> {
@@ -563,17 +811,22 @@ export class CallEngine {
     try {
       const { error } = await this.supabase
         .from('prospects')
-        .update({ 
-          voice_state: newState,
-          last_touchpoint_at: new Date().toISOString()
-        })
+        .update({ last_touchpoint_at: new Date().toISOString() })
         .eq('id', prospectId);
 
       if (error) {
         console.error('[CallEngine.updateProspectVoiceState] Error:', error);
-      } else {
-        console.log('[CallEngine.updateProspectVoiceState] Updated prospect', prospectId, 'to', newState);
       }
+
+      const result = await this.transitions.transition({
+        prospectId,
+        field: 'voice',
+        to: newState,
+        actor: 'call-engine',
+        event: `call_${outcome || status || 'unknown'}`,
+        eventId: callLogId,
+      });
+      console.log('[CallEngine.updateProspectVoiceState] Prospect', prospectId, newState, `(${result.status})`);
     } catch (err) {
       console.error('[CallEngine.updateProspectVoiceState] Exception:', err);
     }
@@ -585,26 +838,18 @@ export class CallEngine {
   async runBatch(limit: number = 10, templateId: string = 'web-design'): Promise<BatchResult> {
     console.log('[CallEngine.runBatch] Starting batch of up to', limit, 'calls');
 
+    // Skip loading prospects while paused; callProspect checks again before each dial
+    const pause = await this.pauses.active();
+    if (pause) {
+      console.log(`[CallEngine.runBatch] Dialer paused by ${pause.source} since ${pause.created_at}: ${pause.reason}`);
+      return emptyBatchResult();
+    }
+
     const prospects = await this.getProspectsForCalling(limit);
     
     if (prospects.length === 0) {
       console.log('[CallEngine.runBatch] No prospects available for calling');
-      return {
-        total: 0,
-        successful: 0,
-        failed: 0,
-        results: [],
-        summary: {
-          interested: 0,
-          notInterested: 0,
-          callback: 0,
-          emailRequested: 0,
-          booked: 0,
-          voicemail: 0,
-          noAnswer: 0,
-          failed: 0,
-        },
-      };
+      return emptyBatchResult();
     }
 
     const results: CallResult[] = [];
@@ -648,7 +893,8 @@ export class CallEngine {
   /**
    * Create a call log entry
    */
-  private async createCallLog(prospect: ProspectForCall): Promise<string> {
+  // callerNumber: the pool number dialed from, null when ElevenLabs used its default number
+  private async createCallLog(prospect: ProspectForCall, compliance: ComplianceDecision, callerNumber: string | null, templateId: string): Promise<string> {
     console.log('[CallEngine.createCallLog] Creating call log for prospect:', prospect.id);
 
     const { data, error } = await this.supabase
@@ -658,6 +904,9 @@ export class CallEngine {
         campaign_id: prospect.campaignId,
         status: this.config.dryRun ? 'dry_run' : 'initiated',
         direction: 'outbound',
+        caller_number: callerNumber,
+        script_template: templateId,
+        compliance,
       })
       .select('id')
       .single();
@@ -672,9 +921,13 @@ export class CallEngine {
   }
 
   /**
-   * Update a call log entry
+   * Update a call log entry. Dry-run rows keep status 'dry_run' whatever the simulated call did, so
+   * variant stats, cadence and QA scoring (which filter on it) never see simulated outcomes.
    */
   private async updateCallLog(logId: string, updates: Record<string, any>): Promise<void> {
+    if (this.config.dryRun && updates.status !== undefined) {
+      updates = { ...updates, status: 'dry_run' };
+    }
     console.log('[CallEngine.updateCallLog] Updating log:', logId, 'with:', Object.keys(updates));
 
     const { error } = await this.supabase
@@ -246,10 +246,11 @@ const OBJECTION_RESPONSES: Record<ObjectionType, ObjectionResponse> = {
 };
 
 /**
- * Detect objection type from user input
+ * Detect objection type from user input (quiet: skip logging, for batch analysis)
  */
-export function detectObjection(text: string): DetectedObjection {
-  console.log('[objection-handler.detectObjection] Analyzing text:', text);
+export function detectObjection(text: string, options: { quiet?: boolean } = {}): DetectedObjection {
+  const log = options.quiet ? () => {} : console.log;
+  log('[objection-handler.detectObjection] Analyzing text:', text);
   
   const lowerText = text.toLowerCase().trim();
   
@@ -258,7 +259,7 @@ export function detectObjection(text: string): DetectedObjection {
     
     for (const pattern of patterns) {
       if (lowerText.includes(pattern.toLowerCase())) {
-        console.log('[objection-handler.detectObjection] Detected:', type, 'with pattern:', pattern);
+        log('[objection-handler.detectObjection] Detected:', type, 'with pattern:', pattern);
         return {
           type: type as ObjectionType,
           confidence: calculateConfidence(lowerText, pattern),
@@ -268,7 +269,7 @@ export function detectObjection(text: string): DetectedObjection {
     }
   }
   
-  console.log('[objection-handler.detectObjection] No objection detected');
+  log('[objection-handler.detectObjection] No objection detected');
   return {
     type: 'unknown',
     confidence: 0,
@@ -279,8 +280,8 @@ export function detectObjection(text: string): DetectedObjection {
 /**
  * Get response for a detected objection
  */
-export function getObjectionResponse(objection: DetectedObjection): ObjectionResponse {
-  console.log('[objection-handler.getObjectionResponse] Getting response for:', objection.type);
+export function getObjectionResponse(objection: DetectedObjection, options: { quiet?: boolean } = {}): ObjectionResponse {
+  if (!options.quiet) console.log('[objection-handler.getObjectionResponse] Getting response for:', objection.type);
   
   const response = { ...OBJECTION_RESPONSES[objection.type] };
   response.confidence = objection.confidence;
@@ -304,10 +305,11 @@ export function handleObjection(userMessage: string): ObjectionResponse {
 }
 
 /**
- * Check if a message indicates interest/positivity
+ * Check if a message indicates interest/positivity (quiet: skip logging, for batch analysis)
  */
-export function detectInterest(text: string): { interested: boolean; confidence: number } {
-  console.log('[objection-handler.detectInterest] Analyzing text:', text);
+export function detectInterest(text: string, options: { quiet?: boolean } = {}): { interested: boolean; confidence: number } {
+  const log = options.quiet ? () => {} : console.log;
+  log('[objection-handler.detectInterest] Analyzing text:', text);
   
   const positiveIndicators = [
     'interested',
@@ -342,7 +344,7 @@ export function detectInterest(text: string): { interested: boolean; confidence:
   const confidence = Math.min(matches * 0.3, 0.95);
   const interested = confidence > 0.3;
   
-  console.log('[objection-handler.detectInterest] Interested:', interested, 'confidence:', confidence);
+  log('[objection-handler.detectInterest] Interested:', interested, 'confidence:', confidence);
   
   return { interested, confidence };
 }
@@ -11,7 +11,7 @@ const DRY_RUN = process.env.DRY_RUN === 'true';
 
 export interface TwilioCallOptions {
   to: string;
-  from?: string;
+  from?: string; // caller ID pool number (core/caller-id-pool); defaults to TWILIO_PHONE_NUMBER
   twiml?: string;
   url?: string;
   machineDetection?: 'Enable' | 'DetectMessageEnd';
@@ -72,6 +72,7 @@ export class VoiceAgent {
     toNumber: string,
     options?: {
       agentIdOverride?: string;
+      phoneNumberIdOverride?: string; // caller ID from the pool (core/caller-id-pool)
       prospectData?: Record<string, string>;
     }
   ): Promise<OutboundCallResult> {
@@ -90,7 +91,7 @@ export class VoiceAgent {
     try {
       const body: any = {
         agent_id: agentId,
-        agent_phone_number_id: this.phoneNumberId,
+        agent_phone_number_id: options?.phoneNumberIdOverride || this.phoneNumberId,
         to_number: toNumber,
       };
 
@@ -3,14 +3,15 @@ import 'dotenv/config';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { EmailAdapter } from '../channels/email-adapter';
 import { getHealthySenders } from '../channels/instantly-adapter';
-
-// Warmup rate limits per inbox per day
-const WARMUP_DAILY_LIMIT = 30;
-
-interface SequenceStep {
-  day: number;
-  channel: string;
-  action: string;
+import { findStep, getDefaultNextId, resolveCurrentStep } from '../core/sequence-graph';
+import { RateLimiter, EMAIL_SENDER_POOL, getEmailPoolLimits } from '../core/rate-limiter';
+import { ActionLedger, buildActionKey } from '../core/job-runner';
+import { ProspectTransitionService } from '../core/prospect-transitions';
+import { SuppressionService } from '../core/suppression';
+import { EmailExperimentService } from '../core/email-experiments';
+import { SequenceNode, Touchpoint, TouchpointRow, touchpointFromRow } from '../types';
+
+interface SequenceStep extends SequenceNode {
   subject?: string;
   body?: string;
 }
@@ -20,7 +21,8 @@ interface SequenceRow {
   id: string;
   campaign_id: string;
   prospect_id: string;
-  current_step: number;
+  current_step: string;
+  previous_step: string | null;
   status: string;
   started_at: string;
 }
@@ -54,13 +56,19 @@ interface CampaignRow {
 export class SequenceRunner {
   private supabase: SupabaseClient;
   private emailAdapter: EmailAdapter;
+  private rateLimiter: RateLimiter;
+  private ledger: ActionLedger;
+  private transitions: ProspectTransitionService;
 
   constructor() {
     const url = process.env.SUPABASE_URL!;
     const key = process.env.SUPABASE_SERVICE_ROLE_KEY!;
     if (!url || !key) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY required');
     this.supabase = createClient(url, key);
-    this.emailAdapter = new EmailAdapter();
+    this.emailAdapter = new EmailAdapter(new SuppressionService(this.supabase), new EmailExperimentService(this.supabase));
+    this.rateLimiter = new RateLimiter({}, this.supabase);
+    this.ledger = new ActionLedger(this.supabase);
+    this.transitions = new ProspectTransitionService(this.supabase);
   }
 
   async runBatch(): Promise<{ sent: number; skipped: number; errors: number }> {
@@ -114,10 +122,17 @@ export class SequenceRunner {
 
       console.log(`[Runner] ${sequences.length} active sequences`);
 
+      // Highest lead score first so rate limits go to the best leads
+      const scores = await this.loadScores(sequences.map(s => s.prospect_id));
+      (sequences as SequenceRow[]).sort((a, b) => (scores.get(b.prospect_id) ?? 0) - (scores.get(a.prospect_id) ?? 0));
+
       // 3. Process each sequence
       for (const seq of sequences as SequenceRow[]) {
-        const step = template.steps[seq.current_step];
-        if (!step) {
+        const touchpoints = findStep(template.steps, seq.previous_step)?.step.onOutcome
+          ? await this.loadTouchpoints(seq.prospect_id)
+          : [];
+        const resolved = resolveCurrentStep(template.steps, seq.current_step, seq.previous_step, touchpoints);
+        if (!resolved) {
           // Sequence complete
           console.log(`[Runner] Sequence ${seq.id} complete — no more steps`);
           console.log(`[DB] Marking sequence ${seq.id} as completed...`);
@@ -132,11 +147,14 @@ export class SequenceRunner {
           continue;
         }
 
+        const step = resolved.step;
+        const stepId = resolved.id;
+
         // Check if it's time for this step (days since start)
         const startedAt = new Date(seq.started_at);
         const daysSinceStart = Math.floor((Date.now() - startedAt.getTime()) / (1000 * 60 * 60 * 24));
         if (daysSinceStart < step.day) {
-          console.log(`[Runner] Sequence ${seq.id} step ${seq.current_step}: not due yet (day ${daysSinceStart}/${step.day})`);
+          console.log(`[Runner] Sequence ${seq.id} step ${stepId}: not due yet (day ${daysSinceStart}/${step.day})`);
           stats.skipped++;
           continue;
         }
@@ -167,15 +185,29 @@ export class SequenceRunner {
           continue;
         }
 
-        // 5. Check rate limit for sender inbox
-        const canSend = await this.checkRateLimit(prospect.email);
+        // 5. Claim the action so a replayed batch cannot send this step twice today
+        const actionKey = buildActionKey(seq.prospect_id, stepId);
+        if (!(await this.ledger.claim(actionKey, seq.prospect_id))) {
+          stats.skipped++;
+          continue;
+        }
+
+        // 6. Take a rate-limit slot for the campaign and the Instantly sender pool
+        const senders = await getHealthySenders();
+        const canSend = await this.rateLimiter.consume({
+          campaignId: seq.campaign_id,
+          channel: 'email',
+          sender: EMAIL_SENDER_POOL,
+          senderLimits: getEmailPoolLimits(senders.length),
+        });
         if (!canSend.allowed) {
           console.log(`[Runner] Rate limited: ${canSend.reason}`);
+          await this.ledger.release(actionKey);
           stats.skipped++;
           continue;
         }
 
-        // 6. Personalize and send
+        // 7. Personalize and send
         const subject = this.personalize(step.subject || 'Quick question', prospect as ProspectRow);
         const body = this.personalize(step.body || '', prospect as ProspectRow);
 
@@ -208,7 +240,9 @@ export class SequenceRunner {
         const result = await this.emailAdapter.sendColdEmail(prospectObj, subject, body);
 
         if (result.success) {
-          // 7. Record touchpoint
+          await this.ledger.complete(actionKey);
+
+          // 8. Record touchpoint
           console.log(`[DB] Recording touchpoint for ${(prospect as ProspectRow).email}...`);
           const { error: touchErr } = await this.supabase.from('touchpoints').insert({
             sequence_id: seq.id,
@@ -218,42 +252,51 @@ export class SequenceRunner {
             content: `${subject}\n\n${body}`,
             outcome: 'sent',
             sent_at: new Date().toISOString(),
+            metadata: { step_id: stepId },
           });
 
           if (touchErr) {
             console.error('[DB] Error recording touchpoint:', touchErr);
           }
 
-          // 8. Advance sequence
-          console.log(`[DB] Advancing sequence ${seq.id} to step ${seq.current_step + 1}...`);
+          // 9. Advance sequence
+          const nextStepId = getDefaultNextId(template.steps, stepId);
+          console.log(`[DB] Advancing sequence ${seq.id} to step ${nextStepId ?? '(end)'}...`);
           const { error: advanceErr } = await this.supabase
             .from('sequences')
-            .update({ current_step: seq.current_step + 1 })
+            .update(nextStepId !== null
+              ? { current_step: nextStepId, previous_step: stepId }
+              : { previous_step: stepId, status: 'completed', completed_at: new Date().toISOString() })
             .eq('id', seq.id);
 
           if (advanceErr) {
             console.error('[DB] Error advancing sequence:', advanceErr);
           }
 
-          // 9. Update rate limit
-          console.log(`[DB] Incrementing rate limit for ${result.metadata?.from || 'unknown'}...`);
-          await this.incrementRateLimit(result.metadata?.from || 'unknown');
-
-          // 10. Update prospect status
+          // 10. Update prospect email + pipeline state
           console.log(`[DB] Updating prospect ${prospect.id} status to contacted...`);
-          const { error: statusErr } = await this.supabase
-            .from('prospects')
-            .update({ state: 'contacted' })
-            .eq('id', prospect.id);
-
-          if (statusErr) {
-            console.error('[DB] Error updating prospect status:', statusErr);
+          try {
+            for (const [field, to] of [['email', 'sent'], ['pipeline', 'contacted']] as const) {
+              await this.transitions.transition({
+                prospectId: prospect.id,
+                field,
+                to,
+                actor: 'sequence-runner',
+                event: step.action || 'cold_email',
+                eventId: seq.id,
+                onInvalid: 'skip', // follow-ups reach prospects already opened/engaged
+              });
+            }
+          } catch (err: any) {
+            console.error('[DB] Error updating prospect status:', err.message);
           }
 
           stats.sent++;
-          console.log(`[Runner] ✓ Sent step ${seq.current_step} to ${(prospect as ProspectRow).email}`);
+          console.log(`[Runner] ✓ Sent step ${stepId} to ${(prospect as ProspectRow).email}`);
         } else {
           stats.errors++;
+          await this.rateLimiter.release(canSend.reservation);
+          await this.ledger.release(actionKey);
           console.log(`[Runner] ✗ Failed for ${(prospect as ProspectRow).email}: ${result.error}`);
         }
 
@@ -266,6 +309,34 @@ export class SequenceRunner {
     return stats;
   }
 
+  private async loadScores(prospectIds: string[]): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .from('prospects')
+      .select('id, score')
+      .in('id', prospectIds);
+
+    if (error) {
+      console.error('[DB] Error loading prospect scores:', error);
+      return new Map();
+    }
+
+    return new Map((data || []).map(row => [row.id, row.score ?? 0]));
+  }
+
+  private async loadTouchpoints(prospectId: string): Promise<Touchpoint[]> {
+    const { data, error } = await this.supabase
+      .from('touchpoints')
+      .select('*')
+      .eq('prospect_id', prospectId);
+
+    if (error) {
+      console.error('[DB] Error loading touchpoints:', error);
+      return [];
+    }
+
+    return (data || []).map(row => touchpointFromRow(row as TouchpointRow));
+  }
+
   private personalize(template: string, prospect: ProspectRow): string {
     const companyName = prospect.company_name || prospect.company || 'your company';
     const firstName = ((prospect as any).name || '').split(' ')[0] || 'there';
@@ -288,81 +359,4 @@ export class SequenceRunner {
       .replace(/\{\{specific_detail\}\}/g, prospect.specific_detail || '')
       .replace(/\{\{desired_benefit\}\}/g, prospect.desired_benefit || 'growth');
   }
-
-  private async checkRateLimit(prospectEmail: string): Promise<{ allowed: boolean; reason?: string }> {
-    const today = new Date().toISOString().split('T')[0];
-
-    // Check all inboxes - find total daily sends
-    console.log(`[DB] Checking rate limits for email channel on ${today}...`);
-    const { data: limits, error } = await this.supabase
-      .from('rate_limits')
-      .select('*')
-      .eq('channel', 'email')
-      .eq('date', today);
-
-    if (error) {
-      console.error('[DB] Error checking rate limits:', error);
-    }
-
-    // Check per-inbox limits
-    for (const limit of limits || []) {
-      if (limit.count >= WARMUP_DAILY_LIMIT) {
-        // This inbox is maxed, but others might be available
-        continue;
-      }
-    }
-
-    // Total across all inboxes
-    const totalSent = (limits || []).reduce((sum: number, l: any) => sum + (l.count || 0), 0);
-    const senders = await getHealthySenders(); const totalLimit = senders.length * WARMUP_DAILY_LIMIT;
-
-    if (totalSent >= totalLimit) {
-      return { allowed: false, reason: `Daily total limit reached (${totalSent}/${totalLimit})` };
-    }
-
-    return { allowed: true };
-  }
-
-  private async incrementRateLimit(inboxEmail: string): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-
-    // Try to get existing record
-    console.log(`[DB] Fetching existing rate limit for ${inboxEmail} on ${today}...`);
-    const { data: existing, error: fetchErr } = await this.supabase
-      .from('rate_limits')
-      .select('*')
-      .eq('channel', 'email')
-      .eq('campaign_id', 'global') // Using global for now
-      .eq('date', today)
-      .single();
-
-    if (fetchErr && fetchErr.code !== 'PGRST116') { // PGRST116 = no rows
-      console.error('[DB] Error fetching rate limit:', fetchErr);
-    }
-
-    if (existing) {
-      console.log(`[DB] Updating rate limit count to ${(existing.count || 0) + 1}...`);
-      const { error: updateErr } = await this.supabase
-        .from('rate_limits')
-        .update({ count: (existing.count || 0) + 1 })
-        .eq('id', existing.id);
-      
-      if (updateErr) {
-        console.error('[DB] Error updating rate limit:', updateErr);
-      }
-    } else {
-      console.log(`[DB] Inserting new rate limit for ${inboxEmail}...`);
-      const { error: insertErr } = await this.supabase.from('rate_limits').insert({
-        campaign_id: 'global',
-        channel: 'email',
-        date: today,
-        count: 1,
-        max_limit: WARMUP_DAILY_LIMIT,
-      });
-
-      if (insertErr) {
-        console.error('[DB] Error inserting rate limit:', insertErr);
-      }
-    }
-  }
 }
@@ -0,0 +1,306 @@
+/**
+ * Caller ID reputation monitor.
+ * Snapshots each number's spam score and answer metrics on a schedule, compares them with the
+ * number's recent baseline, and quarantines numbers (or pauses the dialer) when thresholds are crossed.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CallMetrics, SpamStatusResult, checkSpamStatus, getCallMetrics } from './spam-monitor';
+import { CallerIdPool, CallerNumberRow } from '../core/caller-id-pool';
+import { DialerPauseRow, DialerPauseService } from '../core/dialer-pause';
+import { fetchAllPages } from '../core/paging';
+import { postReputationAlert } from '../webhooks/discord-notifier';
+
+const DEFAULT_CALLER_ID = process.env.TWILIO_PHONE_NUMBER || '+17704077842';
+
+export type ReputationAction = 'none' | 'quarantined' | 'dialer_paused';
+
+export interface ReputationThresholds {
+  minCalls: number; // answer metrics are ignored below this many calls in the window
+  minAnswerRate: number; // %
+  maxShortCallRatio: number; // %
+  maxAnswerRateDrop: number; // percentage points below the baseline
+  maxShortCallRise: number; // percentage points above the baseline
+}
+
+// Absolute limits match analyzeCallMetrics
+export const DEFAULT_REPUTATION_THRESHOLDS: ReputationThresholds = {
+  minCalls: 20,
+  minAnswerRate: 30,
+  maxShortCallRatio: 50,
+  maxAnswerRateDrop: 15,
+  maxShortCallRise: 20,
+};
+
+export interface ReputationSnapshotRow {
+  id: string;
+  phone_number: string;
+  window_hours: number;
+  spam_score: number | null;
+  flagged: boolean;
+  carrier_flags: string[];
+  total_calls: number;
+  answered: number;
+  answer_rate: number;
+  short_calls: number;
+  short_call_ratio: number;
+  avg_duration_seconds: number;
+  answer_rate_delta: number | null; // vs baseline, percentage points
+  short_call_ratio_delta: number | null;
+  breaches: string[];
+  action: ReputationAction;
+  created_at: string;
+}
+
+export interface ReputationBaseline {
+  answerRate: number;
+  shortCallRatio: number;
+  snapshots: number;
+}
+
+export interface ReputationEvaluation {
+  shortCallRatio: number;
+  answerRateDelta: number | null;
+  shortCallRatioDelta: number | null;
+  breaches: string[];
+}
+
+export interface ReputationMonitorOptions {
+  windowHours?: number; // metrics window per snapshot
+  baselineDays?: number; // how far back the baseline reaches
+  quarantineHours?: number;
+  dialerPauseHours?: number;
+  thresholds?: Partial<ReputationThresholds>;
+  dryRun?: boolean;
+}
+
+export interface ReputationRunResult {
+  phoneNumber: string;
+  breaches: string[];
+  action: ReputationAction;
+  error?: string;
+}
+
+export interface ReputationHistory {
+  phoneNumber: string;
+  latest: ReputationSnapshotRow | null;
+  snapshots: ReputationSnapshotRow[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getShortCallRatio(metrics: CallMetrics): number {
+  return metrics.total_calls > 0 ? round((metrics.short_calls / metrics.total_calls) * 100) : 0;
+}
+
+// Mean of earlier snapshots that had enough calls to count
+export function computeBaseline(history: ReputationSnapshotRow[], minCalls: number): ReputationBaseline | null {
+  const usable = history.filter(s => s.total_calls >= minCalls);
+  if (!usable.length) return null;
+  return {
+    answerRate: round(usable.reduce((sum, s) => sum + Number(s.answer_rate), 0) / usable.length),
+    shortCallRatio: round(usable.reduce((sum, s) => sum + Number(s.short_call_ratio), 0) / usable.length),
+    snapshots: usable.length,
+  };
+}
+
+/**
+ * Compare a number's current spam status and metrics with its baseline.
+ * A spam flag always breaches; answer metrics only count once the window has minCalls calls.
+ */
+export function evaluateReputation(
+  spam: Pick<SpamStatusResult, 'flagged' | 'score'> | null,
+  metrics: CallMetrics,
+  baseline: ReputationBaseline | null,
+  thresholds: ReputationThresholds = DEFAULT_REPUTATION_THRESHOLDS
+): ReputationEvaluation {
+  const shortCallRatio = getShortCallRatio(metrics);
+  const answerRateDelta = baseline ? round(metrics.answer_rate - baseline.answerRate) : null;
+  const shortCallRatioDelta = baseline ? round(shortCallRatio - baseline.shortCallRatio) : null;
+  const breaches: string[] = [];
+
+  if (spam?.flagged) {
+    breaches.push(`Spam score ${spam.score}`);
+  }
+
+  if (metrics.total_calls >= thresholds.minCalls) {
+    if (metrics.answer_rate < thresholds.minAnswerRate) {
+      breaches.push(`Answer rate ${metrics.answer_rate}% (min ${thresholds.minAnswerRate}%)`);
+    }
+    if (shortCallRatio > thresholds.maxShortCallRatio) {
+      breaches.push(`Short-call ratio ${shortCallRatio}% (max ${thresholds.maxShortCallRatio}%)`);
+    }
+    if (answerRateDelta !== null && -answerRateDelta > thresholds.maxAnswerRateDrop) {
+      breaches.push(`Answer rate down ${-answerRateDelta} pts vs baseline ${baseline!.answerRate}%`);
+    }
+    if (shortCallRatioDelta !== null && shortCallRatioDelta > thresholds.maxShortCallRise) {
+      breaches.push(`Short-call ratio up ${shortCallRatioDelta} pts vs baseline ${baseline!.shortCallRatio}%`);
+    }
+  }
+
+  return { shortCallRatio, answerRateDelta, shortCallRatioDelta, breaches };
+}
+
+export class ReputationMonitor {
+  private supabase: SupabaseClient;
+  private pool: CallerIdPool;
+  private pauses: DialerPauseService;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+    this.pool = new CallerIdPool(supabase);
+    this.pauses = new DialerPauseService(supabase);
+  }
+
+  /**
+   * Snapshot every active voice number in the pool. A pooled number that breaches is quarantined;
+   * when the pool is empty the default caller ID is watched instead and a breach pauses the dialer,
+   * as it does when quarantines leave no voice number available.
+   */
+  async run(options: ReputationMonitorOptions = {}, now: Date = new Date()): Promise<ReputationRunResult[]> {
+    const thresholds = { ...DEFAULT_REPUTATION_THRESHOLDS, ...options.thresholds };
+    const windowHours = options.windowHours ?? 24;
+    const quarantineHours = options.quarantineHours ?? 72;
+
+    const numbers = (await this.pool.list()).filter(n => n.channels?.includes('voice'));
+    const targets: Array<CallerNumberRow | null> = numbers.length ? numbers : [null];
+    const results: ReputationRunResult[] = [];
+    const resting = (n: CallerNumberRow) => !!n.rested_until && new Date(n.rested_until) > now;
+
+    for (const number of targets) {
+      const phoneNumber = number?.phone_number || DEFAULT_CALLER_ID;
+      try {
+        const [spam, metrics, history] = await Promise.all([
+          checkSpamStatus(phoneNumber),
+          // Without a pool every call goes out on the default number
+          getCallMetrics(windowHours, number ? phoneNumber : undefined),
+          this.loadHistory(phoneNumber, options.baselineDays ?? 7, now),
+        ]);
+        const evaluation = evaluateReputation(spam, metrics, computeBaseline(history, thresholds.minCalls), thresholds);
+
+        // Numbers already sitting out (or a dialer already paused) are snapshotted but not acted on again
+        const alreadyStopped = number ? resting(number) : !!(await this.pauses.active(now));
+
+        let action: ReputationAction = 'none';
+        if (evaluation.breaches.length && !alreadyStopped) {
+          action = number ? 'quarantined' : 'dialer_paused';
+          const reason = evaluation.breaches.join('; ');
+          if (number) {
+            if (!options.dryRun) await this.pool.rest(number, quarantineHours, `quarantine: ${reason}`, now);
+            number.rested_until = new Date(now.getTime() + quarantineHours * 60 * 60 * 1000).toISOString();
+          } else if (!options.dryRun) {
+            await this.pauses.pause(`${phoneNumber}: ${reason}`, 'reputation-monitor', options.dialerPauseHours, now);
+          }
+          await this.alert(phoneNumber, action, evaluation, metrics, options.dryRun);
+        }
+
+        if (!options.dryRun) {
+          await this.saveSnapshot(phoneNumber, windowHours, spam, metrics, evaluation, action);
+        }
+        results.push({ phoneNumber, breaches: evaluation.breaches, action });
+      } catch (err: any) {
+        console.error(`[Reputation] Check failed for ${phoneNumber}:`, err.message);
+        results.push({ phoneNumber, breaches: [], action: 'none', error: err.message });
+      }
+    }
+
+    const quarantined = results.filter(r => r.action === 'quarantined').length;
+    if (quarantined && numbers.length && numbers.every(resting)) {
+      const reason = `All ${numbers.length} pooled caller IDs are quarantined or resting`;
+      if (!options.dryRun) await this.pauses.pause(reason, 'reputation-monitor', options.dialerPauseHours, now);
+      await postReputationAlert({ title: 'Dialer paused', description: reason, fields: [] }, options.dryRun);
+    }
+
+    return results;
+  }
+
+  // Snapshots since `days` ago, oldest first; all numbers unless one is given
+  async history(options: { phoneNumber?: string; days?: number } = {}, now: Date = new Date()): Promise<ReputationHistory[]> {
+    const since = new Date(now.getTime() - (options.days ?? 30) * 24 * 60 * 60 * 1000).toISOString();
+    // Paged: a snapshot per number per run passes PostgREST's 1000-row cap, which would drop the newest
+    const { data, error } = await fetchAllPages<ReputationSnapshotRow>((from, to) => {
+      let query = this.supabase
+        .from('caller_reputation_snapshots')
+        .select('*')
+        .gte('created_at', since);
+      if (options.phoneNumber) query = query.eq('phone_number', options.phoneNumber);
+      return query.order('created_at', { ascending: true }).order('id', { ascending: true }).range(from, to);
+    });
+    if (error) {
+      throw new Error(`Failed to load reputation history: ${error.message}`);
+    }
+
+    const byNumber = new Map<string, ReputationSnapshotRow[]>();
+    for (const row of data) {
+      if (!byNumber.has(row.phone_number)) byNumber.set(row.phone_number, []);
+      byNumber.get(row.phone_number)!.push(row);
+    }
+    return [...byNumber.entries()].map(([phoneNumber, snapshots]) => ({
+      phoneNumber,
+      latest: snapshots[snapshots.length - 1] || null,
+      snapshots,
+    }));
+  }
+
+  async dialerPause(now: Date = new Date()): Promise<DialerPauseRow | null> {
+    return this.pauses.active(now);
+  }
+
+  private async loadHistory(phoneNumber: string, days: number, now: Date): Promise<ReputationSnapshotRow[]> {
+    const [entry] = await this.history({ phoneNumber, days }, now);
+    return entry?.snapshots || [];
+  }
+
+  private async saveSnapshot(
+    phoneNumber: string,
+    windowHours: number,
+    spam: SpamStatusResult,
+    metrics: CallMetrics,
+    evaluation: ReputationEvaluation,
+    action: ReputationAction
+  ): Promise<void> {
+    const { error } = await this.supabase.from('caller_reputation_snapshots').insert({
+      phone_number: phoneNumber,
+      window_hours: windowHours,
+      spam_score: spam.score,
+      flagged: spam.flagged,
+      carrier_flags: spam.carrier_flags,
+      total_calls: metrics.total_calls,
+      answered: metrics.answered,
+      answer_rate: metrics.answer_rate,
+      short_calls: metrics.short_calls,
+      short_call_ratio: evaluation.shortCallRatio,
+      avg_duration_seconds: metrics.avg_duration_seconds,
+      answer_rate_delta: evaluation.answerRateDelta,
+      short_call_ratio_delta: evaluation.shortCallRatioDelta,
+      breaches: evaluation.breaches,
+      action,
+    });
+
+    if (error) {
+      console.error(`[Reputation] Failed to save snapshot for ${phoneNumber}:`, error.message);
+    }
+  }
+
+  private async alert(
+    phoneNumber: string,
+    action: ReputationAction,
+    evaluation: ReputationEvaluation,
+    metrics: CallMetrics,
+    dryRun?: boolean
+  ): Promise<void> {
+    const title = action === 'quarantined' ? `Caller ID quarantined: ${phoneNumber}` : `Dialer paused: ${phoneNumber}`;
+    const delta = (value: number | null) => (value === null ? 'no baseline' : `${value > 0 ? '+' : ''}${value} pts`);
+    await postReputationAlert({
+      title,
+      description: evaluation.breaches.join('\n'),
+      fields: [
+        { name: 'Calls', value: String(metrics.total_calls), inline: true },
+        { name: 'Answer rate', value: `${metrics.answer_rate}% (${delta(evaluation.answerRateDelta)})`, inline: true },
+        { name: 'Short calls', value: `${evaluation.shortCallRatio}% (${delta(evaluation.shortCallRatioDelta)})`, inline: true },
+      ],
+    }, dryRun);
+  }
+}
@@ -80,12 +80,16 @@ export async function checkSpamStatus(phoneNumber: string): Promise<SpamStatusRe
 
 /**
  * Get call metrics for the specified time window from Supabase.
+ * Pass a caller number to only count calls placed from it.
  */
-export async function getCallMetrics(hours: number): Promise<CallMetrics> {
+export async function getCallMetrics(hours: number, callerNumber?: string): Promise<CallMetrics> {
   const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
   
   // Query call_logs for calls in the time window
-  const url = `${SUPABASE_URL}/rest/v1/call_logs?completed_at=gte.${encodeURIComponent(cutoff)}&select=duration_seconds,outcome`;
+  let url = `${SUPABASE_URL}/rest/v1/call_logs?completed_at=gte.${encodeURIComponent(cutoff)}&select=duration_seconds,outcome`;
+  if (callerNumber) {
+    url += `&caller_number=eq.${encodeURIComponent(callerNumber)}`;
+  }
   
   const res = await fetch(url, { headers: sbHeaders });
   
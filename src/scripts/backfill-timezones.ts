@@ -0,0 +1,94 @@
+#!/usr/bin/env ts-node
+// Backfill prospects.timezone from state, city/location and phone area code
+// Usage:
+//   npx ts-node src/scripts/backfill-timezones.ts [--dry-run] [--batch 500]
+
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import { inferTimezone } from '../core/timezone-resolver';
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+async function main() {
+  const dryRun = args.includes('--dry-run');
+  const batchSize = parseInt(getArg('--batch') || '500', 10);
+
+  const supabaseUrl = process.env.SUPABASE_URL!;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY required');
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  let scanned = 0;
+  let updated = 0;
+  let unresolved = 0;
+  let lastId: string | null = null;
+  const byZone: Record<string, number> = {};
+
+  // Page by id so rows left unresolved are not fetched again
+  while (true) {
+    let query = supabase
+      .from('prospects')
+      .select('id, state, city, location, phone')
+      .is('timezone', null)
+      .order('id', { ascending: true })
+      .limit(batchSize);
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: rows, error } = await query;
+    if (error) {
+      console.error(`[Backfill] Error fetching prospects: ${error.message}`);
+      process.exit(1);
+    }
+    if (!rows?.length) break;
+
+    for (const row of rows) {
+      scanned++;
+      const timezone = inferTimezone(row);
+      if (!timezone) {
+        unresolved++;
+        continue;
+      }
+
+      byZone[timezone] = (byZone[timezone] || 0) + 1;
+      if (dryRun) {
+        updated++;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('prospects')
+        .update({ timezone })
+        .eq('id', row.id);
+
+      if (updateError) {
+        console.error(`[Backfill] Error updating ${row.id}: ${updateError.message}`);
+      } else {
+        updated++;
+      }
+    }
+
+    lastId = rows[rows.length - 1].id;
+    console.log(`[Backfill] Scanned ${scanned} prospects...`);
+  }
+
+  console.log(`\n[Backfill] === Results${dryRun ? ' (dry run)' : ''} ===`);
+  console.log(`  Scanned: ${scanned}`);
+  console.log(`  ${dryRun ? 'Would update' : 'Updated'}: ${updated}`);
+  console.log(`  Unresolved: ${unresolved}`);
+  for (const [zone, count] of Object.entries(byZone).sort((a, b) => b[1] - a[1])) {
+    console.log(`    ${zone}: ${count}`);
+  }
+}
+
+main().catch(err => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env ts-node
+// Check every pooled caller ID against spam lookups and its recent answer metrics; rest unhealthy ones
+// Usage:
+//   npx ts-node src/scripts/check-caller-numbers.ts [--dry-run] [--rest-hours 72] [--metrics-hours 24]
+
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import { JobRunner } from '../core/job-runner';
+import { CallerIdPool, DEFAULT_REST_HOURS, HealthCheckResult } from '../core/caller-id-pool';
+
+export const CALLER_NUMBER_HEALTH_JOB = 'caller-number-health';
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+async function main() {
+  const dryRun = args.includes('--dry-run');
+  const restHours = parseInt(getArg('--rest-hours') || String(DEFAULT_REST_HOURS), 10);
+  const metricsHours = parseInt(getArg('--metrics-hours') || '24', 10);
+
+  const supabaseUrl = process.env.SUPABASE_URL!;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY required');
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const pool = new CallerIdPool(supabase);
+  const check = () => pool.checkHealth({ restHours, metricsHours, dryRun });
+
+  let results: HealthCheckResult[];
+  if (dryRun) {
+    results = await check();
+  } else {
+    const run = await new JobRunner(supabase).run(CALLER_NUMBER_HEALTH_JOB, check, r => ({
+      checked: r.length,
+      rested: r.filter(n => n.rested).length,
+      errors: r.filter(n => n.error).length,
+    }));
+    if (!run.result) {
+      console.log('⏭️  Another caller number check holds the lock, skipping');
+      return;
+    }
+    results = run.result;
+  }
+
+  for (const r of results) {
+    const status = r.error ? `⚠️  ${r.error}` : r.rested ? '😴 rested' : '✓ healthy';
+    console.log(`${r.phoneNumber}  score=${r.spamScore ?? '-'}  ${status}${r.warnings.length ? `  (${r.warnings.join('; ')})` : ''}`);
+  }
+
+  const rested = results.filter(r => r.rested).length;
+  console.log(`\n✅ ${dryRun ? '[DRY RUN] ' : ''}Checked ${results.length} numbers, ${rested} ${dryRun ? 'would be ' : ''}rested for ${restHours}h`);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
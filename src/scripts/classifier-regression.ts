@@ -0,0 +1,119 @@
+#!/usr/bin/env ts-node
+// Run a transcript classifier over the labeled fixtures and report mismatches. Exits non-zero when a
+// fixture not listed in its knownMisses for that classifier is misclassified.
+// Labels: outcome and doNotContact must match; email (if labeled) must match case-insensitively;
+// callbackTime: true means a callback time must be extracted. Objections are reported as recall only.
+// Usage:
+//   npx ts-node src/scripts/classifier-regression.ts [--classifier regex|llm] [--fixtures path] [--verbose]
+// --classifier llm uses the environment's LLM classifier (TRANSCRIPT_CLASSIFIER, CLASSIFIER_LLM_*, MINIMAX_API_KEY)
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RegexTranscriptClassifier,
+  TranscriptClassification,
+  TranscriptClassifier,
+  TranscriptTurn,
+  createTranscriptClassifier,
+} from '../core/transcript-classifier';
+
+interface FixtureLabel {
+  outcome: string;
+  doNotContact?: boolean;
+  email?: string;
+  callbackTime?: boolean;
+  objections?: string[];
+}
+
+interface Fixture {
+  id: string;
+  label: FixtureLabel;
+  knownMisses?: string[];
+  transcript: TranscriptTurn[];
+  analysis?: any;
+}
+
+const DEFAULT_FIXTURES = path.join(__dirname, '../../fixtures/transcripts/labeled.json');
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function mismatches(label: FixtureLabel, result: TranscriptClassification): string[] {
+  const problems: string[] = [];
+  if (result.outcome !== label.outcome) problems.push(`outcome ${result.outcome}, expected ${label.outcome}`);
+  if (label.doNotContact !== undefined && result.doNotContact !== label.doNotContact) {
+    problems.push(`doNotContact ${result.doNotContact}, expected ${label.doNotContact}`);
+  }
+  if (label.email !== undefined && (result.email || '').toLowerCase() !== label.email.toLowerCase()) {
+    problems.push(`email ${result.email}, expected ${label.email}`);
+  }
+  if (label.callbackTime && !result.callbackTime) problems.push('no callback time extracted');
+  return problems;
+}
+
+async function main() {
+  const kind = getArg('--classifier') || 'regex';
+  const verbose = args.includes('--verbose');
+  const file = getArg('--fixtures') || DEFAULT_FIXTURES;
+  const { fixtures } = JSON.parse(fs.readFileSync(file, 'utf8')) as { fixtures: Fixture[] };
+
+  let classifier: TranscriptClassifier;
+  if (kind === 'regex') {
+    classifier = new RegexTranscriptClassifier();
+  } else if (kind === 'llm') {
+    classifier = createTranscriptClassifier();
+    if (classifier instanceof RegexTranscriptClassifier) {
+      console.error('Error: no LLM classifier configured (set CLASSIFIER_LLM_BASE_URL + CLASSIFIER_LLM_API_KEY, or MINIMAX_API_KEY)');
+      process.exit(1);
+    }
+  } else {
+    console.error(`Error: unknown classifier "${kind}" (regex or llm)`);
+    process.exit(1);
+  }
+
+  console.log(`🧪 ${classifier.name} classifier on ${fixtures.length} fixtures (${path.relative(process.cwd(), file)})\n`);
+
+  let passed = 0;
+  let regressions = 0;
+  let objectionHits = 0;
+  let objectionTotal = 0;
+
+  for (const fixture of fixtures) {
+    const result = await classifier.classify({ transcript: fixture.transcript, analysis: fixture.analysis });
+    if (result.classifier !== classifier.name && !classifier.name.startsWith(result.classifier)) {
+      console.log(`  ⚠️  ${fixture.id}: answered by ${result.classifier}`);
+    }
+
+    const problems = mismatches(fixture.label, result);
+    const knownMiss = (fixture.knownMisses || []).includes(kind);
+    const expected = fixture.label.objections || [];
+    objectionTotal += expected.length;
+    objectionHits += expected.filter(o => (result.objections as string[]).includes(o)).length;
+
+    if (!problems.length) {
+      passed++;
+      console.log(`  ✓ ${fixture.id}${knownMiss ? '  (now passes; remove from knownMisses)' : ''}`);
+    } else if (knownMiss) {
+      console.log(`  ~ ${fixture.id}  known miss: ${problems.join('; ')}`);
+    } else {
+      regressions++;
+      console.log(`  ✗ ${fixture.id}  ${problems.join('; ')}`);
+    }
+    if (verbose) console.log(`      ${JSON.stringify(result)}`);
+  }
+
+  const recall = objectionTotal ? `${((objectionHits / objectionTotal) * 100).toFixed(0)}%` : 'n/a';
+  console.log(`\n${regressions ? '❌' : '✅'} ${passed}/${fixtures.length} correct, ${regressions} regression(s), objection recall ${recall}`);
+  if (regressions) process.exit(1);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
@@ -2,19 +2,31 @@
 // Cron Entry Point — clean runner for daily-sequence
 // Outputs JSON summary, exits cleanly
 import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import { JobRunner } from '../core/job-runner';
 
 async function main() {
   const start = Date.now();
   
-  // Import and run daily sequence
-  const { executeDailySequences } = await import('./daily-sequence');
-  await executeDailySequences();
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY required');
+  }
+  
+  // Import and run daily sequence under the job lease
+  const { executeDailySequences, DAILY_SEQUENCE_JOB } = await import('./daily-sequence');
+  const jobs = new JobRunner(createClient(supabaseUrl, supabaseKey));
+  const run = await jobs.run(DAILY_SEQUENCE_JOB, executeDailySequences, counts => counts);
   
   const elapsed = ((Date.now() - start) / 1000).toFixed(1);
   
   const summary = {
     timestamp: new Date().toISOString(),
     elapsedSeconds: parseFloat(elapsed),
+    status: run.status,
+    runId: run.runId,
+    counts: run.counts,
   };
   
   console.log('\n📊 CRON SUMMARY:');
@@ -4,12 +4,15 @@
 import 'dotenv/config';
 import { createClient } from '@supabase/supabase-js';
 import { SequenceEngine } from '../core/sequence-engine';
-import { RateLimiter } from '../core/rate-limiter';
+import { EMAIL_SENDER_POOL, RateLimitScope, RateLimiter, WindowLimits, getEmailPoolLimits } from '../core/rate-limiter';
+import { ActionLedger, JobCounts, JobRunner, buildActionKey } from '../core/job-runner';
 import { ProspectStateMachine } from '../core/state-machine';
+import { ProspectTransitionService } from '../core/prospect-transitions';
 import { LinkedInAdapter } from '../channels/linkedin-adapter';
 import { XAdapter } from '../channels/x-adapter';
 import { EmailAdapter } from '../channels/email-adapter';
 import { VoiceAdapter } from '../channels/voice-adapter';
+import { getHealthySenders } from '../channels/instantly-adapter';
 import { 
   CampaignRow, 
   SequenceRow, 
@@ -19,6 +22,7 @@ import {
   campaignFromRow,
   prospectFromRow,
   touchpointFromRow,
+  sequenceFromRow,
 } from '../types';
 
 const CHANNEL_ADAPTERS = {
@@ -28,7 +32,9 @@ const CHANNEL_ADAPTERS = {
   voice: new VoiceAdapter(),
 };
 
-export async function executeDailySequences() {
+export const DAILY_SEQUENCE_JOB = 'daily-sequence';
+
+export async function executeDailySequences(): Promise<JobCounts> {
   const supabaseUrl = process.env.SUPABASE_URL;
   const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
   
@@ -38,6 +44,17 @@ export async function executeDailySequences() {
   }
   
   const supabase = createClient(supabaseUrl, supabaseKey);
+  const ledger = new ActionLedger(supabase);
+  const transitions = new ProspectTransitionService(supabase);
+  const totals = { executed: 0, skipped: 0, errors: 0 };
+
+  // Email also counts against the Instantly sender pool, sized by its healthy inboxes (looked up once per run)
+  let emailPoolLimits: Promise<WindowLimits> | null = null;
+  const getRateLimitScope = async (campaignId: string, channel: Channel): Promise<RateLimitScope> => {
+    if (channel !== 'email') return { campaignId, channel };
+    emailPoolLimits ??= getHealthySenders().then(senders => getEmailPoolLimits(senders.length));
+    return { campaignId, channel, sender: EMAIL_SENDER_POOL, senderLimits: await emailPoolLimits };
+  };
   
   console.log('🚀 Starting daily sequence execution...\n');
   
@@ -55,7 +72,7 @@ export async function executeDailySequences() {
   
   if (!campaigns || campaigns.length === 0) {
     console.log('No active campaigns');
-    return;
+    return totals;
   }
   
   console.log(`[DB] Found ${campaigns.length} active campaigns`);
@@ -70,25 +87,7 @@ export async function executeDailySequences() {
       x: { daily: campaign.dailyLimits.x, hourly: 20 },
       email: { daily: campaign.dailyLimits.email, hourly: 10 },
       voice: { daily: campaign.dailyLimits.voice, hourly: 10 },
-    });
-    
-    // Get rate limits for today
-    const today = new Date().toISOString().split('T')[0];
-    console.log(`[DB] Fetching rate limits for ${today}...`);
-    const { data: rateLimits, error: rateLimitError } = await supabase
-      .from('rate_limits')
-      .select('*')
-      .eq('campaign_id', campaign.id)
-      .eq('date', today);
-    
-    if (rateLimitError) {
-      console.error('[DB] Error fetching rate limits:', rateLimitError);
-    }
-    
-    const rateLimitMap = new Map(
-      (rateLimits || []).map(r => [r.channel as Channel, r])
-    );
-    console.log(`[DB] Found ${rateLimits?.length || 0} rate limit records`);
+    }, supabase);
     
     // Get active sequences
     console.log(`[DB] Fetching active sequences with next_step_at <= now...`);
@@ -129,6 +128,11 @@ export async function executeDailySequences() {
     );
     console.log(`[DB] Found ${prospects?.length || 0} prospects`);
     
+    // Work the highest-scoring prospects first so rate limits go to the best leads
+    (sequences as SequenceRow[]).sort((a, b) =>
+      (prospectMap.get(b.prospect_id)?.score ?? 0) - (prospectMap.get(a.prospect_id)?.score ?? 0)
+    );
+    
     // Get touchpoints for these prospects
     console.log(`[DB] Fetching touchpoints for prospects...`);
     const { data: touchpoints, error: touchError } = await supabase
@@ -164,7 +168,7 @@ export async function executeDailySequences() {
       
       // Get next step
       const sequence = sequenceFromRow(sequenceRow);
-      const next = engine.getNextStep(sequence, prospectTouchpoints);
+      const next = engine.getNextStep(sequence, prospectTouchpoints, prospect);
       if (!next) {
         // Sequence complete
         console.log(`[DB] Marking sequence ${sequence.id} as completed`);
@@ -179,17 +183,6 @@ export async function executeDailySequences() {
         continue;
       }
       
-      // Check rate limits
-      const rateLimit = rateLimitMap.get(next.step.channel);
-      const currentCount = rateLimit?.count || 0;
-      
-      const canExecute = rateLimiter.canExecute(next.step.channel, currentCount);
-      if (!canExecute.allowed) {
-        skipped++;
-        console.log(`  ⏭️  Skipped ${prospect.name}: ${canExecute.reason}`);
-        continue;
-      }
-      
       // Check if already contacted today
       if (RateLimiter.hasBeenContactedToday(prospectTouchpoints)) {
         skipped++;
@@ -205,6 +198,32 @@ export async function executeDailySequences() {
         continue;
       }
       
+      // Claim prospect + step for today so a replayed run is a no-op
+      const actionKey = buildActionKey(prospect.id, next.stepId);
+      if (!(await ledger.claim(actionKey, prospect.id))) {
+        skipped++;
+        console.log(`  ⏭️  Skipped ${prospect.name}: step ${next.stepId} already claimed today`);
+        continue;
+      }
+      
+      // Take a rate-limit slot (sliding hourly + daily windows, released if the send fails)
+      let quota;
+      try {
+        quota = await rateLimiter.consume(await getRateLimitScope(campaign.id, next.step.channel));
+      } catch (limitErr: any) {
+        errors++;
+        await ledger.release(actionKey);
+        console.log(`  ❌ Error: rate limit check for ${prospect.name} failed: ${limitErr.message}`);
+        continue;
+      }
+      if (!quota.allowed) {
+        skipped++;
+        await ledger.release(actionKey);
+        console.log(`  ⏭️  Skipped ${prospect.name}: ${quota.reason}`);
+        continue;
+      }
+      
+      let sent = false;
       try {
         // Replace template placeholders with prospect data
         const nameParts = (prospect.name || '').split(' ');
@@ -220,8 +239,11 @@ export async function executeDailySequences() {
 
         console.log(`[Adapter] Sending ${next.step.channel} ${next.step.action} to ${prospect.name}...`);
         const result = await adapter.send(prospect, next.step.action, personalizedContent);
+        sent = result.success;
         
         if (result.success) {
+          await ledger.complete(actionKey);
+          
           // Record touchpoint
           console.log(`[DB] Recording touchpoint for ${prospect.name}...`);
           const { error: touchError } = await supabase.from('touchpoints').insert({
@@ -231,7 +253,7 @@ export async function executeDailySequences() {
             action: next.step.action,
             content: personalizedContent,
             outcome: result.outcome,
-            metadata: result.metadata,
+            metadata: { ...result.metadata, step_id: next.stepId },
             sent_at: new Date().toISOString(),
           });
           
@@ -277,42 +299,43 @@ export async function executeDailySequences() {
           console.log(`[DB] Updating prospect ${prospect.id} state...`);
           const { error: prospectUpdateError } = await supabase
             .from('prospects')
-            .update({ 
-              [`${next.step.channel}_state`]: newState,
-              last_touchpoint_at: new Date().toISOString(),
-            })
+            .update({ last_touchpoint_at: new Date().toISOString() })
             .eq('id', prospect.id);
           
           if (prospectUpdateError) {
             console.error('[DB] Error updating prospect:', prospectUpdateError);
           }
           
-          // Update rate limit
-          console.log(`[DB] Updating rate limit for ${next.step.channel}...`);
-          const { error: rateError } = await supabase
-            .from('rate_limits')
-            .upsert({
-              campaign_id: campaign.id,
-              channel: next.step.channel,
-              date: today,
-              count: currentCount + 1,
-              max_limit: campaign.dailyLimits[next.step.channel],
-            }, { onConflict: 'campaign_id,channel,date' });
-          
-          if (rateError) {
-            console.error('[DB] Error updating rate limit:', rateError);
+          try {
+            await transitions.transition({
+              prospectId: prospect.id,
+              field: next.step.channel,
+              to: newState,
+              actor: 'daily-sequence',
+              event: `${next.step.action}_${result.outcome || 'sent'}`,
+              eventId: sequence.id,
+              onInvalid: 'skip', // follow-ups reach prospects already past 'sent'
+            });
+          } catch (transitionErr: any) {
+            console.error('[DB] Error updating prospect state:', transitionErr.message);
           }
           
+          
           // Advance sequence
-          const updates = engine.advanceSequence(sequence);
-          const nextExecution = engine.calculateNextExecution(sequence, 1);
+          const updates = engine.advanceSequence(sequence, next.stepId);
+          const nextExecution = engine.calculateNextExecution(sequence, 1, prospect);
           
           console.log(`[DB] Advancing sequence ${sequence.id} to step ${updates.currentStep}...`);
           const { error: seqUpdateError } = await supabase
             .from('sequences')
             .update({
               current_step: updates.currentStep,
+              previous_step: updates.previousStep,
               next_step_at: nextExecution.toISOString(),
+              ...(updates.status === 'completed' && {
+                status: 'completed',
+                completed_at: updates.completedAt?.toISOString(),
+              }),
             })
             .eq('id', sequence.id);
           
@@ -324,35 +347,33 @@ export async function executeDailySequences() {
           console.log(`  ✓ ${prospect.name}: ${next.step.channel} ${next.step.action}`);
         } else {
           errors++;
+          await rateLimiter.release(quota.reservation);
+          await ledger.release(actionKey);
           console.log(`  ❌ ${prospect.name}: ${result.error}`);
         }
       } catch (err) {
         errors++;
+        if (!sent) {
+          await rateLimiter.release(quota.reservation);
+          await ledger.release(actionKey);
+        }
         console.log(`  ❌ ${prospect.name}: ${err}`);
       }
     }
     
     console.log(`\n  Summary: ${executed} executed, ${skipped} skipped, ${errors} errors\n`);
+    totals.executed += executed;
+    totals.skipped += skipped;
+    totals.errors += errors;
   }
   
   console.log('✅ Daily sequence execution complete');
+  return totals;
 }
 
-// Import sequenceFromRow for use in the loop
-function sequenceFromRow(row: SequenceRow) {
-  return {
-    id: row.id,
-    prospectId: row.prospect_id,
-    campaignId: row.campaign_id,
-    templateId: row.template_id,
-    currentStep: row.current_step,
-    nextStepAt: row.next_step_at ? new Date(row.next_step_at) : undefined,
-    status: row.status,
-    startedAt: new Date(row.started_at),
-    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
-    createdAt: new Date(row.created_at),
-    updatedAt: new Date(row.updated_at),
-  };
+if (require.main === module) {
+  const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+  new JobRunner(supabase)
+    .run(DAILY_SEQUENCE_JOB, executeDailySequences, counts => counts)
+    .catch(console.error);
 }
-
-executeDailySequences().catch(console.error);
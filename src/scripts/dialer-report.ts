@@ -2,6 +2,9 @@
 // Dialer Report - Daily summary of dialer activity
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { ExperimentReport, RateEstimate, analyzeExperiment, loadExperimentCalls } from '../core/experiment-stats';
+import { EmailExperimentReport, EmailExperimentService } from '../core/email-experiments';
+import { CallScorecardService, SCRIPT_STAGES, ScorecardReport } from '../core/call-scorecard';
 
 dotenv.config();
 
@@ -37,7 +40,7 @@ interface ProspectOutcome {
   notes?: string;
 }
 
-async function generateDailyReport(date?: string): Promise<void> {
+async function generateDailyReport(date?: string, experimentDays: number = 30): Promise<void> {
   const reportDate = date || new Date().toISOString().split('T')[0];
   
   console.log('╔════════════════════════════════════════════════════════════╗');
@@ -73,6 +76,7 @@ async function generateDailyReport(date?: string): Promise<void> {
       duration_seconds,
       transcript,
       notes,
+      callback_at,
       started_at,
       ended_at,
       created_at,
@@ -82,6 +86,7 @@ async function generateDailyReport(date?: string): Promise<void> {
         phone
       )
     `)
+    .neq('status', 'blocked')
     .gte('created_at', startOfDay)
     .lte('created_at', endOfDay)
     .order('created_at', { ascending: true });
@@ -137,6 +142,30 @@ async function generateDailyReport(date?: string): Promise<void> {
   console.log(`  🎯 Meeting booked:    ${stats.booked}`);
   console.log();
 
+  // Dials the compliance guard refused (state calling hours, holidays, attempt caps)
+  const { data: blocked } = await supabase
+    .from('call_logs')
+    .select('compliance')
+    .eq('status', 'blocked')
+    .gte('created_at', startOfDay)
+    .lte('created_at', endOfDay);
+
+  if (blocked && blocked.length > 0) {
+    const byRule: Record<string, number> = {};
+    blocked.forEach(row => {
+      const rule = (row.compliance as any)?.rule || 'unknown';
+      byRule[rule] = (byRule[rule] || 0) + 1;
+    });
+
+    console.log('🛑 COMPLIANCE BLOCKS');
+    console.log('────────────────────────────────────────────────────────────');
+    console.log(`  Blocked dials:        ${blocked.length}`);
+    Object.entries(byRule)
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([rule, count]) => console.log(`    ${rule.padEnd(20)}${count}`));
+    console.log();
+  }
+
   console.log('⏱️  DURATION');
   console.log('────────────────────────────────────────────────────────────');
   console.log(`  Total talk time:      ${formatDuration(stats.totalDuration)}`);
@@ -154,6 +183,31 @@ async function generateDailyReport(date?: string): Promise<void> {
   console.log(`  Conversion rate:      ${((positiveOutcomes / (stats.answered || 1)) * 100).toFixed(1)}%`);
   console.log();
 
+  // A/B experiment over the trailing window ending on the report date
+  try {
+    const since = new Date(new Date(endOfDay).getTime() - experimentDays * 24 * 60 * 60 * 1000);
+    const calls = await loadExperimentCalls(supabase, since, new Date(endOfDay));
+    printExperiment(analyzeExperiment(calls, { since }), experimentDays);
+  } catch (err: any) {
+    console.error('Error analyzing A/B experiment:', err.message);
+  }
+
+  // Email A/B over the same window, next to the voice experiment
+  try {
+    const since = new Date(new Date(endOfDay).getTime() - experimentDays * 24 * 60 * 60 * 1000);
+    printEmailExperiment(await new EmailExperimentService(supabase).report(since, new Date(endOfDay)), experimentDays);
+  } catch (err: any) {
+    console.error('Error analyzing email experiment:', err.message);
+  }
+
+  // Call QA scorecards per voice variant over the same window
+  try {
+    const since = new Date(new Date(endOfDay).getTime() - experimentDays * 24 * 60 * 60 * 1000);
+    printScorecards(await new CallScorecardService(supabase).report(since, new Date(endOfDay)), experimentDays);
+  } catch (err: any) {
+    console.error('Error loading call scorecards:', err.message);
+  }
+
   // Hot leads
   const hotLeads = callLogs.filter(c => 
     c.outcome === 'interested' || c.outcome === 'booked'
@@ -183,7 +237,7 @@ async function generateDailyReport(date?: string): Promise<void> {
       const prospect = call.prospects as any;
       console.log(`  ${index + 1}. ${prospect?.name || 'Unknown'} @ ${prospect?.company || 'Unknown'}`);
       console.log(`     Phone: ${prospect?.phone || 'N/A'}`);
-      console.log(`     Scheduled: ${(call as any).callback_at || 'Not specified'}`);
+      console.log(`     Scheduled: ${call.callback_at || 'Not specified'}`);
       console.log();
     });
   }
@@ -239,6 +293,79 @@ async function generateDailyReport(date?: string): Promise<void> {
   console.log('════════════════════════════════════════════════════════════');
 }
 
+function formatRate(estimate: RateEstimate): string {
+  const pct = (value: number) => (value * 100).toFixed(1);
+  return `${pct(estimate.rate)}% [${pct(estimate.wilson[0])}-${pct(estimate.wilson[1])}]`;
+}
+
+function printExperiment(report: ExperimentReport, days: number): void {
+  if (report.variants.length === 0) return;
+
+  console.log(`🧪 A/B EXPERIMENT (last ${days} days, 95% Wilson intervals)`);
+  console.log('────────────────────────────────────────────────────────────');
+  report.variants.forEach(v => {
+    const leader = v === report.variants[0] ? ' ⭐' : '';
+    console.log(`  ${v.name}${leader}`);
+    console.log(`     ${v.calls} calls, ${v.connected} connected (${formatRate(v.rates.connect)})`);
+    console.log(`     Booked ${v.booked}: ${formatRate(v.rates.booking)}   Interested ${v.interested}: ${formatRate(v.rates.interest)}`);
+    console.log(`     P(best booking rate): ${(v.probabilityBest * 100).toFixed(1)}%`);
+    if (v.reviewed > 0) console.log(`     Reviewed ${v.reviewed}: ${formatRate(v.rates.review)} good`);
+  });
+
+  const significant = report.comparisons.filter(c => c.metric === 'booking' && c.significant);
+  if (significant.length > 0) {
+    console.log('  Significant booking differences (Holm-adjusted):');
+    significant.forEach(c => {
+      const [winner, loser] = c.difference > 0 ? [c.a, c.b] : [c.b, c.a];
+      console.log(`     ${winner} > ${loser} by ${(Math.abs(c.difference) * 100).toFixed(1)} pts (p=${c.pAdjusted})`);
+    });
+  }
+
+  const rec = report.recommendation;
+  console.log(`  ${rec.action === 'declare_winner' ? '🏆 Declare winner' : '⏳ Keep testing'}: ${rec.reason}`);
+  const remaining = Object.entries(rec.remainingConnected).filter(([, n]) => n > 0);
+  if (rec.action === 'keep_testing' && remaining.length > 0) {
+    console.log(`     Connected calls still needed: ${remaining.map(([id, n]) => `${id} ${n}`).join(', ')}`);
+  }
+  console.log();
+}
+
+function printEmailExperiment(report: EmailExperimentReport, days: number): void {
+  if (report.variants.length === 0) return;
+
+  console.log(`✉️  EMAIL A/B (last ${days} days, per email sent)`);
+  console.log('────────────────────────────────────────────────────────────');
+  report.variants.forEach(v => {
+    console.log(`  ${v.sequence} step ${v.step} — ${v.variantId}`);
+    console.log(`     ${v.assigned} assigned, ${v.sent} sent, ${v.bounced} bounced (${formatRate(v.rates.bounce)})`);
+    console.log(`     Opened ${v.opened}: ${formatRate(v.rates.open)}   Replied ${v.replied}: ${formatRate(v.rates.reply)}`);
+    if (v.replyVsControl) {
+      const diff = v.replyVsControl.difference * 100;
+      console.log(`     Reply rate vs control: ${diff >= 0 ? '+' : ''}${diff.toFixed(1)} pts (p=${v.replyVsControl.pValue})`);
+    }
+  });
+  console.log();
+}
+
+function printScorecards(report: ScorecardReport, days: number): void {
+  if (report.variants.length === 0) return;
+
+  const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+  console.log(`📋 CALL QA (last ${days} days, ${report.overall.calls} conversations scored)`);
+  console.log('────────────────────────────────────────────────────────────');
+  report.variants.forEach(v => {
+    console.log(`  ${v.variant}: ${v.avgScore}/100 over ${v.calls} calls`);
+    const interruptions = v.agentInterruptions !== null
+      ? `${v.agentInterruptions.toFixed(1)} by agent, ${(v.prospectInterruptions ?? 0).toFixed(1)} by prospect per call (${v.timedCalls} timed)`
+      : 'no turn timings';
+    console.log(`     Agent talk ${pct(v.talkRatio)}   Interruptions: ${interruptions}`);
+    console.log(`     Script: ${SCRIPT_STAGES.map(stage => `${stage} ${pct(v.stageRates[stage])}`).join(', ')} (in order ${pct(v.inOrderRate)})`);
+    const handled = v.objections ? `${v.objectionsHandled}/${v.objections} (${pct(v.objectionsHandled / v.objections)})` : 'none';
+    console.log(`     Objections handled: ${handled}   Asked for meeting: ${pct(v.askedForMeetingRate)}`);
+  });
+  console.log();
+}
+
 function formatDuration(seconds: number): string {
   if (seconds < 60) {
     return `${Math.round(seconds)}s`;
@@ -249,7 +376,7 @@ function formatDuration(seconds: number): string {
 }
 
 // Parse command line arguments
-function parseArgs(): { date?: string } {
+function parseArgs(): { date?: string; experimentDays: number } {
   const args = process.argv.slice(2);
   
   if (args.includes('--help') || args.includes('-h')) {
@@ -259,10 +386,11 @@ Dialer Report - Daily summary of dialer activity
 Usage: ts-node dialer-report.ts [options] [date]
 
 Arguments:
-  date              Date to report on (YYYY-MM-DD format, default: today)
+  date                 Date to report on (YYYY-MM-DD format, default: today)
 
 Options:
-  -h, --help        Show this help message
+  --experiment-days N  A/B experiment window ending on the report date (default: 30)
+  -h, --help           Show this help message
 
 Examples:
   # Report for today
@@ -274,16 +402,19 @@ Examples:
     process.exit(0);
   }
 
+  const daysIdx = args.indexOf('--experiment-days');
+  const experimentDays = daysIdx >= 0 ? parseInt(args[daysIdx + 1], 10) || 30 : 30;
+
   // First non-flag argument is the date
-  const date = args.find(arg => !arg.startsWith('-'));
+  const date = args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '--experiment-days');
   
-  return { date };
+  return { date, experimentDays };
 }
 
 // Main
 async function main() {
-  const { date } = parseArgs();
-  await generateDailyReport(date);
+  const { date, experimentDays } = parseArgs();
+  await generateDailyReport(date, experimentDays);
 }
 
 main().catch(error => {
@@ -2,9 +2,14 @@
 import 'dotenv/config';
 
 import { getChannelGaps, getProspectHistory, queueEmail, updateProspect } from '../tools';
-import { listCampaigns, listLeads } from '../channels/instantly-adapter';
+import { getHealthySenders, listCampaigns, listLeads } from '../channels/instantly-adapter';
+import { getSupabaseClient } from '../tools/shared';
+import { RateLimiter, EMAIL_SENDER_POOL, getEmailPoolLimits } from '../core/rate-limiter';
+import { ActionLedger, JobCounts, JobRunner, buildActionKey } from '../core/job-runner';
 
 const MAX_PER_RUN = 5;
+// Rate-limit bucket for prospects queued by this cron (not tied to one campaign)
+const RATE_LIMIT_CAMPAIGN = 'hunter-email-cron';
 
 function sanitizeEmail(input: string): string {
   return String(input)
@@ -55,60 +60,85 @@ async function buildInstantlySeenEmailSet(): Promise<Set<string>> {
   return seen;
 }
 
-async function main() {
+async function runHunterEmail(): Promise<JobCounts> {
   const gaps = await getChannelGaps();
   const emailCandidates = (gaps.prospects || []).filter((g: any) => g.missingChannel === 'email');
   const instantlySeenEmails = await buildInstantlySeenEmailSet();
 
-  const results: Array<{ prospectId: string; email?: string; queued: boolean; reason?: string }> = [];
+  // Claim this run's send capacity up front so overlapping runs cannot overshoot
+  const rateLimiter = new RateLimiter({}, getSupabaseClient());
+  const ledger = new ActionLedger(getSupabaseClient());
+  const senders = await getHealthySenders();
+  const reservation = await rateLimiter.reserve('email', RATE_LIMIT_CAMPAIGN, MAX_PER_RUN, {
+    sender: EMAIL_SENDER_POOL,
+    senderLimits: getEmailPoolLimits(senders.length),
+    allowPartial: true,
+  });
+  const maxThisRun = reservation.granted;
 
-  for (const row of emailCandidates) {
-    if (results.filter((r) => r.queued).length >= MAX_PER_RUN) break;
+  const results: Array<{ prospectId: string; email?: string; queued: boolean; reason?: string }> = [];
 
-    const p = row.prospect;
-    if (!p?.id || !p?.email) {
-      results.push({ prospectId: p?.id || 'unknown', queued: false, reason: 'missing prospect id/email' });
-      continue;
-    }
+  try {
+    for (const row of emailCandidates) {
+      if (results.filter((r) => r.queued).length >= maxThisRun) break;
 
-    const originalEmail = String(p.email);
-    const emailLower = sanitizeEmail(originalEmail);
+      const p = row.prospect;
+      if (!p?.id || !p?.email) {
+        results.push({ prospectId: p?.id || 'unknown', queued: false, reason: 'missing prospect id/email' });
+        continue;
+      }
 
-    if (emailLower !== originalEmail) {
-      await updateProspect(p.id, { email: emailLower });
-      p.email = emailLower;
-    }
+      const originalEmail = String(p.email);
+      const emailLower = sanitizeEmail(originalEmail);
 
-    if (!isValidEmail(emailLower)) {
-      results.push({ prospectId: p.id, email: originalEmail, queued: false, reason: 'invalid email format after sanitize' });
-      continue;
-    }
+      if (emailLower !== originalEmail) {
+        await updateProspect(p.id, { email: emailLower });
+        p.email = emailLower;
+      }
 
-    const history = await getProspectHistory(p.id);
-    if (alreadyEmailed(history)) {
-      await updateProspect(p.id, { emailState: 'sent' });
-      results.push({ prospectId: p.id, email: p.email, queued: false, reason: 'already emailed (history) — synced emailState=sent' });
-      continue;
-    }
+      if (!isValidEmail(emailLower)) {
+        results.push({ prospectId: p.id, email: originalEmail, queued: false, reason: 'invalid email format after sanitize' });
+        continue;
+      }
 
-    if (instantlySeenEmails.has(emailLower)) {
-      await updateProspect(p.id, { emailState: 'sent' });
-      results.push({ prospectId: p.id, email: p.email, queued: false, reason: 'already present in Instantly lead history — synced emailState=sent' });
-      continue;
-    }
+      const history = await getProspectHistory(p.id);
+      if (alreadyEmailed(history)) {
+        await updateProspect(p.id, { emailState: 'sent' });
+        results.push({ prospectId: p.id, email: p.email, queued: false, reason: 'already emailed (history) — synced emailState=sent' });
+        continue;
+      }
 
-    const { subject, body } = composeEmail(p);
-    try {
-      const queuedResult = await queueEmail(p.id, subject, body);
-      if (queuedResult?.success) {
+      if (instantlySeenEmails.has(emailLower)) {
         await updateProspect(p.id, { emailState: 'sent' });
-        results.push({ prospectId: p.id, email: p.email, queued: true });
-      } else {
-        results.push({ prospectId: p.id, email: p.email, queued: false, reason: queuedResult?.error?.message || 'queue failed' });
+        results.push({ prospectId: p.id, email: p.email, queued: false, reason: 'already present in Instantly lead history — synced emailState=sent' });
+        continue;
+      }
+
+      const actionKey = buildActionKey(p.id, 'cold_email');
+      if (!(await ledger.claim(actionKey, p.id))) {
+        results.push({ prospectId: p.id, email: p.email, queued: false, reason: 'already claimed today' });
+        continue;
+      }
+
+      const { subject, body } = composeEmail(p);
+      try {
+        const queuedResult = await queueEmail(p.id, subject, body);
+        if (queuedResult?.success) {
+          await ledger.complete(actionKey);
+          await updateProspect(p.id, { emailState: 'sent' });
+          results.push({ prospectId: p.id, email: p.email, queued: true });
+        } else {
+          await ledger.release(actionKey);
+          results.push({ prospectId: p.id, email: p.email, queued: false, reason: queuedResult?.error?.message || 'queue failed' });
+        }
+      } catch (err: any) {
+        await ledger.release(actionKey);
+        results.push({ prospectId: p.id, email: p.email, queued: false, reason: err?.message || String(err) });
       }
-    } catch (err: any) {
-      results.push({ prospectId: p.id, email: p.email, queued: false, reason: err?.message || String(err) });
     }
+  } finally {
+    // Return slots that were not used for a queued email
+    await rateLimiter.release(reservation, reservation.granted - results.filter((r) => r.queued).length);
   }
 
   const queued = results.filter((r) => r.queued).length;
@@ -118,8 +148,19 @@ async function main() {
     queued,
     checked: results.length,
     maxPerRun: MAX_PER_RUN,
+    reserved: maxThisRun,
+    rateLimitReason: reservation.reason,
     results,
   }, null, 2));
+
+  return { queued, checked: results.length, reserved: maxThisRun };
+}
+
+async function main() {
+  const run = await new JobRunner(getSupabaseClient()).run('hunter-email-cron', runHunterEmail, counts => counts);
+  if (run.status === 'skipped') {
+    console.log(JSON.stringify({ ok: true, skipped: true, reason: 'another run holds the lock' }, null, 2));
+  }
 }
 
 main().catch((err) => {
@@ -3,12 +3,19 @@
 // Usage:
 //   npx ts-node src/scripts/import-leads.ts --file path/to/leads.csv --campaign "Campaign Name"
 //   npx ts-node src/scripts/import-leads.ts --file path/to/leads.csv --campaign-id <uuid>
+//   npx ts-node src/scripts/import-leads.ts --file path/to/leads.csv
+// Leads are checked against the campaign's ICP and exclusion list. Without a campaign,
+// each lead goes to the best-fitting active campaign (see core/icp-matcher).
+// Leads matching the suppression list are skipped, and their other contact details suppressed too.
 
 import 'dotenv/config';
 import { parse } from 'csv-parse/sync';
 import { createClient } from '@supabase/supabase-js';
 import * as fs from 'fs';
 import * as path from 'path';
+import { inferTimezone } from '../core/timezone-resolver';
+import { IcpCampaign, describeRejections, selectCampaign } from '../core/icp-matcher';
+import { SuppressionService } from '../core/suppression';
 
 const args = process.argv.slice(2);
 function getArg(flag: string): string | undefined {
@@ -34,6 +41,7 @@ async function main() {
   }
 
   const supabase = createClient(supabaseUrl, supabaseKey);
+  const suppressions = new SuppressionService(supabase);
 
   // Read CSV
   const resolved = path.resolve(filePath);
@@ -92,10 +100,30 @@ async function main() {
     }
   }
 
+  // Campaigns leads are matched against: the requested one, or every active campaign
+  let campaignQuery = supabase
+    .from('campaigns')
+    .select('id, name, icp_criteria, exclusion_list')
+    .order('created_at', { ascending: true });
+  campaignQuery = activeCampaignId ? campaignQuery.eq('id', activeCampaignId) : campaignQuery.eq('status', 'active');
+  const { data: campaignRows, error: campaignsError } = await campaignQuery;
+  if (campaignsError) {
+    console.error(`[Import] Failed to load campaigns: ${campaignsError.message}`);
+    process.exit(1);
+  }
+  const candidates = (campaignRows || []) as IcpCampaign[];
+  if (!activeCampaignId) {
+    console.log(`[Import] Auto-assigning leads across ${candidates.length} active campaigns`);
+  }
+
   // Map CSV columns to prospect fields
   let imported = 0;
   let skipped = 0;
+  let rejected = 0;
+  let suppressed = 0;
   let sequencesCreated = 0;
+  const rejectionCounts: Record<string, number> = {};
+  const assignedCounts: Record<string, number> = {};
 
   for (const row of records) {
     // Flexible column mapping
@@ -110,9 +138,12 @@ async function main() {
     const city = row.city || row.City || '';
     const state = row.state || row.State || '';
     const industry = row.industry || row.Industry || '';
+    const title = row.title || row.Title || row.job_title || '';
+    const companySize = row.company_size || row.employees || row.employee_count || '';
     const source = row.source || 'csv_import';
     const desiredBenefit = row.desiredbenefit || row.desired_benefit || row.benefit || row.DesiredBenefit || '';
     const country = row.country || 'United States';
+    const timezone = inferTimezone({ timezone: row.timezone, state, city, phone });
 
     // Must have email for email outbound — generate placeholder if missing
     if (!email) {
@@ -121,6 +152,38 @@ async function main() {
       continue;
     }
 
+    // Suppressed contact: skip, and suppress the rest of this lead's details so a
+    // STOPped phone arriving with a fresh email stays blocked on every channel
+    const suppression = await suppressions.check({ email, phone, website });
+    if (suppression.suppressed) {
+      console.log(`[Import] Suppressed ${email}: ${suppression.reason}`);
+      await suppressions.suppress({ email, phone }, {
+        source: 'import',
+        reason: `matched ${suppression.matches.map(m => `${m.type} ${m.value}`).join(', ')}`,
+      });
+      suppressed++;
+      continue;
+    }
+
+    // ICP + exclusion list. With no campaigns to match against, import unassigned as before.
+    let targetCampaignId: string | undefined;
+    if (candidates.length) {
+      const selection = selectCampaign(
+        { email, phone, website, industry, state, location: city, title, company_size: companySize },
+        candidates
+      );
+      if (!selection.best) {
+        console.log(`[Import] Rejected ${email}: ${describeRejections(selection)}`);
+        for (const code of new Set(selection.evaluated.flatMap(m => m.rejections.map(r => r.code)))) {
+          rejectionCounts[code] = (rejectionCounts[code] || 0) + 1;
+        }
+        rejected++;
+        continue;
+      }
+      targetCampaignId = selection.best.campaignId;
+      assignedCounts[selection.best.campaignName] = (assignedCounts[selection.best.campaignName] || 0) + 1;
+    }
+
     // Dedup check
     const { data: existing } = await supabase
       .from('prospects')
@@ -130,20 +193,20 @@ async function main() {
 
     if (existing) {
       console.log(`[Import] Dedup: ${email} already exists`);
-      // Still create sequence if campaign specified and no active sequence
-      if (activeCampaignId) {
+      // Still create sequence if campaign matched and no active sequence
+      if (targetCampaignId) {
         const { data: existingSeq } = await supabase
           .from('sequences')
           .select('id')
-          .eq('campaign_id', activeCampaignId)
+          .eq('campaign_id', targetCampaignId)
           .eq('prospect_id', existing.id)
           .single();
 
         if (!existingSeq) {
           await supabase.from('sequences').insert({
-            campaign_id: activeCampaignId,
+            campaign_id: targetCampaignId,
             prospect_id: existing.id,
-            current_step: 0,
+            current_step: '0',
             status: 'active',
           });
           sequencesCreated++;
@@ -157,6 +220,7 @@ async function main() {
     const { data: inserted, error } = await supabase
       .from('prospects')
       .insert({
+        campaign_id: targetCampaignId || null,
         email,
         first_name: firstName || null,
         last_name: lastName || null,
@@ -167,7 +231,10 @@ async function main() {
         website: website || null,
         city: city || null,
         state: state || null,
+        timezone,
         industry: industry || null,
+        title: title || null,
+        company_size: companySize || null,
         source,
         desired_benefit: desiredBenefit || null,
         country,
@@ -185,12 +252,12 @@ async function main() {
     imported++;
     console.log(`[Import] ✓ ${email} (${company})`);
 
-    // Create sequence entry if campaign specified
-    if (activeCampaignId && inserted) {
+    // Create sequence entry if campaign matched
+    if (targetCampaignId && inserted) {
       const { error: seqError } = await supabase.from('sequences').insert({
-        campaign_id: activeCampaignId,
+        campaign_id: targetCampaignId,
         prospect_id: inserted.id,
-        current_step: 0,
+        current_step: '0',
         status: 'active',
       });
       if (!seqError) sequencesCreated++;
@@ -200,6 +267,14 @@ async function main() {
   console.log(`\n[Import] === Results ===`);
   console.log(`  Imported: ${imported}`);
   console.log(`  Skipped/Deduped: ${skipped}`);
+  console.log(`  Suppressed: ${suppressed}`);
+  console.log(`  Rejected (ICP/exclusions): ${rejected}`);
+  for (const [code, count] of Object.entries(rejectionCounts)) {
+    console.log(`    ${code}: ${count}`);
+  }
+  for (const [name, count] of Object.entries(assignedCounts)) {
+    console.log(`  Assigned to ${name}: ${count}`);
+  }
   console.log(`  Sequences created: ${sequencesCreated}`);
   if (activeCampaignId) console.log(`  Campaign ID: ${activeCampaignId}`);
 }
@@ -0,0 +1,77 @@
+#!/usr/bin/env ts-node
+// Snapshot caller ID reputation, quarantine numbers that cross thresholds and pause the dialer if none are left
+// Usage:
+//   npx ts-node src/scripts/monitor-reputation.ts [--dry-run] [--window-hours 24] [--baseline-days 7]
+//     [--quarantine-hours 72] [--pause-hours 24]
+
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import { JobRunner } from '../core/job-runner';
+import { ReputationMonitor, ReputationRunResult } from '../monitoring/reputation-monitor';
+
+export const REPUTATION_MONITOR_JOB = 'caller-reputation';
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function getNumberArg(flag: string): number | undefined {
+  const value = getArg(flag);
+  return value ? parseInt(value, 10) : undefined;
+}
+
+async function main() {
+  const dryRun = args.includes('--dry-run');
+  const options = {
+    dryRun,
+    windowHours: getNumberArg('--window-hours'),
+    baselineDays: getNumberArg('--baseline-days'),
+    quarantineHours: getNumberArg('--quarantine-hours'),
+    dialerPauseHours: getNumberArg('--pause-hours'),
+  };
+
+  const supabaseUrl = process.env.SUPABASE_URL!;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY required');
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const monitor = new ReputationMonitor(supabase);
+  const check = () => monitor.run(options);
+
+  let results: ReputationRunResult[];
+  if (dryRun) {
+    results = await check();
+  } else {
+    const run = await new JobRunner(supabase).run(REPUTATION_MONITOR_JOB, check, r => ({
+      checked: r.length,
+      quarantined: r.filter(n => n.action === 'quarantined').length,
+      dialerPaused: r.filter(n => n.action === 'dialer_paused').length,
+      errors: r.filter(n => n.error).length,
+    }));
+    if (!run.result) {
+      console.log('⏭️  Another reputation check holds the lock, skipping');
+      return;
+    }
+    results = run.result;
+  }
+
+  for (const r of results) {
+    const status = r.error ? `⚠️  ${r.error}` : r.action === 'none' ? '✓' : `🚨 ${r.action}`;
+    console.log(`${r.phoneNumber}  ${status}${r.breaches.length ? `  (${r.breaches.join('; ')})` : ''}`);
+  }
+
+  const pause = await monitor.dialerPause();
+  console.log(`\n✅ ${dryRun ? '[DRY RUN] ' : ''}Checked ${results.length} numbers${pause ? ` — dialer paused: ${pause.reason}` : ''}`);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
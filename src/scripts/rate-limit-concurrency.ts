@@ -0,0 +1,164 @@
+#!/usr/bin/env ts-node
+// Concurrency harness for reserve_rate_limit / release_rate_limit
+// Applies the rate-limit migrations to a local Postgres, fires concurrent
+// reservations from many connections and checks that no cap is overrun.
+// Usage:
+//   DATABASE_URL=postgres://localhost:5432/outbound_test npx ts-node src/scripts/rate-limit-concurrency.ts [--workers 20] [--iterations 10]
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface PgPool {
+  query(text: string, params?: unknown[]): Promise<{ rows: any[] }>;
+  end(): Promise<void>;
+}
+
+// pg ships without bundled types; only Pool#query is needed here
+const { Pool } = require('pg') as { Pool: new (config: { connectionString: string; max?: number }) => PgPool };
+
+const MIGRATIONS = ['20261003_rate_limit_events.sql', '20261004_rate_limit_reservations.sql'];
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+interface ReserveCall {
+  campaignId: string;
+  sender: string | null;
+  count: number;
+  hourly: number;
+  daily: number;
+  senderHourly?: number;
+  senderDaily?: number;
+  allowPartial?: boolean;
+}
+
+async function reserve(pool: PgPool, call: ReserveCall): Promise<{ id: string | null; granted: number }> {
+  const { rows } = await pool.query(
+    'SELECT reservation_id, granted FROM reserve_rate_limit($1, $2, $3, $4, $5, $6, $7, $8, $9)',
+    [
+      call.campaignId, 'voice', call.sender, call.count, call.hourly, call.daily,
+      call.senderHourly ?? null, call.senderDaily ?? null, call.allowPartial ?? false,
+    ]
+  );
+  return { id: rows[0].reservation_id, granted: rows[0].granted };
+}
+
+async function countEvents(pool: PgPool, column: 'campaign_id' | 'sender', value: string): Promise<number> {
+  const { rows } = await pool.query(
+    `SELECT count(*)::int AS n FROM rate_limit_events WHERE ${column} = $1`,
+    [value]
+  );
+  return rows[0].n;
+}
+
+// Run `iterations` calls on each of `workers` concurrent loops
+async function runConcurrently<T>(workers: number, iterations: number, fn: (worker: number, i: number) => Promise<T>): Promise<T[]> {
+  const loops = Array.from({ length: workers }, async (_, worker) => {
+    const results: T[] = [];
+    for (let i = 0; i < iterations; i++) {
+      results.push(await fn(worker, i));
+    }
+    return results;
+  });
+  return (await Promise.all(loops)).flat();
+}
+
+async function main() {
+  const connectionString = process.env.DATABASE_URL;
+  const workers = parseInt(getArg('--workers') || '20', 10);
+  const iterations = parseInt(getArg('--iterations') || '10', 10);
+
+  if (!connectionString) {
+    console.error('Error: DATABASE_URL required (local Postgres, the harness truncates rate_limit_events)');
+    process.exit(1);
+  }
+
+  const host = new URL(connectionString).hostname;
+  if (!['localhost', '127.0.0.1', '::1'].includes(host) && !args.includes('--allow-remote')) {
+    console.error(`Refusing to run against non-local host ${host} (pass --allow-remote to override)`);
+    process.exit(1);
+  }
+
+  const pool = new Pool({ connectionString, max: workers });
+  const failures: string[] = [];
+  const check = (label: string, ok: boolean, detail: string) => {
+    console.log(`  ${ok ? '✓' : '✗'} ${label}: ${detail}`);
+    if (!ok) failures.push(label);
+  };
+
+  try {
+    // Schema
+    const migrationsDir = path.resolve(__dirname, '../../supabase/migrations');
+    for (const file of MIGRATIONS) {
+      await pool.query(fs.readFileSync(path.join(migrationsDir, file), 'utf-8'));
+    }
+    await pool.query('TRUNCATE rate_limit_events');
+    console.log(`[Harness] ${workers} workers x ${iterations} iterations\n`);
+
+    // 1. Single-slot reservations racing for a 75/day cap
+    console.log('[Harness] Single slots against a daily cap');
+    const single = await runConcurrently(workers, iterations, () =>
+      reserve(pool, { campaignId: 'single', sender: null, count: 1, hourly: 1000, daily: 75 })
+    );
+    const singleGranted = single.reduce((sum, r) => sum + r.granted, 0);
+    const singleRows = await countEvents(pool, 'campaign_id', 'single');
+    const singleExpected = Math.min(workers * iterations, 75);
+    check('granted == cap', singleGranted === singleExpected, `${singleGranted}/${singleExpected}`);
+    check('rows == granted', singleRows === singleGranted, `${singleRows} rows`);
+
+    // 2. Partial batch reservations with releases on simulated failures
+    console.log('\n[Harness] Partial batches with releases');
+    let released = 0;
+    const batches = await runConcurrently(workers, iterations, async (worker, i) => {
+      const result = await reserve(pool, {
+        campaignId: 'batch', sender: null, count: 7, hourly: 1000, daily: 120, allowPartial: true,
+      });
+      // Every third batch "fails" and gives back two slots
+      if (result.id && result.granted >= 2 && (worker + i) % 3 === 0) {
+        const { rows } = await pool.query('SELECT release_rate_limit($1, $2) AS n', [result.id, 2]);
+        released += rows[0].n;
+      }
+      return result;
+    });
+    const batchGranted = batches.reduce((sum, r) => sum + r.granted, 0);
+    const batchRows = await countEvents(pool, 'campaign_id', 'batch');
+    check('rows == granted - released', batchRows === batchGranted - released,
+      `${batchRows} rows, ${batchGranted} granted, ${released} released`);
+    check('rows <= cap', batchRows <= 120, `${batchRows}/120`);
+    check('no batch over-granted', batches.every(r => r.granted <= 7), 'max 7 per batch');
+
+    // 3. One sender shared by two campaigns
+    console.log('\n[Harness] Sender cap shared across campaigns');
+    await runConcurrently(workers, iterations, (worker) =>
+      reserve(pool, {
+        campaignId: worker % 2 === 0 ? 'sender-a' : 'sender-b',
+        sender: '+15550000000',
+        count: 1,
+        hourly: 1000,
+        daily: 75,
+        senderHourly: 1000,
+        senderDaily: 40,
+      })
+    );
+    const senderRows = await countEvents(pool, 'sender', '+15550000000');
+    check('sender rows <= sender cap', senderRows <= 40, `${senderRows}/40`);
+    check('sender cap reached', senderRows === Math.min(workers * iterations, 40), `${senderRows} rows`);
+  } finally {
+    await pool.end();
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n[Harness] ${failures.length} check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n[Harness] All checks passed');
+}
+
+main().catch(err => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
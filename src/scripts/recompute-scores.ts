@@ -0,0 +1,77 @@
+#!/usr/bin/env ts-node
+// Recompute prospects.score from each campaign's scoring rules (icp_criteria.scoring)
+// Usage:
+//   npx ts-node src/scripts/recompute-scores.ts [--campaign <id>] [--dry-run] [--batch 500]
+
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+import { JobRunner } from '../core/job-runner';
+import { LeadScoringService, RecomputeCounts } from '../core/lead-scoring';
+import { CampaignRow } from '../types';
+
+export const RECOMPUTE_SCORES_JOB = 'recompute-scores';
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+async function main() {
+  const campaignId = getArg('--campaign');
+  const dryRun = args.includes('--dry-run');
+  const batchSize = parseInt(getArg('--batch') || '500', 10);
+
+  const supabaseUrl = process.env.SUPABASE_URL!;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY required');
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const scoring = new LeadScoringService(supabase);
+
+  const recompute = async (): Promise<RecomputeCounts> => {
+    let query = supabase.from('campaigns').select('*');
+    query = campaignId ? query.eq('id', campaignId) : query.eq('status', 'active');
+
+    const { data: campaigns, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load campaigns: ${error.message}`);
+    }
+
+    const totals: RecomputeCounts = { scored: 0, changed: 0, unchanged: 0, errors: 0 };
+    for (const campaign of (campaigns || []) as CampaignRow[]) {
+      console.log(`[Scoring] Campaign: ${campaign.name} (${campaign.id})`);
+      const counts = await scoring.recomputeCampaign(campaign, { dryRun, batchSize });
+      console.log(`[Scoring]   ${counts.scored} scored, ${counts.changed} changed, ${counts.errors} errors`);
+      totals.scored += counts.scored;
+      totals.changed += counts.changed;
+      totals.unchanged += counts.unchanged;
+      totals.errors += counts.errors;
+    }
+    return totals;
+  };
+
+  let totals: RecomputeCounts | undefined;
+  if (dryRun) {
+    totals = await recompute();
+  } else {
+    const run = await new JobRunner(supabase).run(RECOMPUTE_SCORES_JOB, recompute, c => ({ ...c }));
+    if (!run.result) {
+      console.log('⏭️  Another score recompute holds the lock, skipping');
+      return;
+    }
+    totals = run.result;
+  }
+
+  console.log(`\n✅ ${dryRun ? '[DRY RUN] ' : ''}Scored ${totals.scored} prospects: ${totals.changed} changed, ${totals.unchanged} unchanged, ${totals.errors} errors`);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
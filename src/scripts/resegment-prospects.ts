@@ -0,0 +1,221 @@
+#!/usr/bin/env ts-node
+// Re-run ICP matching over uncontacted prospects and move each to its best-fitting active campaign.
+// Prospects caught by their campaign's exclusion list get their active sequence paused.
+// Usage:
+//   npx ts-node src/scripts/resegment-prospects.ts [--campaign <id>] [--unassigned] [--apply] [--batch 500]
+// Without --apply nothing is written; the planned moves and rejection reasons are printed.
+
+import 'dotenv/config';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { JobRunner } from '../core/job-runner';
+import { IcpCampaign, describeRejections, findExclusion, selectCampaign } from '../core/icp-matcher';
+import { ProspectRow } from '../types';
+
+export const RESEGMENT_JOB = 'resegment-prospects';
+
+// Only prospects nobody has reached out to yet are safe to move between campaigns
+const MOVABLE_PIPELINE_STATES = ['discovered', 'researched'];
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+interface ResegmentCounts {
+  scanned: number;
+  moved: number;
+  assigned: number;
+  unchanged: number;
+  unmatched: number;
+  excluded: number;
+  inFlight: number;
+  errors: number;
+}
+
+async function moveProspect(
+  supabase: SupabaseClient,
+  prospect: ProspectRow,
+  toCampaignId: string
+): Promise<'moved' | 'assigned' | 'in_flight'> {
+  const { data: sequences, error } = await supabase
+    .from('sequences')
+    .select('id, campaign_id, status, previous_step')
+    .eq('prospect_id', prospect.id)
+    .eq('status', 'active');
+  if (error) throw new Error(`Failed to load sequences for ${prospect.id}: ${error.message}`);
+
+  if ((sequences || []).some(s => s.previous_step)) return 'in_flight';
+
+  const { error: updateErr } = await supabase
+    .from('prospects')
+    .update({ campaign_id: toCampaignId, updated_at: new Date().toISOString() })
+    .eq('id', prospect.id);
+  if (updateErr) throw new Error(`Failed to reassign ${prospect.id}: ${updateErr.message}`);
+
+  if (sequences?.length) {
+    const { error: seqErr } = await supabase
+      .from('sequences')
+      .update({ campaign_id: toCampaignId, current_step: '0' })
+      .in('id', sequences.map(s => s.id));
+    if (seqErr) throw new Error(`Failed to move sequences for ${prospect.id}: ${seqErr.message}`);
+  } else {
+    const { error: seqErr } = await supabase.from('sequences').insert({
+      campaign_id: toCampaignId,
+      prospect_id: prospect.id,
+      current_step: '0',
+      status: 'active',
+    });
+    if (seqErr) throw new Error(`Failed to create sequence for ${prospect.id}: ${seqErr.message}`);
+  }
+
+  return prospect.campaign_id ? 'moved' : 'assigned';
+}
+
+async function pauseExcluded(supabase: SupabaseClient, prospect: ProspectRow): Promise<void> {
+  const { error } = await supabase
+    .from('sequences')
+    .update({ status: 'paused', paused_at: new Date().toISOString() })
+    .eq('prospect_id', prospect.id)
+    .eq('campaign_id', prospect.campaign_id)
+    .eq('status', 'active');
+  if (error) throw new Error(`Failed to pause sequences for ${prospect.id}: ${error.message}`);
+}
+
+async function main() {
+  const campaignId = getArg('--campaign');
+  const unassignedOnly = args.includes('--unassigned');
+  const apply = args.includes('--apply');
+  const batchSize = parseInt(getArg('--batch') || '500', 10);
+
+  const supabaseUrl = process.env.SUPABASE_URL!;
+  const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+  if (!supabaseUrl || !supabaseKey) {
+    console.error('Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY required');
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  const resegment = async (): Promise<ResegmentCounts> => {
+    const { data: campaignRows, error: campaignsError } = await supabase
+      .from('campaigns')
+      .select('id, name, icp_criteria, exclusion_list, status')
+      .order('created_at', { ascending: true });
+    if (campaignsError) {
+      throw new Error(`Failed to load campaigns: ${campaignsError.message}`);
+    }
+
+    const allCampaigns = new Map((campaignRows || []).map(c => [c.id, c as IcpCampaign]));
+    const active = (campaignRows || []).filter(c => c.status === 'active') as IcpCampaign[];
+    console.log(`[Resegment] Matching against ${active.length} active campaigns${apply ? '' : ' (dry run)'}`);
+
+    const counts: ResegmentCounts = {
+      scanned: 0, moved: 0, assigned: 0, unchanged: 0, unmatched: 0, excluded: 0, inFlight: 0, errors: 0,
+    };
+    const rejectionCounts: Record<string, number> = {};
+    let lastId: string | null = null;
+
+    while (true) {
+      let query = supabase
+        .from('prospects')
+        .select('*')
+        .in('pipeline_state', MOVABLE_PIPELINE_STATES)
+        .order('id', { ascending: true })
+        .limit(batchSize);
+      if (campaignId) query = query.eq('campaign_id', campaignId);
+      if (unassignedOnly) query = query.is('campaign_id', null);
+      if (lastId) query = query.gt('id', lastId);
+
+      const { data: rows, error } = await query;
+      if (error) {
+        throw new Error(`Failed to load prospects: ${error.message}`);
+      }
+      if (!rows?.length) break;
+      lastId = rows[rows.length - 1].id;
+
+      for (const prospect of rows as ProspectRow[]) {
+        counts.scanned++;
+        try {
+          const current = prospect.campaign_id ? allCampaigns.get(prospect.campaign_id) : undefined;
+          const exclusion = current ? findExclusion(prospect, current.exclusion_list) : null;
+          const selection = selectCampaign(prospect, active);
+          const best = selection.best;
+
+          if (!best) {
+            counts.unmatched++;
+            for (const code of new Set(selection.evaluated.flatMap(m => m.rejections.map(r => r.code)))) {
+              rejectionCounts[code] = (rejectionCounts[code] || 0) + 1;
+            }
+            console.log(`[Resegment] ${prospect.id} (${prospect.email || prospect.name}) fits no campaign: ${describeRejections(selection)}`);
+            if (exclusion) {
+              counts.excluded++;
+              console.log(`[Resegment]   ${exclusion.message}; pausing its ${current!.name} sequence`);
+              if (apply) await pauseExcluded(supabase, prospect);
+            }
+            continue;
+          }
+
+          if (best.campaignId === prospect.campaign_id) {
+            counts.unchanged++;
+            continue;
+          }
+
+          const from = current?.name || '(unassigned)';
+          console.log(`[Resegment] ${prospect.id} (${prospect.email || prospect.name}): ${from} -> ${best.campaignName} [${best.matchedCriteria.join(', ') || 'no criteria'}]`);
+          if (!apply) {
+            if (prospect.campaign_id) counts.moved++;
+            else counts.assigned++;
+            continue;
+          }
+
+          const outcome = await moveProspect(supabase, prospect, best.campaignId);
+          if (outcome === 'in_flight') {
+            counts.inFlight++;
+            console.log(`[Resegment]   sequence already started, left in ${from}`);
+          } else if (outcome === 'moved') {
+            counts.moved++;
+          } else {
+            counts.assigned++;
+          }
+        } catch (err: any) {
+          counts.errors++;
+          console.error(`[Resegment] ${err.message}`);
+        }
+      }
+
+      if (rows.length < batchSize) break;
+    }
+
+    if (Object.keys(rejectionCounts).length) {
+      console.log('\n[Resegment] Rejections by reason:');
+      for (const [code, count] of Object.entries(rejectionCounts)) {
+        console.log(`  ${code}: ${count}`);
+      }
+    }
+    return counts;
+  };
+
+  let counts: ResegmentCounts;
+  if (!apply) {
+    counts = await resegment();
+  } else {
+    const run = await new JobRunner(supabase).run(RESEGMENT_JOB, resegment, c => ({ ...c }));
+    if (!run.result) {
+      console.log('⏭️  Another re-segmentation run holds the lock, skipping');
+      return;
+    }
+    counts = run.result;
+  }
+
+  console.log(`\n✅ ${apply ? '' : '[DRY RUN] '}Scanned ${counts.scanned}: ${counts.moved} moved, ${counts.assigned} assigned, ` +
+    `${counts.unchanged} unchanged, ${counts.unmatched} unmatched (${counts.excluded} excluded), ` +
+    `${counts.inFlight} in flight, ${counts.errors} errors`);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('Fatal error:', err);
+    process.exit(1);
+  });
+}
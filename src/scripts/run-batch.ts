@@ -1,14 +1,22 @@
 #!/usr/bin/env ts-node
 // Run one batch of due email steps
 import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
 import { SequenceRunner } from '../engine/sequence-runner';
+import { JobRunner } from '../core/job-runner';
 
 async function main() {
   console.log('=== Outbound Engine — Batch Run ===');
   console.log(`Time: ${new Date().toISOString()}`);
 
   const runner = new SequenceRunner();
-  const stats = await runner.runBatch();
+  const jobs = new JobRunner(createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!));
+  const run = await jobs.run('sequence-runner', () => runner.runBatch(), stats => ({ ...stats }));
+  if (!run.result) {
+    console.log('\nAnother batch run holds the lock, exiting');
+    return;
+  }
+  const stats = run.result;
 
   console.log('\n=== Results ===');
   console.log(`Sent: ${stats.sent}`);
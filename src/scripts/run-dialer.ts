@@ -1,6 +1,8 @@
 #!/usr/bin/env ts-node
 // Run Dialer - Entry point for running the dialer batch
-import { CallEngine } from '../dialer/call-engine';
+import { createClient } from '@supabase/supabase-js';
+import { CallEngine, BatchResult } from '../dialer/call-engine';
+import { JobRunner } from '../core/job-runner';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -110,7 +112,23 @@ async function main() {
   const startTime = Date.now();
 
   try {
-    const result = await engine.runBatch(options.limit, options.templateId);
+    let result: BatchResult;
+    if (options.dryRun) {
+      result = await engine.runBatch(options.limit, options.templateId);
+    } else {
+      // Live batches run single-flight so overlapping cron triggers cannot double-dial
+      const jobs = new JobRunner(createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!));
+      const run = await jobs.run(
+        'dialer',
+        () => engine.runBatch(options.limit, options.templateId),
+        batch => ({ ...batch.summary, total: batch.total, successful: batch.successful, failed: batch.failed })
+      );
+      if (!run.result) {
+        console.log('Another dialer batch holds the lock, exiting');
+        process.exit(0);
+      }
+      result = run.result;
+    }
 
     const duration = (Date.now() - startTime) / 1000;
 
@@ -1,7 +1,9 @@
 // Surround Sound Runner
 // Entry point for running surround sound coordination
 
-import { SurroundSoundCoordinator, DailySummary } from '../coordinator/surround-sound';
+import { createClient } from '@supabase/supabase-js';
+import { SurroundSoundCoordinator, DailySummary, emptyDailySummary } from '../coordinator/surround-sound';
+import { JobRunner } from '../core/job-runner';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
@@ -36,7 +38,7 @@ Limit: ${options.prospectLimit || 'Unlimited'}
     console.error('❌ Error: SUPABASE_KEY not configured');
     return {
       success: false,
-      summary: {} as DailySummary,
+      summary: emptyDailySummary(),
       error: 'SUPABASE_KEY not configured',
     };
   }
@@ -50,10 +52,31 @@ Limit: ${options.prospectLimit || 'Unlimited'}
   });
 
   try {
-    const summary = await coordinator.run({
+    const runOptions = {
       campaignId: options.campaignId,
       prospectLimit: options.prospectLimit,
-    });
+    };
+    let summary: DailySummary;
+    if (options.dryRun !== false) {
+      summary = await coordinator.run(runOptions);
+    } else {
+      // Live runs are single-flight across workers
+      const jobs = new JobRunner(createClient(SUPABASE_URL, SUPABASE_KEY));
+      const run = await jobs.run('surround-sound', () => coordinator.run(runOptions), s => ({
+        totalProspects: s.totalProspects,
+        actionsPlanned: s.actionsPlanned,
+        actionsExecuted: s.actionsExecuted,
+        actionsSkipped: s.actionsSkipped,
+        escalations: s.escalations,
+        repliesDetected: s.repliesDetected,
+        errors: s.errors.length,
+      }));
+      if (!run.result) {
+        console.log('⏭️  Another surround sound run holds the lock, skipping');
+        return { success: true, summary: emptyDailySummary() };
+      }
+      summary = run.result;
+    }
 
     // Output JSON summary
     console.log('\n📊 EXECUTION SUMMARY:');
@@ -67,7 +90,7 @@ Limit: ${options.prospectLimit || 'Unlimited'}
     console.error('❌ Fatal error:', err.message);
     return {
       success: false,
-      summary: {} as DailySummary,
+      summary: emptyDailySummary(),
       error: err.message,
     };
   }
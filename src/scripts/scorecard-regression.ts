@@ -0,0 +1,107 @@
+#!/usr/bin/env ts-node
+// Score the labeled scorecard fixtures and report mismatches. Exits non-zero when any fixture's scorecard
+// disagrees with its label.
+// Labels: scored: false means scoreCall must return null; talkRatio is an inclusive [min, max] range;
+// stages is the exact set of stages followed; objections must match in turn order, type and handled.
+// Only labeled fields are checked.
+// Usage:
+//   npx ts-node src/scripts/scorecard-regression.ts [--fixtures path] [--verbose]
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CallScorecard, SCRIPT_STAGES, ScoredTurn, ScriptStage, TimingSource, scoreCall } from '../core/call-scorecard';
+
+interface FixtureLabel {
+  scored?: boolean;
+  timing?: TimingSource;
+  talkRatio?: [number, number];
+  agentInterruptions?: number | null;
+  prospectInterruptions?: number | null;
+  stages?: ScriptStage[];
+  stagesInOrder?: boolean;
+  objections?: Array<{ type: string; handled: boolean | null }>;
+  askedForMeeting?: boolean;
+}
+
+interface Fixture {
+  id: string;
+  templateId?: string;
+  outcome?: string;
+  label: FixtureLabel;
+  transcript: ScoredTurn[];
+}
+
+const DEFAULT_FIXTURES = path.join(__dirname, '../../fixtures/transcripts/scorecards.json');
+
+const args = process.argv.slice(2);
+function getArg(flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx >= 0 ? args[idx + 1] : undefined;
+}
+
+function mismatches(label: FixtureLabel, card: CallScorecard | null): string[] {
+  if (!card) return label.scored === false ? [] : ['not scored'];
+  if (label.scored === false) return [`scored ${card.score}, expected not scored`];
+
+  const problems: string[] = [];
+  if (label.timing !== undefined && card.timing !== label.timing) problems.push(`timing ${card.timing}, expected ${label.timing}`);
+  if (label.talkRatio && (card.talkRatio < label.talkRatio[0] || card.talkRatio > label.talkRatio[1])) {
+    problems.push(`talk ratio ${card.talkRatio}, expected ${label.talkRatio[0]}-${label.talkRatio[1]}`);
+  }
+  if (label.agentInterruptions !== undefined && card.agentInterruptions !== label.agentInterruptions) {
+    problems.push(`agent interruptions ${card.agentInterruptions}, expected ${label.agentInterruptions}`);
+  }
+  if (label.prospectInterruptions !== undefined && card.prospectInterruptions !== label.prospectInterruptions) {
+    problems.push(`prospect interruptions ${card.prospectInterruptions}, expected ${label.prospectInterruptions}`);
+  }
+  if (label.stages) {
+    const followed = card.stages.filter(s => s.followed).map(s => s.stage).join(', ');
+    const expected = SCRIPT_STAGES.filter(s => label.stages!.includes(s)).join(', ');
+    if (followed !== expected) {
+      problems.push(`stages ${followed || 'none'}, expected ${expected || 'none'}`);
+    }
+  }
+  if (label.stagesInOrder !== undefined && card.stagesInOrder !== label.stagesInOrder) {
+    problems.push(`stages in order ${card.stagesInOrder}, expected ${label.stagesInOrder}`);
+  }
+  if (label.objections) {
+    const found = card.objections.map(o => `${o.type}:${o.handled}`);
+    const expected = label.objections.map(o => `${o.type}:${o.handled}`);
+    if (found.join(',') !== expected.join(',')) {
+      problems.push(`objections ${found.join(', ') || 'none'}, expected ${expected.join(', ') || 'none'}`);
+    }
+  }
+  if (label.askedForMeeting !== undefined && card.askedForMeeting !== label.askedForMeeting) {
+    problems.push(`asked for meeting ${card.askedForMeeting}, expected ${label.askedForMeeting}`);
+  }
+  return problems;
+}
+
+function main() {
+  const verbose = args.includes('--verbose');
+  const file = getArg('--fixtures') || DEFAULT_FIXTURES;
+  const { fixtures } = JSON.parse(fs.readFileSync(file, 'utf8')) as { fixtures: Fixture[] };
+
+  console.log(`🧪 Call scorecard on ${fixtures.length} fixtures (${path.relative(process.cwd(), file)})\n`);
+
+  let failures = 0;
+  for (const fixture of fixtures) {
+    const card = scoreCall(fixture.transcript, { templateId: fixture.templateId, outcome: fixture.outcome });
+    const problems = mismatches(fixture.label, card);
+
+    if (!problems.length) {
+      console.log(`  ✓ ${fixture.id}${card ? `  (score ${card.score})` : ''}`);
+    } else {
+      failures++;
+      console.log(`  ✗ ${fixture.id}  ${problems.join('; ')}`);
+    }
+    if (verbose) console.log(`      ${JSON.stringify(card)}`);
+  }
+
+  console.log(`\n${failures ? '❌' : '✅'} ${fixtures.length - failures}/${fixtures.length} match their labels`);
+  if (failures) process.exit(1);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -15,6 +15,7 @@ CREATE TABLE IF NOT EXISTS prospects (
   website text,
   city text,
   state text,
+  timezone text,
   industry text,
   source text,
   status text DEFAULT 'new',
@@ -35,7 +36,8 @@ CREATE TABLE IF NOT EXISTS sequences (
   id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
   campaign_id uuid REFERENCES campaigns(id),
   prospect_id uuid REFERENCES prospects(id),
-  current_step int DEFAULT 0,
+  current_step text DEFAULT '0',
+  previous_step text,
   status text DEFAULT 'active',
   started_at timestamptz DEFAULT now(),
   paused_at timestamptz,
@@ -154,7 +154,7 @@ async function setupTestCampaign() {
         prospect_id: prospect.id,
         campaign_id: campaignId,
         template_id: 'web-design-v1',
-        current_step: 0,
+        current_step: '0',
         next_step_at: new Date().toISOString(), // Due now
         status: 'active',
         started_at: new Date().toISOString(),
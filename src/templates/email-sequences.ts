@@ -3,17 +3,25 @@
 // Placeholders: {{first_name}}, {{company}}, {{website}}
 // Calendly link: https://renderwiseai.com/calendar
 
+import { SequenceNode } from '../types';
+
 export interface EmailTemplate {
   subject: string;
   body: string;
 }
 
-export interface SequenceStep {
-  day: number;
+// Alternative copy for a step, A/B tested against the step's own subject/body ('control')
+export interface EmailStepVariant extends EmailTemplate {
+  id: string;
+  weight?: number; // relative share of leads (default 1)
+}
+
+export interface SequenceStep extends SequenceNode {
   channel: 'email';
   action: string;
   subject: string;
   body: string;
+  variants?: EmailStepVariant[];
 }
 
 // ============================================
@@ -207,6 +215,42 @@ RenderWiseAI`,
   },
 ];
 
+// ============================================
+// SEQUENCE 4: Daily Instantly campaign (src/channels/email-adapter.ts)
+// Step 1 is authored per lead; follow-ups are HTML templates. Each lead gets one variant per step,
+// assigned deterministically from their email (src/core/email-experiments.ts)
+// ============================================
+export const outboundCampaignSequence: SequenceStep[] = [
+  {
+    day: 0,
+    channel: 'email',
+    action: 'cold_email',
+    subject: '{{custom_subject}}',
+    body: '{{custom_body}}',
+  },
+  {
+    day: 3,
+    channel: 'email',
+    action: 'follow_up',
+    subject: 'Re: your site improvements',
+    body: `<p>Hi {{first_name}},</p><p>Wanted to follow up on my note about your website.</p><p>I ran a quick audit and found 3 specific issues that are likely hurting your conversion rate:</p><p>• Slow mobile loading (losing ~30% of visitors)<br>• Confusing navigation flow<br>• No clear call-to-action above the fold</p><p>Happy to share the full audit — no cost, just thought it might be useful.</p><p>Book 15 mins here if you're curious: <a href="https://renderwiseai.com/calendar">renderwiseai.com/calendar</a></p><p>Jake<br>RenderWiseAI</p>`,
+    variants: [
+      {
+        id: 'audit-question',
+        subject: 'Quick question about your site',
+        body: `<p>Hi {{first_name}},</p><p>I ran a quick audit on your website after my last note — mind if I send it over?</p><p>Three things stood out, mostly on mobile, and each one is an easy fix.</p><p>Just reply "send it" and it's yours. No cost, no call needed.</p><p>Jake<br>RenderWiseAI</p>`,
+      },
+    ],
+  },
+  {
+    day: 6,
+    channel: 'email',
+    action: 'breakup_email',
+    subject: 'Last note — your website',
+    body: `<p>Hi {{first_name}},</p><p>I'll keep this short since I know you're busy.</p><p>If you're happy with how your site is performing, no worries at all — just wanted to make sure this didn't get buried.</p><p>If you ever want that free audit I mentioned, just reply and I'll send it over.</p><p>Either way, best of luck!</p><p>Jake<br>RenderWiseAI</p><p>P.S. — Still have a few spots open this week: <a href="https://renderwiseai.com/calendar">renderwiseai.com/calendar</a></p>`,
+  },
+];
+
 // ============================================
 // Helper to get sequence by name
 // ============================================
@@ -214,6 +258,7 @@ export const sequences = {
   webDesign: webDesignSequence,
   aiChatbot: aiChatbotSequence,
   general: generalRenderWiseSequence,
+  outbound: outboundCampaignSequence,
 };
 
 export type SequenceName = keyof typeof sequences;
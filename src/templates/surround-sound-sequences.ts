@@ -183,11 +183,67 @@ export const SOCIAL_FIRST_TEMPLATE: SequenceTemplate = {
   ],
 };
 
+// Template 4: "Engagement Branch" (Email + Voice + LinkedIn)
+// Routes on the cold email outcome: opens get a call, bounces fall back to LinkedIn
+export const ENGAGEMENT_BRANCH_TEMPLATE: SequenceTemplate = {
+  id: 'engagement-branch',
+  name: 'Engagement Branch (Email → Voice / LinkedIn)',
+  steps: [
+    {
+      id: 'cold-email',
+      day: 0,
+      channel: 'email' as Channel,
+      action: 'cold_email',
+      template: 'value_first_cold_email',
+      description: 'Value-first cold email',
+      next: 'follow-up',
+      onOutcome: { opened: 'warm-call', bounced: 'linkedin-connect' },
+    },
+    {
+      id: 'warm-call',
+      day: 2,
+      channel: 'voice' as Channel,
+      action: 'ai_warm_call',
+      template: 'warm_call_opened_email',
+      description: 'AI call referencing the email they opened',
+      next: 'follow-up',
+    },
+    {
+      id: 'linkedin-connect',
+      day: 2,
+      channel: 'linkedin' as Channel,
+      action: 'connection_request',
+      template: 'linkedin_connection_no_pitch',
+      description: 'LinkedIn connection request when email bounced',
+      next: null,
+    },
+    {
+      id: 'follow-up',
+      day: 5,
+      channel: 'email' as Channel,
+      action: 'follow_up',
+      template: 'case_study_follow_up',
+      description: 'Email follow-up with case study',
+      next: 'breakup',
+    },
+    {
+      id: 'breakup',
+      day: 10,
+      channel: 'email' as Channel,
+      action: 'breakup',
+      template: 'breakup_email',
+      description: 'Breakup email',
+      next: null,
+    },
+  ],
+};
+
 // Template registry
 export const SURROUND_SOUND_TEMPLATES: Record<string, SequenceTemplate> = {
   'full-surround': FULL_SURROUND_TEMPLATE,
   'email-voice': EMAIL_VOICE_TEMPLATE,
   'social-first': SOCIAL_FIRST_TEMPLATE,
+  'engagement-branch': ENGAGEMENT_BRANCH_TEMPLATE,
 };
 
 // Get template by ID
@@ -0,0 +1,49 @@
+import { getSupabaseClient } from './shared';
+import { bookGHLAppointment } from './ghl';
+import { BookingDecision, BookingDecisionStatus, BookingQueue, parseBookingTime } from '../core/booking-queue';
+
+/**
+ * Lists booking decisions: those waiting for human confirmation unless a status is given.
+ */
+export async function listBookingQueue(
+  options: { status?: BookingDecisionStatus; limit?: number } = {}
+): Promise<BookingDecision[]> {
+  return new BookingQueue(getSupabaseClient()).list(options);
+}
+
+/**
+ * Books a queued meeting in GHL and marks it confirmed. `when` is an ISO timestamp or a phrase like
+ * "tuesday at 10" (prospect's timezone); defaults to the time heard in the transcript.
+ */
+export async function confirmBooking(id: string, when?: string, resolvedBy?: string): Promise<BookingDecision> {
+  const queue = new BookingQueue(getSupabaseClient());
+  const decision = await queue.get(id);
+  if (decision.status !== 'needs_confirmation') {
+    throw new Error(`Booking decision ${id} is ${decision.status}, not awaiting confirmation`);
+  }
+  if (!decision.ghlContactId) {
+    throw new Error(`Booking decision ${id} has no GHL contact; book it in GHL and dismiss it here`);
+  }
+
+  const slot = when ? parseBookingTime(when, decision.timezone) : decision.spokenTime ? new Date(decision.spokenTime) : null;
+  if (!slot) {
+    throw new Error(when ? `Could not read a meeting time from "${when}"` : `Booking decision ${id} has no time; pass one`);
+  }
+
+  const appointment = await bookGHLAppointment(decision.ghlContactId, slot.toISOString(), {
+    title: `Discovery Call - ${decision.prospectName || 'Prospect'}`,
+    notes: `Confirmed from the booking queue. Email: ${decision.prospectEmail || 'N/A'}. Phone: ${decision.prospectPhone || 'N/A'}.`,
+  });
+  if (!appointment.success) {
+    throw new Error(appointment.error?.message || 'GHL booking failed');
+  }
+
+  return queue.confirm(id, slot, appointment.appointmentId ?? null, resolvedBy);
+}
+
+/**
+ * Closes a queued booking without booking it, with an optional note on why.
+ */
+export async function dismissBooking(id: string, note?: string, resolvedBy?: string): Promise<BookingDecision> {
+  return new BookingQueue(getSupabaseClient()).dismiss(id, note, resolvedBy);
+}
@@ -1,4 +1,5 @@
 import { getSupabaseClient, toErrorMessage } from './shared';
+import { ProspectTransitionService } from '../core/prospect-transitions';
 
 /**
  * Valid call-log outcomes.
@@ -126,17 +127,23 @@ export async function updateCallLogOutcome(
   let prospectUpdated = false;
   if (callLog.prospect_id) {
     const voiceState = outcomeToVoiceState(outcome as CallOutcome);
-    const { error: prospectErr } = await supabase
-      .from('prospects')
-      .update({ voice_state: voiceState })
-      .eq('id', callLog.prospect_id);
-
-    if (prospectErr) {
+    try {
+      const result = await new ProspectTransitionService(supabase).transition({
+        prospectId: callLog.prospect_id,
+        field: 'voice',
+        to: voiceState,
+        actor: 'calllog:update-outcome',
+        event: `call_${outcome}`,
+        eventId: callLog.id,
+      });
+      prospectUpdated = result.status === 'applied' || result.status === 'noop';
+      if (!prospectUpdated) {
+        console.error(`[calllog:update-outcome] Warning: call_log updated but ${result.reason}`);
+      }
+    } catch (err) {
       console.error(
-        `[calllog:update-outcome] Warning: call_log updated but prospect voice_state failed: ${prospectErr.message}`
+        `[calllog:update-outcome] Warning: call_log updated but prospect voice_state failed: ${toErrorMessage(err)}`
       );
-    } else {
-      prospectUpdated = true;
     }
   }
 
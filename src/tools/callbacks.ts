@@ -0,0 +1,25 @@
+import { getSupabaseClient } from './shared';
+import { CallbackEntry, CallbackQueue, CallbackStatus } from '../core/callback-queue';
+
+/**
+ * Lists requested callbacks, soonest first (pending ones unless a status is given).
+ */
+export async function listCallbacks(
+  options: { dueOnly?: boolean; status?: CallbackStatus; limit?: number } = {}
+): Promise<CallbackEntry[]> {
+  return new CallbackQueue(getSupabaseClient()).list(options);
+}
+
+/**
+ * Moves a callback to a new time: an ISO timestamp or a phrase like "friday at 2" (prospect's timezone).
+ */
+export async function rescheduleCallback(callLogId: string, when: string): Promise<CallbackEntry> {
+  return new CallbackQueue(getSupabaseClient()).reschedule(callLogId, when);
+}
+
+/**
+ * Cancels a pending callback so the dialer no longer picks it up.
+ */
+export async function cancelCallback(callLogId: string): Promise<CallbackEntry> {
+  return new CallbackQueue(getSupabaseClient()).cancel(callLogId);
+}
@@ -0,0 +1,19 @@
+import { getSupabaseClient } from './shared';
+import { CallerChannel, CallerIdPool, CallerNumberRow } from '../core/caller-id-pool';
+
+/**
+ * Lists pooled caller IDs with their usage, spam score and rest status (active ones unless includeRetired).
+ */
+export async function listCallerNumbers(includeRetired = false): Promise<CallerNumberRow[]> {
+  return new CallerIdPool(getSupabaseClient()).list(includeRetired);
+}
+
+/**
+ * Adds (or reactivates) a number in the caller ID pool. Voice use needs its ElevenLabs phone number id.
+ */
+export async function addCallerNumber(
+  phoneNumber: string,
+  options: { elevenlabsPhoneNumberId?: string; dailyLimit?: number; channels?: CallerChannel[] } = {}
+): Promise<CallerNumberRow> {
+  return new CallerIdPool(getSupabaseClient()).add(phoneNumber, options);
+}
@@ -8,17 +8,59 @@ import {
   getGHLContact,
   getProspect,
   getProspectHistory,
+  getProspectStateHistory,
+  getProspectScoreHistory,
+  listQuarantinedTransitions,
+  resolveQuarantinedTransition,
   getTodayStats,
   listHealthySenders,
+  getEmailExperimentReport,
+  analyzeCallObjections,
+  getObjectionReport,
+  scoreCallTranscripts,
+  getScorecardReport,
   listProspectsForOutreach,
   listVoiceAgents,
+  listVariantAllocations,
   makeCall,
   pushToGHL,
   queueEmail,
   updateProspect,
   getTranscript,
+  searchTranscripts,
+  getConversation,
+  annotateConversation,
   updateCallLogOutcome,
+  addSuppression,
+  checkSuppression,
+  listSuppressions,
+  removeSuppression,
+  listCallbacks,
+  rescheduleCallback,
+  cancelCallback,
+  listBookingQueue,
+  confirmBooking,
+  dismissBooking,
+  listCallerNumbers,
+  addCallerNumber,
+  getReputationHistory,
+  getDialerPause,
+  pauseDialer,
+  resumeDialer,
+  listExperiments,
+  getExperiment,
+  createExperiment,
+  startExperiment,
+  stopExperiment,
+  setExperimentVariant,
 } from './index';
+import { SuppressionSource, SuppressionType } from '../core/suppression';
+import { CallbackStatus } from '../core/callback-queue';
+import { BookingDecisionStatus } from '../core/booking-queue';
+import { CallerChannel } from '../core/caller-id-pool';
+import { AllocationMode } from '../core/ab-router';
+import { ObjectionDimension } from '../core/objection-analytics';
+import { ConversationSource, ReviewLabel } from '../core/transcript-search';
 
 interface ParsedArgs {
   positional: string[];
@@ -195,6 +237,37 @@ async function run(): Promise<void> {
         return;
       }
 
+      case 'prospect:timeline': {
+        const id = positional[0];
+        if (!id) throw new Error('prospect:timeline requires <id>');
+        printJson(await getProspectStateHistory(id));
+        return;
+      }
+
+      case 'prospect:scores': {
+        const id = positional[0];
+        if (!id) throw new Error('prospect:scores requires <id>');
+        const limit = parseNumber(getFlagString(flags, 'limit'), 50);
+        printJson(await getProspectScoreHistory(id, limit));
+        return;
+      }
+
+      case 'prospect:quarantine': {
+        const limit = parseNumber(getFlagString(flags, 'limit'), 50);
+        printJson(await listQuarantinedTransitions(limit));
+        return;
+      }
+
+      case 'prospect:quarantine-resolve': {
+        const historyId = positional[0];
+        if (!historyId) throw new Error('prospect:quarantine-resolve requires <historyId>');
+        if (flags.approve === flags.dismiss) {
+          throw new Error('prospect:quarantine-resolve requires exactly one of --approve or --dismiss');
+        }
+        printJson(await resolveQuarantinedTransition(historyId, flags.approve === true));
+        return;
+      }
+
       case 'prospect:update': {
         const id = positional[0];
         if (!id) throw new Error('prospect:update requires <id>');
@@ -223,6 +296,49 @@ async function run(): Promise<void> {
         return;
       }
 
+      case 'transcripts:search': {
+        const days = getFlagString(flags, 'days');
+        const since = getFlagString(flags, 'since');
+        const until = getFlagString(flags, 'until');
+        printJson(await searchTranscripts({
+          query: positional.join(' ') || undefined,
+          sources: getFlagString(flags, 'source')?.split(',') as ConversationSource[] | undefined,
+          variant: getFlagString(flags, 'variant'),
+          outcome: getFlagString(flags, 'outcome'),
+          industry: getFlagString(flags, 'industry'),
+          objection: getFlagString(flags, 'objection'),
+          label: getFlagString(flags, 'label') as ReviewLabel | undefined,
+          tag: getFlagString(flags, 'tag'),
+          since: days ? new Date(Date.now() - parseNumber(days, 30) * 24 * 60 * 60 * 1000) : since ? new Date(since) : undefined,
+          until: until ? new Date(until) : undefined,
+          limit: parseNumber(getFlagString(flags, 'limit'), 25),
+        }));
+        return;
+      }
+
+      case 'transcripts:show': {
+        const [source, id] = positional;
+        if ((source !== 'call' && source !== 'email') || !id) {
+          throw new Error('transcripts:show requires <call|email> <id>');
+        }
+        printJson(await getConversation(source, id));
+        return;
+      }
+
+      case 'transcripts:annotate': {
+        const [source, id] = positional;
+        if ((source !== 'call' && source !== 'email') || !id) {
+          throw new Error('transcripts:annotate requires <call|email> <id> [--label good|bad --tags a,b --note <text> --reviewer <name>]');
+        }
+        printJson(await annotateConversation(source, id, {
+          label: getFlagString(flags, 'label') as ReviewLabel | undefined,
+          tags: getFlagString(flags, 'tags')?.split(','),
+          note: getFlagString(flags, 'note'),
+          reviewer: getFlagString(flags, 'reviewer') || process.env.USER || 'cli',
+        }));
+        return;
+      }
+
       case 'voice:agents': {
         printJson(await listVoiceAgents());
         return;
@@ -252,6 +368,46 @@ async function run(): Promise<void> {
         return;
       }
 
+      case 'email:experiment': {
+        printJson(await getEmailExperimentReport(parseNumber(getFlagString(flags, 'days'), 30)));
+        return;
+      }
+
+      case 'objections:analyze': {
+        const days = getFlagString(flags, 'days');
+        const limit = getFlagString(flags, 'limit');
+        printJson(await analyzeCallObjections({
+          days: days ? parseNumber(days, 30) : undefined,
+          limit: limit ? parseNumber(limit, 500) : undefined,
+          reanalyze: flags.all === true,
+        }));
+        return;
+      }
+
+      case 'objections:report': {
+        printJson(await getObjectionReport(
+          (getFlagString(flags, 'by') || 'variant') as ObjectionDimension,
+          parseNumber(getFlagString(flags, 'days'), 30)
+        ));
+        return;
+      }
+
+      case 'qa:score': {
+        const days = getFlagString(flags, 'days');
+        const limit = getFlagString(flags, 'limit');
+        printJson(await scoreCallTranscripts({
+          days: days ? parseNumber(days, 30) : undefined,
+          limit: limit ? parseNumber(limit, 500) : undefined,
+          rescore: flags.all === true,
+        }));
+        return;
+      }
+
+      case 'qa:report': {
+        printJson(await getScorecardReport(parseNumber(getFlagString(flags, 'days'), 30)));
+        return;
+      }
+
       case 'ghl:push': {
         const prospectId = positional[0];
         if (!prospectId) throw new Error('ghl:push requires <prospectId>');
@@ -277,6 +433,218 @@ async function run(): Promise<void> {
         return;
       }
 
+      case 'suppression:check':
+      case 'suppression:add': {
+        const target = {
+          email: getFlagString(flags, 'email'),
+          phone: getFlagString(flags, 'phone'),
+          domain: getFlagString(flags, 'domain'),
+        };
+        if (!target.email && !target.phone && !target.domain) {
+          throw new Error(`${command} requires at least one of --email, --phone, --domain`);
+        }
+        printJson(command === 'suppression:add'
+          ? await addSuppression(target, getFlagString(flags, 'reason'))
+          : await checkSuppression(target));
+        return;
+      }
+
+      case 'suppression:list': {
+        printJson(await listSuppressions({
+          type: getFlagString(flags, 'type') as SuppressionType | undefined,
+          source: getFlagString(flags, 'source') as SuppressionSource | undefined,
+          limit: parseNumber(getFlagString(flags, 'limit'), 100),
+        }));
+        return;
+      }
+
+      case 'suppression:remove': {
+        const [type, value] = positional;
+        if (!['email', 'phone', 'domain'].includes(type) || !value) {
+          throw new Error('suppression:remove requires <email|phone|domain> <value>');
+        }
+        printJson(await removeSuppression(type as SuppressionType, value));
+        return;
+      }
+
+      case 'callback:list': {
+        printJson(await listCallbacks({
+          dueOnly: flags.due === true,
+          status: getFlagString(flags, 'status') as CallbackStatus | undefined,
+          limit: parseNumber(getFlagString(flags, 'limit'), 50),
+        }));
+        return;
+      }
+
+      case 'callback:reschedule': {
+        const [callLogId, ...when] = positional;
+        if (!callLogId || !when.length) {
+          throw new Error('callback:reschedule requires <callLogId> <when> (ISO time or e.g. "friday at 2")');
+        }
+        printJson(await rescheduleCallback(callLogId, when.join(' ')));
+        return;
+      }
+
+      case 'callback:cancel': {
+        const [callLogId] = positional;
+        if (!callLogId) {
+          throw new Error('callback:cancel requires <callLogId>');
+        }
+        printJson(await cancelCallback(callLogId));
+        return;
+      }
+
+      case 'booking:queue': {
+        printJson(await listBookingQueue({
+          status: getFlagString(flags, 'status') as BookingDecisionStatus | undefined,
+          limit: parseNumber(getFlagString(flags, 'limit'), 50),
+        }));
+        return;
+      }
+
+      case 'booking:confirm': {
+        const [id, ...when] = positional;
+        if (!id) {
+          throw new Error('booking:confirm requires <id> [when] (ISO time or e.g. "tuesday at 10"; default: the time heard on the call)');
+        }
+        printJson(await confirmBooking(id, when.length ? when.join(' ') : undefined, getFlagString(flags, 'by')));
+        return;
+      }
+
+      case 'booking:dismiss': {
+        const [id, ...note] = positional;
+        if (!id) {
+          throw new Error('booking:dismiss requires <id> [note]');
+        }
+        printJson(await dismissBooking(id, note.length ? note.join(' ') : undefined, getFlagString(flags, 'by')));
+        return;
+      }
+
+      case 'numbers:list': {
+        printJson(await listCallerNumbers(flags.all === true));
+        return;
+      }
+
+      case 'numbers:add': {
+        const [phoneNumber] = positional;
+        if (!phoneNumber) {
+          throw new Error('numbers:add requires <phoneNumber>');
+        }
+        const dailyLimit = getFlagString(flags, 'dailyLimit');
+        const channels = getFlagString(flags, 'channels');
+        printJson(await addCallerNumber(phoneNumber, {
+          elevenlabsPhoneNumberId: getFlagString(flags, 'elevenlabsId'),
+          dailyLimit: dailyLimit ? parseNumber(dailyLimit, 50) : undefined,
+          channels: channels ? channels.split(',').map(c => c.trim()) as CallerChannel[] : undefined,
+        }));
+        return;
+      }
+
+      case 'reputation:history': {
+        const [phoneNumber] = positional;
+        printJson(await getReputationHistory({
+          phoneNumber,
+          days: parseNumber(getFlagString(flags, 'days'), 30),
+        }));
+        return;
+      }
+
+      case 'dialer:status': {
+        const pause = await getDialerPause();
+        printJson({ paused: !!pause, pause });
+        return;
+      }
+
+      case 'dialer:pause': {
+        const reason = positional.join(' ');
+        if (!reason) {
+          throw new Error('dialer:pause requires <reason> [--hours N]');
+        }
+        const hours = getFlagString(flags, 'hours');
+        printJson(await pauseDialer(reason, hours ? parseNumber(hours, 24) : undefined));
+        return;
+      }
+
+      case 'dialer:resume': {
+        printJson(await resumeDialer());
+        return;
+      }
+
+      case 'ab:allocations': {
+        printJson(await listVariantAllocations({
+          variantId: getFlagString(flags, 'variant'),
+          limit: parseNumber(getFlagString(flags, 'limit'), 50),
+        }));
+        return;
+      }
+
+      case 'experiment:list': {
+        printJson(await listExperiments());
+        return;
+      }
+
+      case 'experiment:show': {
+        const [key] = positional;
+        if (!key) {
+          throw new Error('experiment:show requires <key>');
+        }
+        printJson(await getExperiment(key));
+        return;
+      }
+
+      case 'experiment:create': {
+        const [key] = positional;
+        const name = getFlagString(flags, 'name');
+        if (!key || !name) {
+          throw new Error('experiment:create requires <key> --name <name> [--hypothesis <text> --mode <mode> --seed]');
+        }
+        const mode = getFlagString(flags, 'mode');
+        printJson(await createExperiment({
+          key,
+          name,
+          hypothesis: getFlagString(flags, 'hypothesis'),
+          allocation: mode ? { mode: mode.replace(/-/g, '_') as AllocationMode } : undefined,
+          seed: flags.seed === true,
+        }));
+        return;
+      }
+
+      case 'experiment:start': {
+        const [key] = positional;
+        if (!key) {
+          throw new Error('experiment:start requires <key>');
+        }
+        printJson(await startExperiment(key));
+        return;
+      }
+
+      case 'experiment:stop': {
+        const [key] = positional;
+        if (!key) {
+          throw new Error('experiment:stop requires <key>');
+        }
+        printJson(await stopExperiment(key));
+        return;
+      }
+
+      case 'experiment:variant': {
+        const [key, variantId] = positional;
+        if (!key || !variantId) {
+          throw new Error('experiment:variant requires <key> <variantId> [--agent-id --name --weight --enabled true|false --config <json>]');
+        }
+        const weight = getFlagString(flags, 'weight');
+        const enabled = getFlagString(flags, 'enabled');
+        const config = getFlagString(flags, 'config');
+        printJson(await setExperimentVariant(key, variantId, {
+          agentId: getFlagString(flags, 'agentId'),
+          name: getFlagString(flags, 'name'),
+          weight: weight ? parseNumber(weight, 1) : undefined,
+          enabled: enabled ? enabled === 'true' : undefined,
+          config: config ? JSON.parse(config) : undefined,
+        }));
+        return;
+      }
+
       case 'report:today': {
         printJson(await getTodayStats());
         return;
@@ -3,6 +3,9 @@ import * as instantly from '../channels/instantly-adapter';
 import { getSupabaseClient, toErrorMessage } from './shared';
 import { EmailResult, EmailStatus } from './types';
 import { getProspect } from './prospects';
+import { SuppressionService } from '../core/suppression';
+import { ProspectTransitionService } from '../core/prospect-transitions';
+import { EmailExperimentReport, EmailExperimentService } from '../core/email-experiments';
 
 const BLOCKED_SENDER_DOMAINS = ['renderwise.net', 'renderwiseai.com'];
 
@@ -40,7 +43,11 @@ export async function queueEmail(prospectId: string, subject: string, body: stri
       };
     }
 
-    const adapter = new EmailAdapter();
+    // The adapter checks the suppression list before queueing
+    const adapter = new EmailAdapter(
+      new SuppressionService(getSupabaseClient()),
+      new EmailExperimentService(getSupabaseClient())
+    );
     const result = await adapter.sendColdEmail(prospect, subject, body);
 
     if (!result.success) {
@@ -49,7 +56,9 @@ export async function queueEmail(prospectId: string, subject: string, body: stri
         prospectId,
         email: prospect.email,
         outcome: result.outcome,
-        error: { code: 'QUEUE_FAILED', message: result.error || 'Failed to queue email' },
+        error: result.outcome === 'suppressed'
+          ? { code: 'SUPPRESSED', message: result.error || 'Prospect is on the suppression list' }
+          : { code: 'QUEUE_FAILED', message: result.error || 'Failed to queue email' },
       };
     }
 
@@ -58,7 +67,14 @@ export async function queueEmail(prospectId: string, subject: string, body: stri
     // Keep local state in sync for reporting/watchdog logic.
     try {
       const supabase = getSupabaseClient();
-      await supabase.from('prospects').update({ email_state: 'sent' }).eq('id', prospectId);
+      await new ProspectTransitionService(supabase).transition({
+        prospectId,
+        field: 'email',
+        to: 'sent',
+        actor: 'email:queue',
+        event: 'cold_email_sent',
+        onInvalid: 'skip', // already opened or replied
+      });
       await supabase.from('touchpoints').insert({
         prospect_id: prospectId,
         campaign_id: campaignId || null,
@@ -188,3 +204,11 @@ export async function listHealthySenders(): Promise<string[]> {
   const senders = await instantly.getHealthySenders(80);
   return senders.filter((sender) => !isBlockedDomain(sender));
 }
+
+/**
+ * Per-variant send, open, reply and bounce rates for email A/B tested sequence steps over the last `days`.
+ */
+export async function getEmailExperimentReport(days: number = 30): Promise<EmailExperimentReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return new EmailExperimentService(getSupabaseClient()).report(since);
+}
@@ -0,0 +1,59 @@
+import { getSupabaseClient } from './shared';
+import {
+  CreateExperimentInput,
+  ExperimentDetail,
+  ExperimentRegistry,
+  ExperimentRow,
+  ExperimentVariantRow,
+  VariantChanges,
+} from '../core/experiment-registry';
+
+function registry(): ExperimentRegistry {
+  return new ExperimentRegistry(getSupabaseClient(), { cacheMs: 0 });
+}
+
+/**
+ * Lists voice A/B experiments, newest first.
+ */
+export async function listExperiments(): Promise<ExperimentRow[]> {
+  return registry().list();
+}
+
+/**
+ * Returns an experiment with its current variant versions and full version history.
+ */
+export async function getExperiment(key: string): Promise<ExperimentDetail> {
+  return registry().get(key);
+}
+
+/**
+ * Creates a draft experiment, optionally seeded with the variants in variants.json.
+ */
+export async function createExperiment(input: CreateExperimentInput): Promise<ExperimentDetail> {
+  return registry().create(input);
+}
+
+/**
+ * Starts an experiment; the dialer allocates across its enabled variants from then on.
+ */
+export async function startExperiment(key: string): Promise<ExperimentRow> {
+  return registry().start(key);
+}
+
+/**
+ * Stops an experiment; the dialer falls back to variants.json.
+ */
+export async function stopExperiment(key: string): Promise<ExperimentRow> {
+  return registry().stop(key);
+}
+
+/**
+ * Adds or changes a variant, writing a new version when anything changed.
+ */
+export async function setExperimentVariant(
+  key: string,
+  variantId: string,
+  changes: VariantChanges
+): Promise<ExperimentVariantRow> {
+  return registry().setVariant(key, variantId, changes);
+}
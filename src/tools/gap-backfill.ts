@@ -44,6 +44,7 @@ export async function queryGapBackfill(): Promise<GapReport> {
     supabase
       .from('call_logs')
       .select('id', { count: 'exact', head: true })
+      .neq('status', 'blocked')
       .gte('created_at', start)
       .lte('created_at', end),
   ]);
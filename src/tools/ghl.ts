@@ -1,9 +1,11 @@
 import { getProspect } from './prospects';
 import { toErrorMessage } from './shared';
-import { GHLContact, GHLResult } from './types';
+import { GHLAppointmentResult, GHLContact, GHLResult } from './types';
 
 const GHL_API_KEY = process.env.GHL_API_KEY || '';
 const GHL_LOCATION_ID = process.env.GHL_LOCATION_ID || '';
+const GHL_CALENDAR_ID = process.env.GHL_CALENDAR_ID || '';
+const GHL_USER_ID = process.env.GHL_USER_ID || '';
 const GHL_BASE_URL = 'https://services.leadconnectorhq.com';
 const GHL_VERSION = '2021-04-15';
 
@@ -171,3 +173,74 @@ export async function pushToGHL(prospectId: string, pipelineStage: string = 'hun
     };
   }
 }
+
+/**
+ * Books a 30-minute discovery call on the GHL calendar for an existing contact.
+ */
+export async function bookGHLAppointment(
+  contactId: string,
+  startTime: string,
+  options: { title?: string; notes?: string } = {}
+): Promise<GHLAppointmentResult> {
+  try {
+    if (!GHL_API_KEY || !GHL_LOCATION_ID || !GHL_CALENDAR_ID) {
+      return {
+        success: false,
+        contactId,
+        startTime,
+        error: {
+          code: 'MISSING_GHL_CONFIG',
+          message: 'GHL_API_KEY, GHL_LOCATION_ID and GHL_CALENDAR_ID are required',
+        },
+      };
+    }
+
+    const start = new Date(startTime);
+    const response = await fetch(`${GHL_BASE_URL}/calendars/events/appointments`, {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({
+        calendarId: GHL_CALENDAR_ID,
+        locationId: GHL_LOCATION_ID,
+        contactId,
+        startTime: start.toISOString(),
+        endTime: new Date(start.getTime() + 30 * 60000).toISOString(),
+        title: options.title || 'Discovery Call',
+        appointmentStatus: 'confirmed',
+        assignedUserId: GHL_USER_ID || undefined,
+        notes: options.notes,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      return {
+        success: false,
+        contactId,
+        startTime,
+        error: {
+          code: 'GHL_BOOKING_FAILED',
+          message: `Failed booking GHL appointment: ${response.status} ${body.slice(0, 200)}`,
+        },
+      };
+    }
+
+    const appointment = await parseJsonSafe<{ id?: string }>(response);
+    return {
+      success: true,
+      contactId,
+      startTime: start.toISOString(),
+      appointmentId: appointment?.id,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      contactId,
+      startTime,
+      error: {
+        code: 'GHL_TOOL_ERROR',
+        message: toErrorMessage(error),
+      },
+    };
+  }
+}
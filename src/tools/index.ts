@@ -7,3 +7,12 @@ export * from './reporting';
 export * from './gap-backfill';
 export * from './manifest';
 export * from './call-logs';
+export * from './suppressions';
+export * from './callbacks';
+export * from './caller-numbers';
+export * from './reputation';
+export * from './experiments';
+export * from './bookings';
+export * from './objections';
+export * from './transcripts';
+export * from './scorecards';
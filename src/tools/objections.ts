@@ -0,0 +1,35 @@
+import { getSupabaseClient } from './shared';
+import {
+  ObjectionAnalysisResult,
+  ObjectionAnalyzer,
+  ObjectionDimension,
+  ObjectionReport,
+} from '../core/objection-analytics';
+
+const DIMENSIONS: ObjectionDimension[] = ['variant', 'industry', 'script'];
+
+/**
+ * Tags objections in stored call transcripts that haven't been analyzed yet (all of them with reanalyze),
+ * optionally only calls from the last `days`.
+ */
+export async function analyzeCallObjections(
+  options: { days?: number; limit?: number; reanalyze?: boolean } = {}
+): Promise<ObjectionAnalysisResult> {
+  return new ObjectionAnalyzer(getSupabaseClient()).analyze({
+    since: options.days ? new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) : undefined,
+    limit: options.limit,
+    reanalyze: options.reanalyze,
+  });
+}
+
+/**
+ * Objection frequency by variant, industry or script template over the last `days`, with the objections
+ * that most often come before a booking or a hang-up.
+ */
+export async function getObjectionReport(by: ObjectionDimension = 'variant', days: number = 30): Promise<ObjectionReport> {
+  if (!DIMENSIONS.includes(by)) {
+    throw new Error(`Unknown objection grouping "${by}" (${DIMENSIONS.join(', ')})`);
+  }
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return new ObjectionAnalyzer(getSupabaseClient()).report(by, since);
+}
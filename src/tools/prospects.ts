@@ -1,6 +1,9 @@
 import { Prospect, ProspectRow, Touchpoint, TouchpointRow, prospectFromRow, touchpointFromRow } from '../types';
 import { DailyStats, ProspectHistory } from './types';
 import { getSupabaseClient, getTodayUtcRange, toErrorMessage } from './shared';
+import { ProspectTransitionService, StateHistoryRow } from '../core/prospect-transitions';
+import { StateField, STATE_COLUMNS } from '../core/state-machine';
+import { LeadScoringService } from '../core/lead-scoring';
 
 type OutreachOptions = {
   limit?: number;
@@ -91,21 +94,64 @@ export async function listProspectsForOutreach(options: OutreachOptions = {}): P
 
 /**
  * Updates prospect fields in Supabase.
+ * State columns go through the transition service; invalid moves are logged and skipped.
  */
 export async function updateProspect(id: string, updates: Partial<Prospect>): Promise<void> {
   const supabase = getSupabaseClient();
-  const payload = mapProspectUpdatesToRow(updates);
+  const payload: Record<string, unknown> = mapProspectUpdatesToRow(updates);
 
-  if (Object.keys(payload).length === 0) {
-    return;
+  const stateMoves: Array<{ field: StateField; to: string }> = [];
+  for (const [field, column] of Object.entries(STATE_COLUMNS) as Array<[StateField, string]>) {
+    if (typeof payload[column] === 'string') {
+      stateMoves.push({ field, to: payload[column] as string });
+    }
+    delete payload[column];
   }
 
-  const { error } = await supabase.from('prospects').update(payload).eq('id', id);
-  if (error) {
-    throw new Error(`Failed to update prospect ${id}: ${error.message}`);
+  if (Object.keys(payload).length > 0) {
+    const { error } = await supabase.from('prospects').update(payload).eq('id', id);
+    if (error) {
+      throw new Error(`Failed to update prospect ${id}: ${error.message}`);
+    }
+  }
+
+  const transitions = new ProspectTransitionService(supabase);
+  for (const move of stateMoves) {
+    const result = await transitions.transition({ prospectId: id, field: move.field, to: move.to, actor: 'tools' });
+    if (result.status === 'rejected') {
+      console.error(`[tools.prospects] ${result.reason} for prospect ${id}`);
+    }
   }
 }
 
+/**
+ * Returns the prospect's state transition timeline, including refused moves.
+ */
+export async function getProspectStateHistory(id: string): Promise<StateHistoryRow[]> {
+  return new ProspectTransitionService(getSupabaseClient()).getHistory(id);
+}
+
+/**
+ * Returns the prospect's lead score changes, newest first, with the per-category breakdown.
+ */
+export async function getProspectScoreHistory(id: string, limit = 50): Promise<Record<string, any>[]> {
+  return new LeadScoringService(getSupabaseClient()).getHistory(id, limit);
+}
+
+/**
+ * Lists state moves held for review because the state machine did not allow them.
+ */
+export async function listQuarantinedTransitions(limit = 50): Promise<StateHistoryRow[]> {
+  return new ProspectTransitionService(getSupabaseClient()).listQuarantined(limit);
+}
+
+/**
+ * Applies (approve) or drops (dismiss) a quarantined state move.
+ */
+export async function resolveQuarantinedTransition(historyId: string, approve: boolean): Promise<StateHistoryRow> {
+  return new ProspectTransitionService(getSupabaseClient()).resolveQuarantined(historyId, approve, 'cli');
+}
+
 /**
  * Returns all touchpoints for a prospect in chronological order.
  */
@@ -133,7 +179,7 @@ export async function getTodayStats(): Promise<DailyStats> {
 
   const [{ data: touchpoints, error: touchErr }, { data: calls, error: callErr }] = await Promise.all([
     supabase.from('touchpoints').select('channel,outcome').gte('created_at', start).lte('created_at', end),
-    supabase.from('call_logs').select('outcome').gte('created_at', start).lte('created_at', end),
+    supabase.from('call_logs').select('outcome').neq('status', 'blocked').gte('created_at', start).lte('created_at', end),
   ]);
 
   if (touchErr) {
@@ -0,0 +1,33 @@
+import { getSupabaseClient } from './shared';
+import { ReputationHistory, ReputationMonitor } from '../monitoring/reputation-monitor';
+import { DialerPauseRow, DialerPauseService } from '../core/dialer-pause';
+
+/**
+ * Reputation snapshots per caller ID over the last `days` (all monitored numbers unless one is given).
+ */
+export async function getReputationHistory(
+  options: { phoneNumber?: string; days?: number } = {}
+): Promise<ReputationHistory[]> {
+  return new ReputationMonitor(getSupabaseClient()).history(options);
+}
+
+/**
+ * Returns the dialer pause in force, or null when the dialer is running.
+ */
+export async function getDialerPause(): Promise<DialerPauseRow | null> {
+  return new DialerPauseService(getSupabaseClient()).active();
+}
+
+/**
+ * Stops the dialer until resumed (or for `hours`).
+ */
+export async function pauseDialer(reason: string, hours?: number): Promise<DialerPauseRow> {
+  return new DialerPauseService(getSupabaseClient()).pause(reason, 'manual', hours);
+}
+
+/**
+ * Lifts every open dialer pause, including ones set by the reputation monitor.
+ */
+export async function resumeDialer(actor: string = 'manual'): Promise<{ resumed: number }> {
+  return { resumed: await new DialerPauseService(getSupabaseClient()).resume(actor) };
+}
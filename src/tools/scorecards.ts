@@ -0,0 +1,25 @@
+import { getSupabaseClient } from './shared';
+import { CallScorecardService, ScorecardReport, ScoringResult } from '../core/call-scorecard';
+
+/**
+ * Scores stored call transcripts the post-call webhook didn't (all of them with rescore), optionally only
+ * calls from the last `days`.
+ */
+export async function scoreCallTranscripts(
+  options: { days?: number; limit?: number; rescore?: boolean } = {}
+): Promise<ScoringResult> {
+  return new CallScorecardService(getSupabaseClient()).scoreCalls({
+    since: options.days ? new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) : undefined,
+    limit: options.limit,
+    rescore: options.rescore,
+  });
+}
+
+/**
+ * Call QA scores per agent variant over the last `days`: average score, talk ratio, interruptions,
+ * script stage coverage, objection handling and meeting-ask rate.
+ */
+export async function getScorecardReport(days: number = 30): Promise<ScorecardReport> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return new CallScorecardService(getSupabaseClient()).report(since);
+}
@@ -0,0 +1,41 @@
+import { getSupabaseClient } from './shared';
+import {
+  SuppressionCheck,
+  SuppressionRow,
+  SuppressionService,
+  SuppressionSource,
+  SuppressionTarget,
+  SuppressionType,
+} from '../core/suppression';
+
+/**
+ * Checks an email / phone / domain against the global do-not-contact list.
+ */
+export async function checkSuppression(target: SuppressionTarget): Promise<SuppressionCheck> {
+  return new SuppressionService(getSupabaseClient()).check(target);
+}
+
+/**
+ * Adds an email, phone and/or domain to the do-not-contact list (source 'manual').
+ */
+export async function addSuppression(target: SuppressionTarget, reason?: string): Promise<{ added: number }> {
+  const added = await new SuppressionService(getSupabaseClient()).suppress(target, { source: 'manual', reason });
+  return { added };
+}
+
+/**
+ * Lists suppression entries, newest first.
+ */
+export async function listSuppressions(
+  options: { type?: SuppressionType; source?: SuppressionSource; limit?: number } = {}
+): Promise<SuppressionRow[]> {
+  return new SuppressionService(getSupabaseClient()).list(options);
+}
+
+/**
+ * Removes a suppression entry so the contact can be reached again.
+ */
+export async function removeSuppression(type: SuppressionType, value: string): Promise<{ removed: boolean }> {
+  const removed = await new SuppressionService(getSupabaseClient()).remove(type, value);
+  return { removed };
+}
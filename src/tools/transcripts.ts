@@ -0,0 +1,36 @@
+import { getSupabaseClient } from './shared';
+import {
+  AnnotationInput,
+  Conversation,
+  ConversationAnnotation,
+  ConversationSource,
+  TranscriptSearch,
+  TranscriptSearchFilters,
+  TranscriptSearchResult,
+} from '../core/transcript-search';
+
+/**
+ * Full-text search over call transcripts and email replies, with variant, outcome, industry, objection,
+ * review label, tag and date filters.
+ */
+export async function searchTranscripts(filters: TranscriptSearchFilters = {}): Promise<TranscriptSearchResult[]> {
+  return new TranscriptSearch(getSupabaseClient()).search(filters);
+}
+
+/**
+ * Returns one call transcript or email reply with its tagged objections and reviewer annotations.
+ */
+export async function getConversation(source: ConversationSource, id: string): Promise<Conversation> {
+  return new TranscriptSearch(getSupabaseClient()).getConversation(source, id);
+}
+
+/**
+ * Adds reviewer tags, a note and/or a good/bad label to a call or email reply.
+ */
+export async function annotateConversation(
+  source: ConversationSource,
+  id: string,
+  input: AnnotationInput
+): Promise<ConversationAnnotation> {
+  return new TranscriptSearch(getSupabaseClient()).annotate(source, id, input);
+}
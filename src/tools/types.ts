@@ -81,6 +81,14 @@ export interface GHLResult {
   error?: ToolError;
 }
 
+export interface GHLAppointmentResult {
+  success: boolean;
+  contactId: string;
+  startTime: string;
+  appointmentId?: string;
+  error?: ToolError;
+}
+
 export interface DailyStats {
   date: string;
   callsMadeToday: number;
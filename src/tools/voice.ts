@@ -1,8 +1,15 @@
 import variants from '../../variants.json';
-import { VariantConfig as ABVariantConfig, getVariantById } from '../core/ab-router';
+import { VariantConfig as ABVariantConfig, VariantAllocator } from '../core/ab-router';
+import { ExperimentRegistry } from '../core/experiment-registry';
 import { voiceAgent } from '../dialer/voice-agent';
 import { ProspectRow } from '../types';
 import { getSupabaseClient, toErrorMessage } from './shared';
+import { SuppressionService } from '../core/suppression';
+import { ComplianceGuard } from '../core/compliance-guard';
+import { CallCadenceService } from '../core/call-cadence';
+import { CallerIdPool } from '../core/caller-id-pool';
+import { DialerPauseService } from '../core/dialer-pause';
+import { resolveTimezone } from '../core/timezone-resolver';
 import { CallResult, TranscriptResult, VoiceAgentVariant } from './types';
 
 interface VariantsFile {
@@ -17,9 +24,9 @@ export async function makeCall(prospectId: string, agentVariant?: string): Promi
     const supabase = getSupabaseClient();
     const { data, error } = await supabase
       .from('prospects')
-      .select('id,name,company,phone,email,website')
+      .select('id,campaign_id,name,company,phone,email,website,state,timezone,location')
       .eq('id', prospectId)
-      .single<Pick<ProspectRow, 'id' | 'name' | 'company' | 'phone' | 'email' | 'website'>>();
+      .single<Pick<ProspectRow, 'id' | 'campaign_id' | 'name' | 'company' | 'phone' | 'email' | 'website' | 'state' | 'timezone' | 'location'>>();
 
     if (error || !data) {
       return {
@@ -39,12 +46,49 @@ export async function makeCall(prospectId: string, agentVariant?: string): Promi
       };
     }
 
-    const variant = agentVariant ? getVariantById(agentVariant) : undefined;
+    const suppression = await new SuppressionService(supabase).isBlocked(data, `makeCall ${prospectId}`);
+    if (suppression.suppressed) {
+      return {
+        success: false,
+        prospectId,
+        status: 'failed',
+        error: { code: 'SUPPRESSED', message: suppression.reason || 'Prospect is on the suppression list' },
+      };
+    }
+
+    const pause = await new DialerPauseService(supabase).active();
+    if (pause) {
+      return {
+        success: false,
+        prospectId,
+        status: 'failed',
+        error: { code: 'DIALER_PAUSED', message: `Dialer paused by ${pause.source}: ${pause.reason}` },
+      };
+    }
+
+    const guard = new ComplianceGuard(supabase);
+    const compliance = await guard.check({ ...data, campaignId: data.campaign_id });
+    if (!compliance.allowed) {
+      await guard.recordDenial({ ...data, campaignId: data.campaign_id }, compliance, 'makeCall');
+      return {
+        success: false,
+        prospectId,
+        status: 'failed',
+        error: { code: 'COMPLIANCE_BLOCKED', message: compliance.reason },
+      };
+    }
+
+    // A named variant resolves to its current version in the running experiment (or variants.json)
+    const variant = agentVariant ? await new VariantAllocator(supabase).resolve(agentVariant) : undefined;
     const first = (data.name || '').split(' ')[0] || data.name || 'there';
     const company = data.company || 'your company';
 
+    const callerIds = new CallerIdPool(supabase);
+    const caller = await callerIds.select(data, 'voice');
+
     const outboundResult = await voiceAgent.makeOutboundCall(data.phone, {
       agentIdOverride: variant?.agentId,
+      phoneNumberIdOverride: caller?.number.elevenlabs_phone_number_id || undefined,
       prospectData: {
         // ElevenLabs agent expects snake_case keys in many templates
         first_name: first,
@@ -70,6 +114,30 @@ export async function makeCall(prospectId: string, agentVariant?: string): Promi
       };
     }
 
+    // The post-call webhook fills this row in by conversation_id
+    const { error: logError } = await supabase.from('call_logs').insert({
+      conversation_id: outboundResult.conversationId,
+      prospect_id: prospectId,
+      campaign_id: data.campaign_id,
+      agent_variant: variant?.id,
+      experiment_variant_id: variant?.versionId ?? null,
+      status: 'initiated',
+      direction: 'outbound',
+      caller_number: caller?.number.phone_number ?? null,
+      compliance,
+    });
+    if (logError) {
+      console.error(`[tools.voice] Failed to log call for ${prospectId}:`, logError.message);
+    }
+
+    if (caller) await callerIds.recordUse(caller.number);
+
+    try {
+      await new CallCadenceService(supabase).recordAttempt(prospectId, resolveTimezone(data));
+    } catch (err) {
+      console.error(`[tools.voice] ${toErrorMessage(err)}`);
+    }
+
     return {
       success: true,
       prospectId,
@@ -123,11 +191,50 @@ export async function getTranscript(conversationId: string): Promise<TranscriptR
 }
 
 /**
- * Lists available voice agent variants from variants.json.
+ * Lists voice agent variants of the running experiment (variants.json when none is running).
  */
 export async function listVoiceAgents(): Promise<VoiceAgentVariant[]> {
-  const file = variants as VariantsFile;
-  return file.variants.map((variant) => ({ ...variant }));
+  const seed = () => (variants as VariantsFile).variants.map((variant) => ({ ...variant }));
+  let registry: ExperimentRegistry;
+  try {
+    registry = new ExperimentRegistry(getSupabaseClient());
+  } catch {
+    return seed();
+  }
+
+  const { experiment } = await registry.current();
+  if (!experiment) return seed();
+
+  const { variants: current } = await registry.get(experiment.key);
+  return current.map((v) => ({
+    ...(v.config as Partial<VoiceAgentVariant>),
+    id: v.variant_id,
+    agentId: v.agent_id,
+    name: v.name,
+    weight: Number(v.weight),
+    enabled: v.enabled,
+  }));
+}
+
+/**
+ * Lists recent variant allocation decisions (newest first) for auditing A/B experiments.
+ */
+export async function listVariantAllocations(
+  options: { variantId?: string; limit?: number } = {}
+): Promise<Record<string, unknown>[]> {
+  const supabase = getSupabaseClient();
+  let query = supabase
+    .from('variant_allocations')
+    .select('id, variant_id, mode, explored, reason, scores, prospect_id, call_log_id, created_at')
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50);
+  if (options.variantId) query = query.eq('variant_id', options.variantId);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load variant allocations: ${error.message}`);
+  }
+  return data || [];
 }
 
 export type { ABVariantConfig };
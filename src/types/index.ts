@@ -37,8 +37,17 @@ export type VoiceState =
   | 'called' 
   | 'answered' 
   | 'voicemail' 
+  | 'callback'
+  | 'interested'
+  | 'not_interested'
+  | 'failed'
   | 'booked';
 
+export type SmsState =
+  | 'none'
+  | 'replied'
+  | 'opted_out';
+
 export type Channel = 'linkedin' | 'x' | 'email' | 'voice';
 
 // Call log row type (snake_case - matches Supabase schema)
@@ -66,12 +75,13 @@ export interface CampaignRow {
   id: string;
   name: string;
   client_id: string;
-  icp_criteria: Record<string, any>;
+  icp_criteria: IcpCriteria;
   sequence_template: SequenceTemplate;
   status: 'active' | 'paused' | 'completed';
   daily_limits: DailyLimits;
   business_hours: BusinessHours;
   exclusion_list: string[];
+  call_cadence?: CallCadence | null;
   created_at: string;
   updated_at: string;
 }
@@ -92,10 +102,14 @@ export interface ProspectRow {
   location?: string;
   pipeline_state: ProspectState;
   state?: string; // geographic state (e.g. "Tennessee")
+  timezone?: string; // IANA zone inferred from state / area code / city
   linkedin_state: LinkedInState;
   x_state: XState;
   email_state: EmailState;
   voice_state: VoiceState;
+  call_attempts?: number; // dials so far (see core/call-cadence)
+  last_call_at?: string;
+  last_call_slot?: CallSlot;
   score: number;
   notes?: string;
   source?: string;
@@ -128,7 +142,8 @@ export interface SequenceRow {
   prospect_id: string;
   campaign_id: string;
   template_id: string;
-  current_step: number;
+  current_step: string; // step id (legacy rows hold the step index)
+  previous_step?: string | null;
   next_step_at?: string;
   status: 'active' | 'paused' | 'completed' | 'cancelled';
   started_at: string;
@@ -153,12 +168,13 @@ export interface Campaign {
   id: string;
   name: string;
   clientId: string;
-  icpCriteria: Record<string, any>;
+  icpCriteria: IcpCriteria;
   sequenceTemplate: SequenceTemplate;
   status: 'active' | 'paused' | 'completed';
   dailyLimits: DailyLimits;
   businessHours: BusinessHours;
   exclusionList: string[];
+  callCadence?: CallCadence | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -192,6 +208,7 @@ export interface Prospect {
   location?: string;
   pipeline_state: ProspectState;
   state?: string; // geographic state
+  timezone?: string;
   linkedinState: LinkedInState;
   xState: XState;
   emailState: EmailState;
@@ -224,7 +241,8 @@ export interface Sequence {
   prospectId: string;
   campaignId: string;
   templateId: string;
-  currentStep: number;
+  currentStep: string;
+  previousStep?: string;
   nextStepAt?: Date;
   status: 'active' | 'paused' | 'completed' | 'cancelled';
   startedAt: Date;
@@ -239,18 +257,96 @@ export interface SequenceTemplate {
   steps: SequenceStep[];
 }
 
-export interface SequenceStep {
+// Graph fields shared by every sequence step shape.
+// Steps without an `id` are addressed by their array index, and without `next`
+// they fall through to the following step. `next: null` ends the sequence.
+// `onOutcome` maps an observed outcome of this step (e.g. 'opened', 'bounced')
+// to the id of the step that should run instead of `next`.
+export interface SequenceNode {
+  id?: string;
   day: number;
-  channel: Channel;
+  channel: string;
   action: string;
+  next?: string | null;
+  onOutcome?: Record<string, string>;
+}
+
+export interface SequenceStep extends SequenceNode {
+  channel: Channel;
   template?: string;
-  conditions?: StepCondition[];
+  conditions?: StepConditionNode[]; // all must hold
 }
 
+export type ConditionOperator = 'eq' | 'neq' | 'gt' | 'lt' | 'contains' | 'in' | 'exists';
+
+// `field` is a dotted path over the prospect (linkedin_state, score, industry)
+// or touchpoint aggregates (touchpoints.email.opened.count)
 export interface StepCondition {
   field: string;
-  operator: 'eq' | 'neq' | 'gt' | 'lt' | 'contains';
-  value: any;
+  operator: ConditionOperator;
+  value?: any;
+}
+
+// `all` nodes are ANDed, `any` nodes are ORed; both may be nested
+export interface ConditionGroup {
+  all?: StepConditionNode[];
+  any?: StepConditionNode[];
+}
+
+export type StepConditionNode = StepCondition | ConditionGroup;
+
+// Lead scoring: rules are conditions over the scoring context (prospect fields,
+// touchpoints.*, email_events.*, calls.*, sentiment.*) worth a number of points
+export type ScoreCategory = 'firmographic' | 'verification' | 'engagement' | 'sentiment';
+
+export interface ScoringRule {
+  id: string;
+  category: ScoreCategory;
+  when: StepConditionNode | StepConditionNode[];
+  points: number;
+}
+
+// Per-campaign overrides, stored as icp_criteria.scoring
+export interface ScoringConfig {
+  rules?: ScoringRule[]; // added to the defaults; a rule with a default's id replaces it
+  weights?: Partial<Record<ScoreCategory, number>>; // multiplier per category, default 1
+  replaceDefaults?: boolean;
+}
+
+// Ideal customer profile, stored as campaigns.icp_criteria. Every criterion is optional;
+// an empty profile matches any lead that is not excluded.
+export type CompanySizeBand = '1-10' | '11-50' | '51-200' | '201-500' | '501-1000' | '1000+';
+
+export interface IcpExclusions {
+  industries?: string[];
+  states?: string[];
+  titleKeywords?: string[];
+}
+
+export interface IcpCriteria {
+  industries?: string[]; // case-insensitive substring match on prospect.industry
+  states?: string[]; // full names or USPS codes
+  companySizes?: CompanySizeBand[];
+  companySize?: 'small' | 'medium' | 'large' | CompanySizeBand; // legacy single band
+  hasWebsite?: boolean;
+  titleKeywords?: string[];
+  exclude?: IcpExclusions;
+  scoring?: ScoringConfig;
+}
+
+// Call retry ladder, stored as campaigns.call_cadence. steps[0] schedules attempt 2,
+// steps[1] attempt 3, and so on; the last step repeats until maxAttempts is reached.
+export type CallSlot = 'morning' | 'midday' | 'afternoon';
+
+export interface CallCadenceStep {
+  afterDays: number; // wait after the previous attempt
+  slot?: CallSlot; // pin the attempt to a time of day
+  changeSlot?: boolean; // default true: not the same time of day as the previous attempt
+}
+
+export interface CallCadence {
+  maxAttempts: number;
+  steps: CallCadenceStep[];
 }
 
 export interface RateLimit {
@@ -293,6 +389,7 @@ export function campaignFromRow(row: CampaignRow): Campaign {
     dailyLimits: row.daily_limits,
     businessHours: row.business_hours,
     exclusionList: row.exclusion_list,
+    callCadence: row.call_cadence,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -315,6 +412,7 @@ export function prospectFromRow(row: ProspectRow): Prospect {
     location: row.location,
     pipeline_state: row.pipeline_state,
     state: row.state,
+    timezone: row.timezone,
     linkedinState: row.linkedin_state,
     xState: row.x_state,
     emailState: row.email_state,
@@ -351,7 +449,8 @@ export function sequenceFromRow(row: SequenceRow): Sequence {
     prospectId: row.prospect_id,
     campaignId: row.campaign_id,
     templateId: row.template_id,
-    currentStep: row.current_step,
+    currentStep: String(row.current_step),
+    previousStep: row.previous_step ?? undefined,
     nextStepAt: row.next_step_at ? new Date(row.next_step_at) : undefined,
     status: row.status,
     startedAt: new Date(row.started_at),
@@ -24,6 +24,7 @@ export async function getTodayCallStats(): Promise<CallStats> {
   const { data: calls } = await supabase
     .from('call_logs')
     .select('outcome, status, duration_seconds')
+    .neq('status', 'blocked')
     .gte('created_at', `${today}T00:00:00Z`);
   
   const stats: CallStats = {
@@ -87,3 +88,27 @@ export async function postDialerUpdate(): Promise<void> {
   
   console.log('[DiscordNotifier] Posted dialer update:', stats);
 }
+
+export interface ReputationAlert {
+  title: string;
+  description: string;
+  fields: Array<{ name: string; value: string; inline?: boolean }>;
+}
+
+// Caller ID quarantines and dialer pauses from the reputation monitor. Never throws.
+export async function postReputationAlert(alert: ReputationAlert, dryRun: boolean = false): Promise<void> {
+  console.log(`[DiscordNotifier] Reputation alert${dryRun ? ' (dry run)' : ''}: ${alert.title}`);
+  if (dryRun || !DISCORD_WEBHOOK_DIALER) return;
+
+  try {
+    await postToDiscord(DISCORD_WEBHOOK_DIALER, {
+      title: `🚨 ${alert.title}`,
+      description: alert.description,
+      color: 0xFF0000,
+      fields: alert.fields,
+      timestamp: new Date().toISOString()
+    });
+  } catch (err: any) {
+    console.error('[DiscordNotifier] Failed to post reputation alert:', err.message);
+  }
+}
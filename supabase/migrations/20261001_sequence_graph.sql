@@ -0,0 +1,7 @@
+-- Branching sequences: current_step holds a step id instead of an array index
+ALTER TABLE sequences ALTER COLUMN current_step DROP DEFAULT;
+ALTER TABLE sequences ALTER COLUMN current_step TYPE text USING current_step::text;
+ALTER TABLE sequences ALTER COLUMN current_step SET DEFAULT '0';
+
+-- Last executed step, used to follow outcome edges
+ALTER TABLE sequences ADD COLUMN IF NOT EXISTS previous_step text;
@@ -0,0 +1,6 @@
+-- Per-prospect IANA timezone, inferred offline from state / area code / "City, ST"
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS timezone text;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_timezone_missing
+  ON prospects(id)
+  WHERE timezone IS NULL;
@@ -0,0 +1,94 @@
+-- Sliding-window rate limiting: one row per send, counted over the last 1h / 24h
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+  id bigserial PRIMARY KEY,
+  campaign_id text NOT NULL,
+  channel text NOT NULL,
+  sender text, -- sending identity (Instantly sender pool, caller ID)
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_campaign
+  ON rate_limit_events(campaign_id, channel, created_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_sender
+  ON rate_limit_events(channel, sender, created_at)
+  WHERE sender IS NOT NULL;
+
+-- Atomic check-and-increment. Advisory locks serialize callers sharing a
+-- campaign/channel or sender, so two workers cannot both take the last slot.
+-- Locks are always taken campaign first, then sender, to avoid deadlocks.
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_campaign_id text,
+  p_channel text,
+  p_sender text,
+  p_hourly_limit integer,
+  p_daily_limit integer,
+  p_sender_hourly_limit integer DEFAULT NULL,
+  p_sender_daily_limit integer DEFAULT NULL
+) RETURNS TABLE (
+  allowed boolean,
+  reason text,
+  hourly_count integer,
+  daily_count integer,
+  sender_hourly_count integer,
+  sender_daily_count integer
+) AS $$
+DECLARE
+  v_hourly integer;
+  v_daily integer;
+  v_sender_hourly integer := 0;
+  v_sender_daily integer := 0;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || p_campaign_id || ':' || p_channel));
+  IF p_sender IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit_sender:' || p_channel || ':' || p_sender));
+  END IF;
+
+  SELECT count(*) FILTER (WHERE e.created_at > now() - interval '1 hour'), count(*)
+    INTO v_hourly, v_daily
+    FROM rate_limit_events e
+   WHERE e.campaign_id = p_campaign_id
+     AND e.channel = p_channel
+     AND e.created_at > now() - interval '24 hours';
+
+  IF p_sender IS NOT NULL THEN
+    SELECT count(*) FILTER (WHERE e.created_at > now() - interval '1 hour'), count(*)
+      INTO v_sender_hourly, v_sender_daily
+      FROM rate_limit_events e
+     WHERE e.channel = p_channel
+       AND e.sender = p_sender
+       AND e.created_at > now() - interval '24 hours';
+  END IF;
+
+  IF v_daily >= p_daily_limit THEN
+    RETURN QUERY SELECT false, format('Daily limit reached for %s (%s/%s)', p_channel, v_daily, p_daily_limit),
+      v_hourly, v_daily, v_sender_hourly, v_sender_daily;
+    RETURN;
+  END IF;
+
+  IF v_hourly >= p_hourly_limit THEN
+    RETURN QUERY SELECT false, format('Hourly limit reached for %s (%s/%s)', p_channel, v_hourly, p_hourly_limit),
+      v_hourly, v_daily, v_sender_hourly, v_sender_daily;
+    RETURN;
+  END IF;
+
+  IF p_sender_daily_limit IS NOT NULL AND v_sender_daily >= p_sender_daily_limit THEN
+    RETURN QUERY SELECT false, format('Daily limit reached for sender %s (%s/%s)', p_sender, v_sender_daily, p_sender_daily_limit),
+      v_hourly, v_daily, v_sender_hourly, v_sender_daily;
+    RETURN;
+  END IF;
+
+  IF p_sender_hourly_limit IS NOT NULL AND v_sender_hourly >= p_sender_hourly_limit THEN
+    RETURN QUERY SELECT false, format('Hourly limit reached for sender %s (%s/%s)', p_sender, v_sender_hourly, p_sender_hourly_limit),
+      v_hourly, v_daily, v_sender_hourly, v_sender_daily;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_events (campaign_id, channel, sender)
+  VALUES (p_campaign_id, p_channel, p_sender);
+
+  RETURN QUERY SELECT true, NULL::text,
+    v_hourly + 1, v_daily + 1,
+    CASE WHEN p_sender IS NULL THEN 0 ELSE v_sender_hourly + 1 END,
+    CASE WHEN p_sender IS NULL THEN 0 ELSE v_sender_daily + 1 END;
+END;
+$$ LANGUAGE plpgsql;
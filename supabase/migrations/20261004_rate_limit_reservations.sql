@@ -0,0 +1,125 @@
+-- Rate-limit reservations: claim N slots atomically, release unused ones on failure
+ALTER TABLE rate_limit_events ADD COLUMN IF NOT EXISTS reservation_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_reservation
+  ON rate_limit_events(reservation_id)
+  WHERE reservation_id IS NOT NULL;
+
+-- Superseded by reserve_rate_limit (a single-slot reservation)
+DROP FUNCTION IF EXISTS consume_rate_limit(text, text, text, integer, integer, integer, integer);
+
+-- Claims p_count slots under every window, or as many as fit when
+-- p_allow_partial is set. Advisory locks serialize callers sharing a
+-- campaign/channel or sender; campaign lock first, then sender.
+CREATE OR REPLACE FUNCTION reserve_rate_limit(
+  p_campaign_id text,
+  p_channel text,
+  p_sender text,
+  p_count integer,
+  p_hourly_limit integer,
+  p_daily_limit integer,
+  p_sender_hourly_limit integer DEFAULT NULL,
+  p_sender_daily_limit integer DEFAULT NULL,
+  p_allow_partial boolean DEFAULT false
+) RETURNS TABLE (
+  reservation_id uuid,
+  granted integer,
+  reason text,
+  hourly_count integer,
+  daily_count integer,
+  sender_hourly_count integer,
+  sender_daily_count integer
+) AS $$
+DECLARE
+  v_hourly integer;
+  v_daily integer;
+  v_sender_hourly integer := 0;
+  v_sender_daily integer := 0;
+  v_available integer;
+  v_reason text;
+  v_granted integer;
+  v_reservation uuid;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || p_campaign_id || ':' || p_channel));
+  IF p_sender IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit_sender:' || p_channel || ':' || p_sender));
+  END IF;
+
+  SELECT count(*) FILTER (WHERE e.created_at > now() - interval '1 hour'), count(*)
+    INTO v_hourly, v_daily
+    FROM rate_limit_events e
+   WHERE e.campaign_id = p_campaign_id
+     AND e.channel = p_channel
+     AND e.created_at > now() - interval '24 hours';
+
+  IF p_sender IS NOT NULL THEN
+    SELECT count(*) FILTER (WHERE e.created_at > now() - interval '1 hour'), count(*)
+      INTO v_sender_hourly, v_sender_daily
+      FROM rate_limit_events e
+     WHERE e.channel = p_channel
+       AND e.sender = p_sender
+       AND e.created_at > now() - interval '24 hours';
+  END IF;
+
+  -- Tightest window decides how many slots are left
+  v_available := p_daily_limit - v_daily;
+  v_reason := format('Daily limit reached for %s (%s/%s)', p_channel, v_daily, p_daily_limit);
+
+  IF p_hourly_limit - v_hourly < v_available THEN
+    v_available := p_hourly_limit - v_hourly;
+    v_reason := format('Hourly limit reached for %s (%s/%s)', p_channel, v_hourly, p_hourly_limit);
+  END IF;
+
+  IF p_sender_daily_limit IS NOT NULL AND p_sender_daily_limit - v_sender_daily < v_available THEN
+    v_available := p_sender_daily_limit - v_sender_daily;
+    v_reason := format('Daily limit reached for sender %s (%s/%s)', p_sender, v_sender_daily, p_sender_daily_limit);
+  END IF;
+
+  IF p_sender_hourly_limit IS NOT NULL AND p_sender_hourly_limit - v_sender_hourly < v_available THEN
+    v_available := p_sender_hourly_limit - v_sender_hourly;
+    v_reason := format('Hourly limit reached for sender %s (%s/%s)', p_sender, v_sender_hourly, p_sender_hourly_limit);
+  END IF;
+
+  v_available := greatest(v_available, 0);
+  IF v_available >= p_count THEN
+    v_granted := p_count;
+    v_reason := NULL;
+  ELSIF p_allow_partial THEN
+    v_granted := v_available;
+  ELSE
+    v_granted := 0;
+  END IF;
+
+  IF v_granted > 0 THEN
+    v_reservation := gen_random_uuid();
+    INSERT INTO rate_limit_events (campaign_id, channel, sender, reservation_id)
+    SELECT p_campaign_id, p_channel, p_sender, v_reservation
+      FROM generate_series(1, v_granted);
+  END IF;
+
+  RETURN QUERY SELECT v_reservation, v_granted, v_reason,
+    v_hourly + v_granted, v_daily + v_granted,
+    CASE WHEN p_sender IS NULL THEN 0 ELSE v_sender_hourly + v_granted END,
+    CASE WHEN p_sender IS NULL THEN 0 ELSE v_sender_daily + v_granted END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give back unused slots of a reservation (all of them when p_count is NULL)
+CREATE OR REPLACE FUNCTION release_rate_limit(
+  p_reservation_id uuid,
+  p_count integer DEFAULT NULL
+) RETURNS integer AS $$
+DECLARE
+  v_released integer;
+BEGIN
+  DELETE FROM rate_limit_events
+   WHERE id IN (
+     SELECT id FROM rate_limit_events
+      WHERE reservation_id = p_reservation_id
+      ORDER BY id DESC
+      LIMIT p_count
+   );
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+  RETURN v_released;
+END;
+$$ LANGUAGE plpgsql;
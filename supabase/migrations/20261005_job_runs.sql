@@ -0,0 +1,67 @@
+-- Cron job bookkeeping: one leased "running" row per job name, plus outcome and counts
+CREATE TABLE IF NOT EXISTS job_runs (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_name text NOT NULL,
+  holder text, -- host:pid of the worker holding the lease
+  status text NOT NULL DEFAULT 'running', -- running, succeeded, failed, skipped, expired
+  lease_expires_at timestamptz,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  counts jsonb DEFAULT '{}',
+  error text
+);
+
+-- At most one running row per job: this is the lock
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_runs_running
+  ON job_runs(job_name)
+  WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_job_runs_job_started
+  ON job_runs(job_name, started_at DESC);
+
+-- Idempotency ledger: one row per per-prospect action (prospect + step + date)
+CREATE TABLE IF NOT EXISTS job_actions (
+  action_key text PRIMARY KEY,
+  prospect_id uuid,
+  status text NOT NULL DEFAULT 'claimed', -- claimed, done
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+-- Take the lease for a job. Expired leases (crashed workers) are reaped first.
+-- Returns the new run id, or NULL when another worker holds a live lease.
+CREATE OR REPLACE FUNCTION acquire_job_lease(
+  p_job_name text,
+  p_holder text,
+  p_lease_seconds integer
+) RETURNS uuid AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  UPDATE job_runs
+     SET status = 'expired', finished_at = now(), error = 'Lease expired'
+   WHERE job_name = p_job_name
+     AND status = 'running'
+     AND lease_expires_at < now();
+
+  INSERT INTO job_runs (job_name, holder, status, lease_expires_at)
+  VALUES (p_job_name, p_holder, 'running', now() + make_interval(secs => p_lease_seconds))
+  ON CONFLICT (job_name) WHERE status = 'running' DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Extend a live lease; false when the lease was lost
+CREATE OR REPLACE FUNCTION renew_job_lease(
+  p_run_id uuid,
+  p_lease_seconds integer
+) RETURNS boolean AS $$
+BEGIN
+  UPDATE job_runs
+     SET lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+   WHERE id = p_run_id
+     AND status = 'running';
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
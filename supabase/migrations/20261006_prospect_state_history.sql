@@ -0,0 +1,25 @@
+-- Audit log of every prospect state move, including refused and quarantined ones
+CREATE TABLE IF NOT EXISTS prospect_state_history (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  prospect_id uuid NOT NULL REFERENCES prospects(id) ON DELETE CASCADE,
+  field text NOT NULL, -- pipeline, email, voice, linkedin, x, sms
+  from_state text,
+  to_state text NOT NULL,
+  event text, -- triggering event type (reply_received, call outcome, ...)
+  event_id text, -- email_events / call_logs / channel_events id or provider message id
+  actor text NOT NULL, -- writer that requested the move
+  status text NOT NULL, -- applied, rejected, quarantined, approved, dismissed
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by text
+);
+
+CREATE INDEX IF NOT EXISTS idx_prospect_state_history_prospect
+  ON prospect_state_history(prospect_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_prospect_state_history_quarantined
+  ON prospect_state_history(created_at)
+  WHERE status = 'quarantined';
+
+-- SMS replies and opt-outs were written to an undeclared column
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS sms_state text DEFAULT 'none';
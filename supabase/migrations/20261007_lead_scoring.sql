@@ -0,0 +1,17 @@
+-- Score changes written by the recompute-scores job (src/core/lead-scoring.ts)
+CREATE TABLE IF NOT EXISTS prospect_score_history (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  prospect_id uuid NOT NULL REFERENCES prospects(id) ON DELETE CASCADE,
+  old_score int,
+  new_score int NOT NULL,
+  breakdown jsonb DEFAULT '{}', -- points per category: firmographic, verification, engagement, sentiment
+  matched_rules text[] DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prospect_score_history_prospect
+  ON prospect_score_history(prospect_id, created_at);
+
+-- Dialer and sequencers work highest-scoring prospects first
+CREATE INDEX IF NOT EXISTS idx_prospects_campaign_score
+  ON prospects(campaign_id, score DESC);
@@ -0,0 +1,38 @@
+-- Global do-not-contact list (src/core/suppression.ts). Values are normalized:
+-- emails lowercased, phones as their last 10 digits, domains without scheme/www.
+CREATE TABLE IF NOT EXISTS suppressions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  type text NOT NULL CHECK (type IN ('email', 'phone', 'domain')),
+  value text NOT NULL,
+  source text NOT NULL, -- sms_stop, call_dnc, email_unsubscribe, manual, import
+  reason text,
+  prospect_id uuid REFERENCES prospects(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (type, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppressions_source ON suppressions(source, created_at);
+
+-- Backfill opt-outs recorded before the list existed (both tables were created ad hoc)
+DO $$
+BEGIN
+  IF to_regclass('public.channel_events') IS NOT NULL THEN
+    INSERT INTO suppressions (type, value, source, reason, prospect_id, created_at)
+    SELECT DISTINCT ON (right(regexp_replace(p.phone, '\D', '', 'g'), 10))
+      'phone', right(regexp_replace(p.phone, '\D', '', 'g'), 10), 'sms_stop', 'backfill: sms opt_out', p.id, ce.created_at
+    FROM channel_events ce
+    JOIN prospects p ON p.id = ce.prospect_id
+    WHERE ce.channel = 'sms' AND ce.event_type = 'opt_out'
+      AND length(regexp_replace(coalesce(p.phone, ''), '\D', '', 'g')) >= 7
+    ON CONFLICT (type, value) DO NOTHING;
+  END IF;
+
+  IF to_regclass('public.email_events') IS NOT NULL THEN
+    INSERT INTO suppressions (type, value, source, reason, prospect_id, created_at)
+    SELECT DISTINCT ON (lower(trim(ee.prospect_email)))
+      'email', lower(trim(ee.prospect_email)), 'email_unsubscribe', 'backfill: lead_unsubscribed', ee.prospect_id, ee.created_at
+    FROM email_events ee
+    WHERE ee.event_type = 'lead_unsubscribed' AND ee.prospect_email LIKE '%@%'
+    ON CONFLICT (type, value) DO NOTHING;
+  END IF;
+END $$;
@@ -0,0 +1,8 @@
+-- Compliance decisions from src/core/compliance-guard.ts. Allowed dials store the decision on
+-- their own call log; denied dials get a row with status 'blocked' and no conversation.
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS compliance jsonb;
+ALTER TABLE call_logs ALTER COLUMN conversation_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_blocked
+  ON call_logs(created_at)
+  WHERE status = 'blocked';
@@ -0,0 +1,22 @@
+-- Call retry ladder (src/core/call-cadence.ts). campaigns.call_cadence overrides the default
+-- ladder: { "maxAttempts": 3, "steps": [{ "afterDays": 1, "changeSlot": true }, { "afterDays": 3 }] }
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS call_cadence jsonb;
+
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS call_attempts int NOT NULL DEFAULT 0;
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS last_call_at timestamptz;
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS last_call_slot text; -- morning / midday / afternoon, prospect local time
+
+-- Backfill attempts from calls already placed (slots are unknown for those)
+UPDATE prospects p
+SET call_attempts = c.attempts, last_call_at = c.last_call_at
+FROM (
+  SELECT prospect_id, count(*) AS attempts, max(created_at) AS last_call_at
+  FROM call_logs
+  WHERE prospect_id IS NOT NULL AND coalesce(status, '') NOT IN ('blocked', 'dry_run')
+  GROUP BY prospect_id
+) c
+WHERE p.id = c.prospect_id AND p.call_attempts = 0;
+
+CREATE INDEX IF NOT EXISTS idx_prospects_call_retry
+  ON prospects(voice_state, score DESC)
+  WHERE call_attempts > 0;
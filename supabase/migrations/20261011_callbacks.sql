@@ -0,0 +1,13 @@
+-- Callback queue (src/core/callback-queue.ts): the post-call webhook resolves "call me Thursday
+-- after 2" to callback_at in the prospect's timezone; the dialer drains pending ones first.
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS callback_at timestamptz;
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS callback_status text; -- pending, completed, cancelled
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS callback_phrase text; -- what the prospect said
+
+UPDATE call_logs
+SET callback_status = 'pending'
+WHERE callback_at IS NOT NULL AND callback_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_pending_callbacks
+  ON call_logs(callback_at)
+  WHERE callback_status = 'pending';
@@ -0,0 +1,27 @@
+-- Caller ID pool (src/core/caller-id-pool.ts): owned numbers the dialer and SMS sender rotate
+-- through by area code / state, with daily usage caps and rest periods for flagged numbers.
+CREATE TABLE IF NOT EXISTS caller_numbers (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number text NOT NULL UNIQUE, -- E.164
+  area_code text NOT NULL,
+  state text,
+  elevenlabs_phone_number_id text, -- required for voice
+  channels text[] NOT NULL DEFAULT '{voice,sms}',
+  status text NOT NULL DEFAULT 'active', -- active, retired
+  daily_limit int NOT NULL DEFAULT 50,
+  usage_date date,
+  usage_count int NOT NULL DEFAULT 0,
+  spam_score numeric,
+  rested_until timestamptz,
+  rest_reason text,
+  last_used_at timestamptz,
+  last_checked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caller_numbers_area_code ON caller_numbers(area_code) WHERE status = 'active';
+
+-- Number each call went out on (null: the default TWILIO_PHONE_NUMBER / agent number)
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS caller_number text;
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_caller_number ON call_logs(caller_number, created_at);
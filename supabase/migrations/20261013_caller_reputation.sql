@@ -0,0 +1,36 @@
+-- Caller ID reputation monitor (src/monitoring/reputation-monitor.ts): scheduled snapshots of each
+-- number's spam score and answer metrics, plus the dialer stop switch it (or a person) can pull.
+CREATE TABLE IF NOT EXISTS caller_reputation_snapshots (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  phone_number text NOT NULL,
+  window_hours int NOT NULL,
+  spam_score numeric,
+  flagged boolean NOT NULL DEFAULT false,
+  carrier_flags text[] NOT NULL DEFAULT '{}',
+  total_calls int NOT NULL DEFAULT 0,
+  answered int NOT NULL DEFAULT 0,
+  answer_rate numeric NOT NULL DEFAULT 0, -- %
+  short_calls int NOT NULL DEFAULT 0,
+  short_call_ratio numeric NOT NULL DEFAULT 0, -- %
+  avg_duration_seconds numeric NOT NULL DEFAULT 0,
+  answer_rate_delta numeric, -- vs baseline, percentage points
+  short_call_ratio_delta numeric,
+  breaches text[] NOT NULL DEFAULT '{}',
+  action text NOT NULL DEFAULT 'none', -- none, quarantined, dialer_paused
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caller_reputation_snapshots_number
+  ON caller_reputation_snapshots(phone_number, created_at);
+
+CREATE TABLE IF NOT EXISTS dialer_pauses (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  reason text NOT NULL,
+  source text NOT NULL, -- reputation-monitor, manual
+  paused_until timestamptz, -- null = until resumed
+  resumed_at timestamptz,
+  resumed_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dialer_pauses_open ON dialer_pauses(created_at) WHERE resumed_at IS NULL;
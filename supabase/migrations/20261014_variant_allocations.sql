@@ -0,0 +1,18 @@
+-- Voice variant allocation log (src/core/ab-router.ts): one row per allocation decision with the
+-- mode, what it ranked on and the per-variant stats it saw, so experiments can be audited.
+CREATE TABLE IF NOT EXISTS variant_allocations (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  variant_id text NOT NULL,
+  mode text NOT NULL, -- round_robin, weighted, epsilon_greedy, thompson
+  explored boolean NOT NULL DEFAULT false,
+  reason text,
+  scores jsonb NOT NULL DEFAULT '{}',
+  stats jsonb NOT NULL DEFAULT '[]',
+  config jsonb,
+  prospect_id uuid REFERENCES prospects(id) ON DELETE SET NULL,
+  call_log_id uuid REFERENCES call_logs(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_variant_allocations_created_at ON variant_allocations(created_at);
+CREATE INDEX IF NOT EXISTS idx_variant_allocations_variant ON variant_allocations(variant_id, created_at);
@@ -0,0 +1,39 @@
+-- Voice A/B experiment registry (src/core/experiment-registry.ts). variants.json stays the seed;
+-- every variant config change is a new experiment_variants row, and calls reference the version used.
+CREATE TABLE IF NOT EXISTS experiments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  key text NOT NULL UNIQUE,
+  name text NOT NULL,
+  hypothesis text,
+  status text NOT NULL DEFAULT 'draft', -- draft, running, stopped
+  allocation jsonb, -- AllocationConfig overrides (mode, epsilon, ...)
+  started_at timestamptz,
+  stopped_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS experiment_variants (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  experiment_id uuid NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+  variant_id text NOT NULL, -- stable across versions; call_logs.agent_variant
+  version int NOT NULL,
+  agent_id text NOT NULL,
+  name text NOT NULL,
+  weight numeric NOT NULL DEFAULT 1,
+  enabled boolean NOT NULL DEFAULT true,
+  config jsonb NOT NULL DEFAULT '{}', -- voice, personality, llm, style, ...
+  created_at timestamptz NOT NULL DEFAULT now(),
+  retired_at timestamptz, -- replaced by a newer version
+  UNIQUE (experiment_id, variant_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_variants_current ON experiment_variants(experiment_id) WHERE retired_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_experiment_variants_agent ON experiment_variants(agent_id, created_at);
+
+-- Variant version each call ran with (null: variants.json, no experiment running)
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS experiment_variant_id uuid REFERENCES experiment_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_experiment_variant ON call_logs(experiment_variant_id);
+
+ALTER TABLE variant_allocations ADD COLUMN IF NOT EXISTS experiment_id uuid REFERENCES experiments(id) ON DELETE SET NULL;
+ALTER TABLE variant_allocations ADD COLUMN IF NOT EXISTS experiment_variant_id uuid REFERENCES experiment_variants(id) ON DELETE SET NULL;
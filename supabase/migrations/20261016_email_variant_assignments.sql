@@ -0,0 +1,19 @@
+-- Email subject/body A/B tests (src/core/email-experiments.ts): the variant each lead got per step of
+-- the Instantly campaign sequence, stamped by api/email-webhook.ts as sends, opens, replies and bounces arrive.
+CREATE TABLE IF NOT EXISTS email_variant_assignments (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  prospect_id uuid REFERENCES prospects(id) ON DELETE SET NULL,
+  prospect_email text NOT NULL, -- lowercased
+  campaign_id text, -- Instantly campaign
+  sequence text NOT NULL, -- templates/email-sequences.ts sequence name
+  step int NOT NULL, -- 1-based
+  variant_id text NOT NULL, -- 'control' = the step's own copy
+  assigned_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  opened_at timestamptz,
+  replied_at timestamptz,
+  bounced_at timestamptz,
+  UNIQUE (prospect_email, campaign_id, sequence, step)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_variant_assignments_assigned_at ON email_variant_assignments(assigned_at);
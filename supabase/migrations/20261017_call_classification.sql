@@ -0,0 +1,3 @@
+-- Structured transcript classification from the post-call webhook (src/core/transcript-classifier.ts):
+-- outcome, confidence, objections, extracted email / phone / callback time, summary and which classifier ran
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS classification jsonb;
@@ -0,0 +1,26 @@
+-- Meeting bookings from the post-call webhook (src/core/booking-resolver.ts, src/core/booking-queue.ts):
+-- every booking decision with the transcript excerpt behind it. Times that didn't match an offered slot
+-- cleanly wait here as 'needs_confirmation' until someone confirms (books) or dismisses them.
+CREATE TABLE IF NOT EXISTS booking_decisions (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id text,
+  prospect_name text,
+  prospect_phone text,
+  prospect_email text,
+  ghl_contact_id text,
+  status text NOT NULL, -- booked, needs_confirmation, confirmed, dismissed
+  reason text NOT NULL,
+  slot_time timestamptz, -- the booked (or confirmed) slot
+  spoken_time timestamptz, -- what the transcript resolved to
+  timezone text NOT NULL, -- prospect's timezone the transcript was read in
+  offered_slots jsonb, -- slots the agent had during the call (or the calendar's, see offered_source)
+  offered_source text, -- transcript, calendar
+  conflicts text[] NOT NULL DEFAULT '{}',
+  excerpt text NOT NULL DEFAULT '',
+  ghl_appointment_id text,
+  resolved_at timestamptz,
+  resolved_by text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_decisions_status ON booking_decisions(status, created_at);
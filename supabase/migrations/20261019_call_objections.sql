@@ -0,0 +1,28 @@
+-- Objection analytics (src/core/objection-analytics.ts): every objection detectObjection finds in a stored
+-- transcript, one row per prospect turn, with the call's variant, industry and script template copied on
+-- so reports group without joins. call_logs.objections_analyzed_at marks calls already scanned
+-- (including those with no objections).
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS script_template text;
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS objections_analyzed_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS call_objections (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  call_log_id uuid NOT NULL REFERENCES call_logs(id) ON DELETE CASCADE,
+  turn_index int NOT NULL, -- position in the transcript
+  objection_type text NOT NULL, -- dialer ObjectionType
+  confidence numeric NOT NULL,
+  matched_phrase text NOT NULL,
+  excerpt text NOT NULL, -- the prospect's line
+  turns_to_end int NOT NULL, -- transcript turns after this one
+  recovered boolean NOT NULL DEFAULT false, -- the prospect showed interest later in the call
+  outcome text, -- call outcome when analyzed
+  agent_variant text,
+  industry text,
+  script_template text,
+  call_created_at timestamptz NOT NULL,
+  analyzed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (call_log_id, turn_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_objections_call_created_at ON call_objections(call_created_at);
+CREATE INDEX IF NOT EXISTS idx_call_logs_objections_analyzed_at ON call_logs(objections_analyzed_at) WHERE objections_analyzed_at IS NULL;
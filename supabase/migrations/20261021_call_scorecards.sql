@@ -0,0 +1,9 @@
+-- Call QA scorecards (src/core/call-scorecard.ts): talk/listen ratio, interruptions, script stages covered,
+-- objections handled and whether the agent asked for the meeting, scored by the post-call webhook or the
+-- qa:score backfill. qa_scored_at marks calls already scored; voicemail and no-answer calls keep a null score.
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS qa_score smallint;
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS qa_scorecard jsonb;
+ALTER TABLE call_logs ADD COLUMN IF NOT EXISTS qa_scored_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_call_logs_qa_scored_at ON call_logs(qa_scored_at) WHERE qa_scored_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_call_logs_qa_created_at ON call_logs(created_at) WHERE qa_score IS NOT NULL;
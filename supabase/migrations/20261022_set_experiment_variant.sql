@@ -0,0 +1,35 @@
+-- New experiment variant version in one transaction (src/core/experiment-registry.ts setVariant): retire
+-- the current version and insert its replacement, so a failed insert can't leave the variant with no active
+-- version. p_current_id is null for a brand-new variant; raises if that version was retired meanwhile.
+CREATE OR REPLACE FUNCTION set_experiment_variant(
+  p_experiment_id uuid,
+  p_variant_id text,
+  p_current_id uuid,
+  p_version integer,
+  p_agent_id text,
+  p_name text,
+  p_weight numeric,
+  p_enabled boolean,
+  p_config jsonb,
+  p_now timestamptz DEFAULT now()
+) RETURNS experiment_variants AS $$
+DECLARE
+  v_row experiment_variants;
+BEGIN
+  IF p_current_id IS NOT NULL THEN
+    UPDATE experiment_variants
+       SET retired_at = p_now
+     WHERE id = p_current_id
+       AND retired_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Version % of % is no longer current', p_current_id, p_variant_id;
+    END IF;
+  END IF;
+
+  INSERT INTO experiment_variants (experiment_id, variant_id, version, agent_id, name, weight, enabled, config)
+  VALUES (p_experiment_id, p_variant_id, p_version, p_agent_id, p_name, p_weight, p_enabled, p_config)
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,34 @@
+-- Call cadence (src/core/call-cadence.ts) reads and writes that have to be exact under load.
+
+-- Newest call outcome per prospect (blocked rows excluded), one row each however long the call history is
+CREATE OR REPLACE FUNCTION last_call_outcomes(p_prospect_ids uuid[])
+RETURNS TABLE (prospect_id uuid, outcome text) AS $$
+  SELECT DISTINCT ON (c.prospect_id) c.prospect_id, c.outcome
+    FROM call_logs c
+   WHERE c.prospect_id = ANY(p_prospect_ids)
+     AND c.status <> 'blocked'
+   ORDER BY c.prospect_id, c.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Count a dial in one statement so concurrent dialers can't lose attempts; returns the new count
+CREATE OR REPLACE FUNCTION record_call_attempt(
+  p_prospect_id uuid,
+  p_at timestamptz,
+  p_slot text
+) RETURNS integer AS $$
+DECLARE
+  v_attempts integer;
+BEGIN
+  UPDATE prospects
+     SET call_attempts = call_attempts + 1,
+         last_call_at = p_at,
+         last_call_slot = p_slot
+   WHERE id = p_prospect_id
+  RETURNING call_attempts INTO v_attempts;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prospect % not found', p_prospect_id;
+  END IF;
+  RETURN v_attempts;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,25 @@
+-- Caller ID pool usage (src/core/caller-id-pool.ts), counted in SQL so concurrent dialers and SMS sends
+-- can't overwrite each other's counts.
+
+-- Count a call or text against the number's daily usage, starting over on a new UTC day; returns the new count
+CREATE OR REPLACE FUNCTION record_caller_number_use(
+  p_number_id uuid,
+  p_at timestamptz
+) RETURNS integer AS $$
+DECLARE
+  v_today date := (p_at AT TIME ZONE 'UTC')::date;
+  v_count integer;
+BEGIN
+  UPDATE caller_numbers
+     SET usage_count = CASE WHEN usage_date = v_today THEN usage_count + 1 ELSE 1 END,
+         usage_date = v_today,
+         last_used_at = p_at
+   WHERE id = p_number_id
+  RETURNING usage_count INTO v_count;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Caller number % not found', p_number_id;
+  END IF;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,3 @@
+-- Job title and company size from lead imports, matched against campaign ICP criteria (src/core/icp-matcher.ts)
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS title text;
+ALTER TABLE prospects ADD COLUMN IF NOT EXISTS company_size text; -- as imported: "11-50", "200"
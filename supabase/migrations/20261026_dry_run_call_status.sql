@@ -0,0 +1,7 @@
+-- Dry-run calls used to end with the simulated call's status ('answered', 'failed') in place of 'dry_run',
+-- so experiment stats, the variant allocator, cadence and QA scoring counted their random outcomes.
+-- The call engine keeps 'dry_run' now; relabel the rows written before that (notes start "DRY RUN").
+UPDATE call_logs
+   SET status = 'dry_run'
+ WHERE notes LIKE 'DRY RUN%'
+   AND coalesce(status, '') <> 'dry_run';
@@ -0,0 +1,11 @@
+-- last_call_outcomes() skipped blocked attempts only, so a dry run's simulated outcome could become a
+-- prospect's last outcome (and close its cadence), and rows with no status dropped out. Use the same
+-- filter as the 20261010 backfill.
+CREATE OR REPLACE FUNCTION last_call_outcomes(p_prospect_ids uuid[])
+RETURNS TABLE (prospect_id uuid, outcome text) AS $$
+  SELECT DISTINCT ON (c.prospect_id) c.prospect_id, c.outcome
+    FROM call_logs c
+   WHERE c.prospect_id = ANY(p_prospect_ids)
+     AND coalesce(c.status, '') NOT IN ('blocked', 'dry_run')
+   ORDER BY c.prospect_id, c.created_at DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,86 @@
+-- search_conversations() matched industry with ILIKE, so '%' and '_' in the filter acted as wildcards.
+-- Same function with a case-insensitive exact match, as documented in src/core/transcript-search.ts.
+-- Call-only filters (outcome, objection) leave email replies out.
+CREATE OR REPLACE FUNCTION search_conversations(
+  p_query text DEFAULT NULL,
+  p_sources text[] DEFAULT ARRAY['call', 'email'],
+  p_variant text DEFAULT NULL,
+  p_outcome text DEFAULT NULL,
+  p_industry text DEFAULT NULL,
+  p_objection text DEFAULT NULL,
+  p_label text DEFAULT NULL,
+  p_tag text DEFAULT NULL,
+  p_since timestamptz DEFAULT NULL,
+  p_until timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 25
+) RETURNS TABLE (
+  source text,
+  id uuid,
+  conversation_id text,
+  prospect_id uuid,
+  prospect_name text,
+  company text,
+  industry text,
+  variant text,
+  outcome text,
+  review_label text,
+  created_at timestamptz,
+  rank real,
+  snippet text
+) AS $$
+  WITH q AS (
+    SELECT CASE WHEN coalesce(trim(p_query), '') = '' THEN NULL ELSE websearch_to_tsquery('english', p_query) END AS tsq
+  )
+  SELECT results.* FROM (
+    SELECT 'call'::text AS source, c.id, c.conversation_id, c.prospect_id, p.name AS prospect_name, p.company, p.industry,
+           c.agent_variant AS variant, c.outcome, c.review_label, c.created_at,
+           CASE WHEN q.tsq IS NULL THEN 0::real ELSE ts_rank(c.transcript_search, q.tsq) END AS rank,
+           CASE WHEN q.tsq IS NULL THEN NULL ELSE ts_headline('english',
+             regexp_replace(c.transcript #>> '{}', '"[a-z_]+"\s*:', ' ', 'g'), q.tsq, 'MaxFragments=2, MaxWords=25, MinWords=8') END AS snippet
+      FROM call_logs c
+      CROSS JOIN q
+      LEFT JOIN prospects p ON p.id = c.prospect_id
+     WHERE 'call' = ANY(p_sources)
+       AND c.transcript IS NOT NULL
+       AND coalesce(c.status, '') NOT IN ('blocked', 'dry_run')
+       AND (q.tsq IS NULL OR c.transcript_search @@ q.tsq)
+       AND (p_variant IS NULL OR c.agent_variant = p_variant)
+       AND (p_outcome IS NULL OR c.outcome = p_outcome)
+       AND (p_industry IS NULL OR lower(p.industry) = lower(p_industry))
+       AND (p_objection IS NULL OR EXISTS (
+         SELECT 1 FROM call_objections o WHERE o.call_log_id = c.id AND o.objection_type = p_objection))
+       AND (p_label IS NULL OR c.review_label = p_label)
+       AND (p_tag IS NULL OR EXISTS (
+         SELECT 1 FROM conversation_annotations a WHERE a.call_log_id = c.id AND p_tag = ANY(a.tags)))
+       AND (p_since IS NULL OR c.created_at >= p_since)
+       AND (p_until IS NULL OR c.created_at <= p_until)
+    UNION ALL
+    SELECT 'email'::text, e.id, NULL, e.prospect_id, p.name, p.company, p.industry,
+           e.metadata->>'email_variant', NULL, latest.label, e.created_at,
+           CASE WHEN q.tsq IS NULL THEN 0::real ELSE ts_rank(e.reply_search, q.tsq) END,
+           CASE WHEN q.tsq IS NULL THEN NULL ELSE ts_headline('english',
+             coalesce(e.metadata->>'reply_text', ''), q.tsq, 'MaxFragments=2, MaxWords=25, MinWords=8') END
+      FROM email_events e
+      CROSS JOIN q
+      LEFT JOIN prospects p ON p.id = e.prospect_id
+      LEFT JOIN LATERAL (
+        SELECT a.label FROM conversation_annotations a
+         WHERE a.email_event_id = e.id AND a.label IS NOT NULL
+         ORDER BY a.created_at DESC LIMIT 1
+      ) latest ON true
+     WHERE 'email' = ANY(p_sources)
+       AND e.event_type = 'reply_received'
+       AND p_outcome IS NULL
+       AND p_objection IS NULL
+       AND (q.tsq IS NULL OR e.reply_search @@ q.tsq)
+       AND (p_variant IS NULL OR e.metadata->>'email_variant' = p_variant)
+       AND (p_industry IS NULL OR lower(p.industry) = lower(p_industry))
+       AND (p_label IS NULL OR latest.label = p_label)
+       AND (p_tag IS NULL OR EXISTS (
+         SELECT 1 FROM conversation_annotations a WHERE a.email_event_id = e.id AND p_tag = ANY(a.tags)))
+       AND (p_since IS NULL OR e.created_at >= p_since)
+       AND (p_until IS NULL OR e.created_at <= p_until)
+  ) results
+  ORDER BY results.rank DESC, results.created_at DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;